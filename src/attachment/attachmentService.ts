@@ -0,0 +1,201 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Event} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {EVENT_TYPE, vulnerability} from "../common/types";
+import {redactText} from "../redaction/utils";
+import {
+    ATTACHMENT_MODE,
+    attachmentMaxBytes,
+    buildLogMaxLines,
+    defaultAttachmentMode,
+    defaultReportFormat,
+    GENERATED_FILES_KEY,
+    inlineMaxBytes,
+    REPORT_FORMAT,
+} from "./utils";
+
+export interface GeneratedFile {
+    filename: string
+    contentType: string
+    // html when the file is shown in the body of the email
+    content: string
+    // set when vulnerabilities or log lines were left out to keep to the size limit
+    note?: string
+}
+
+const severityOrder = ["critical", "high", "medium", "low"]
+const csvColumns: [string, keyof vulnerability][] = [["CVE", "CVEName"], ["Severity", "severity"], ["Package", "package"], ["Current Version", "currentVersion"], ["Fixed Version", "fixedVersion"], ["Permission", "permission"]]
+
+// generates the vulnerability report of image scans and the build log excerpt of failed builds for SES and SMTP emails
+export class AttachmentService {
+    private mh: MustacheHelper
+    private logger: any
+
+    constructor(mh: MustacheHelper, logger: any) {
+        this.mh = mh
+        this.logger = logger
+    }
+
+    // removes the choice of the template from the rendered email, emails without an html body get their files attached
+    public attach(email: any, event: Event, setting: NotificationSettings): any {
+        if (!email || typeof email !== "object") {
+            return email
+        }
+        const options = email[GENERATED_FILES_KEY] ?? {}
+        delete email[GENERATED_FILES_KEY]
+        const mode = this.parseOption(options.mode, Object.values(ATTACHMENT_MODE), defaultAttachmentMode, "mode")
+        const format = this.parseOption(options.format, Object.values(REPORT_FORMAT), defaultReportFormat, "format")
+        if (mode == ATTACHMENT_MODE.None) {
+            return email
+        }
+        const inline = mode == ATTACHMENT_MODE.Inline && typeof email.html === "string"
+        const limit = inline ? inlineMaxBytes : attachmentMaxBytes
+        const files = [this.vulnerabilityReport(event, setting, format, inline, limit), this.buildLogExcerpt(event, inline, limit)].filter(file => !!file)
+        for (const file of files) {
+            if (inline) {
+                email.html += file.content
+            } else {
+                email.attachments = [...(email.attachments ?? []), {filename: file.filename, contentType: file.contentType, content: file.content}]
+            }
+            if (file.note) {
+                this.logger.info(file.filename + ": " + file.note)
+                if (typeof email.html === "string") {
+                    email.html += '<p style="font-size: 12px; color: #767d84;">' + escapeHtml(file.note) + '</p>'
+                } else if (typeof email.text === "string") {
+                    email.text += "\n\n" + file.note
+                }
+            }
+        }
+        return email
+    }
+
+    // scan results are keyed by the notification setting the email is sent through, the most severe vulnerabilities come first
+    private vulnerabilityReport(event: Event, setting: NotificationSettings, format: REPORT_FORMAT, inline: boolean, limit: number): GeneratedFile {
+        if (event.eventTypeId !== EVENT_TYPE.ImageScan || !setting) {
+            return undefined
+        }
+        const info = event.payload?.imageScanExecutionInfo?.[setting.id]
+        const vulnerabilities = this.mh.mapVulnerabilities(info).sort((a, b) => severityRank(a.severity) - severityRank(b.severity))
+        if (!vulnerabilities.length) {
+            return undefined
+        }
+        const render = (count: number): string => {
+            const rows = vulnerabilities.slice(0, count)
+            if (inline) {
+                return vulnerabilityTable(rows)
+            }
+            if (format == REPORT_FORMAT.Json) {
+                return JSON.stringify({scannedAt: info.scannedAt, scannedBy: info.scannedBy, severityCount: this.mh.mapSeverityCount(info), vulnerabilities: rows}, null, 2)
+            }
+            return [csvColumns.map(([title]) => title), ...rows.map(row => csvColumns.map(([, key]) => row[key]))].map(csvLine).join("\r\n") + "\r\n"
+        }
+        const count = fit(vulnerabilities.length, render, limit)
+        if (count == 0) {
+            this.logger.warn("vulnerability report of event " + event.correlationId + " exceeds " + limit + " bytes")
+            return undefined
+        }
+        return {
+            filename: fileName(event.payload, "vulnerabilities." + (format == REPORT_FORMAT.Json ? "json" : "csv")),
+            contentType: format == REPORT_FORMAT.Json ? "application/json" : "text/csv",
+            content: render(count),
+            note: count < vulnerabilities.length ? "The report lists the " + count + " most severe of " + vulnerabilities.length + " vulnerabilities, the others exceed its size limit." : undefined,
+        }
+    }
+
+    // failed builds only send the end of their log, where the failure usually is
+    private buildLogExcerpt(event: Event, inline: boolean, limit: number): GeneratedFile {
+        const log = event.payload?.buildLog
+        if (event.eventTypeId !== EVENT_TYPE.Fail || event.pipelineType !== "CI" || typeof log !== "string" || !log.trim()) {
+            return undefined
+        }
+        // logs may print secrets and colour codes
+        const lines = redactText(log.replace(/\u001b\[[0-9;]*[A-Za-z]/g, "")).replace(/\s+$/, "").split(/\r?\n/)
+        const tail = lines.slice(-buildLogMaxLines)
+        const render = (count: number): string => {
+            const excerpt = tail.slice(tail.length - count).join("\n")
+            return inline ? '<h3>Build log</h3><pre style="font-size: 12px; white-space: pre-wrap;">' + escapeHtml(excerpt) + '</pre>' : excerpt + "\n"
+        }
+        const count = fit(tail.length, render, limit)
+        if (count == 0) {
+            this.logger.warn("build log of event " + event.correlationId + " exceeds " + limit + " bytes")
+            return undefined
+        }
+        return {
+            filename: fileName(event.payload, "build.log"),
+            contentType: "text/plain",
+            content: render(count),
+            note: count < lines.length ? "The build log excerpt holds the last " + count + " of " + lines.length + " lines." : undefined,
+        }
+    }
+
+    private parseOption<T extends string>(value: any, values: T[], defaultValue: T, name: string): T {
+        if (value === undefined) {
+            return defaultValue
+        }
+        if (!values.includes(value)) {
+            this.logger.warn("template has " + GENERATED_FILES_KEY + "." + name + " " + value + ", one of " + values.join(", ") + " was expected, using " + defaultValue)
+            return defaultValue
+        }
+        return value
+    }
+}
+
+// the most items whose rendering keeps to the limit
+function fit(total: number, render: (count: number) => string, limit: number): number {
+    let low = 0
+    let high = total
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2)
+        if (Buffer.byteLength(render(middle)) <= limit) {
+            low = middle
+        } else {
+            high = middle - 1
+        }
+    }
+    return low
+}
+
+function severityRank(severity: string): number {
+    const rank = severityOrder.indexOf(String(severity).toLowerCase())
+    return rank == -1 ? severityOrder.length : rank
+}
+
+function vulnerabilityTable(rows: vulnerability[]): string {
+    const cell = 'style="border: 1px solid #d0d4d9; padding: 4px 8px; text-align: left;"'
+    const header = '<tr>' + csvColumns.map(([title]) => '<th ' + cell + '>' + title + '</th>').join("") + '</tr>'
+    const body = rows.map(row => '<tr>' + csvColumns.map(([, key]) => '<td ' + cell + '>' + escapeHtml(row[key] ?? "") + '</td>').join("") + '</tr>').join("")
+    return '<h3>Vulnerabilities</h3><table style="border-collapse: collapse; font-size: 12px;">' + header + body + '</table>'
+}
+
+function csvLine(values: any[]): string {
+    return values.map(value => {
+        const text = String(value ?? "")
+        return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text
+    }).join(",")
+}
+
+// e.g. payments-prod-vulnerabilities.csv
+function fileName(payload: any, suffix: string): string {
+    const prefix = [payload?.appName, payload?.envName ?? payload?.pipelineName].filter(part => !!part).join("-")
+    return (prefix ? prefix.replace(/[^A-Za-z0-9._-]+/g, "-") + "-" : "") + suffix
+}
+
+function escapeHtml(text: string): string {
+    return String(text).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;")
+}
@@ -0,0 +1,37 @@
+import * as process from "process";
+
+// how the files generated for an email are delivered, templates choose through their "generatedFiles" key
+export enum ATTACHMENT_MODE {
+    None = "none",
+    Inline = "inline",            // shown in the body of the email
+    Attachment = "attachment",    // attached to the email
+}
+
+export enum REPORT_FORMAT {
+    Csv = "csv",
+    Json = "json",
+}
+
+// key of the rendered email template which holds the choice, it is removed before the email is sent, e.g. {"generatedFiles": {"mode": "inline", "format": "json"}}
+export const GENERATED_FILES_KEY = "generatedFiles"
+
+function readInteger(name: string, defaultValue: number): number {
+    const value = parseInt(process.env[name])
+    return !isNaN(value) && value > 0 ? value : defaultValue
+}
+
+function readEnum<T extends string>(name: string, values: T[], defaultValue: T): T {
+    const value = process.env[name] as T
+    return values.includes(value) ? value : defaultValue
+}
+
+// used by templates which don't choose
+export const defaultAttachmentMode: ATTACHMENT_MODE = readEnum("EMAIL_ATTACHMENT_MODE", Object.values(ATTACHMENT_MODE), ATTACHMENT_MODE.Attachment)
+export const defaultReportFormat: REPORT_FORMAT = readEnum("EMAIL_REPORT_FORMAT", Object.values(REPORT_FORMAT), REPORT_FORMAT.Csv)
+
+// bytes a single attached file may have, vulnerabilities and log lines beyond it are left out
+export const attachmentMaxBytes: number = readInteger("ATTACHMENT_MAX_BYTES", 1048576)
+// bytes a single file shown in the body of an email may have
+export const inlineMaxBytes: number = readInteger("ATTACHMENT_INLINE_MAX_BYTES", 102400)
+// lines of the end of the build log of a failed build which are sent
+export const buildLogMaxLines: number = readInteger("BUILD_LOG_MAX_LINES", 200)
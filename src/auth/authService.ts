@@ -0,0 +1,64 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import express from "express";
+import {AuthClient, SCOPE} from "./utils";
+import {Authenticator, CertificateAuthenticator, HmacAuthenticator, TokenAuthenticator} from "./authenticators";
+import {CustomError} from "../entities/events";
+
+// a request is authenticated by the first authenticator it carries credentials for
+export class AuthService {
+    private clients: AuthClient[]
+    private configApiClient: AuthClient
+    private authenticators: Authenticator[]
+    private logger: any
+
+    constructor(clients: AuthClient[], configApiClient: AuthClient, logger: any) {
+        this.clients = clients
+        this.configApiClient = configApiClient
+        const all = configApiClient ? [...clients, configApiClient] : clients
+        this.authenticators = [new TokenAuthenticator(all), new HmacAuthenticator(all), new CertificateAuthenticator(all)]
+        this.logger = logger
+    }
+
+    // without any configured client the api is served as before, i.e. only the admin routes need credentials
+    public isEnabled(): boolean {
+        return this.clients.length > 0
+    }
+
+    // the admin routes are served to the configured clients and to the config api token
+    public isAdminEnabled(): boolean {
+        return this.isEnabled() || !!this.configApiClient
+    }
+
+    public authorize(req: express.Request, scope: SCOPE): AuthClient {
+        let client: AuthClient
+        for (const authenticator of this.authenticators) {
+            client = authenticator.authenticate(req)
+            if (client) {
+                break
+            }
+        }
+        if (!client) {
+            throw new CustomError("missing credentials", 401)
+        }
+        if (!client.scopes.includes(scope)) {
+            this.logger.warn("client " + client.name + " is not allowed to " + req.method + " " + req.path)
+            throw new CustomError("client " + client.name + " lacks the " + scope + " scope", 403)
+        }
+        return client
+    }
+}
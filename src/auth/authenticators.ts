@@ -0,0 +1,144 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {createHash, createHmac, timingSafeEqual} from "crypto";
+import {TLSSocket} from "tls";
+import express from "express";
+import {AUTH_HEADER, AuthClient, hmacTolerance} from "./utils";
+import {CustomError} from "../entities/events";
+
+declare global {
+    namespace Express {
+        interface Request {
+            // the body as it was sent, kept by the json parser since signatures are computed over it
+            rawBody?: string
+        }
+    }
+}
+
+// returns the client the request was sent by, undefined when the request doesn't carry credentials of its kind,
+// and throws when it carries credentials which are invalid
+export interface Authenticator {
+    authenticate(req: express.Request): AuthClient
+}
+
+// compares digests, so that neither the content nor the length of the expected value leaks through timing
+function safeEqual(value: string, expected: string): boolean {
+    const digest = (text: string) => createHash("sha256").update(text).digest()
+    return timingSafeEqual(digest(value), digest(expected))
+}
+
+// Authorization: Bearer <token>
+export class TokenAuthenticator implements Authenticator {
+    private clients: AuthClient[]
+
+    constructor(clients: AuthClient[]) {
+        this.clients = clients.filter(client => !!client.token)
+    }
+
+    authenticate(req: express.Request): AuthClient {
+        const header = req.headers.authorization
+        if (!header || !/^Bearer\s+/i.test(header)) {
+            return undefined
+        }
+        const token = header.replace(/^Bearer\s+/i, "")
+        const client = this.clients.find(client => safeEqual(token, client.token))
+        if (!client) {
+            throw new CustomError("invalid bearer token", 401)
+        }
+        return client
+    }
+}
+
+// X-Notifier-Signature: sha256=<hex hmac of "<timestamp>.<method>.<path>.<body>">, along with X-Notifier-Client and
+// X-Notifier-Timestamp. Requests older than AUTH_HMAC_TOLERANCE are rejected, as are signatures this instance has seen before
+export class HmacAuthenticator implements Authenticator {
+    private clients: AuthClient[]
+    // signatures by the time they fall out of the tolerance
+    private seen = new Map<string, number>()
+
+    constructor(clients: AuthClient[]) {
+        this.clients = clients.filter(client => !!client.hmacSecret)
+    }
+
+    authenticate(req: express.Request): AuthClient {
+        const signature = req.header(AUTH_HEADER.Signature)
+        if (!signature) {
+            return undefined
+        }
+        const client = this.clients.find(client => client.name == req.header(AUTH_HEADER.Client))
+        if (!client) {
+            throw new CustomError("unknown client in " + AUTH_HEADER.Client, 401)
+        }
+        const timestamp = Number(req.header(AUTH_HEADER.Timestamp))
+        const now = Date.now() / 1000
+        if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > hmacTolerance) {
+            throw new CustomError(AUTH_HEADER.Timestamp + " must be a unix timestamp within " + hmacTolerance + "s of now", 401)
+        }
+        const body = req.rawBody ?? ""
+        const expected = "sha256=" + createHmac("sha256", client.hmacSecret).update(timestamp + "." + req.method + "." + req.originalUrl + "." + body).digest("hex")
+        if (!safeEqual(signature, expected)) {
+            throw new CustomError("invalid signature", 401)
+        }
+        this.forgetExpired(now)
+        if (this.seen.has(signature)) {
+            throw new CustomError("signature was already used", 401)
+        }
+        this.seen.set(signature, timestamp + hmacTolerance)
+        return client
+    }
+
+    private forgetExpired(now: number) {
+        for (const [signature, expiry] of this.seen) {
+            if (expiry < now) {
+                this.seen.delete(signature)
+            }
+        }
+    }
+}
+
+// client certificates are verified against TLS_CLIENT_CA_FILE by the https server, their subject has to have
+// every attribute of a client's certSubject
+export class CertificateAuthenticator implements Authenticator {
+    private clients: AuthClient[]
+
+    constructor(clients: AuthClient[]) {
+        this.clients = clients.filter(client => !!client.certSubject)
+    }
+
+    authenticate(req: express.Request): AuthClient {
+        const socket = req.socket as TLSSocket
+        if (!socket.encrypted || !this.clients.length) {
+            return undefined
+        }
+        const certificate = socket.getPeerCertificate()
+        if (!certificate || !certificate.subject) {
+            return undefined
+        }
+        if (!socket.authorized) {
+            throw new CustomError("client certificate was rejected: " + socket.authorizationError, 401)
+        }
+        const subject: any = certificate.subject
+        const client = this.clients.find(client => client.certSubject.split(",").every(attribute => {
+            const [name, value] = attribute.split("=").map(part => part.trim())
+            return subject[name] === value
+        }))
+        if (!client) {
+            throw new CustomError("client certificate is not allowed", 401)
+        }
+        return client
+    }
+}
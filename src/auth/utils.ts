@@ -0,0 +1,73 @@
+import * as process from "process";
+import * as fs from "fs";
+
+// routes require one of these scopes, health, probes and metrics are always served
+export enum SCOPE {
+    Notify = "notify",      // sending events through POST /notify
+    Preview = "preview",    // rendering events through POST /notify/preview
+    Admin = "admin",        // event logs, destination configs, log levels and dead letters
+}
+
+// a caller authenticates with exactly one of token, hmacSecret or certSubject
+export interface AuthClient {
+    name: string
+    scopes: SCOPE[]
+    token?: string
+    hmacSecret?: string
+    // attributes the subject of the client certificate must have, e.g. "CN=orchestrator,O=devtron"
+    certSubject?: string
+}
+
+// read from the variable or from the file it names, e.g. a mounted secret
+function readValue(name: string): string {
+    const file = process.env[name + "_FILE"]
+    if (!process.env[name] && file) {
+        return fs.readFileSync(file, "utf8").trim()
+    }
+    return process.env[name]
+}
+
+function checkClient(client: AuthClient): AuthClient {
+    if (!client || !client.name) {
+        throw new Error("AUTH_CLIENTS entries need a name")
+    }
+    const credentials = [client.token, client.hmacSecret, client.certSubject].filter(credential => !!credential)
+    if (credentials.length != 1) {
+        throw new Error("AUTH_CLIENTS entry " + client.name + " needs exactly one of token, hmacSecret or certSubject")
+    }
+    const scopes = Object.values(SCOPE) as string[]
+    if (!Array.isArray(client.scopes) || !client.scopes.length || client.scopes.some(scope => !scopes.includes(scope))) {
+        throw new Error("AUTH_CLIENTS entry " + client.name + " needs scopes out of " + scopes.join(", "))
+    }
+    return client
+}
+
+function readClients(): AuthClient[] {
+    const value = readValue("AUTH_CLIENTS")
+    const clients: AuthClient[] = value ? JSON.parse(value) : []
+    if (!Array.isArray(clients)) {
+        throw new Error("AUTH_CLIENTS must be a json array")
+    }
+    return clients.map(checkClient)
+}
+
+export const authClients: AuthClient[] = readClients()
+
+// the token of the config api keeps working as an admin token, it doesn't turn on authentication of the other routes
+const configApiToken = readValue("CONFIG_API_TOKEN")
+export const configApiClient: AuthClient = configApiToken ? {name: "config-api", token: configApiToken, scopes: [SCOPE.Admin]} : undefined
+
+const tolerance: number = parseInt(process.env.AUTH_HMAC_TOLERANCE)
+// seconds the timestamp of a signed request may differ from the clock of the notifier
+export const hmacTolerance: number = !isNaN(tolerance) && tolerance > 0 ? tolerance : 300
+
+// the api is served over https when a certificate is configured, client certificates are requested when a ca is configured
+export const tlsCertFile: string = process.env.TLS_CERT_FILE
+export const tlsKeyFile: string = process.env.TLS_KEY_FILE
+export const tlsClientCaFile: string = process.env.TLS_CLIENT_CA_FILE
+
+export enum AUTH_HEADER {
+    Client = "x-notifier-client",
+    Timestamp = "x-notifier-timestamp",
+    Signature = "x-notifier-signature",
+}
@@ -18,23 +18,78 @@ import * as mustache from 'mustache';
 import {Event} from "../notification/service/notificationService"
 import { NotifierEventLog } from '../entities/notifierEventLogs';
 import {NotificationSettings} from "../entities/notificationSettings";
+import {redactText, redactValue} from "../redaction/utils";
+
+const maxResponseLength = 2000
+
+// describes a single delivery attempt to one resolved target of a destination
+export interface DeliveryDetail {
+    configId?: number
+    target?: string         // recipient email or webhook url host, emails are redacted when stored
+    response?: string       // provider response or error message
+    statusCode?: number     // provider http status, when the destination talks http directly
+    attempt?: number
+    latency?: number        // milliseconds
+}
 
 export class EventLogBuilder {
 
     constructor() {}
 
-    public buildEventLog(event: Event, destination: string, sentStatus: boolean, setting: NotificationSettings) {
+    public buildEventLog(event: Event, destination: string, sentStatus: boolean, setting: NotificationSettings, detail?: DeliveryDetail) {
         let notifierEventLog = {
             destination: destination,
             source_id: setting.pipeline_id,
             pipeline_type: setting.pipeline_type ? setting.pipeline_type : "NA", //This is optional as approval event doesn't have pipeline_type
             event_type_id: setting.event_type_id,
             correlation_id: event.correlationId,
-            payload: event.payload,
+            payload: redactValue(this.withoutSecrets(event.payload)),
             is_notification_sent: sentStatus,
             event_time: event.eventTime,
-            created_at: new Date()
+            created_at: new Date(),
+            config_id: detail?.configId,
+            target: redactText(detail?.target),
+            response: this.truncate(redactText(detail?.response)),
+            status_code: detail?.statusCode,
+            attempt: detail?.attempt ?? 1,
+            latency_ms: detail?.latency,
         }
         return notifierEventLog;
     }
+
+    public describeResponse(response: any): string {
+        if (response === undefined || response === null) {
+            return undefined
+        }
+        return typeof response === "string" ? response : JSON.stringify(response)
+    }
+
+    // only the host is kept, webhook urls usually carry their credentials in the path
+    public getUrlHost(url: string): string {
+        if (!url) {
+            return undefined
+        }
+        try {
+            return new URL(url).host
+        } catch (e) {
+            return undefined
+        }
+    }
+
+    // scoop events carry their webhook config inline, its headers are secrets just like the ones of saved configs
+    private withoutSecrets(payload: any): any {
+        if (!payload?.scoopNotificationConfig?.webhookConfig?.header) {
+            return payload
+        }
+        const copy = JSON.parse(JSON.stringify(payload))
+        delete copy.scoopNotificationConfig.webhookConfig.header
+        return copy
+    }
+
+    private truncate(value: string): string {
+        if (!value || value.length <= maxResponseLength) {
+            return value
+        }
+        return value.substring(0, maxResponseLength) + "..."
+    }
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Event} from "../notification/service/notificationService";
+import {EVENT_TYPE} from "./types";
+import {OpenIncidentRepository} from "../repository/openIncidentRepository";
+
+export enum INCIDENT_ACTION {
+    Trigger = "trigger",
+    Resolve = "resolve",
+}
+
+// failed and blocked pipelines open an incident, which is resolved by the next success of the same pipeline once
+// the incident is known to be open, see IncidentTracker. other event types are not sent to incident destinations
+export function getIncidentAction(event: Event): INCIDENT_ACTION {
+    if (event.eventTypeId == EVENT_TYPE.Fail || event.eventTypeId == EVENT_TYPE.Blocked) {
+        return INCIDENT_ACTION.Trigger
+    }
+    if (event.eventTypeId == EVENT_TYPE.Success) {
+        return INCIDENT_ACTION.Resolve
+    }
+    return
+}
+
+// every event of a pipeline maps to the same incident, so that repeated failures are grouped and a success resolves them
+export function getIncidentKey(event: Event): string {
+    return ["devtron", event.pipelineType, event.appId ?? 0, event.envId ?? 0, event.pipelineId].join("-")
+}
+
+// strips the trailing slash of a configured api url, so that paths can be appended to it
+export function getApiBaseUrl(apiUrl: string, defaultUrl: string): string {
+    return (apiUrl || defaultUrl).replace(/\/+$/, "")
+}
+
+// remembers the incidents opened per config, so that only a success following a failure sends a resolve rather than
+// every success of a pipeline
+export class IncidentTracker {
+    private openIncidentRepository: OpenIncidentRepository
+    private logger: any
+
+    constructor(openIncidentRepository: OpenIncidentRepository, logger: any) {
+        this.openIncidentRepository = openIncidentRepository
+        this.logger = logger
+    }
+
+    // a trigger is sent even when the incident can't be remembered, its resolve is then skipped
+    public async opened(destination: string, configId: number, event: Event) {
+        try {
+            await this.openIncidentRepository.openIncident(destination, configId, getIncidentKey(event))
+        } catch (error) {
+            this.logger.error("error occurred while saving open incident", error)
+        }
+    }
+
+    // returns whether a resolve is to be sent for the success, which is also the case when the open incidents can't be
+    // read, resolving an incident which isn't open is ignored by the providers
+    public async closing(destination: string, configId: number, event: Event): Promise<boolean> {
+        try {
+            return await this.openIncidentRepository.closeIncident(destination, configId, getIncidentKey(event))
+        } catch (error) {
+            this.logger.error("error occurred while reading open incident, resolving it anyway", error)
+            return true
+        }
+    }
+}
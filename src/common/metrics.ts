@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {collectDefaultMetrics, Counter, Gauge, Histogram, register} from "prom-client";
+import {EVENT_TYPE} from "./types";
+
+collectDefaultMetrics()
+
+export const metricsRegistry = register
+
+export enum EVENT_SOURCE {
+    Http = "http",
+    Nats = "nats",
+}
+
+export const eventsReceived = new Counter({
+    name: "notifier_events_received_total",
+    help: "Events received, by source and event type",
+    labelNames: ["source", "event_type"],
+})
+
+export const settingsMatched = new Counter({
+    name: "notifier_settings_matched_total",
+    help: "Notification settings matched by received events, by event type",
+    labelNames: ["event_type"],
+})
+
+export const deliveryAttempts = new Counter({
+    name: "notifier_delivery_attempts_total",
+    help: "Deliveries attempted, retries included, by destination type",
+    labelNames: ["destination"],
+})
+
+export const deliverySuccesses = new Counter({
+    name: "notifier_delivery_successes_total",
+    help: "Deliveries accepted by the provider, by destination type",
+    labelNames: ["destination"],
+})
+
+export const deliveryFailures = new Counter({
+    name: "notifier_delivery_failures_total",
+    help: "Deliveries which failed, retried ones included, by destination type",
+    labelNames: ["destination"],
+})
+
+export const renderErrors = new Counter({
+    name: "notifier_render_errors_total",
+    help: "Templates which could not be rendered into a message, by destination type",
+    labelNames: ["destination"],
+})
+
+export const providerLatency = new Histogram({
+    name: "notifier_provider_latency_seconds",
+    help: "Time taken by the provider to accept or reject a delivery, by destination type and result",
+    labelNames: ["destination", "result"],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+})
+
+export const natsRedeliveries = new Counter({
+    name: "notifier_nats_redeliveries_total",
+    help: "Messages JetStream delivered again because an earlier delivery was not acknowledged in time, by topic",
+    labelNames: ["topic"],
+})
+
+const natsConsumerCollectors: (() => Promise<void>)[] = []
+
+// filled on every scrape by the collectors of the pub sub service, which knows the consumers it subscribed through
+export const natsConsumerMessages = new Gauge({
+    name: "notifier_nats_consumer_messages",
+    help: "Messages of a JetStream consumer, pending ones are not delivered yet and ack_pending ones are not acknowledged yet",
+    labelNames: ["stream", "consumer", "state"],
+    collect: async () => {
+        await Promise.all(natsConsumerCollectors.map(collector => collector()))
+    },
+})
+
+export function registerNatsConsumerCollector(collector: () => Promise<void>) {
+    natsConsumerCollectors.push(collector)
+}
+
+export function eventTypeLabel(eventTypeId: number): string {
+    return EVENT_TYPE[eventTypeId] ?? "Unknown"
+}
+
+// counts a single attempt to hand a message over to a provider, latency is in milliseconds as in DeliveryDetail
+export function recordDelivery(destination: string, success: boolean, latency?: number) {
+    deliveryAttempts.inc({destination: destination})
+    if (success) {
+        deliverySuccesses.inc({destination: destination})
+    } else {
+        deliveryFailures.inc({destination: destination})
+    }
+    if (latency !== undefined && latency !== null) {
+        providerLatency.observe({destination: destination, result: success ? "success" : "failure"}, latency / 1000)
+    }
+}
+
+// renders a message, counting the templates which fail to render or don't render into valid json
+export function countRenderErrors<T>(destination: string, render: () => T): T {
+    try {
+        return render()
+    } catch (error) {
+        renderErrors.inc({destination: destination})
+        throw error
+    }
+}
@@ -20,6 +20,7 @@ import e, { json } from 'express';
 import {EVENT_TYPE, ParsedScoopNotification} from "./types";
 import { ciMaterials ,ParsedCIEvent,vulnerability,severityCount,WebhookParsedEvent,ParseApprovalEvent,ParseConfigApprovalEvent,ParsedCDEvent} from './types';
 import Mustache from "mustache";
+import {eventAttributes, withSpanSync} from "../tracing/tracing";
 export class MustacheHelper {
     private CD_STAGE = {
         DEPLOY: "Deployment",
@@ -73,6 +74,10 @@ export class MustacheHelper {
     }
 
     parseEvent(event: Event, isSlackNotification?: boolean): ParsedCIEvent | ParsedCDEvent | ParseApprovalEvent | ParseConfigApprovalEvent | ParseArtifactPromotionEvent | ParsedScoopNotification{
+        return withSpanSync("MustacheHelper.parseEvent", eventAttributes(event), () => this.parseEventData(event, isSlackNotification))
+    }
+
+    private parseEventData(event: Event, isSlackNotification?: boolean): ParsedCIEvent | ParsedCDEvent | ParseApprovalEvent | ParseConfigApprovalEvent | ParseArtifactPromotionEvent | ParsedScoopNotification{
         if(event.eventTypeId===EVENT_TYPE.ScoopNotification){
             return this.parseScoopNotification(event)
         }
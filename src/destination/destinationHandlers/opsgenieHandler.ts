@@ -0,0 +1,268 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import axios from 'axios';
+import Engine from 'json-rules-engine';
+import Mustache from 'mustache';
+import {DeliveryOutcome, deliveryOutcome, Event, Handler, NotificationPreview, renderPreview} from '../../notification/service/notificationService';
+import {DeliveryDetail, EventLogBuilder} from "../../common/eventLogBuilder";
+import {EventLogRepository} from '../../repository/notifierEventLogRepository';
+import {NotificationTemplates} from "../../entities/notificationTemplates";
+import {NotificationSettings} from "../../entities/notificationSettings";
+import {OpsgenieConfig} from "../../entities/opsgenieConfig";
+import {OpsgenieConfigRepository} from "../../repository/opsgenieConfigRepository";
+import {MustacheHelper} from '../../common/mustacheHelper';
+import {EVENT_TYPE} from "../../common/types";
+import {getApiBaseUrl, getIncidentAction, getIncidentKey, INCIDENT_ACTION, IncidentTracker} from "../../common/incident";
+import {CustomError, DeliveryError} from "../../entities/events";
+import {RetryableHandler, RetryService} from "../../retry/retryService";
+import {NotificationRetry} from "../../entities/notificationRetry";
+import {OPSGENIE_DESTINATION, RetryTarget} from "../../retry/utils";
+import {countRenderErrors} from "../../common/metrics";
+import {SpanKind} from "@opentelemetry/api";
+import {withLogContext} from "../../logging/logger";
+import {eventAttributes, withSpan} from "../../tracing/tracing";
+
+const defaultApiUrl = "https://api.opsgenie.com"
+// opsgenie limits alert messages to 130 characters
+const maxMessageLength = 130
+
+interface AlertRequest {
+    path: string
+    body: any
+}
+
+// opsgenie templates render the alert without alias and source, which are added before sending
+//https://docs.opsgenie.com/docs/alert-api
+export class OpsgenieService implements Handler, RetryableHandler {
+    eventLogRepository: EventLogRepository
+    eventLogBuilder: EventLogBuilder
+    opsgenieConfigRepository: OpsgenieConfigRepository
+    logger: any
+    mh: MustacheHelper
+    retryService: RetryService
+    incidentTracker: IncidentTracker
+
+    constructor(eventLogRepository: EventLogRepository, eventLogBuilder: EventLogBuilder, opsgenieConfigRepository: OpsgenieConfigRepository, logger: any, mh: MustacheHelper, retryService: RetryService, incidentTracker: IncidentTracker) {
+        this.eventLogRepository = eventLogRepository
+        this.eventLogBuilder = eventLogBuilder
+        this.opsgenieConfigRepository = opsgenieConfigRepository
+        this.logger = logger
+        this.mh = mh
+        this.retryService = retryService
+        this.incidentTracker = incidentTracker
+    }
+
+    async handle(event: Event, templates: NotificationTemplates[], setting: NotificationSettings, configsMap: Map<string, boolean>, destinationMap: Map<string, boolean>): Promise<DeliveryOutcome[]> {
+        const action = getIncidentAction(event)
+        if (!action) {
+            return []
+        }
+        // closing an alert only needs its alias
+        let opsgenieTemplate: NotificationTemplates = templates.find(t => {
+            return 'opsgenie' == t.channel_type
+        })
+        if (!opsgenieTemplate && action == INCIDENT_ACTION.Trigger) {
+            this.logger.info("no opsgenie template for event")
+            return []
+        }
+
+        const providerObjects = setting.config
+        const providersSet = new Set(providerObjects);
+        const deliveries: Promise<DeliveryOutcome>[] = []
+
+        providersSet.forEach(p => {
+            if (p['dest'] == OPSGENIE_DESTINATION) {
+                let opsgenieConfigId = p['configId']
+                let configKey = p['dest'] + '-' + opsgenieConfigId
+                if (!configsMap.get(configKey)) {
+                    deliveries.push(withLogContext({destination: OPSGENIE_DESTINATION, configId: opsgenieConfigId}, () => this.processNotification(opsgenieConfigId, event, opsgenieTemplate, setting, p, destinationMap)))
+                    configsMap.set(configKey, true)
+                }
+            }
+        });
+        return (await Promise.all(deliveries)).filter(outcome => !!outcome)
+    }
+
+    public async preview(event: Event, templates: NotificationTemplates[], setting: NotificationSettings): Promise<NotificationPreview[]> {
+        const action = getIncidentAction(event)
+        let opsgenieTemplate: NotificationTemplates = templates.find(t => {
+            return 'opsgenie' == t.channel_type
+        })
+        if (!action || (!opsgenieTemplate && action == INCIDENT_ACTION.Trigger)) {
+            return []
+        }
+        const previews: NotificationPreview[] = []
+        for (const p of new Set(setting.config)) {
+            if (p['dest'] != OPSGENIE_DESTINATION) {
+                continue
+            }
+            const config = await this.opsgenieConfigRepository.findByOpsgenieConfigId(p['configId'])
+            if (!config) {
+                previews.push({destination: OPSGENIE_DESTINATION, configId: p['configId'], error: "no opsgenie config found"})
+                continue
+            }
+            previews.push(renderPreview({destination: OPSGENIE_DESTINATION, configId: p['configId'], recipient: this.eventLogBuilder.getUrlHost(this.getApiUrl(config))},
+                () => JSON.stringify(this.buildRequest(event, opsgenieTemplate?.template_payload).body)))
+        }
+        return previews
+    }
+
+    private async processNotification(opsgenieConfigId: number, event: Event, opsgenieTemplate: NotificationTemplates, setting: NotificationSettings, p: string, apiKeyMap: Map<string, boolean>): Promise<DeliveryOutcome> {
+        try {
+            const config = await this.opsgenieConfigRepository.findByOpsgenieConfigId(opsgenieConfigId)
+            if (!config) {
+                this.logger.info('no opsgenie config found for event')
+                return {destination: OPSGENIE_DESTINATION, configId: opsgenieConfigId, success: false, error: "no opsgenie config found"}
+            }
+
+            if (!apiKeyMap.get(config.api_key)) {
+                apiKeyMap.set(config.api_key, true)
+            } else {
+                this.logger.info('duplicate api key filtered out')
+                return
+            }
+
+            let engine = new Engine();
+            let conditions: string = p['rule'] && p['rule']['conditions'];
+            if (conditions) {
+                engine.addRule({conditions: conditions, event: event});
+                await engine.run(event)
+            }
+            if (getIncidentAction(event) == INCIDENT_ACTION.Trigger) {
+                await this.incidentTracker.opened(OPSGENIE_DESTINATION, opsgenieConfigId, event)
+            } else if (!await this.incidentTracker.closing(OPSGENIE_DESTINATION, opsgenieConfigId, event)) {
+                this.logger.info("no open incident to resolve")
+                return {destination: OPSGENIE_DESTINATION, configId: opsgenieConfigId, success: true, suppressed: true}
+            }
+            return await this.sendAndLogNotification(event, config, setting, p, opsgenieTemplate?.template_payload);
+        } catch (error: any) {
+            this.logger.error('opsgenie processNotification error', error)
+            return {destination: OPSGENIE_DESTINATION, configId: opsgenieConfigId, success: false, error: error.message}
+        }
+    }
+
+    public sendAndLogNotification(event: Event, config: OpsgenieConfig, setting: NotificationSettings, p: any, template: string): Promise<DeliveryOutcome> {
+        // the api key is looked up again when retrying, so that it is not stored in the retry queue
+        const target: RetryTarget = {webhookUrl: this.getApiUrl(config), configId: config.id}
+        const detail: DeliveryDetail = {configId: config.id, target: this.eventLogBuilder.getUrlHost(this.getApiUrl(config)), attempt: 1}
+        const start = Date.now()
+        return this.sendNotification(event, config, template).then(result => {
+            return this.saveNotificationEventSuccessLog(event, p, setting, {...detail, statusCode: result.statusCode, response: this.eventLogBuilder.describeResponse(result.data), latency: Date.now() - start});
+        }).catch((error) => {
+            this.logger.error(error.message);
+            const failed: DeliveryDetail = {...detail, response: error.message, statusCode: error.providerStatusCode, latency: Date.now() - start}
+            // alerts which don't render are not retried
+            if (!(error instanceof DeliveryError)) {
+                return this.savePermanentFailureLog(event, p, setting, failed);
+            }
+            return this.saveNotificationEventFailureLog(event, p, setting, template, target, failed);
+        });
+    }
+
+    public async resend(retry: NotificationRetry): Promise<DeliveryDetail> {
+        const config = await this.opsgenieConfigRepository.findByOpsgenieConfigId(retry.target.configId)
+        if (!config) {
+            throw new Error("no opsgenie config found")
+        }
+        const result = await this.sendNotification(retry.event, config, retry.template)
+        return {statusCode: result.statusCode, response: this.eventLogBuilder.describeResponse(result.data)}
+    }
+
+    public sendNotification(event: Event, config: OpsgenieConfig, template: string) {
+        return withSpan("opsgenie send", {...eventAttributes(event), "notifier.destination": OPSGENIE_DESTINATION}, () => this.send(event, config, template), SpanKind.CLIENT)
+    }
+
+    private async send(event: Event, config: OpsgenieConfig, template: string) {
+        let request: AlertRequest
+        try {
+            request = countRenderErrors(OPSGENIE_DESTINATION, () => this.buildRequest(event, template))
+        } catch (error: any) {
+            this.logger.error('opsgenie alert render error', error)
+            throw new CustomError("Unable to render opsgenie alert: " + error.message, 422)
+        }
+        try {
+            const res = await axios.post(this.getApiUrl(config) + request.path, request.body, {headers: {"Authorization": "GenieKey " + config.api_key}});
+            this.logger.info("opsgenie alert sent")
+            return {statusCode: res.status, data: res.data};
+        } catch (error: any) {
+            this.logger.error('opsgenie sendNotification error', error)
+            throw new DeliveryError("Unable to send opsgenie alert: " + error.message, error.response?.status);
+        }
+    }
+
+    public renderTemplate(event: Event, template: string): string {
+        return Mustache.render(template, this.mh.parseEvent(event));
+    }
+
+    // failures on production environments get the highest priority, values rendered by the template take precedence.
+    // alerts are requested asynchronously, opsgenie accepts them before they are processed
+    private buildRequest(event: Event, template: string): AlertRequest {
+        const alias = getIncidentKey(event)
+        if (getIncidentAction(event) == INCIDENT_ACTION.Resolve) {
+            return {path: "/v2/alerts/" + encodeURIComponent(alias) + "/close?identifierType=alias", body: {source: "devtron", note: "Pipeline succeeded"}}
+        }
+        const rendered = JSON.parse(this.renderTemplate(event, template))
+        let priority = "P3"
+        if (event.eventTypeId == EVENT_TYPE.Fail && event.isProdEnv) {
+            priority = "P1"
+        }
+        // details only take string values, the ones left empty by optional fields are dropped
+        const details = {}
+        for (const [key, value] of Object.entries(rendered.details || {})) {
+            if (value !== undefined && value !== null && value !== "") {
+                details[key] = String(value)
+            }
+        }
+        return {
+            path: "/v2/alerts",
+            body: {
+                priority: priority,
+                ...rendered,
+                message: String(rendered.message || "").substring(0, maxMessageLength),
+                alias: alias,
+                source: "devtron",
+                details: details,
+            }
+        }
+    }
+
+    private getApiUrl(config: OpsgenieConfig): string {
+        return getApiBaseUrl(config.api_url, defaultApiUrl)
+    }
+
+    private saveNotificationEventSuccessLog(event: Event, p: any, setting: NotificationSettings, detail: DeliveryDetail): DeliveryOutcome {
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, true, setting, detail);
+        this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, true, detail)
+    }
+
+    private savePermanentFailureLog(event: Event, p: any, setting: NotificationSettings, detail: DeliveryDetail): DeliveryOutcome {
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
+        this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, false, detail)
+    }
+
+    private saveNotificationEventFailureLog(event: Event, p: any, setting: NotificationSettings, template: string, target: RetryTarget, detail: DeliveryDetail): Promise<DeliveryOutcome> {
+        return this.retryService.enqueue(OPSGENIE_DESTINATION, event, setting, p, template, target, detail.response).then(queued => {
+            if (!queued) {
+                let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
+                this.eventLogRepository.saveEventLog(eventLog);
+            }
+            return deliveryOutcome(p.dest, false, detail, queued)
+        })
+    }
+}
@@ -0,0 +1,251 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import axios from 'axios';
+import Engine from 'json-rules-engine';
+import Mustache from 'mustache';
+import {DeliveryOutcome, deliveryOutcome, Event, Handler, NotificationPreview, renderPreview} from '../../notification/service/notificationService';
+import {DeliveryDetail, EventLogBuilder} from "../../common/eventLogBuilder";
+import {EventLogRepository} from '../../repository/notifierEventLogRepository';
+import {NotificationTemplates} from "../../entities/notificationTemplates";
+import {NotificationSettings} from "../../entities/notificationSettings";
+import {PagerDutyConfig} from "../../entities/pagerDutyConfig";
+import {PagerDutyConfigRepository} from "../../repository/pagerDutyConfigRepository";
+import {MustacheHelper} from '../../common/mustacheHelper';
+import {EVENT_TYPE} from "../../common/types";
+import {getApiBaseUrl, getIncidentAction, getIncidentKey, INCIDENT_ACTION, IncidentTracker} from "../../common/incident";
+import {CustomError, DeliveryError} from "../../entities/events";
+import {RetryableHandler, RetryService} from "../../retry/retryService";
+import {NotificationRetry} from "../../entities/notificationRetry";
+import {PAGERDUTY_DESTINATION, RetryTarget} from "../../retry/utils";
+import {countRenderErrors} from "../../common/metrics";
+import {SpanKind} from "@opentelemetry/api";
+import {withLogContext} from "../../logging/logger";
+import {eventAttributes, withSpan} from "../../tracing/tracing";
+
+const defaultApiUrl = "https://events.pagerduty.com"
+
+// pagerduty templates render an Events API v2 event without routing key, action and dedup key, which are added before sending
+//https://developer.pagerduty.com/docs/events-api-v2/trigger-events/
+export class PagerDutyService implements Handler, RetryableHandler {
+    eventLogRepository: EventLogRepository
+    eventLogBuilder: EventLogBuilder
+    pagerDutyConfigRepository: PagerDutyConfigRepository
+    logger: any
+    mh: MustacheHelper
+    retryService: RetryService
+    incidentTracker: IncidentTracker
+
+    constructor(eventLogRepository: EventLogRepository, eventLogBuilder: EventLogBuilder, pagerDutyConfigRepository: PagerDutyConfigRepository, logger: any, mh: MustacheHelper, retryService: RetryService, incidentTracker: IncidentTracker) {
+        this.eventLogRepository = eventLogRepository
+        this.eventLogBuilder = eventLogBuilder
+        this.pagerDutyConfigRepository = pagerDutyConfigRepository
+        this.logger = logger
+        this.mh = mh
+        this.retryService = retryService
+        this.incidentTracker = incidentTracker
+    }
+
+    async handle(event: Event, templates: NotificationTemplates[], setting: NotificationSettings, configsMap: Map<string, boolean>, destinationMap: Map<string, boolean>): Promise<DeliveryOutcome[]> {
+        const action = getIncidentAction(event)
+        if (!action) {
+            return []
+        }
+        // resolving an incident only needs its dedup key
+        let pagerDutyTemplate: NotificationTemplates = templates.find(t => {
+            return 'pagerduty' == t.channel_type
+        })
+        if (!pagerDutyTemplate && action == INCIDENT_ACTION.Trigger) {
+            this.logger.info("no pagerduty template for event")
+            return []
+        }
+
+        const providerObjects = setting.config
+        const providersSet = new Set(providerObjects);
+        const deliveries: Promise<DeliveryOutcome>[] = []
+
+        providersSet.forEach(p => {
+            if (p['dest'] == PAGERDUTY_DESTINATION) {
+                let pagerDutyConfigId = p['configId']
+                let configKey = p['dest'] + '-' + pagerDutyConfigId
+                if (!configsMap.get(configKey)) {
+                    deliveries.push(withLogContext({destination: PAGERDUTY_DESTINATION, configId: pagerDutyConfigId}, () => this.processNotification(pagerDutyConfigId, event, pagerDutyTemplate, setting, p, destinationMap)))
+                    configsMap.set(configKey, true)
+                }
+            }
+        });
+        return (await Promise.all(deliveries)).filter(outcome => !!outcome)
+    }
+
+    public async preview(event: Event, templates: NotificationTemplates[], setting: NotificationSettings): Promise<NotificationPreview[]> {
+        const action = getIncidentAction(event)
+        let pagerDutyTemplate: NotificationTemplates = templates.find(t => {
+            return 'pagerduty' == t.channel_type
+        })
+        if (!action || (!pagerDutyTemplate && action == INCIDENT_ACTION.Trigger)) {
+            return []
+        }
+        const previews: NotificationPreview[] = []
+        for (const p of new Set(setting.config)) {
+            if (p['dest'] != PAGERDUTY_DESTINATION) {
+                continue
+            }
+            const config = await this.pagerDutyConfigRepository.findByPagerDutyConfigId(p['configId'])
+            if (!config) {
+                previews.push({destination: PAGERDUTY_DESTINATION, configId: p['configId'], error: "no pagerduty config found"})
+                continue
+            }
+            // the routing key is left out of the preview
+            previews.push(renderPreview({destination: PAGERDUTY_DESTINATION, configId: p['configId'], recipient: this.eventLogBuilder.getUrlHost(this.getApiUrl(config))},
+                () => JSON.stringify(this.buildEvent(event, undefined, pagerDutyTemplate?.template_payload))))
+        }
+        return previews
+    }
+
+    private async processNotification(pagerDutyConfigId: number, event: Event, pagerDutyTemplate: NotificationTemplates, setting: NotificationSettings, p: string, routingKeyMap: Map<string, boolean>): Promise<DeliveryOutcome> {
+        try {
+            const config = await this.pagerDutyConfigRepository.findByPagerDutyConfigId(pagerDutyConfigId)
+            if (!config) {
+                this.logger.info('no pagerduty config found for event')
+                return {destination: PAGERDUTY_DESTINATION, configId: pagerDutyConfigId, success: false, error: "no pagerduty config found"}
+            }
+
+            if (!routingKeyMap.get(config.routing_key)) {
+                routingKeyMap.set(config.routing_key, true)
+            } else {
+                this.logger.info('duplicate routing key filtered out')
+                return
+            }
+
+            let engine = new Engine();
+            let conditions: string = p['rule'] && p['rule']['conditions'];
+            if (conditions) {
+                engine.addRule({conditions: conditions, event: event});
+                await engine.run(event)
+            }
+            if (getIncidentAction(event) == INCIDENT_ACTION.Trigger) {
+                await this.incidentTracker.opened(PAGERDUTY_DESTINATION, pagerDutyConfigId, event)
+            } else if (!await this.incidentTracker.closing(PAGERDUTY_DESTINATION, pagerDutyConfigId, event)) {
+                this.logger.info("no open incident to resolve")
+                return {destination: PAGERDUTY_DESTINATION, configId: pagerDutyConfigId, success: true, suppressed: true}
+            }
+            return await this.sendAndLogNotification(event, config, setting, p, pagerDutyTemplate?.template_payload);
+        } catch (error: any) {
+            this.logger.error('pagerduty processNotification error', error)
+            return {destination: PAGERDUTY_DESTINATION, configId: pagerDutyConfigId, success: false, error: error.message}
+        }
+    }
+
+    public sendAndLogNotification(event: Event, config: PagerDutyConfig, setting: NotificationSettings, p: any, template: string): Promise<DeliveryOutcome> {
+        // the routing key is looked up again when retrying, so that it is not stored in the retry queue
+        const target: RetryTarget = {webhookUrl: this.getApiUrl(config), configId: config.id}
+        const detail: DeliveryDetail = {configId: config.id, target: this.eventLogBuilder.getUrlHost(this.getApiUrl(config)), attempt: 1}
+        const start = Date.now()
+        return this.sendNotification(event, config, template).then(result => {
+            return this.saveNotificationEventSuccessLog(event, p, setting, {...detail, statusCode: result.statusCode, response: this.eventLogBuilder.describeResponse(result.data), latency: Date.now() - start});
+        }).catch((error) => {
+            this.logger.error(error.message);
+            const failed: DeliveryDetail = {...detail, response: error.message, statusCode: error.providerStatusCode, latency: Date.now() - start}
+            // events which don't render are not retried
+            if (!(error instanceof DeliveryError)) {
+                return this.savePermanentFailureLog(event, p, setting, failed);
+            }
+            return this.saveNotificationEventFailureLog(event, p, setting, template, target, failed);
+        });
+    }
+
+    public async resend(retry: NotificationRetry): Promise<DeliveryDetail> {
+        const config = await this.pagerDutyConfigRepository.findByPagerDutyConfigId(retry.target.configId)
+        if (!config) {
+            throw new Error("no pagerduty config found")
+        }
+        const result = await this.sendNotification(retry.event, config, retry.template)
+        return {statusCode: result.statusCode, response: this.eventLogBuilder.describeResponse(result.data)}
+    }
+
+    public sendNotification(event: Event, config: PagerDutyConfig, template: string) {
+        return withSpan("pagerduty send", {...eventAttributes(event), "notifier.destination": PAGERDUTY_DESTINATION}, () => this.send(event, config, template), SpanKind.CLIENT)
+    }
+
+    private async send(event: Event, config: PagerDutyConfig, template: string) {
+        let body: any
+        try {
+            body = countRenderErrors(PAGERDUTY_DESTINATION, () => this.buildEvent(event, config.routing_key, template))
+        } catch (error: any) {
+            this.logger.error('pagerduty event render error', error)
+            throw new CustomError("Unable to render pagerduty event: " + error.message, 422)
+        }
+        try {
+            const res = await axios.post(this.getApiUrl(config) + "/v2/enqueue", body);
+            this.logger.info("pagerduty event sent")
+            return {statusCode: res.status, data: res.data};
+        } catch (error: any) {
+            this.logger.error('pagerduty sendNotification error', error)
+            throw new DeliveryError("Unable to send pagerduty event: " + error.message, error.response?.status);
+        }
+    }
+
+    public renderTemplate(event: Event, template: string): string {
+        return Mustache.render(template, this.mh.parseEvent(event));
+    }
+
+    // failures on production environments are critical, values rendered by the template take precedence
+    private buildEvent(event: Event, routingKey: string, template: string): any {
+        if (getIncidentAction(event) == INCIDENT_ACTION.Resolve) {
+            return {routing_key: routingKey, event_action: INCIDENT_ACTION.Resolve, dedup_key: getIncidentKey(event)}
+        }
+        const rendered = JSON.parse(this.renderTemplate(event, template))
+        let severity = "warning"
+        if (event.eventTypeId == EVENT_TYPE.Fail) {
+            severity = event.isProdEnv ? "critical" : "error"
+        }
+        return {
+            ...rendered,
+            routing_key: routingKey,
+            event_action: INCIDENT_ACTION.Trigger,
+            dedup_key: getIncidentKey(event),
+            payload: {severity: severity, source: "devtron", ...rendered.payload},
+            // links are optional in most events
+            links: (rendered.links || []).filter(link => !!link.href),
+        }
+    }
+
+    private getApiUrl(config: PagerDutyConfig): string {
+        return getApiBaseUrl(config.api_url, defaultApiUrl)
+    }
+
+    private saveNotificationEventSuccessLog(event: Event, p: any, setting: NotificationSettings, detail: DeliveryDetail): DeliveryOutcome {
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, true, setting, detail);
+        this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, true, detail)
+    }
+
+    private savePermanentFailureLog(event: Event, p: any, setting: NotificationSettings, detail: DeliveryDetail): DeliveryOutcome {
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
+        this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, false, detail)
+    }
+
+    private saveNotificationEventFailureLog(event: Event, p: any, setting: NotificationSettings, template: string, target: RetryTarget, detail: DeliveryDetail): Promise<DeliveryOutcome> {
+        return this.retryService.enqueue(PAGERDUTY_DESTINATION, event, setting, p, template, target, detail.response).then(queued => {
+            if (!queued) {
+                let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
+                this.eventLogRepository.saveEventLog(eventLog);
+            }
+            return deliveryOutcome(p.dest, false, detail, queued)
+        })
+    }
+}
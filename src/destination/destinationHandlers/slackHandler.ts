@@ -15,10 +15,10 @@
  */
 
 import NotifmeSdk from 'notifme-sdk'
-import {Event, Handler} from '../../notification/service/notificationService';
+import {DeliveryOutcome, deliveryOutcome, Event, Handler, NotificationPreview, renderPreview} from '../../notification/service/notificationService';
 import Mustache from 'mustache';
 import Engine from 'json-rules-engine'
-import {EventLogBuilder} from "../../common/eventLogBuilder"
+import {DeliveryDetail, EventLogBuilder} from "../../common/eventLogBuilder"
 import {EventLogRepository} from '../../repository/notifierEventLogRepository';
 import {NotificationTemplates} from "../../entities/notificationTemplates";
 import {NotificationSettings} from "../../entities/notificationSettings";
@@ -26,56 +26,66 @@ import {SlackConfigRepository} from "../../repository/slackConfigRepository";
 import {MustacheHelper} from '../../common/mustacheHelper';
 import {EVENT_TYPE} from "../../common/types";
 import moment from "moment-timezone";
-import {CustomError} from "../../entities/events";
+import {CustomError, DeliveryError} from "../../entities/events";
+import {RetryableHandler, RetryService} from "../../retry/retryService";
+import {NotificationRetry} from "../../entities/notificationRetry";
+import {RetryTarget, SLACK_DESTINATION} from "../../retry/utils";
+import {countRenderErrors} from "../../common/metrics";
+import {SpanKind} from "@opentelemetry/api";
+import {withLogContext} from "../../logging/logger";
+import {eventAttributes, withSpan} from "../../tracing/tracing";
 
 //https://github.com/notifme/notifme-sdk/blob/master/src/models/notification-request.js#L132
-export class SlackService implements Handler {
+export class SlackService implements Handler, RetryableHandler {
     eventLogRepository: EventLogRepository
     eventLogBuilder: EventLogBuilder
     slackConfigRepository: SlackConfigRepository
     logger: any
     mh: MustacheHelper
+    retryService: RetryService
 
-    constructor(eventLogRepository: EventLogRepository, eventLogBuilder: EventLogBuilder, slackConfigRepository: SlackConfigRepository, logger: any, mh: MustacheHelper) {
+    constructor(eventLogRepository: EventLogRepository, eventLogBuilder: EventLogBuilder, slackConfigRepository: SlackConfigRepository, logger: any, mh: MustacheHelper, retryService: RetryService) {
         this.eventLogRepository = eventLogRepository
         this.eventLogBuilder = eventLogBuilder
         this.slackConfigRepository = slackConfigRepository
         this.logger = logger
         this.mh = mh;
+        this.retryService = retryService
     }
 
-    handle(event: Event, templates: NotificationTemplates[], setting: NotificationSettings, configsMap: Map<string, boolean>, destinationMap: Map<string, boolean>): boolean {
+    async handle(event: Event, templates: NotificationTemplates[], setting: NotificationSettings, configsMap: Map<string, boolean>, destinationMap: Map<string, boolean>): Promise<DeliveryOutcome[]> {
 
         let slackTemplate: NotificationTemplates = templates.find(t => {
             return 'slack' == t.channel_type
         })
         if (!slackTemplate) {
-            this.logger.info("no slack template for event: ", event)
-            return
+            this.logger.info("no slack template for event")
+            return []
         }
 
         const providerObjects = setting.config
         const providersSet = new Set(providerObjects);
+        const deliveries: Promise<DeliveryOutcome>[] = []
 
         providersSet.forEach(p => {
             if (p['dest'] == "slack") {
                 let slackConfigId = p['configId']
                 let configKey = p['dest'] + '-' + slackConfigId
                 if (!configsMap.get(configKey)) {
-                    this.processNotification(slackConfigId, event, slackTemplate, setting, p, destinationMap)
+                    deliveries.push(withLogContext({destination: SLACK_DESTINATION, configId: slackConfigId}, () => this.processNotification(slackConfigId, event, slackTemplate, setting, p, destinationMap)))
                     configsMap.set(configKey, true)
                 }
             }
         });
-        return true
+        return (await Promise.all(deliveries)).filter(outcome => !!outcome)
     }
 
-    private processNotification(slackConfigId: number, event: Event, slackTemplate: NotificationTemplates, setting: NotificationSettings, p: string, webhookMap: Map<string, boolean>) {
-        this.slackConfigRepository.findBySlackConfigId(slackConfigId).then(config => {
+    private async processNotification(slackConfigId: number, event: Event, slackTemplate: NotificationTemplates, setting: NotificationSettings, p: string, webhookMap: Map<string, boolean>): Promise<DeliveryOutcome> {
+        try {
+            const config = await this.slackConfigRepository.findBySlackConfigId(slackConfigId)
             if (!config) {
                 this.logger.info('no slack config found for event')
-                this.logger.info(event.correlationId)
-                return
+                return {destination: "slack", configId: slackConfigId, success: false, error: "no slack config found"}
             }
 
             if (!webhookMap.get(config['web_hook_url'])) {
@@ -85,81 +95,143 @@ export class SlackService implements Handler {
                 return
             }
 
-            let sdk: NotifmeSdk = new NotifmeSdk({
-                channels: {
-                    slack: {
-                        providers: [{
-                            type: 'webhook',
-                            webhookUrl: config['web_hook_url']
-                        }]
-                    }
-                }
-            });
             let engine = new Engine();
             // let options = { allowUndefinedFacts: true }
             let conditions: string = p['rule']['conditions'];
             if (conditions) {
                 engine.addRule({conditions: conditions, event: event});
-                engine.run(event).then(e => {
-                    this.sendNotification(event, sdk, slackTemplate.template_payload).then(result => {
-                        this.saveNotificationEventSuccessLog(result, event, p, setting);
-                    }).catch((error) => {
-                        this.logger.error(error.message);
-                        this.saveNotificationEventFailureLog(event, p, setting);
-                    });
-                })
-            } else {
-                this.sendAndLogNotification(event, sdk, setting, p, slackTemplate);
+                await engine.run(event)
             }
-        })
+            return await this.sendAndLogNotification(event, config['web_hook_url'], setting, p, slackTemplate);
+        } catch (error: any) {
+            this.logger.error('slack processNotification error', error)
+            return {destination: "slack", configId: slackConfigId, success: false, error: error.message}
+        }
     }
 
-    public sendAndLogNotification(event: Event, sdk: NotifmeSdk, setting: NotificationSettings, p: any, slackTemplate: NotificationTemplates){
-        this.sendNotification(event, sdk, slackTemplate.template_payload).then(result => {
-            this.saveNotificationEventSuccessLog(result, event, p, setting);
+    public sendAndLogNotification(event: Event, webhookUrl: string, setting: NotificationSettings, p: any, slackTemplate: NotificationTemplates): Promise<DeliveryOutcome> {
+        const target: RetryTarget = {webhookUrl: webhookUrl, configId: p.configId}
+        const detail: DeliveryDetail = {configId: p.configId, target: this.eventLogBuilder.getUrlHost(webhookUrl), attempt: 1}
+        const start = Date.now()
+        return this.sendNotification(event, this.createSdk(webhookUrl), slackTemplate.template_payload).then(result => {
+            detail.latency = Date.now() - start
+            return this.saveNotificationEventSuccessLog(result, event, p, setting, slackTemplate.template_payload, target, detail);
         }).catch((error) => {
             this.logger.error(error.message);
-            this.saveNotificationEventFailureLog(event, p, setting);
+            const failed: DeliveryDetail = {...detail, response: error.message, latency: Date.now() - start}
+            // a message which doesn't render is not retried, it would fail the same way on every attempt
+            if (!(error instanceof DeliveryError)) {
+                return this.savePermanentFailureLog(event, p, setting, failed);
+            }
+            return this.saveNotificationEventFailureLog(event, p, setting, slackTemplate.template_payload, target, failed);
         });
     }
 
-    public async sendNotification(event: Event, sdk: NotifmeSdk, template: string) {
-        try {
+    public async resend(retry: NotificationRetry): Promise<DeliveryDetail> {
+        const result = await this.sendNotification(retry.event, this.createSdk(retry.target.webhookUrl), retry.template)
+        if (result["status"] == "error") {
+            throw new CustomError(JSON.stringify(result["errors"]), 500)
+        }
+        return {response: this.eventLogBuilder.describeResponse(result)}
+    }
 
-            let jsons: string = ''
-            if (event.eventTypeId == EVENT_TYPE.ScoopNotification){
-                const date = moment(event.eventTime);
-                event.payload.scoopNotificationConfig.data.interceptedAt = date.unix();
-                jsons = Mustache.render(template, event.payload.scoopNotificationConfig.data);
-            }else{
-                let parsedEvent = this.mh.parseEvent(event as Event, true);
-                jsons = Mustache.render(template, parsedEvent);
+    public createSdk(webhookUrl: string): NotifmeSdk {
+        return new NotifmeSdk({
+            channels: {
+                slack: {
+                    providers: [{
+                        type: 'webhook',
+                        webhookUrl: webhookUrl
+                    }]
+                }
             }
+        });
+    }
 
-            let j = JSON.parse(jsons)
+    public async preview(event: Event, templates: NotificationTemplates[], setting: NotificationSettings): Promise<NotificationPreview[]> {
+        let slackTemplate: NotificationTemplates = templates.find(t => {
+            return 'slack' == t.channel_type
+        })
+        if (!slackTemplate) {
+            return []
+        }
+        const previews: NotificationPreview[] = []
+        for (const p of new Set(setting.config)) {
+            if (p['dest'] != "slack") {
+                continue
+            }
+            const config = await this.slackConfigRepository.findBySlackConfigId(p['configId'])
+            if (!config) {
+                previews.push({destination: "slack", configId: p['configId'], error: "no slack config found"})
+                continue
+            }
+            previews.push(renderPreview({destination: "slack", configId: p['configId'], recipient: this.eventLogBuilder.getUrlHost(config['web_hook_url'])},
+                () => this.renderTemplate(event, slackTemplate.template_payload)))
+        }
+        return previews
+    }
+
+    public renderTemplate(event: Event, template: string): string {
+        // a digest is rendered from the summary of its buffered events, see DigestService
+        if (event.payload.digest) {
+            return Mustache.render(template, event.payload.digest);
+        }
+        if (event.eventTypeId == EVENT_TYPE.ScoopNotification){
+            const date = moment(event.eventTime);
+            event.payload.scoopNotificationConfig.data.interceptedAt = date.unix();
+            return Mustache.render(template, event.payload.scoopNotificationConfig.data);
+        }
+        let parsedEvent = this.mh.parseEvent(event as Event, true);
+        return Mustache.render(template, parsedEvent);
+    }
+
+    public sendNotification(event: Event, sdk: NotifmeSdk, template: string) {
+        return withSpan("slack send", {...eventAttributes(event), "notifier.destination": SLACK_DESTINATION}, () => this.send(event, sdk, template), SpanKind.CLIENT)
+    }
+
+    private async send(event: Event, sdk: NotifmeSdk, template: string) {
+        let j: any
+        try {
+            j = countRenderErrors(SLACK_DESTINATION, () => JSON.parse(this.renderTemplate(event, template)))
+        } catch (error: any) {
+            this.logger.error('slack payload render error', error)
+            throw new CustomError("Unable to render slack payload: " + error.message, 422)
+        }
+        try {
             const res = await sdk.send(
                 {
                     slack: j
                 }
             );
             return res;
-        } catch (error) {
+        } catch (error: any) {
             this.logger.error('slack sendNotification error', error)
-            throw new CustomError("Unable to send slack notification",500);
+            throw new DeliveryError("Unable to send slack notification: " + error.message);
         }
     }
 
-    private saveNotificationEventSuccessLog(result: any, event: Event, p: any, setting: NotificationSettings) {
+    private async saveNotificationEventSuccessLog(result: any, event: Event, p: any, setting: NotificationSettings, template: string, target: RetryTarget, detail: DeliveryDetail): Promise<DeliveryOutcome> {
         if (result["status"] == "error") {
-            this.saveNotificationEventFailureLog(event, p, setting)
-        } else {
-            let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, true, setting);
-            this.eventLogRepository.saveEventLog(eventLog);
+            return this.saveNotificationEventFailureLog(event, p, setting, template, target, {...detail, response: JSON.stringify(result["errors"])})
         }
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, true, setting, {...detail, response: this.eventLogBuilder.describeResponse(result)});
+        this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, true, detail)
     }
 
-    private saveNotificationEventFailureLog(event: Event, p: any, setting: NotificationSettings) {
-        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting);
+    private savePermanentFailureLog(event: Event, p: any, setting: NotificationSettings, detail: DeliveryDetail): DeliveryOutcome {
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
         this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, false, detail)
+    }
+
+    private saveNotificationEventFailureLog(event: Event, p: any, setting: NotificationSettings, template: string, target: RetryTarget, detail: DeliveryDetail): Promise<DeliveryOutcome> {
+        return this.retryService.enqueue(SLACK_DESTINATION, event, setting, p, template, target, detail.response).then(queued => {
+            if (!queued) {
+                let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
+                this.eventLogRepository.saveEventLog(eventLog);
+            }
+            return deliveryOutcome(p.dest, false, detail, queued)
+        })
     }
-}
+}
\ No newline at end of file
@@ -15,74 +15,92 @@
  */
 
 import NotifmeSdk from 'notifme-sdk'
-import {Event, Handler} from '../../notification/service/notificationService';
+import {DeliveryOutcome, deliveryOutcome, Event, Handler, NotificationPreview, renderPreview} from '../../notification/service/notificationService';
 import Mustache from 'mustache'
 import Engine from 'json-rules-engine'
-import {EventLogBuilder} from "../../common/eventLogBuilder"
+import {DeliveryDetail, EventLogBuilder} from "../../common/eventLogBuilder"
 import {EventLogRepository} from '../../repository/notifierEventLogRepository';
 import {NotificationSettings} from "../../entities/notificationSettings";
 import {NotificationTemplates} from "../../entities/notificationTemplates";
 import {UsersRepository} from "../../repository/usersRepository";
 import { SMTPConfigRepository } from '../../repository/smtpConfigRepository';
 import { MustacheHelper } from '../../common/mustacheHelper';
-import {CustomError} from "../../entities/events";
+import {CustomError, DeliveryError} from "../../entities/events";
+import {RetryableHandler, RetryService} from "../../retry/retryService";
+import {NotificationRetry} from "../../entities/notificationRetry";
+import {RetryTarget, SMTP_DESTINATION} from "../../retry/utils";
+import {countRenderErrors} from "../../common/metrics";
+import {SpanKind} from "@opentelemetry/api";
+import {withLogContext} from "../../logging/logger";
+import {eventAttributes, withSpan} from "../../tracing/tracing";
+import {PreferenceService} from "../../preference/preferenceService";
+import {AttachmentService} from "../../attachment/attachmentService";
 
 //https://github.com/notifme/notifme-sdk/blob/master/src/models/notification-request.js#L132
-export class SMTPService implements Handler {
+// the default config an event is sent with, read once per event and passed along to each of its recipients
+interface SmtpSenderConfig {
+    id: number
+    port: string
+    host: string
+    auth_user: string
+    auth_password: string
+    from_email: string
+}
+
+export class SMTPService implements Handler, RetryableHandler {
     eventLogRepository: EventLogRepository
     eventLogBuilder: EventLogBuilder
     smtpConfigRepository: SMTPConfigRepository
     usersRepository: UsersRepository
     logger: any
     mh: MustacheHelper
-    smtpConfig: {
-        port: string
-        host: string
-        auth_user: string
-        auth_password: string
-        from_email: string
-    }
+    retryService: RetryService
+    preferenceService: PreferenceService
+    attachmentService: AttachmentService
 
-    constructor(eventLogRepository: EventLogRepository, eventLogBuilder: EventLogBuilder, smtpConfigRepository: SMTPConfigRepository, usersRepository: UsersRepository, logger: any, mh: MustacheHelper) {
+    constructor(eventLogRepository: EventLogRepository, eventLogBuilder: EventLogBuilder, smtpConfigRepository: SMTPConfigRepository, usersRepository: UsersRepository, logger: any, mh: MustacheHelper, retryService: RetryService, preferenceService: PreferenceService, attachmentService: AttachmentService) {
         this.eventLogRepository = eventLogRepository
         this.eventLogBuilder = eventLogBuilder
         this.smtpConfigRepository = smtpConfigRepository
         this.usersRepository = usersRepository
         this.logger = logger
         this.mh = mh
+        this.retryService = retryService
+        this.preferenceService = preferenceService
+        this.attachmentService = attachmentService
     }
 
-    handle(event: Event, templates: NotificationTemplates[], setting: NotificationSettings, configsMap: Map<string, boolean>, destinationMap: Map<string, boolean>): boolean {
+    async handle(event: Event, templates: NotificationTemplates[], setting: NotificationSettings, configsMap: Map<string, boolean>, destinationMap: Map<string, boolean>): Promise<DeliveryOutcome[]> {
         let sesTemplate: NotificationTemplates = templates.find(t => {
             return 'ses' == t.channel_type
         })
         if (!sesTemplate) {
             this.logger.info("no smtp template")
-            return
+            return []
         }
         const providerObjects = setting.config
         const providersSet = new Set(providerObjects);
-        this.smtpConfig = null
         for (const element of providersSet) {
             if (element['dest'] === "smtp") {
-                this.getDefaultConfig(providersSet, event, sesTemplate, setting, destinationMap, configsMap)
-                break
+                return this.getDefaultConfig(providersSet, event, sesTemplate, setting, destinationMap, configsMap)
             }
         }
-        return true
+        return []
     }
 
-    private async getDefaultConfig(providersSet, event: Event, sesTemplate: NotificationTemplates, setting: NotificationSettings, emailMap: Map<string, boolean>, configsMap: Map<string, boolean> ){
+    private async getDefaultConfig(providersSet, event: Event, sesTemplate: NotificationTemplates, setting: NotificationSettings, emailMap: Map<string, boolean>, configsMap: Map<string, boolean> ): Promise<DeliveryOutcome[]> {
+        const deliveries: Promise<DeliveryOutcome>[] = []
         try {
             const config = await this.smtpConfigRepository.findDefaultSMTPConfig()
-            this.smtpConfig = {
+            const smtpConfig: SmtpSenderConfig = {
+                id: config['id'],
                 port: config['port'],
                 host: config['host'],
                 auth_user: config['auth_user'],
                 auth_password: config['auth_password'],
                 from_email: config['from_email']
             }
-            if(this.smtpConfig && this.smtpConfig.from_email){
+            if(smtpConfig && smtpConfig.from_email){
                 providersSet.forEach(p => {
                     if (p['dest'] == "smtp") {
                         let userId = p['configId']
@@ -94,20 +112,72 @@ export class SMTPService implements Handler {
                             configKey = p['dest'] + '-' + userId
                         }
                         if (!configsMap.get(configKey)) {
-                            this.processNotification(userId, recipient, event, sesTemplate, setting, p, emailMap)
+                            deliveries.push(withLogContext({destination: SMTP_DESTINATION, configId: smtpConfig.id}, () => this.processNotification(smtpConfig, userId, recipient, event, sesTemplate, setting, p, emailMap)))
                             configsMap.set(configKey, true)
                         }
                     }
                 });
+            } else {
+                return [{destination: "smtp", success: false, error: "no default SMTP config found"}]
             }
         } catch (error) {
             this.logger.error('getDefaultConfig', error)
-            throw new CustomError("Unable to send SMTP notification",500);
+            return [{destination: "smtp", success: false, error: "Unable to send SMTP notification"}]
+        }
+        return (await Promise.all(deliveries)).filter(outcome => !!outcome)
+    }
+
+    private preparePaylodAndSend(smtpConfig: SmtpSenderConfig, event: Event, smtpTemplate: NotificationTemplates, setting: NotificationSettings, p: string, recipient: string): Promise<DeliveryOutcome> {
+        // Create the NotifmeSdk instance
+        let sdk: NotifmeSdk = this.createSdk(smtpConfig);
+        event.payload['fromEmail'] = smtpConfig['from_email']
+        let engine = new Engine();
+        // let options = { allowUndefinedFacts: true }
+        let conditions: string = p['rule']['conditions'];
+
+        if (conditions) {
+            engine.addRule({conditions: conditions, event: event});
+            return engine.run(event).then(e => {
+                return this.sendAndLogNotification(event, sdk, smtpTemplate, setting, p, recipient, smtpConfig.id);
+            })
+        }
+        return this.sendAndLogNotification(event, sdk, smtpTemplate, setting, p, recipient, smtpConfig.id);
+    }
+
+    private sendAndLogNotification(event: Event, sdk: NotifmeSdk, smtpTemplate: NotificationTemplates, setting: NotificationSettings, p: string, recipient: string, configId: number): Promise<DeliveryOutcome> {
+        const target: RetryTarget = {recipient: recipient}
+        const detail: DeliveryDetail = {configId: configId, target: recipient, attempt: 1}
+        const start = Date.now()
+        return this.sendNotification(event, sdk, smtpTemplate.template_payload, setting).then(result => {
+            detail.latency = Date.now() - start
+            return this.saveNotificationEventSuccessLog(result, event, p, setting, smtpTemplate.template_payload, target, detail);
+        }).catch((error) => {
+            this.logger.error(error.message);
+            const failed: DeliveryDetail = {...detail, response: error.message, latency: Date.now() - start}
+            // emails which don't render are not retried
+            if (!(error instanceof DeliveryError)) {
+                return this.savePermanentFailureLog(event, p, setting, failed);
+            }
+            return this.saveNotificationEventFailureLog(event, p, setting, smtpTemplate.template_payload, target, failed);
+        });
+    }
+
+    public async resend(retry: NotificationRetry): Promise<DeliveryDetail> {
+        const config = await this.smtpConfigRepository.findDefaultSMTPConfig()
+        if (!config || !config.from_email) {
+            throw new CustomError("no default SMTP config found", 404)
         }
+        let event: Event = retry.event
+        event.payload['fromEmail'] = config.from_email
+        event.payload['toEmail'] = retry.target.recipient
+        const result = await this.sendNotification(event, this.createSdk(config), retry.template, retry.setting)
+        if (result["status"] == "error") {
+            throw new CustomError(JSON.stringify(result["errors"]), 500)
+        }
+        return {configId: config.id, response: this.eventLogBuilder.describeResponse(result)}
     }
 
-    private preparePaylodAndSend(event: Event, smtpTemplate: NotificationTemplates, setting: NotificationSettings, p: string){
-        const smtpConfig = this.smtpConfig;
+    public createSdk(smtpConfig: { port: string, host: string, auth_user: string, auth_password: string }): NotifmeSdk {
         // Create the email provider configuration
         let emailProviderConfig: any = {
           type: "smtp",
@@ -128,109 +198,155 @@ export class SMTPService implements Handler {
             };
           }
 
-        // Create the NotifmeSdk instance
-        let sdk: NotifmeSdk = new NotifmeSdk({
+        return new NotifmeSdk({
           channels: {
             email: {
               providers: [emailProviderConfig],
             },
           },
         });
-        event.payload['fromEmail'] = this.smtpConfig['from_email']
-        let engine = new Engine();
-        // let options = { allowUndefinedFacts: true }
-        let conditions: string = p['rule']['conditions'];
-
-        if (conditions) {
-            engine.addRule({conditions: conditions, event: event});
-            engine.run(event).then(e => {
-                this.sendNotification(event, sdk, smtpTemplate.template_payload).then(result => {
-                    this.saveNotificationEventSuccessLog(result, event, p, setting);
-                }).catch((error) => {
-                    this.logger.error(error.message);
-                    this.saveNotificationEventFailureLog(event, p, setting);
-                });
-            })
-        } else {
-            this.sendNotification(event, sdk, smtpTemplate.template_payload).then(result => {
-                this.saveNotificationEventSuccessLog(result, event, p, setting);
-            }).catch((error) => {
-                this.logger.error(error.message);
-                this.saveNotificationEventFailureLog(event, p, setting);
-            });
-        }
     }
 
-    private processNotification(userId: number, recipient: string, event: Event, smtpTemplate: NotificationTemplates, setting: NotificationSettings, p: string, emailMap: Map<string, boolean>) {
-        if(userId) {
-            this.usersRepository.findByUserId(userId).then(user => {
+    private async processNotification(smtpConfig: SmtpSenderConfig, userId: number, recipient: string, event: Event, smtpTemplate: NotificationTemplates, setting: NotificationSettings, p: string, emailMap: Map<string, boolean>): Promise<DeliveryOutcome> {
+        try {
+            if(userId) {
+                const user = await this.usersRepository.findByUserId(userId)
                 if (!user) {
                     this.logger.info('no user found for id - ' + userId)
-                    this.logger.info(event.correlationId)
-                    return
+                    return {destination: "smtp", success: false, error: "no user found for id - " + userId}
                 }
-                this.sendEmailIfNotDuplicate(user['email_id'], event, smtpTemplate, setting, p, emailMap)
-            })
-        }else{
-            if (!recipient) {
-                this.logger.error('recipient is blank')
-                return
+                return await this.sendEmailIfNotDuplicate(smtpConfig, user['email_id'], event, smtpTemplate, setting, p, emailMap)
+            }else{
+                if (!recipient) {
+                    this.logger.error('recipient is blank')
+                    return {destination: "smtp", success: false, error: "recipient is blank"}
+                }
+                return await this.sendEmailIfNotDuplicate(smtpConfig, recipient, event, smtpTemplate, setting, p, emailMap)
             }
-            this.sendEmailIfNotDuplicate(recipient, event, smtpTemplate, setting, p, emailMap)
+        } catch (error: any) {
+            this.logger.error('smtp processNotification error', error)
+            return {destination: "smtp", target: recipient, success: false, error: error.message}
         }
     }
 
-    private sendEmailIfNotDuplicate(recipient : string, event: Event, smtpTemplate: NotificationTemplates, setting: NotificationSettings, p: string, emailMap: Map<string, boolean>) {
+    private async sendEmailIfNotDuplicate(smtpConfig: SmtpSenderConfig, recipient : string, event: Event, smtpTemplate: NotificationTemplates, setting: NotificationSettings, p: string, emailMap: Map<string, boolean>): Promise<DeliveryOutcome> {
         if (!emailMap.get(recipient)) {
             emailMap.set(recipient, true)
-            event.payload['toEmail'] = recipient
-            this.preparePaylodAndSend(event, smtpTemplate, setting, p)
+            const optOut = await this.preferenceService.optOutReason(recipient, event, SMTP_DESTINATION)
+            if (optOut) {
+                this.logger.info(optOut)
+                return {destination: SMTP_DESTINATION, configId: smtpConfig.id, target: recipient, success: true, suppressed: true}
+            }
+            // recipients of the event are sent to concurrently, each gets a copy of the event addressed to them
+            const recipientEvent: Event = {...event, payload: {...event.payload, toEmail: recipient}}
+            return this.preparePaylodAndSend(smtpConfig, recipientEvent, smtpTemplate, setting, p, recipient)
         } else {
             this.logger.info('duplicate email filtered out')
         }
     }
 
-    public async sendNotification(event: Event, sdk: NotifmeSdk, template: string) {
-        try {
-            let parsedEvent = this.mh.parseEvent(event);
-            parsedEvent['fromEmail'] = event.payload['fromEmail'];
-            parsedEvent['toEmail'] = event.payload['toEmail'];
-            let json: string
-            if(event.eventTypeId===4){
-                let commentDisplayStyle = (event.payload.imageComment === "") ? 'none' : 'inline';
-                let tagDisplayStyle = (event.payload.imageTagNames === null) ? 'none' : 'inline';
-                json = Mustache.render(template, { ...parsedEvent, commentDisplayStyle ,tagDisplayStyle});
-            }else if(event.eventTypeId===5){
-                let commentDisplayStyle = (event.payload.protectConfigComment === "") ? 'none' : 'inline';
-                json = Mustache.render(template, { ...parsedEvent, commentDisplayStyle });
-            }else{
-                json = Mustache.render(template, parsedEvent)
+    public async preview(event: Event, templates: NotificationTemplates[], setting: NotificationSettings): Promise<NotificationPreview[]> {
+        // smtp shares the email templates of ses
+        let smtpTemplate: NotificationTemplates = templates.find(t => {
+            return 'ses' == t.channel_type
+        })
+        if (!smtpTemplate) {
+            return []
+        }
+        const providers = [...new Set(setting.config)].filter(p => p['dest'] == "smtp")
+        if (providers.length == 0) {
+            return []
+        }
+        const config = await this.smtpConfigRepository.findDefaultSMTPConfig()
+        const previews: NotificationPreview[] = []
+        for (const p of providers) {
+            let recipient: string = p['recipient']
+            if (p['configId']) {
+                const user = await this.usersRepository.findByUserId(p['configId'])
+                recipient = user ? user['email_id'] : undefined
+            }
+            const preview: NotificationPreview = {destination: "smtp", configId: config ? config['id'] : undefined, recipient: recipient}
+            const optOut = recipient ? await this.preferenceService.optOutReason(recipient, event, SMTP_DESTINATION) : undefined
+            if (!config || !config['from_email']) {
+                previews.push({...preview, error: "no default smtp config found"})
+            } else if (!recipient) {
+                previews.push({...preview, error: "no recipient found"})
+            } else if (optOut) {
+                previews.push({...preview, error: optOut})
+            } else {
+                const previewEvent: Event = {...event, payload: {...event.payload, fromEmail: config['from_email'], toEmail: recipient}}
+                previews.push(renderPreview(preview, () => this.renderTemplate(previewEvent, smtpTemplate.template_payload)))
             }
+        }
+        return previews
+    }
+
+    public renderTemplate(event: Event, template: string): string {
+        let parsedEvent = this.mh.parseEvent(event);
+        parsedEvent['fromEmail'] = event.payload['fromEmail'];
+        parsedEvent['toEmail'] = event.payload['toEmail'];
+        Object.assign(parsedEvent, this.preferenceService.unsubscribeLinks(event.payload['toEmail'], event));
+        if(event.eventTypeId===4){
+            let commentDisplayStyle = (event.payload.imageComment === "") ? 'none' : 'inline';
+            let tagDisplayStyle = (event.payload.imageTagNames === null) ? 'none' : 'inline';
+            return Mustache.render(template, { ...parsedEvent, commentDisplayStyle ,tagDisplayStyle});
+        }else if(event.eventTypeId===5){
+            let commentDisplayStyle = (event.payload.protectConfigComment === "") ? 'none' : 'inline';
+            return Mustache.render(template, { ...parsedEvent, commentDisplayStyle });
+        }else{
+            return Mustache.render(template, parsedEvent)
+        }
+    }
+
+    public sendNotification(event: Event, sdk: NotifmeSdk, template: string, setting?: NotificationSettings) {
+        return withSpan("smtp send", {...eventAttributes(event), "notifier.destination": SMTP_DESTINATION}, () => this.send(event, sdk, template, setting), SpanKind.CLIENT)
+    }
+
+    private async send(event: Event, sdk: NotifmeSdk, template: string, setting: NotificationSettings) {
+        let rendered: any
+        try {
+            rendered = countRenderErrors(SMTP_DESTINATION, () => JSON.parse(this.renderTemplate(event, template)))
+        } catch (error: any) {
+            this.logger.error('SMTP email render error', error)
+            throw new CustomError("Unable to render SMTP email: " + error.message, 422)
+        }
+        try {
+            const email = await this.preferenceService.prepareEmail(this.attachmentService.attach(rendered, event, setting), event)
             const res = await sdk.send(
                 {
-                    email: JSON.parse(json)
+                    email: email
                 }
             );
             this.logger.info('Notification send')
-            this.logger.info(json)
             return res;
-        } catch (error) {
+        } catch (error: any) {
             this.logger.error('SMTP sendNotification error', error)
-            throw new CustomError("Unable to send SMTP notification",500);
+            throw new DeliveryError("Unable to send SMTP notification: " + error.message);
         }
     }
 
-    private saveNotificationEventSuccessLog(result: any, event: Event, p: any, setting: NotificationSettings) {
+    private async saveNotificationEventSuccessLog(result: any, event: Event, p: any, setting: NotificationSettings, template: string, target: RetryTarget, detail: DeliveryDetail): Promise<DeliveryOutcome> {
         if (result["status"] == "error") {
-            this.saveNotificationEventFailureLog(event, p, setting)
-        } else {
-            let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, true, setting);
-            this.eventLogRepository.saveEventLog(eventLog);
+            return this.saveNotificationEventFailureLog(event, p, setting, template, target, {...detail, response: JSON.stringify(result["errors"])})
         }
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, true, setting, {...detail, response: this.eventLogBuilder.describeResponse(result)});
+        this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, true, detail)
     }
 
-    private saveNotificationEventFailureLog(event: Event, p: any, setting: NotificationSettings) {
-        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting);
+    private savePermanentFailureLog(event: Event, p: any, setting: NotificationSettings, detail: DeliveryDetail): DeliveryOutcome {
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
         this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, false, detail)
     }
-}
+
+    private saveNotificationEventFailureLog(event: Event, p: any, setting: NotificationSettings, template: string, target: RetryTarget, detail: DeliveryDetail): Promise<DeliveryOutcome> {
+        return this.retryService.enqueue(SMTP_DESTINATION, event, setting, p, template, target, detail.response).then(queued => {
+            if (!queued) {
+                let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
+                this.eventLogRepository.saveEventLog(eventLog);
+            }
+            return deliveryOutcome(p.dest, false, detail, queued)
+        })
+    }
+}
\ No newline at end of file
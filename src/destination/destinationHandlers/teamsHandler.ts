@@ -0,0 +1,231 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import axios from 'axios';
+import Engine from 'json-rules-engine';
+import Mustache from 'mustache';
+import {DeliveryOutcome, deliveryOutcome, Event, Handler, NotificationPreview, renderPreview} from '../../notification/service/notificationService';
+import {DeliveryDetail, EventLogBuilder} from "../../common/eventLogBuilder";
+import {EventLogRepository} from '../../repository/notifierEventLogRepository';
+import {NotificationTemplates} from "../../entities/notificationTemplates";
+import {NotificationSettings} from "../../entities/notificationSettings";
+import {TeamsConfigRepository} from "../../repository/teamsConfigRepository";
+import {MustacheHelper} from '../../common/mustacheHelper';
+import {EVENT_TYPE} from "../../common/types";
+import {CustomError, DeliveryError} from "../../entities/events";
+import {RetryableHandler, RetryService} from "../../retry/retryService";
+import {NotificationRetry} from "../../entities/notificationRetry";
+import {RetryTarget, TEAMS_DESTINATION} from "../../retry/utils";
+import {countRenderErrors} from "../../common/metrics";
+import {SpanKind} from "@opentelemetry/api";
+import {withLogContext} from "../../logging/logger";
+import {eventAttributes, withSpan} from "../../tracing/tracing";
+
+// teams templates render the content of an Adaptive Card, which is wrapped into an incoming webhook message before posting
+//https://learn.microsoft.com/en-us/microsoftteams/platform/webhooks-and-connectors/how-to/connectors-using#send-adaptive-cards-using-an-incoming-webhook
+export class TeamsService implements Handler, RetryableHandler {
+    eventLogRepository: EventLogRepository
+    eventLogBuilder: EventLogBuilder
+    teamsConfigRepository: TeamsConfigRepository
+    logger: any
+    mh: MustacheHelper
+    retryService: RetryService
+
+    constructor(eventLogRepository: EventLogRepository, eventLogBuilder: EventLogBuilder, teamsConfigRepository: TeamsConfigRepository, logger: any, mh: MustacheHelper, retryService: RetryService) {
+        this.eventLogRepository = eventLogRepository
+        this.eventLogBuilder = eventLogBuilder
+        this.teamsConfigRepository = teamsConfigRepository
+        this.logger = logger
+        this.mh = mh
+        this.retryService = retryService
+    }
+
+    async handle(event: Event, templates: NotificationTemplates[], setting: NotificationSettings, configsMap: Map<string, boolean>, destinationMap: Map<string, boolean>): Promise<DeliveryOutcome[]> {
+
+        let teamsTemplate: NotificationTemplates = templates.find(t => {
+            return 'teams' == t.channel_type
+        })
+        if (!teamsTemplate) {
+            this.logger.info("no teams template for event")
+            return []
+        }
+
+        event = this.forSetting(event, setting)
+        const providerObjects = setting.config
+        const providersSet = new Set(providerObjects);
+        const deliveries: Promise<DeliveryOutcome>[] = []
+
+        providersSet.forEach(p => {
+            if (p['dest'] == "teams") {
+                let teamsConfigId = p['configId']
+                let configKey = p['dest'] + '-' + teamsConfigId
+                if (!configsMap.get(configKey)) {
+                    deliveries.push(withLogContext({destination: TEAMS_DESTINATION, configId: teamsConfigId}, () => this.processNotification(teamsConfigId, event, teamsTemplate, setting, p, destinationMap)))
+                    configsMap.set(configKey, true)
+                }
+            }
+        });
+        return (await Promise.all(deliveries)).filter(outcome => !!outcome)
+    }
+
+    public async preview(event: Event, templates: NotificationTemplates[], setting: NotificationSettings): Promise<NotificationPreview[]> {
+        let teamsTemplate: NotificationTemplates = templates.find(t => {
+            return 'teams' == t.channel_type
+        })
+        if (!teamsTemplate) {
+            return []
+        }
+        event = this.forSetting(event, setting)
+        const previews: NotificationPreview[] = []
+        for (const p of new Set(setting.config)) {
+            if (p['dest'] != "teams") {
+                continue
+            }
+            const config = await this.teamsConfigRepository.findByTeamsConfigId(p['configId'])
+            if (!config) {
+                previews.push({destination: "teams", configId: p['configId'], error: "no teams config found"})
+                continue
+            }
+            previews.push(renderPreview({destination: "teams", configId: p['configId'], recipient: this.eventLogBuilder.getUrlHost(config.web_hook_url)},
+                () => this.renderTemplate(event, teamsTemplate.template_payload)))
+        }
+        return previews
+    }
+
+    // image scan results are keyed by notification setting, only the ones for this setting are rendered
+    private forSetting(event: Event, setting: NotificationSettings): Event {
+        if (event.eventTypeId === EVENT_TYPE.ImageScan && !!event.payload.imageScanExecutionInfo) {
+            event = JSON.parse(JSON.stringify(event))
+            event.payload.imageScanExecutionInfo = event.payload.imageScanExecutionInfo[setting.id] ?? {}
+        }
+        return event
+    }
+
+    private async processNotification(teamsConfigId: number, event: Event, teamsTemplate: NotificationTemplates, setting: NotificationSettings, p: string, webhookMap: Map<string, boolean>): Promise<DeliveryOutcome> {
+        try {
+            const config = await this.teamsConfigRepository.findByTeamsConfigId(teamsConfigId)
+            if (!config) {
+                this.logger.info('no teams config found for event')
+                return {destination: "teams", configId: teamsConfigId, success: false, error: "no teams config found"}
+            }
+
+            if (!webhookMap.get(config['web_hook_url'])) {
+                webhookMap.set(config['web_hook_url'], true)
+            } else {
+                this.logger.info('duplicate webHook filtered out')
+                return
+            }
+
+            let engine = new Engine();
+            let conditions: string = p['rule'] && p['rule']['conditions'];
+            if (conditions) {
+                engine.addRule({conditions: conditions, event: event});
+                await engine.run(event)
+            }
+            return await this.sendAndLogNotification(event, config['web_hook_url'], setting, p, teamsTemplate);
+        } catch (error: any) {
+            this.logger.error('teams processNotification error', error)
+            return {destination: "teams", configId: teamsConfigId, success: false, error: error.message}
+        }
+    }
+
+    public sendAndLogNotification(event: Event, webhookUrl: string, setting: NotificationSettings, p: any, teamsTemplate: NotificationTemplates): Promise<DeliveryOutcome> {
+        const target: RetryTarget = {webhookUrl: webhookUrl, configId: p.configId}
+        const detail: DeliveryDetail = {configId: p.configId, target: this.eventLogBuilder.getUrlHost(webhookUrl), attempt: 1}
+        const start = Date.now()
+        return this.sendNotification(event, webhookUrl, teamsTemplate.template_payload).then(result => {
+            return this.saveNotificationEventSuccessLog(event, p, setting, {...detail, statusCode: result.statusCode, response: this.eventLogBuilder.describeResponse(result.data), latency: Date.now() - start});
+        }).catch((error) => {
+            this.logger.error(error.message);
+            const failed: DeliveryDetail = {...detail, response: error.message, statusCode: error.providerStatusCode, latency: Date.now() - start}
+            // cards which don't render are not retried
+            if (!(error instanceof DeliveryError)) {
+                return this.savePermanentFailureLog(event, p, setting, failed);
+            }
+            return this.saveNotificationEventFailureLog(event, p, setting, teamsTemplate.template_payload, target, failed);
+        });
+    }
+
+    public async resend(retry: NotificationRetry): Promise<DeliveryDetail> {
+        const result = await this.sendNotification(retry.event, retry.target.webhookUrl, retry.template)
+        return {statusCode: result.statusCode, response: this.eventLogBuilder.describeResponse(result.data)}
+    }
+
+    public sendNotification(event: Event, webhookUrl: string, template: string) {
+        return withSpan("teams send", {...eventAttributes(event), "notifier.destination": TEAMS_DESTINATION}, () => this.send(event, webhookUrl, template), SpanKind.CLIENT)
+    }
+
+    private async send(event: Event, webhookUrl: string, template: string) {
+        let card: any
+        try {
+            card = countRenderErrors(TEAMS_DESTINATION, () => JSON.parse(this.renderTemplate(event, template)))
+        } catch (error: any) {
+            this.logger.error('teams card render error', error)
+            throw new CustomError("Unable to render teams card: " + error.message, 422)
+        }
+        try {
+            const res = await axios.post(webhookUrl, {
+                type: "message",
+                attachments: [{
+                    contentType: "application/vnd.microsoft.card.adaptive",
+                    contentUrl: null,
+                    content: card
+                }]
+            });
+            this.logger.info("teams notification sent")
+            return {statusCode: res.status, data: res.data};
+        } catch (error: any) {
+            this.logger.error('teams sendNotification error', error)
+            throw new DeliveryError("Unable to send teams notification: " + error.message, error.response?.status);
+        }
+    }
+
+    public renderTemplate(event: Event, template: string): string {
+        // a digest is rendered from the summary of its buffered events, see DigestService
+        if (event.payload.digest) {
+            return Mustache.render(template, event.payload.digest);
+        }
+        if (event.eventTypeId == EVENT_TYPE.ScoopNotification) {
+            return Mustache.render(template, this.mh.parseScoopNotification(event));
+        }
+        if (event.eventTypeId == EVENT_TYPE.ImageScan) {
+            return Mustache.render(template, this.mh.parseEventForWebhook(event));
+        }
+        return Mustache.render(template, this.mh.parseEvent(event));
+    }
+
+    private saveNotificationEventSuccessLog(event: Event, p: any, setting: NotificationSettings, detail: DeliveryDetail): DeliveryOutcome {
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, true, setting, detail);
+        this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, true, detail)
+    }
+
+    private savePermanentFailureLog(event: Event, p: any, setting: NotificationSettings, detail: DeliveryDetail): DeliveryOutcome {
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
+        this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, false, detail)
+    }
+
+    private saveNotificationEventFailureLog(event: Event, p: any, setting: NotificationSettings, template: string, target: RetryTarget, detail: DeliveryDetail): Promise<DeliveryOutcome> {
+        return this.retryService.enqueue(TEAMS_DESTINATION, event, setting, p, template, target, detail.response).then(queued => {
+            if (!queued) {
+                let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
+                this.eventLogRepository.saveEventLog(eventLog);
+            }
+            return deliveryOutcome(p.dest, false, detail, queued)
+        })
+    }
+}
@@ -18,70 +18,108 @@ import axios from 'axios';
 import Engine from 'json-rules-engine';
 import moment from "moment-timezone";
 import Mustache from 'mustache';
-import { EventLogBuilder } from "../../common/eventLogBuilder";
+import { DeliveryDetail, EventLogBuilder } from "../../common/eventLogBuilder";
 import { MustacheHelper } from '../../common/mustacheHelper';
 import { EVENT_TYPE } from "../../common/types";
 import { NotificationSettings } from "../../entities/notificationSettings";
 import { WebhookConfig } from '../../entities/webhookconfig';
-import { Event, Handler } from '../../notification/service/notificationService';
+import { DeliveryOutcome, deliveryOutcome, Event, Handler, NotificationPreview, renderPreview } from '../../notification/service/notificationService';
 import { EventLogRepository } from '../../repository/notifierEventLogRepository';
 import { WebhookConfigRepository } from '../../repository/webhookConfigRepository';
+import { CustomError, DeliveryError } from "../../entities/events";
+import { NotificationRetry } from "../../entities/notificationRetry";
+import { RetryableHandler, RetryService } from "../../retry/retryService";
+import { RetryTarget, WEBHOOK_DESTINATION } from "../../retry/utils";
+import {countRenderErrors} from "../../common/metrics";
+import {SpanKind} from "@opentelemetry/api";
+import {withLogContext} from "../../logging/logger";
+import {eventAttributes, injectContext, withSpan} from "../../tracing/tracing";
 
-export class WebhookService implements Handler{
+export class WebhookService implements Handler, RetryableHandler{
     eventLogRepository: EventLogRepository
     eventLogBuilder: EventLogBuilder
     webhookConfigRepository: WebhookConfigRepository
     logger: any
     mh: MustacheHelper
+    retryService: RetryService
 
-    constructor(eventLogRepository: EventLogRepository, eventLogBuilder: EventLogBuilder, webhookConfigRepository: WebhookConfigRepository, logger: any, mh: MustacheHelper) {
+    constructor(eventLogRepository: EventLogRepository, eventLogBuilder: EventLogBuilder, webhookConfigRepository: WebhookConfigRepository, logger: any, mh: MustacheHelper, retryService: RetryService) {
         this.eventLogRepository = eventLogRepository
         this.eventLogBuilder = eventLogBuilder
         this.webhookConfigRepository = webhookConfigRepository
         this.logger = logger
         this.mh = mh;
+        this.retryService = retryService
     }
-    handle(event: Event, templates: WebhookConfig[], setting: NotificationSettings, configsMap: Map<string, boolean>, destinationMap: Map<string, boolean>): boolean{
+    async handle(event: Event, templates: WebhookConfig[], setting: NotificationSettings, configsMap: Map<string, boolean>, destinationMap: Map<string, boolean>): Promise<DeliveryOutcome[]>{
         let  webhookTemplate: WebhookConfig  = templates.find(t => {
             return t
         })
         if (!webhookTemplate) {
             this.logger.info("no webhook template")
-            return
+            return []
         }
         const providerObjects = setting.config
         const providersSet = new Set(providerObjects);
+        const deliveries: Promise<DeliveryOutcome>[] = []
 
         providersSet.forEach(p => {
             if (p['dest'] == "webhook" && p['configId']==webhookTemplate.id) {
                 let webhookConfigId = p['configId']
                 let configKey = p['dest'] + '-' + webhookConfigId
                 if (!configsMap.get(configKey)) {
-                    this.processNotification(webhookConfigId, event, webhookTemplate, setting, p, destinationMap)
+                    deliveries.push(withLogContext({destination: WEBHOOK_DESTINATION, configId: webhookConfigId}, () => this.processNotification(webhookConfigId, event, webhookTemplate, setting, p, destinationMap)))
                     configsMap.set(configKey, true)
                 }
             }
         });
-        return true
+        return (await Promise.all(deliveries)).filter(outcome => !!outcome)
 
     }
 
-    public sendAndLogNotification(event: Event, webhookTemplate: WebhookConfig, setting: NotificationSettings, p: any) {
+    public sendAndLogNotification(event: Event, webhookTemplate: WebhookConfig, setting: NotificationSettings, p: any): Promise<DeliveryOutcome> {
         const payload=typeof webhookTemplate.payload==="object"?JSON.stringify(webhookTemplate.payload) : webhookTemplate.payload;
-        this.sendNotification(event, webhookTemplate.web_hook_url, payload,webhookTemplate.header).then(result => {
-            this.saveNotificationEventSuccessLog(result, event, p, setting);
+        const target: RetryTarget = {configId: webhookTemplate.id, webhookUrl: webhookTemplate.web_hook_url}
+        const detail: DeliveryDetail = {configId: webhookTemplate.id, target: this.eventLogBuilder.getUrlHost(webhookTemplate.web_hook_url), attempt: 1}
+        const start = Date.now()
+        return this.sendNotification(event, webhookTemplate.web_hook_url, payload,webhookTemplate.header).then(result => {
+            detail.latency = Date.now() - start
+            return this.saveNotificationEventSuccessLog(result, event, p, setting, payload, target, detail);
         }).catch((error) => {
             this.logger.error(error.message);
-            this.saveNotificationEventFailureLog(event, p, setting);
+            const failed: DeliveryDetail = {...detail, response: error.message, statusCode: error.providerStatusCode, latency: Date.now() - start}
+            // only failed requests are retried, a payload which doesn't render fails the same way on every attempt
+            if (!(error instanceof DeliveryError)) {
+                return this.savePermanentFailureLog(event, p, setting, failed);
+            }
+            return this.saveNotificationEventFailureLog(event, p, setting, payload, target, failed);
         });
     }
 
-    private processNotification(webhookConfigId: number, event: Event, webhookTemplate: WebhookConfig, setting: NotificationSettings, p: string, webhookMap: Map<string, boolean>) {
-        this.webhookConfigRepository.findByWebhookConfigId(webhookConfigId).then(config => {
+    public async resend(retry: NotificationRetry): Promise<DeliveryDetail> {
+        // scoop notifications carry their webhook config inline instead of referring to a saved one
+        let config: WebhookConfig
+        if (retry.target && retry.target.configId) {
+            config = await this.webhookConfigRepository.findByWebhookConfigId(retry.target.configId)
+        } else if (retry.event.eventTypeId == EVENT_TYPE.ScoopNotification) {
+            config = retry.event.payload.scoopNotificationConfig.webhookConfig
+        }
+        if (!config) {
+            throw new CustomError("no webhook config found", 404)
+        }
+        const result = await this.sendNotification(retry.event, config.web_hook_url, retry.template, config.header)
+        if (!result) {
+            throw new CustomError("Unable to send webhook notification", 500)
+        }
+        return {target: this.eventLogBuilder.getUrlHost(config.web_hook_url), statusCode: result.statusCode, response: this.eventLogBuilder.describeResponse(result.data)}
+    }
+
+    private async processNotification(webhookConfigId: number, event: Event, webhookTemplate: WebhookConfig, setting: NotificationSettings, p: string, webhookMap: Map<string, boolean>): Promise<DeliveryOutcome> {
+        try {
+            const config = await this.webhookConfigRepository.findByWebhookConfigId(webhookConfigId)
             if (!config) {
                 this.logger.info('no webhook config found for event')
-                this.logger.info(event.correlationId)
-                return
+                return {destination: "webhook", configId: webhookConfigId, success: false, error: "no webhook config found"}
             }
 
             if (!webhookMap.get(config['web_hook_url'])) {
@@ -94,59 +132,98 @@ export class WebhookService implements Handler{
             let conditions: string = p['rule']['conditions'];
             if (conditions) {
                 engine.addRule({conditions: conditions, event: event});
-                engine.run(event).then(e => {
-                    this.sendAndLogNotification(event, webhookTemplate, setting, p);
-                })
-            } else {
-                this.sendAndLogNotification(event, webhookTemplate, setting, p);
+                await engine.run(event)
             }
-        })
+            return await this.sendAndLogNotification(event, webhookTemplate, setting, p);
+        } catch (error: any) {
+            this.logger.error("webhook processNotification error", error);
+            return {destination: "webhook", configId: webhookConfigId, success: false, error: error.message}
+        }
     }
 
-    public async sendNotification(event: Event, webhookUrl: string, template: string, headers?: Record<string, string>) {
-        try {
-            if(!template){
-                this.logger.error("template is empty")
-                return
+    public async preview(event: Event, templates: WebhookConfig[], setting: NotificationSettings): Promise<NotificationPreview[]> {
+        const previews: NotificationPreview[] = []
+        for (const p of new Set(setting.config)) {
+            if (p['dest'] != "webhook") {
+                continue
             }
-            let jsons : string = ''
-            if (event.eventTypeId == EVENT_TYPE.ScoopNotification){
-                const date = moment(event.eventTime);
-                event.payload.scoopNotificationConfig.data.interceptedAt = date.unix();
-                jsons = Mustache.render(template, event.payload.scoopNotificationConfig.data);
-            }else {
-                let parsedEvent = this.mh.parseEventForWebhook(event as Event);
-                jsons = Mustache.render(template, parsedEvent);
+            const webhookTemplate = templates.find(t => t.id == p['configId'])
+            if (!webhookTemplate) {
+                previews.push({destination: "webhook", configId: p['configId'], error: "no webhook config found"})
+                continue
             }
+            const payload = typeof webhookTemplate.payload === "object" ? JSON.stringify(webhookTemplate.payload) : webhookTemplate.payload;
+            previews.push(renderPreview({destination: "webhook", configId: webhookTemplate.id, recipient: this.eventLogBuilder.getUrlHost(webhookTemplate.web_hook_url)},
+                () => this.renderTemplate(event, payload)))
+        }
+        return previews
+    }
+
+    public renderTemplate(event: Event, template: string): string {
+        // a digest is rendered from the summary of its buffered events, see DigestService
+        if (event.payload.digest) {
+            return Mustache.render(template, event.payload.digest);
+        }
+        if (event.eventTypeId == EVENT_TYPE.ScoopNotification){
+            const date = moment(event.eventTime);
+            event.payload.scoopNotificationConfig.data.interceptedAt = date.unix();
+            return Mustache.render(template, event.payload.scoopNotificationConfig.data);
+        }
+        let parsedEvent = this.mh.parseEventForWebhook(event as Event);
+        return Mustache.render(template, parsedEvent);
+    }
 
-            let j = JSON.parse(jsons);
-            const headerConfig = { headers: {} };
+    public sendNotification(event: Event, webhookUrl: string, template: string, headers?: Record<string, string>) {
+        return withSpan("webhook send", {...eventAttributes(event), "notifier.destination": WEBHOOK_DESTINATION}, () => this.send(event, webhookUrl, template, headers), SpanKind.CLIENT)
+    }
 
-            if (headers) {
-                headerConfig.headers = headers;
-            }
+    private async send(event: Event, webhookUrl: string, template: string, headers?: Record<string, string>) {
+        if(!template){
+            this.logger.error("template is empty")
+            return
+        }
+        let j: any
+        try {
+            j = countRenderErrors(WEBHOOK_DESTINATION, () => JSON.parse(this.renderTemplate(event, template)));
+        } catch (error: any) {
+            this.logger.error("webhook payload render error", error);
+            throw new CustomError("Unable to render webhook payload: " + error.message, 422);
+        }
+        try {
+            // the configured headers are copied, the trace context differs per request
+            const headerConfig = { headers: injectContext({...headers}) };
             const res = await axios.post(webhookUrl, j, headerConfig);
             this.logger.info("Notification Sent Successfully");
-            console.log(res.data);
-            return res.data;
-        } catch (error) {
+            return { statusCode: res.status, data: res.data };
+        } catch (error: any) {
             this.logger.error("webhook sendNotification error", error);
+            throw new DeliveryError("Unable to send webhook notification: " + error.message, error.response?.status);
         }
       }
 
-    private saveNotificationEventSuccessLog(result: any, event: Event, p: any, setting: NotificationSettings) {
-        
-            if (!result || result["status"] == "error") {
-                this.saveNotificationEventFailureLog(event, p, setting)
-            } else {
-                let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, true, setting);
-                this.eventLogRepository.saveEventLog(eventLog);
-            }  
+    private async saveNotificationEventSuccessLog(result: any, event: Event, p: any, setting: NotificationSettings, template: string, target: RetryTarget, detail: DeliveryDetail): Promise<DeliveryOutcome> {
+        if (!result) {
+            return this.savePermanentFailureLog(event, p, setting, {...detail, response: "webhook payload template is empty"})
+        }
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, true, setting, {...detail, statusCode: result.statusCode, response: this.eventLogBuilder.describeResponse(result.data)});
+        this.eventLogRepository.saveEventLog(eventLog);
+        return deliveryOutcome(p.dest, true, detail)
     }
 
-    private saveNotificationEventFailureLog(event: Event, p: any, setting: NotificationSettings) {
-        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting);
+    private savePermanentFailureLog(event: Event, p: any, setting: NotificationSettings, detail: DeliveryDetail): Promise<DeliveryOutcome> {
+        let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
         this.eventLogRepository.saveEventLog(eventLog);
+        return Promise.resolve(deliveryOutcome(p.dest, false, detail))
+    }
+
+    private saveNotificationEventFailureLog(event: Event, p: any, setting: NotificationSettings, template: string, target: RetryTarget, detail: DeliveryDetail): Promise<DeliveryOutcome> {
+        return this.retryService.enqueue(WEBHOOK_DESTINATION, event, setting, p, template, target, detail.response).then(queued => {
+            if (!queued) {
+                let eventLog = this.eventLogBuilder.buildEventLog(event, p.dest, false, setting, detail);
+                this.eventLogRepository.saveEventLog(eventLog);
+            }
+            return deliveryOutcome(p.dest, false, detail, queued)
+        })
     }
 
-}
+}
\ No newline at end of file
@@ -0,0 +1,332 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {createHash} from "crypto";
+import moment from "moment-timezone";
+import {DeliveryOutcome, Event, scoopTarget} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {NotificationDigestConfig} from "../entities/notificationDigestConfig";
+import {NotificationDigestEvent} from "../entities/notificationDigestEvent";
+import {NotificationDigestRepository} from "../repository/notificationDigestRepository";
+import {NotificationTemplatesRepository} from "../repository/templatesRepository";
+import {SlackConfigRepository} from "../repository/slackConfigRepository";
+import {TeamsConfigRepository} from "../repository/teamsConfigRepository";
+import {WebhookConfigRepository} from "../repository/webhookConfigRepository";
+import {SlackService} from "../destination/destinationHandlers/slackHandler";
+import {TeamsService} from "../destination/destinationHandlers/teamsHandler";
+import {WebhookService} from "../destination/destinationHandlers/webhookHandler";
+import {EventLogBuilder} from "../common/eventLogBuilder";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {EVENT_TYPE} from "../common/types";
+import {RetryTarget, SLACK_DESTINATION, TEAMS_DESTINATION, WEBHOOK_DESTINATION} from "../retry/utils";
+import {DIGEST_DESTINATIONS, DIGEST_NODE_TYPE, digestBatchSize, digestLeaseTimeout, digestMaxEvents, digestPollInterval, DigestTitleMapping} from "./utils";
+import {waitUntil} from "../shutdown/utils";
+
+const timeFormat = "MMM Do hh:mm A [GMT]Z"
+
+export class DigestService {
+    private digestRepository: NotificationDigestRepository
+    private templatesRepository: NotificationTemplatesRepository
+    private slackConfigRepository: SlackConfigRepository
+    private teamsConfigRepository: TeamsConfigRepository
+    private webhookConfigRepository: WebhookConfigRepository
+    private slackService: SlackService
+    private teamsService: TeamsService
+    private webhookService: WebhookService
+    private eventLogBuilder: EventLogBuilder
+    private mh: MustacheHelper
+    private logger: any
+    private timer: NodeJS.Timeout
+    private polling: boolean = false
+
+    constructor(digestRepository: NotificationDigestRepository, templatesRepository: NotificationTemplatesRepository, slackConfigRepository: SlackConfigRepository, teamsConfigRepository: TeamsConfigRepository,
+                webhookConfigRepository: WebhookConfigRepository, slackService: SlackService, teamsService: TeamsService, webhookService: WebhookService, eventLogBuilder: EventLogBuilder, mh: MustacheHelper, logger: any) {
+        this.digestRepository = digestRepository
+        this.templatesRepository = templatesRepository
+        this.slackConfigRepository = slackConfigRepository
+        this.teamsConfigRepository = teamsConfigRepository
+        this.webhookConfigRepository = webhookConfigRepository
+        this.slackService = slackService
+        this.teamsService = teamsService
+        this.webhookService = webhookService
+        this.eventLogBuilder = eventLogBuilder
+        this.mh = mh
+        this.logger = logger
+    }
+
+    // buffers the event for every digest enabled destination of the settings and returns the settings
+    // stripped of those destinations, which are left to be notified right away
+    public async bufferEvents(event: Event, settings: NotificationSettings[]): Promise<{ settings: NotificationSettings[], outcomes: DeliveryOutcome[] }> {
+        const remaining: NotificationSettings[] = []
+        const outcomes: DeliveryOutcome[] = []
+        const buffered = new Set<string>()
+        for (const setting of settings) {
+            const providers = Array.isArray(setting.config) ? setting.config as any[] : []
+            let digestConfig: NotificationDigestConfig
+            try {
+                if (providers.some(p => DIGEST_DESTINATIONS.includes(p['dest']))) {
+                    digestConfig = await this.digestRepository.findDigestConfig(setting.id, event.eventTypeId)
+                }
+            } catch (error) {
+                this.logger.error("error occurred while fetching digest config", error)
+            }
+            if (!digestConfig) {
+                remaining.push(setting)
+                continue
+            }
+
+            const immediate = []
+            for (const p of providers) {
+                if (!DIGEST_DESTINATIONS.includes(p['dest'])) {
+                    immediate.push(p)
+                    continue
+                }
+                const digestKey = this.digestKey(event.eventTypeId, p['dest'], String(p['configId']))
+                if (buffered.has(digestKey)) {
+                    continue
+                }
+                try {
+                    outcomes.push(await this.buffer(digestKey, this.forSetting(event, setting), setting, p, {configId: p['configId']}, this.windowEnd(digestConfig)))
+                    buffered.add(digestKey)
+                } catch (error) {
+                    // an event which could not be buffered is still delivered on its own
+                    this.logger.error("error occurred while buffering event for digest", error)
+                    immediate.push(p)
+                }
+            }
+            remaining.push(Object.assign(new NotificationSettings(), setting, {config: immediate}))
+        }
+        return {settings: remaining, outcomes: outcomes}
+    }
+
+    // scoop notifications carry their destination in the event, returns nothing when the event has to be sent right away.
+    // with flushAt the event is buffered for a digest sent at that time regardless of the digest configs
+    public async bufferScoopEvent(event: Event, flushAt?: Date): Promise<DeliveryOutcome[]> {
+        const target = scoopTarget(event)
+        if (!target) {
+            return
+        }
+        try {
+            let digestKey = this.digestKey(event.eventTypeId, target.destination, createHash("sha1").update(target.webhookUrl).digest("hex"))
+            if (flushAt) {
+                digestKey = digestKey + "-" + flushAt.getTime()
+            } else {
+                const digestConfig = await this.digestRepository.findDigestConfig(null, event.eventTypeId)
+                if (!digestConfig) {
+                    return
+                }
+                flushAt = this.windowEnd(digestConfig)
+            }
+            let setting = new NotificationSettings()
+            setting.event_type_id = event.eventTypeId
+            setting.pipeline_id = 0
+            setting.config = event.payload
+            return [await this.buffer(digestKey, event, setting, {"dest": target.destination}, {webhookUrl: target.webhookUrl}, flushAt)]
+        } catch (error) {
+            this.logger.error("error occurred while buffering scoop event for digest", error)
+            return
+        }
+    }
+
+    // buffers the event for a digest of the destination which is sent at the given time, used for events arriving during quiet hours.
+    // such digests are kept apart from the ones of digest configs, which may be sent before the quiet hours end
+    public bufferUntil(event: Event, setting: NotificationSettings, provider: any, flushAt: Date): Promise<DeliveryOutcome> {
+        const digestKey = this.digestKey(event.eventTypeId, provider['dest'], provider['configId'] + "-" + flushAt.getTime())
+        return this.buffer(digestKey, this.forSetting(event, setting), setting, provider, {configId: provider['configId']}, flushAt)
+    }
+
+    public start() {
+        if (this.timer) {
+            return
+        }
+        this.timer = setInterval(() => this.processDueDigests(), digestPollInterval * 1000)
+        this.logger.info("digest worker started")
+    }
+
+    // resolves once a poll which was already running has finished
+    public async stop() {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+        await waitUntil(() => !this.polling)
+    }
+
+    public async processDueDigests() {
+        if (this.polling) {
+            return
+        }
+        this.polling = true
+        try {
+            const due = await this.digestRepository.claimDueDigestEvents(digestBatchSize, new Date(Date.now() + digestLeaseTimeout * 1000))
+            const digests = new Map<string, NotificationDigestEvent[]>()
+            for (const digestEvent of due) {
+                if (!digests.has(digestEvent.digest_key)) {
+                    digests.set(digestEvent.digest_key, [])
+                }
+                digests.get(digestEvent.digest_key).push(digestEvent)
+            }
+            for (const buffered of digests.values()) {
+                if (await this.sendDigest(buffered)) {
+                    await this.digestRepository.deleteDigestEvents(buffered.map(b => b.id))
+                }
+            }
+        } catch (err) {
+            this.logger.error("error occurred while processing digests", err)
+        } finally {
+            this.polling = false
+        }
+    }
+
+    private windowEnd(digestConfig: NotificationDigestConfig): Date {
+        return new Date(Date.now() + digestConfig.window_seconds * 1000)
+    }
+
+    private async buffer(digestKey: string, event: Event, setting: NotificationSettings, provider: any, target: RetryTarget, flushAt: Date): Promise<DeliveryOutcome> {
+        // every event joins the window opened by the first buffered event of the digest
+        const open = await this.digestRepository.findBufferedDigestEvent(digestKey)
+        const now = new Date()
+        await this.digestRepository.saveDigestEvent({
+            digest_key: digestKey,
+            destination: provider['dest'],
+            event: JSON.parse(JSON.stringify(event)),
+            setting: JSON.parse(JSON.stringify(setting)),
+            provider: provider,
+            target: target,
+            flush_at: open ? open.flush_at : flushAt,
+            created_at: now,
+        })
+        return {destination: provider['dest'], configId: target.configId, target: this.eventLogBuilder.getUrlHost(target.webhookUrl), success: true, deferred: true}
+    }
+
+    // resolves true once the buffered events are done with, i.e. the digest was sent, handed to the retry queue or can't
+    // ever be sent. digests which failed otherwise are left leased and attempted again once the lease passed
+    private async sendDigest(buffered: NotificationDigestEvent[]): Promise<boolean> {
+        const first = buffered[0]
+        const last = buffered[buffered.length - 1]
+        try {
+            const templates = await this.templatesRepository.findByEventTypeIdAndNodeType(first.event.eventTypeId, DIGEST_NODE_TYPE)
+            const template = templates.find(t => t.channel_type == first.destination)
+            if (!template) {
+                this.logger.error("no " + first.destination + " digest template for event type " + first.event.eventTypeId + ", keeping " + buffered.length + " events of digest " + first.digest_key + " until there is one")
+                return false
+            }
+            const event = this.buildDigestEvent(buffered)
+            let outcome: DeliveryOutcome
+            if (first.destination == SLACK_DESTINATION) {
+                const config = first.target.webhookUrl ? undefined : await this.slackConfigRepository.findBySlackConfigId(first.target.configId)
+                const webhookUrl = first.target.webhookUrl ?? (config && config.web_hook_url)
+                if (!webhookUrl) {
+                    return this.dropDigest(buffered, "no slack config found")
+                }
+                outcome = await this.slackService.sendAndLogNotification(event, webhookUrl, first.setting, first.provider, template)
+            } else if (first.destination == TEAMS_DESTINATION) {
+                const config = first.target.webhookUrl ? undefined : await this.teamsConfigRepository.findByTeamsConfigId(first.target.configId)
+                const webhookUrl = first.target.webhookUrl ?? (config && config.web_hook_url)
+                if (!webhookUrl) {
+                    return this.dropDigest(buffered, "no teams config found")
+                }
+                outcome = await this.teamsService.sendAndLogNotification(event, webhookUrl, first.setting, first.provider, template)
+            } else if (first.destination == WEBHOOK_DESTINATION) {
+                const config = first.target.configId ? await this.webhookConfigRepository.findByWebhookConfigId(first.target.configId) : last.event.payload.scoopNotificationConfig.webhookConfig
+                if (!config) {
+                    return this.dropDigest(buffered, "no webhook config found")
+                }
+                outcome = await this.webhookService.sendAndLogNotification(event, {...config, payload: template.template_payload}, first.setting, first.provider)
+            }
+            if (outcome && outcome.success) {
+                this.logger.info("sent " + first.destination + " digest of " + buffered.length + " events, key: " + first.digest_key)
+                return true
+            }
+            if (outcome && outcome.retrying) {
+                this.logger.info("queued " + first.destination + " digest of " + buffered.length + " events for retry, key: " + first.digest_key)
+                return true
+            }
+            this.logger.error("could not send " + first.destination + " digest " + first.digest_key + ", attempting it again in " + digestLeaseTimeout + " seconds")
+            return false
+        } catch (error) {
+            this.logger.error("error occurred while sending digest " + first.digest_key, error)
+            return false
+        }
+    }
+
+    // the destination of the digest was removed, its events can't be sent anymore
+    private dropDigest(buffered: NotificationDigestEvent[], reason: string): boolean {
+        this.logger.warn(reason + " for digest " + buffered[0].digest_key + ", dropping " + buffered.length + " events: " + buffered.map(b => b.event.correlationId).join(", "))
+        return true
+    }
+
+    // the digest is sent as an event of its own, so that it is logged and retried like any other notification.
+    // handlers render events carrying a digest with its summary instead of the parsed event
+    private buildDigestEvent(buffered: NotificationDigestEvent[]): Event {
+        const events: Event[] = buffered.map(b => b.event)
+        const first = events[0]
+        const last = events[events.length - 1]
+        const listed = events.slice(-digestMaxEvents).map(e => this.describeEvent(e))
+        const digest = {
+            eventTypeId: first.eventTypeId,
+            title: DigestTitleMapping.get(first.eventTypeId) ?? "notifications",
+            count: events.length,
+            omitted: events.length - listed.length,
+            from: moment(buffered[0].created_at).format(timeFormat),
+            to: moment(buffered[buffered.length - 1].created_at).format(timeFormat),
+            events: listed,
+            eventsJson: JSON.stringify(listed),
+        }
+
+        let digestEvent = new Event()
+        digestEvent.eventTypeId = first.eventTypeId
+        digestEvent.pipelineId = last.pipelineId
+        digestEvent.pipelineType = last.pipelineType
+        digestEvent.correlationId = "digest-" + buffered[0].id
+        digestEvent.eventTime = new Date().toISOString()
+        digestEvent.baseUrl = last.baseUrl
+        digestEvent.payload = {digest: digest}
+        if (first.eventTypeId == EVENT_TYPE.ScoopNotification) {
+            digestEvent.payload.scoopNotificationConfig = last.payload.scoopNotificationConfig
+        }
+        return digestEvent
+    }
+
+    private describeEvent(event: Event): any {
+        try {
+            const parsed: any = event.eventTypeId == EVENT_TYPE.ImageScan ? this.mh.parseEventForWebhook(event) : this.mh.parseEvent(event)
+            return {
+                ...parsed,
+                appName: parsed.appName ?? parsed.devtronAppName,
+                envName: parsed.envName ?? parsed.devtronEnvName,
+                time: moment(event.eventTime).format(timeFormat),
+                link: parsed.deploymentHistoryLink ?? parsed.buildHistoryLink ?? parsed.viewResourceManifestLink ?? parsed.appDetailsLink,
+            }
+        } catch (error) {
+            this.logger.error("error occurred while parsing event for digest, correlationId: " + event.correlationId, error)
+            return {appName: event.payload && event.payload.appName, time: moment(event.eventTime).format(timeFormat)}
+        }
+    }
+
+    // image scan results are keyed by notification setting, only the ones for this setting are kept
+    private forSetting(event: Event, setting: NotificationSettings): Event {
+        if (event.eventTypeId === EVENT_TYPE.ImageScan && !!event.payload.imageScanExecutionInfo) {
+            event = JSON.parse(JSON.stringify(event))
+            event.payload.imageScanExecutionInfo = event.payload.imageScanExecutionInfo[setting.id] ?? {}
+        }
+        return event
+    }
+
+    private digestKey(eventTypeId: number, destination: string, targetId: string): string {
+        return eventTypeId + "-" + destination + "-" + targetId
+    }
+}
@@ -0,0 +1,30 @@
+import * as process from "process";
+import {EVENT_TYPE} from "../common/types";
+
+// digest templates are stored in notification_templates under this node type, one per event type and channel
+export const DIGEST_NODE_TYPE: string = "DIGEST"
+
+// only chat and webhook destinations are batched, emails are always sent right away
+export const DIGEST_DESTINATIONS: string[] = ["slack", "teams", "webhook"]
+
+const pollInterval: number = parseInt(process.env.DIGEST_POLL_INTERVAL)
+const batchSize: number = parseInt(process.env.DIGEST_BATCH_SIZE)
+const maxEvents: number = parseInt(process.env.DIGEST_MAX_EVENTS)
+const leaseTimeout: number = parseInt(process.env.DIGEST_LEASE_TIMEOUT)
+
+// interval in seconds at which buffered events are checked for digests which are due
+export const digestPollInterval: number = !isNaN(pollInterval) ? pollInterval : 30
+export const digestBatchSize: number = !isNaN(batchSize) ? batchSize : 500
+// events listed in a single digest message, the remaining ones are only counted
+export const digestMaxEvents: number = !isNaN(maxEvents) ? maxEvents : 25
+// claimed events are claimed again after this many seconds unless their digest was sent, e.g. when the pod sending it died
+export const digestLeaseTimeout: number = !isNaN(leaseTimeout) ? leaseTimeout : 300
+
+export const DigestTitleMapping = new Map<number, string>([
+    [EVENT_TYPE.Trigger, "pipelines triggered"],
+    [EVENT_TYPE.Success, "pipelines succeeded"],
+    [EVENT_TYPE.Fail, "pipelines failed"],
+    [EVENT_TYPE.Blocked, "deployments blocked"],
+    [EVENT_TYPE.ImageScan, "image scans completed"],
+    [EVENT_TYPE.ScoopNotification, "resource changes"],
+]);
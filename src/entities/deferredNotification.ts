@@ -0,0 +1,41 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Entity, Column, PrimaryGeneratedColumn} from "typeorm";
+
+// an event held back during quiet hours, delivered to the destinations of its setting snapshot once deliver_at is reached
+@Entity("notifier_deferred_notification")
+export class DeferredNotification {
+
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ type: 'jsonb' })
+    event: any;
+
+    @Column({ type: 'jsonb' })
+    setting: any;
+
+    @Column({ type: 'timestamptz' })
+    deliver_at: Date;
+
+    // set while the notification is being delivered, it is claimed again once it passed
+    @Column({ type: 'timestamptz', nullable: true })
+    lease_until: Date;
+
+    @Column({ type: 'timestamptz' })
+    created_at: Date;
+}
@@ -0,0 +1,67 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Entity, Column, PrimaryGeneratedColumn} from "typeorm";
+
+// restricts deliveries to an active window in the schedule's time zone, events outside of it are handled by quiet_action.
+// a schedule applies to a single notification setting or, without a setting, to all of them, optionally narrowed down to a destination type and config
+@Entity("notifier_delivery_schedule")
+export class DeliverySchedule {
+
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ nullable: true })
+    notification_setting_id: number;
+
+    @Column({ nullable: true })
+    destination: string;
+
+    @Column({ nullable: true })
+    config_id: number;
+
+    @Column()
+    timezone: string;
+
+    // iso weekdays (1 = Monday) the window opens on, every day when empty
+    @Column({ type: 'jsonb', nullable: true })
+    active_days: number[];
+
+    // HH:mm, a window ending before it starts spans midnight
+    @Column()
+    window_start: string;
+
+    @Column()
+    window_end: string;
+
+    @Column()
+    quiet_action: string;
+
+    @Column({ type: 'jsonb', nullable: true })
+    bypass_event_types: number[];
+
+    @Column()
+    bypass_prod_only: boolean;
+
+    @Column()
+    active: boolean;
+
+    @Column({ type: 'timestamptz' })
+    created_on: Date;
+
+    @Column({ type: 'timestamptz' })
+    updated_on: Date;
+}
@@ -0,0 +1,42 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Entity, Column, PrimaryGeneratedColumn} from "typeorm";
+
+// an event received from NATS which was dropped since it didn't match the schema of its event type
+@Entity("notifier_event_rejection")
+export class EventRejection {
+
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ nullable: true })
+    event_type_id: number;
+
+    @Column({ nullable: true })
+    correlation_id: string;
+
+    // the fields at fault, see FieldError
+    @Column({ type: 'jsonb' })
+    errors: any;
+
+    // redacted, the text of the message when it isn't valid json
+    @Column({ type: 'jsonb', nullable: true })
+    event: any;
+
+    @Column({ type: 'timestamptz' })
+    created_at: Date;
+}
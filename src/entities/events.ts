@@ -15,6 +15,7 @@
  */
 
 import {Entity, Column, PrimaryGeneratedColumn} from "typeorm";
+import {DeliveryOutcome} from "../notification/service/notificationService";
  
 @Entity("event")
 export class Event {
@@ -38,14 +39,39 @@ export class CustomError extends Error {
         this.statusCode = statusCode;
     }
 }
+// raised by destination handlers when the provider rejects a delivery, keeping the provider's http status when there is one
+export class DeliveryError extends CustomError {
+    providerStatusCode?: number;
+
+    constructor(message: string, providerStatusCode?: number) {
+        super(message, 500);
+        this.providerStatusCode = providerStatusCode;
+    }
+}
+// a field of an event which doesn't match the schema of its event type, named by its path, e.g. payload.material.ciMaterials[0].id
+export interface FieldError {
+    field: string;
+    message: string;
+}
+// raised for events which don't match the schema of their event type, listing every field which doesn't
+export class EventValidationError extends CustomError {
+    errors: FieldError[];
+
+    constructor(errors: FieldError[]) {
+        super("event is invalid: " + errors.map(error => (error.field ? error.field + " " : "") + error.message).join(", "), 400);
+        this.errors = errors;
+    }
+}
 export class CustomResponse {
     message: string;
     status: number;
     error?: CustomError; // Custom error field, marked as optional
+    results?: DeliveryOutcome[]; // per destination outcomes, only set when the caller waited for the deliveries
 
-    constructor(message: string, status: number, error?: CustomError) {
+    constructor(message: string, status: number, error?: CustomError, results?: DeliveryOutcome[]) {
         this.message = message;
         this.status = status;
         this.error = error;
+        this.results = results;
     }
 }
\ No newline at end of file
@@ -0,0 +1,32 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Entity, Column, PrimaryColumn} from "typeorm";
+
+// a delivery which was already made, copies of its event reaching the same target are dropped until the key expires
+@Entity("notifier_idempotency_key")
+export class IdempotencyKey {
+
+    // sha1 of the correlation id, event type, destination and target of the delivery
+    @PrimaryColumn()
+    key: string;
+
+    @Column({ type: 'timestamptz' })
+    created_at: Date;
+
+    @Column({ type: 'timestamptz' })
+    expires_at: Date;
+}
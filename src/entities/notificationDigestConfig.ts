@@ -0,0 +1,43 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Entity, Column, PrimaryGeneratedColumn} from "typeorm";
+
+// enables digest mode for an event type, either for a single notification setting or, without a setting, for all of them
+@Entity("notifier_digest_config")
+export class NotificationDigestConfig {
+
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ nullable: true })
+    notification_setting_id: number;
+
+    @Column()
+    event_type_id: number;
+
+    @Column()
+    window_seconds: number;
+
+    @Column()
+    active: boolean;
+
+    @Column({ type: 'timestamptz' })
+    created_on: Date;
+
+    @Column({ type: 'timestamptz' })
+    updated_on: Date;
+}
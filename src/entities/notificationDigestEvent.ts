@@ -0,0 +1,53 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Entity, Column, PrimaryGeneratedColumn} from "typeorm";
+
+@Entity("notifier_digest_event")
+export class NotificationDigestEvent {
+
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    // events sharing a key are sent together, one key per destination target and event type
+    @Column()
+    digest_key: string;
+
+    @Column()
+    destination: string;
+
+    @Column({ type: 'jsonb' })
+    event: any;
+
+    @Column({ type: 'jsonb' })
+    setting: any;
+
+    @Column({ type: 'jsonb' })
+    provider: any;
+
+    @Column({ type: 'jsonb', nullable: true })
+    target: any;
+
+    @Column({ type: 'timestamptz' })
+    flush_at: Date;
+
+    // set while a digest containing the event is being sent, the event is claimed again once it passed
+    @Column({ type: 'timestamptz', nullable: true })
+    lease_until: Date;
+
+    @Column({ type: 'timestamptz' })
+    created_at: Date;
+}
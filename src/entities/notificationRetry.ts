@@ -0,0 +1,63 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Entity, Column, PrimaryGeneratedColumn} from "typeorm";
+
+@Entity("notifier_retry_queue")
+export class NotificationRetry {
+
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    destination: string;
+
+    @Column({ type: 'jsonb' })
+    event: any;
+
+    @Column({ type: 'jsonb' })
+    setting: any;
+
+    @Column({ type: 'jsonb' })
+    provider: any;
+
+    @Column({ type: 'jsonb', nullable: true })
+    target: any;
+
+    @Column({ type: 'text', nullable: true })
+    template: string;
+
+    @Column()
+    status: string;
+
+    @Column()
+    attempts: number;
+
+    @Column()
+    max_attempts: number;
+
+    @Column({ type: 'text', nullable: true })
+    last_error: string;
+
+    @Column({ type: 'timestamptz' })
+    next_attempt_at: Date;
+
+    @Column({ type: 'timestamptz' })
+    created_at: Date;
+
+    @Column({ type: 'timestamptz' })
+    updated_at: Date;
+}
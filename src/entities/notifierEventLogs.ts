@@ -49,4 +49,22 @@ export class NotifierEventLog {
     @Column({ type: 'timestamptz' })
     created_at: Date;
 
+    @Column({ nullable: true })
+    config_id: number;
+
+    @Column({ nullable: true })
+    target: string;
+
+    @Column({ type: 'text', nullable: true })
+    response: string;
+
+    @Column({ nullable: true })
+    status_code: number;
+
+    @Column({ nullable: true })
+    attempt: number;
+
+    @Column({ nullable: true })
+    latency_ms: number;
+
 }
\ No newline at end of file
@@ -15,6 +15,7 @@
  */
 
 import {Entity, Column, PrimaryGeneratedColumn} from "typeorm";
+import {secretTransformer} from "../secret/utils";
 
 @Entity("ses_config")
 export class SesConfig {
@@ -28,10 +29,10 @@ export class SesConfig {
     @Column()
     access_key: string;
 
-    @Column()
+    @Column({transformer: secretTransformer})
     secret_access_key: string;
 
-    @Column()
+    @Column({transformer: secretTransformer})
     session_token: string;
 
     @Column()
@@ -48,4 +49,16 @@ export class SesConfig {
 
     @Column()
     deleted: boolean;
+
+    @Column({ type: 'timestamptz' })
+    created_on: Date;
+
+    @Column()
+    created_by: number;
+
+    @Column({ type: 'timestamptz' })
+    updated_on: Date;
+
+    @Column()
+    updated_by: number;
 }
\ No newline at end of file
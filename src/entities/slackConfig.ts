@@ -31,4 +31,21 @@ export class SlackConfig {
     @Column()
     description: string;
 
+    @Column({ nullable: true })
+    team_id: number;
+
+    @Column()
+    deleted: boolean;
+
+    @Column({ type: 'timestamptz' })
+    created_on: Date;
+
+    @Column()
+    created_by: number;
+
+    @Column({ type: 'timestamptz' })
+    updated_on: Date;
+
+    @Column()
+    updated_by: number;
 }
\ No newline at end of file
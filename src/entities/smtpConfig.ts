@@ -15,6 +15,7 @@
  */
 
 import {Entity, Column, PrimaryGeneratedColumn} from "typeorm";
+import {secretTransformer} from "../secret/utils";
 
 @Entity("smtp_config")
 export class SMTPConfig {
@@ -34,7 +35,7 @@ export class SMTPConfig {
     @Column()
     auth_user: string;
 
-    @Column()
+    @Column({transformer: secretTransformer})
     auth_password: string;
 
     @Column()
@@ -51,4 +52,16 @@ export class SMTPConfig {
 
     @Column()
     deleted: boolean;
+
+    @Column({ type: 'timestamptz' })
+    created_on: Date;
+
+    @Column()
+    created_by: number;
+
+    @Column({ type: 'timestamptz' })
+    updated_on: Date;
+
+    @Column()
+    updated_by: number;
 }
\ No newline at end of file
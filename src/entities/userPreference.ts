@@ -0,0 +1,46 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Entity, Column, PrimaryColumn} from "typeorm";
+
+// what a recipient doesn't want to be emailed about, keyed by email so that it also applies to recipients which aren't users
+@Entity("notifier_user_preference")
+export class UserPreference {
+
+    // lower case
+    @PrimaryColumn()
+    email: string;
+
+    @Column({ type: 'jsonb' })
+    muted_event_types: number[];
+
+    // ses or smtp
+    @Column({ type: 'jsonb' })
+    muted_destinations: string[];
+
+    @Column({ type: 'jsonb' })
+    muted_app_ids: number[];
+
+    @Column({ type: 'jsonb' })
+    muted_env_ids: number[];
+
+    // html or text
+    @Column()
+    email_format: string;
+
+    @Column({ type: 'timestamptz' })
+    updated_at: Date;
+}
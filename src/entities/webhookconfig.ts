@@ -15,6 +15,7 @@
  */
 
 import {Entity, Column, PrimaryGeneratedColumn} from "typeorm";
+import {jsonSecretTransformer} from "../secret/utils";
 
 @Entity("webhook_config")
 export class WebhookConfig {
@@ -27,7 +28,7 @@ export class WebhookConfig {
   @Column()
   config_name: string;
 
-  @Column({ type: 'jsonb', nullable: true })
+  @Column({ type: 'jsonb', nullable: true, transformer: jsonSecretTransformer })
   header: Record<string, string>;
 
   @Column({ type: 'text', nullable: true })
@@ -41,4 +42,16 @@ export class WebhookConfig {
 
   @Column()
   deleted: boolean;
+
+  @Column({ type: 'timestamptz' })
+  created_on: Date;
+
+  @Column()
+  created_by: number;
+
+  @Column({ type: 'timestamptz' })
+  updated_on: Date;
+
+  @Column()
+  updated_by: number;
 }
\ No newline at end of file
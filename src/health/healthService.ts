@@ -0,0 +1,151 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {DataSource} from "typeorm";
+import {NatsConnection} from "nats";
+import {SESConfigRepository} from "../repository/sesConfigRepository";
+import {SMTPConfigRepository} from "../repository/smtpConfigRepository";
+import {PubSubServiceImpl} from "../pubSub/pubSub";
+import {SUBSCRIPTION_STATE} from "../pubSub/utils";
+import {HEALTH_STATUS, HealthCheck, HealthReport, toReport, withTimeout} from "./utils";
+
+// liveness only fails for states the notifier can't recover from on its own, so that the pod gets restarted,
+// readiness also fails while dependencies are unreachable or still being connected to
+export class HealthService {
+    private sesConfigRepository: SESConfigRepository
+    private smtpConfigRepository: SMTPConfigRepository
+    private natsEnabled: boolean
+    private logger: any
+    private connection: DataSource
+    private natsConnection: NatsConnection
+    private pubSubService: PubSubServiceImpl
+    private natsError: string
+    private shuttingDown: boolean = false
+
+    constructor(sesConfigRepository: SESConfigRepository, smtpConfigRepository: SMTPConfigRepository, natsEnabled: boolean, logger: any) {
+        this.sesConfigRepository = sesConfigRepository
+        this.smtpConfigRepository = smtpConfigRepository
+        this.natsEnabled = natsEnabled
+        this.logger = logger
+    }
+
+    public watchDatabase(connection: DataSource) {
+        this.connection = connection
+    }
+
+    public watchNats(natsConnection: NatsConnection, pubSubService: PubSubServiceImpl) {
+        this.natsConnection = natsConnection
+        this.pubSubService = pubSubService
+    }
+
+    // the connection to NATS could not be set up, events published on it are not consumed until a restart
+    public reportNatsError(error: any) {
+        this.natsError = error?.message ?? String(error)
+    }
+
+    // readiness fails from now on, so that no more requests are routed to the pod while it drains
+    public reportShutdown() {
+        this.shuttingDown = true
+    }
+
+    public async checkLiveness(): Promise<HealthReport> {
+        return toReport({
+            database: this.connection && !this.connection.isInitialized ? {status: HEALTH_STATUS.Fail, error: "database connection was closed"} : {status: HEALTH_STATUS.Ok},
+            nats: this.checkNatsLiveness(),
+        })
+    }
+
+    public async checkReadiness(): Promise<HealthReport> {
+        if (this.shuttingDown) {
+            return toReport({shutdown: {status: HEALTH_STATUS.Fail, error: "shutting down"}})
+        }
+        const [database, nats, ses, smtp] = await Promise.all([
+            this.checkDatabase(),
+            this.checkNats(),
+            this.checkDefaultConfig(() => this.sesConfigRepository.findDefaultSESConfig()),
+            this.checkDefaultConfig(() => this.smtpConfigRepository.findDefaultSMTPConfig()),
+        ])
+        return toReport({database: database, nats: nats, sesConfig: ses, smtpConfig: smtp})
+    }
+
+    private checkNatsLiveness(): HealthCheck {
+        if (!this.natsEnabled) {
+            return {status: HEALTH_STATUS.Disabled}
+        }
+        if (this.natsError) {
+            return {status: HEALTH_STATUS.Fail, error: "could not connect to nats: " + this.natsError}
+        }
+        if (this.natsConnection?.isClosed()) {
+            return {status: HEALTH_STATUS.Fail, error: "nats connection was closed"}
+        }
+        const failed = this.pubSubService?.getSubscriptions().filter(subscription => subscription.state == SUBSCRIPTION_STATE.Failed) ?? []
+        if (failed.length) {
+            return {status: HEALTH_STATUS.Fail, error: "gave up subscribing to " + failed.map(subscription => subscription.topic).join(", ")}
+        }
+        return {status: HEALTH_STATUS.Ok}
+    }
+
+    private async checkDatabase(): Promise<HealthCheck> {
+        if (!this.connection?.isInitialized) {
+            return {status: HEALTH_STATUS.Fail, error: "not connected"}
+        }
+        const start = Date.now()
+        try {
+            await withTimeout(this.connection.query("SELECT 1"))
+            return {status: HEALTH_STATUS.Ok, latency: Date.now() - start}
+        } catch (error: any) {
+            return {status: HEALTH_STATUS.Fail, error: error.message}
+        }
+    }
+
+    private async checkNats(): Promise<HealthCheck> {
+        const liveness = this.checkNatsLiveness()
+        if (liveness.status != HEALTH_STATUS.Ok) {
+            return liveness
+        }
+        if (!this.natsConnection || !this.pubSubService) {
+            return {status: HEALTH_STATUS.Fail, error: "not connected"}
+        }
+        const consumers = await Promise.all(this.pubSubService.getSubscriptions().map(async subscription => {
+            const consumer: any = {topic: subscription.topic, stream: subscription.streamName, consumer: subscription.consumerName, state: subscription.state}
+            if (subscription.state != SUBSCRIPTION_STATE.Subscribed) {
+                return consumer
+            }
+            try {
+                const info = await withTimeout(this.pubSubService.getConsumerInfo(subscription))
+                return {...consumer, pending: info.num_pending, ackPending: info.num_ack_pending, redelivered: info.num_redelivered}
+            } catch (error: any) {
+                return {...consumer, error: error.message}
+            }
+        }))
+        const ready = consumers.length > 0 && consumers.every(consumer => consumer.state == SUBSCRIPTION_STATE.Subscribed && !consumer.error)
+        return {status: ready ? HEALTH_STATUS.Ok : HEALTH_STATUS.Fail, server: this.natsConnection.getServer(), consumers: consumers}
+    }
+
+    // emails can't be sent without a default config, which is worth reporting but no reason to stop serving
+    private async checkDefaultConfig(findDefault: () => Promise<any>): Promise<HealthCheck> {
+        if (!this.connection?.isInitialized) {
+            return {status: HEALTH_STATUS.Warn, error: "database not connected"}
+        }
+        try {
+            const config = await withTimeout(findDefault())
+            return config ? {status: HEALTH_STATUS.Ok, configId: config.id} : {status: HEALTH_STATUS.Warn, error: "no default config"}
+        } catch (error: any) {
+            return {status: HEALTH_STATUS.Warn, error: error.message}
+        }
+    }
+}
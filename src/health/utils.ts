@@ -0,0 +1,37 @@
+import * as process from "process";
+
+export enum HEALTH_STATUS {
+    Ok = "ok",
+    Warn = "warn",          // reported only, e.g. missing email configs, the probe still succeeds
+    Fail = "fail",
+    Disabled = "disabled",  // the dependency is not configured, e.g. NATS without NATS_URL
+}
+
+const timeout: number = parseInt(process.env.HEALTH_CHECK_TIMEOUT)
+
+// seconds a single check may take before it is reported as failed
+export const healthCheckTimeout: number = !isNaN(timeout) && timeout > 0 ? timeout : 3
+
+export interface HealthCheck {
+    status: HEALTH_STATUS
+    error?: string
+    [detail: string]: any
+}
+
+export interface HealthReport {
+    status: HEALTH_STATUS.Ok | HEALTH_STATUS.Fail
+    checks: { [name: string]: HealthCheck }
+}
+
+export function toReport(checks: { [name: string]: HealthCheck }): HealthReport {
+    const failed = Object.values(checks).some(check => check.status == HEALTH_STATUS.Fail)
+    return {status: failed ? HEALTH_STATUS.Fail : HEALTH_STATUS.Ok, checks: checks}
+}
+
+export function withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout
+    const expired = new Promise<T>((resolve, reject) => {
+        timer = setTimeout(() => reject(new Error("timed out after " + healthCheckTimeout + "s")), healthCheckTimeout * 1000)
+    })
+    return Promise.race([promise, expired]).finally(() => clearTimeout(timer))
+}
@@ -0,0 +1,125 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AsyncLocalStorage} from "async_hooks";
+import * as winston from "winston";
+import {isSpanContextValid, trace} from "@opentelemetry/api";
+import {CustomError} from "../entities/events";
+import {Event} from "../notification/service/notificationService";
+import {redactFormat} from "../redaction/utils";
+import {defaultLogLevel, LOG_FORMAT, LOG_MODULE, logFormat, LogLevels, moduleLogLevels} from "./utils";
+
+// fields attached to every entry logged while an event is handled
+export interface LogContext {
+    correlationId?: number | string
+    eventTypeId?: number
+    appId?: number
+    envId?: number
+    pipelineId?: number
+    destination?: string
+    configId?: number
+}
+
+export interface LogLevelSettings {
+    level: string
+    modules: { [module: string]: string }
+}
+
+// a null module level goes back to the default level
+export interface LogLevelUpdate {
+    level?: string
+    modules?: { [module: string]: string | null }
+}
+
+const storage = new AsyncLocalStorage<LogContext>()
+const levels: LogLevelSettings = {level: defaultLogLevel, modules: {}}
+setLogLevels({level: defaultLogLevel, modules: moduleLogLevels})
+
+// runs the function with the fields added to the current context, which follows the async calls it makes
+export function withLogContext<T>(fields: LogContext, fn: () => T): T {
+    // the node 12 typings don't declare that run returns the result of the callback
+    let result: T
+    storage.run({...storage.getStore(), ...fields}, () => result = fn())
+    return result
+}
+
+export function eventLogContext(event: Event): LogContext {
+    return {
+        correlationId: event?.correlationId,
+        eventTypeId: event?.eventTypeId,
+        appId: event?.appId,
+        envId: event?.envId,
+        pipelineId: event?.pipelineId,
+    }
+}
+
+export function getLogLevels(): LogLevelSettings {
+    return {level: levels.level, modules: {...levels.modules}}
+}
+
+// the update is checked as a whole before it is applied
+export function setLogLevels(update: LogLevelUpdate): LogLevelSettings {
+    const modules = Object.entries(update?.modules ?? {})
+    for (const level of [update?.level, ...modules.map(([, level]) => level)].filter(level => level !== undefined && level !== null)) {
+        if (LogLevels[level] === undefined) {
+            throw new CustomError("unknown log level " + level + ", expected one of " + Object.keys(LogLevels).join(", "), 400)
+        }
+    }
+    const known = Object.values(LOG_MODULE) as string[]
+    for (const [module] of modules) {
+        if (!known.includes(module)) {
+            throw new CustomError("unknown log module " + module + ", expected one of " + known.join(", "), 400)
+        }
+    }
+    if (update?.level) {
+        levels.level = update.level
+    }
+    for (const [module, level] of modules) {
+        if (level) {
+            levels.modules[module] = level
+        } else {
+            delete levels.modules[module]
+        }
+    }
+    return getLogLevels()
+}
+
+// levels are read on every entry so that changes apply right away, the logger itself passes every level
+const levelFilter = winston.format(info => {
+    const level = levels.modules[info.module] ?? levels.level
+    return LogLevels[info.level] <= LogLevels[level] ? info : false
+})
+
+// fields logged explicitly take precedence over the context and the active trace
+const contextFormat = winston.format(info => {
+    const spanContext = trace.getActiveSpan()?.spanContext()
+    const traceFields = spanContext && isSpanContextValid(spanContext) ? {traceId: spanContext.traceId, spanId: spanContext.spanId} : {}
+    return Object.assign(info, {...storage.getStore(), ...traceFields, ...info})
+})
+
+export function createLogger() {
+    return winston.createLogger({
+        level: "silly",
+        format: winston.format.combine(
+            levelFilter(),
+            contextFormat(),
+            redactFormat(),
+            winston.format.timestamp(),
+            logFormat == LOG_FORMAT.Text ? winston.format.printf(info => `${info.timestamp} ${info.level}: ${info.message}`) : winston.format.json()
+        ),
+        transports: [new winston.transports.Console()]
+    })
+}
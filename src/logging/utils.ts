@@ -0,0 +1,37 @@
+import * as process from "process";
+
+export enum LOG_FORMAT {
+    Json = "json",
+    Text = "text",
+}
+
+// modules get a child logger each, their level can be changed on its own
+export enum LOG_MODULE {
+    Server = "server",
+    Notification = "notification",
+    Destination = "destination",
+    Retry = "retry",
+    Digest = "digest",
+    Schedule = "schedule",
+    Throttle = "throttle",
+    PubSub = "pubsub",
+    Config = "config",
+    Health = "health",
+    Auth = "auth",
+    Validation = "validation",
+    Preference = "preference",
+    Attachment = "attachment",
+}
+
+// winston's npm levels, a level includes every level with a lower number
+export const LogLevels: { [level: string]: number } = {error: 0, warn: 1, info: 2, http: 3, verbose: 4, debug: 5, silly: 6}
+
+export const logFormat: string = process.env.LOG_FORMAT === LOG_FORMAT.Text ? LOG_FORMAT.Text : LOG_FORMAT.Json
+export const defaultLogLevel: string = process.env.LOG_LEVEL || "info"
+
+// levels of single modules, e.g. "pubsub=debug,retry=warn", the other modules log at LOG_LEVEL
+export const moduleLogLevels: { [module: string]: string } = (process.env.LOG_MODULE_LEVELS || "")
+    .split(",")
+    .map(entry => entry.split("=").map(part => part.trim()))
+    .filter(([module, level]) => !!module && !!level)
+    .reduce((levels, [module, level]) => ({...levels, [module]: level}), {})
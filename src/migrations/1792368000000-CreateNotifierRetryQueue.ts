@@ -0,0 +1,46 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class CreateNotifierRetryQueue1792368000000 implements MigrationInterface {
+    name = "CreateNotifierRetryQueue1792368000000"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notifier_retry_queue" (
+                "id"              SERIAL PRIMARY KEY,
+                "destination"     VARCHAR(50) NOT NULL,
+                "event"           JSONB NOT NULL,
+                "setting"         JSONB NOT NULL,
+                "provider"        JSONB NOT NULL,
+                "target"          JSONB,
+                "template"        TEXT,
+                "status"          VARCHAR(20) NOT NULL,
+                "attempts"        INTEGER NOT NULL DEFAULT 0,
+                "max_attempts"    INTEGER NOT NULL,
+                "last_error"      TEXT,
+                "next_attempt_at" TIMESTAMPTZ NOT NULL,
+                "created_at"      TIMESTAMPTZ NOT NULL,
+                "updated_at"      TIMESTAMPTZ NOT NULL
+            )`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_notifier_retry_queue_due" ON "notifier_retry_queue" ("status", "next_attempt_at")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "notifier_retry_queue"`);
+    }
+}
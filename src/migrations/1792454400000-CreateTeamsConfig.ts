@@ -0,0 +1,97 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+const fact = (title: string, value: string) => `{"title": "${title}", "value": "${value}"}`
+
+// links are optional in most events, so every button lives in its own ActionSet which is only rendered when the link is present
+const openUrl = (title: string, key: string) => `{{#${key}}},{"type": "ActionSet", "actions": [{"type": "Action.OpenUrl", "title": "${title}", "url": "{{{${key}}}}"}]}{{/${key}}}`
+
+const ciMaterials = `{{#ciMaterials}},{"type": "TextBlock", "wrap": true, "spacing": "Small", "text": "{{#webhookType}}Triggered by webhook{{/webhookType}}{{^webhookType}}Branch **{{branch}}** · Commit [{{commit}}]({{{commitLink}}}){{/webhookType}}"}{{/ciMaterials}}`
+
+const card = (heading: string, color: string, facts: string[], sections: string, actions: string[]) => `{
+    "$schema": "http://adaptivecards.io/schemas/adaptive-card.json",
+    "type": "AdaptiveCard",
+    "version": "1.4",
+    "msteams": {"width": "Full"},
+    "body": [
+        {"type": "TextBlock", "size": "Medium", "weight": "Bolder", "wrap": true, "color": "${color}", "text": "${heading}"},
+        {"type": "FactSet", "facts": [${facts.join(", ")}]}${sections}${actions.join("")}
+    ]
+}`
+
+const ciFacts = [fact("Application", "{{appName}}"), fact("Pipeline", "{{pipelineName}}"), fact("Triggered by", "{{triggeredBy}}"), fact("Time", "{{eventTime}}")]
+const cdFacts = [fact("Application", "{{appName}}"), fact("Environment", "{{envName}}"), fact("Pipeline", "{{pipelineName}}"), fact("Image", "{{dockerImg}}"), fact("Triggered by", "{{triggeredBy}}"), fact("Time", "{{eventTime}}")]
+const cdActions = [openUrl("View Pipeline", "deploymentHistoryLink"), openUrl("App Details", "appDetailsLink")]
+const failureReason = `{{#failureReason}},{"type": "TextBlock", "wrap": true, "color": "Attention", "text": "{{failureReason}}"}{{/failureReason}}`
+const deploymentWindowComment = `{{#deploymentWindowComment}},{"type": "TextBlock", "wrap": true, "color": "Warning", "text": "{{deploymentWindowComment}}"}{{/deploymentWindowComment}}`
+const comment = `{{#comment}},{"type": "TextBlock", "wrap": true, "text": "Comment: {{comment}}"}{{/comment}}`
+const tags = `{{#tags.length}},{"type": "TextBlock", "wrap": true, "text": "Tags: {{#tags}}{{.}} {{/tags}}"}{{/tags.length}}`
+
+// [event_type_id, node_type, template_name, template_payload]
+const teamsTemplates: [number, string, string, string][] = [
+    [1, "CI", "CI trigger template", card("🏗️ Build pipeline triggered", "Accent", ciFacts, ciMaterials, [openUrl("View Pipeline", "buildHistoryLink")])],
+    [2, "CI", "CI success template", card("🎉 Build pipeline successful", "Good", ciFacts, ciMaterials, [openUrl("View Pipeline", "buildHistoryLink")])],
+    [3, "CI", "CI failure template", card("❌ Build pipeline failed", "Attention", ciFacts, failureReason + ciMaterials, [openUrl("View Pipeline", "buildHistoryLink")])],
+    [1, "CD", "CD trigger template", card("🚀 {{stage}} pipeline triggered", "Accent", cdFacts, ciMaterials, cdActions)],
+    [2, "CD", "CD success template", card("🎉 {{stage}} pipeline successful", "Good", cdFacts, ciMaterials, cdActions)],
+    [3, "CD", "CD failure template", card("❌ {{stage}} pipeline failed", "Attention", cdFacts, ciMaterials, cdActions)],
+    [6, "CD", "CD blocked template", card("🚫 {{stage}} pipeline blocked", "Warning", cdFacts, deploymentWindowComment + ciMaterials, cdActions)],
+    [4, "CD", "Image approval template", card("🛡️ Image approval requested", "Accent",
+        [fact("Application", "{{appName}}"), fact("Environment", "{{envName}}"), fact("Pipeline", "{{pipelineName}}"), fact("Image tag", "{{imageTag}}"), fact("Requested by", "{{triggeredBy}}"), fact("Time", "{{eventTime}}")],
+        comment + tags, [openUrl("Approve", "approvalLink"), openUrl("View Request", "imageApprovalLink")])],
+    [5, "CD", "Config approval template", card("🛡️ Config change approval requested", "Accent",
+        [fact("Application", "{{appName}}"), fact("Environment", "{{envName}}"), fact("File type", "{{protectConfigFileType}}"), fact("File name", "{{protectConfigFileName}}"), fact("Requested by", "{{triggeredBy}}"), fact("Time", "{{eventTime}}")],
+        `{{#protectConfigComment}},{"type": "TextBlock", "wrap": true, "spacing": "None", "text": "{{.}}"}{{/protectConfigComment}}`,
+        [openUrl("Approve", "approvalLink"), openUrl("View Changes", "protectConfigLink")])],
+    [7, "CD", "Image promotion template", card("🛡️ Image promotion approval requested", "Accent",
+        [fact("Application", "{{appName}}"), fact("Environment", "{{envName}}"), fact("Image tag", "{{imageTag}}"), fact("Source", "{{promotionArtifactSource}}"), fact("Requested by", "{{triggeredBy}}"), fact("Time", "{{eventTime}}")],
+        comment + tags, [openUrl("Approve", "artifactPromotionApprovalLink"), openUrl("View Request", "artifactPromotionRequestViewLink")])],
+    ...["CI", "CD"].map((nodeType): [number, string, string, string] => [8, nodeType, "Image scan template", card("🔍 Image scan completed", "Accent",
+        [fact("Application", "{{devtronAppName}}"), fact("Environment", "{{devtronEnvName}}"), fact("Image", "{{devtronContainerImageRepo}}:{{devtronContainerImageTag}}"), fact("Scanned by", "{{scannedBy}}"), fact("Scanned at", "{{scannedAt}}")],
+        `{{#severityCount}},{"type": "FactSet", "facts": [${[fact("Critical", "{{critical}}"), fact("High", "{{high}}"), fact("Medium", "{{medium}}"), fact("Low", "{{low}}")].join(", ")}]}{{/severityCount}}`,
+        [openUrl("App Details", "appDetailsLink"), openUrl("View Build", "buildHistoryLink")])]),
+    [9, "CD", "Resource change template", card("{{heading}}", "Accent",
+        [fact("Kind", "{{kind}}"), fact("Resource", "{{resourceName}}"), fact("Cluster", "{{clusterName}}"), fact("Namespace", "{{namespace}}"), fact("Watcher", "{{watcherName}}"), fact("Intercepted at", "{{interceptedAt}}")],
+        "", [openUrl("View Manifest", "viewResourceManifestLink")])],
+]
+
+export class CreateTeamsConfig1792454400000 implements MigrationInterface {
+    name = "CreateTeamsConfig1792454400000"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "teams_config" (
+                "id"           SERIAL PRIMARY KEY,
+                "web_hook_url" VARCHAR(500) NOT NULL,
+                "config_name"  VARCHAR(250) NOT NULL,
+                "description"  TEXT,
+                "deleted"      BOOLEAN NOT NULL DEFAULT FALSE
+            )`);
+        for (const [eventTypeId, nodeType, templateName, templatePayload] of teamsTemplates) {
+            await queryRunner.query(
+                `INSERT INTO "notification_templates" ("channel_type", "node_type", "event_type_id", "template_name", "template_payload") VALUES ($1, $2, $3, $4, $5)`,
+                ["teams", nodeType, eventTypeId, templateName, templatePayload]
+            );
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DELETE FROM "notification_templates" WHERE "channel_type" = 'teams'`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "teams_config"`);
+    }
+}
@@ -0,0 +1,43 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class AddDeliveryDetailToEventLog1792540800000 implements MigrationInterface {
+    name = "AddDeliveryDetailToEventLog1792540800000"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "notifier_event_log"
+                ADD COLUMN IF NOT EXISTS "config_id"   INTEGER,
+                ADD COLUMN IF NOT EXISTS "target"      VARCHAR(500),
+                ADD COLUMN IF NOT EXISTS "response"    TEXT,
+                ADD COLUMN IF NOT EXISTS "status_code" INTEGER,
+                ADD COLUMN IF NOT EXISTS "attempt"     INTEGER,
+                ADD COLUMN IF NOT EXISTS "latency_ms"  INTEGER`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "notifier_event_log"
+                DROP COLUMN IF EXISTS "config_id",
+                DROP COLUMN IF EXISTS "target",
+                DROP COLUMN IF EXISTS "response",
+                DROP COLUMN IF EXISTS "status_code",
+                DROP COLUMN IF EXISTS "attempt",
+                DROP COLUMN IF EXISTS "latency_ms"`);
+    }
+}
@@ -0,0 +1,112 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+// one line per buffered event, the digest summary (count, title, from, to, events, omitted) is described in DigestService
+const pipelineEntry = (bold: (s: string) => string, link: string) => `${bold("{{appName}}")}{{#envName}} · {{envName}}{{/envName}} · {{pipelineName}}{{#stage}} ({{stage}}){{/stage}} · {{triggeredBy}} · {{time}}{{#link}} · ${link}{{/link}}`
+const imageScanEntry = (bold: (s: string) => string, link: string) => `${bold("{{appName}}")}{{#envName}} · {{envName}}{{/envName}} · {{devtronContainerImageRepo}}:{{devtronContainerImageTag}}{{#severityCount}} · critical {{critical}}, high {{high}}{{/severityCount}} · {{time}}{{#link}} · ${link}{{/link}}`
+const scoopEntry = (bold: (s: string) => string, link: string) => `${bold("{{kind}}")} {{resourceName}} · {{namespace}} on {{clusterName}}{{#action}} · {{action}}{{/action}} · {{time}}{{#link}} · ${link}{{/link}}`
+
+const slackDigest = (entry: string) => `{
+    "text": "{{count}} {{title}} between {{from}} and {{to}}",
+    "blocks": [
+        {"type": "section", "text": {"type": "mrkdwn", "text": "*{{count}} {{title}}*\\n{{from}} - {{to}}"}},
+        {"type": "divider"}{{#events}},
+        {"type": "section", "text": {"type": "mrkdwn", "text": "${entry}"}}{{/events}}{{#omitted}},
+        {"type": "context", "elements": [{"type": "mrkdwn", "text": "and {{omitted}} earlier"}]}{{/omitted}}
+    ]
+}`
+
+const teamsDigest = (entry: string) => `{
+    "$schema": "http://adaptivecards.io/schemas/adaptive-card.json",
+    "type": "AdaptiveCard",
+    "version": "1.4",
+    "msteams": {"width": "Full"},
+    "body": [
+        {"type": "TextBlock", "size": "Medium", "weight": "Bolder", "wrap": true, "text": "{{count}} {{title}}"},
+        {"type": "TextBlock", "isSubtle": true, "spacing": "None", "wrap": true, "text": "{{from}} - {{to}}"}{{#events}},
+        {"type": "TextBlock", "wrap": true, "text": "- ${entry}"}{{/events}}{{#omitted}},
+        {"type": "TextBlock", "isSubtle": true, "wrap": true, "text": "and {{omitted}} earlier"}{{/omitted}}
+    ]
+}`
+
+const webhookDigest = `{"eventType": "DIGEST", "digestEventTypeId": {{eventTypeId}}, "title": "{{title}}", "count": {{count}}, "omitted": {{omitted}}, "from": "{{from}}", "to": "{{to}}", "events": {{{eventsJson}}}}`
+
+const slackBold = (s: string) => `*${s}*`
+const slackLink = "<{{{link}}}|View>"
+const teamsBold = (s: string) => `**${s}**`
+const teamsLink = "[View]({{{link}}})"
+
+// [event_type_id, entry]
+const digestEntries: [number, (bold: (s: string) => string, link: string) => string][] = [
+    [1, pipelineEntry],
+    [2, pipelineEntry],
+    [3, pipelineEntry],
+    [6, pipelineEntry],
+    [8, imageScanEntry],
+    [9, scoopEntry],
+]
+
+export class CreateNotifierDigest1792627200000 implements MigrationInterface {
+    name = "CreateNotifierDigest1792627200000"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notifier_digest_config" (
+                "id"                      SERIAL PRIMARY KEY,
+                "notification_setting_id" INTEGER,
+                "event_type_id"           INTEGER NOT NULL,
+                "window_seconds"          INTEGER NOT NULL CHECK ("window_seconds" > 0),
+                "active"                  BOOLEAN NOT NULL DEFAULT TRUE,
+                "created_on"              TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+                "updated_on"              TIMESTAMPTZ NOT NULL DEFAULT NOW()
+            )`);
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notifier_digest_event" (
+                "id"          SERIAL PRIMARY KEY,
+                "digest_key"  VARCHAR(100) NOT NULL,
+                "destination" VARCHAR(50) NOT NULL,
+                "event"       JSONB NOT NULL,
+                "setting"     JSONB NOT NULL,
+                "provider"    JSONB NOT NULL,
+                "target"      JSONB,
+                "flush_at"    TIMESTAMPTZ NOT NULL,
+                "created_at"  TIMESTAMPTZ NOT NULL
+            )`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_notifier_digest_event_key" ON "notifier_digest_event" ("digest_key")`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_notifier_digest_event_due" ON "notifier_digest_event" ("flush_at")`);
+        for (const [eventTypeId, entry] of digestEntries) {
+            const templates: [string, string][] = [
+                ["slack", slackDigest(entry(slackBold, slackLink))],
+                ["teams", teamsDigest(entry(teamsBold, teamsLink))],
+                ["webhook", webhookDigest],
+            ]
+            for (const [channelType, templatePayload] of templates) {
+                await queryRunner.query(
+                    `INSERT INTO "notification_templates" ("channel_type", "node_type", "event_type_id", "template_name", "template_payload") VALUES ($1, $2, $3, $4, $5)`,
+                    [channelType, "DIGEST", eventTypeId, "Digest template", templatePayload]
+                );
+            }
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DELETE FROM "notification_templates" WHERE "node_type" = 'DIGEST'`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "notifier_digest_event"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "notifier_digest_config"`);
+    }
+}
@@ -0,0 +1,55 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class CreateDeliverySchedule1792713600000 implements MigrationInterface {
+    name = "CreateDeliverySchedule1792713600000"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notifier_delivery_schedule" (
+                "id"                      SERIAL PRIMARY KEY,
+                "notification_setting_id" INTEGER,
+                "destination"             VARCHAR(50),
+                "config_id"               INTEGER CHECK ("config_id" IS NULL OR "destination" IS NOT NULL),
+                "timezone"                VARCHAR(100) NOT NULL DEFAULT 'UTC',
+                "active_days"             JSONB,
+                "window_start"            VARCHAR(5) NOT NULL CHECK ("window_start" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+                "window_end"              VARCHAR(5) NOT NULL CHECK ("window_end" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+                "quiet_action"            VARCHAR(20) NOT NULL DEFAULT 'DEFER' CHECK ("quiet_action" IN ('DROP', 'DEFER', 'DIGEST')),
+                "bypass_event_types"      JSONB DEFAULT '[3]',
+                "bypass_prod_only"        BOOLEAN NOT NULL DEFAULT TRUE,
+                "active"                  BOOLEAN NOT NULL DEFAULT TRUE,
+                "created_on"              TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+                "updated_on"              TIMESTAMPTZ NOT NULL DEFAULT NOW()
+            )`);
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notifier_deferred_notification" (
+                "id"         SERIAL PRIMARY KEY,
+                "event"      JSONB NOT NULL,
+                "setting"    JSONB NOT NULL,
+                "deliver_at" TIMESTAMPTZ NOT NULL,
+                "created_at" TIMESTAMPTZ NOT NULL
+            )`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_notifier_deferred_notification_due" ON "notifier_deferred_notification" ("deliver_at")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "notifier_deferred_notification"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "notifier_delivery_schedule"`);
+    }
+}
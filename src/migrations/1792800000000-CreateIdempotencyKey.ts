@@ -0,0 +1,35 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class CreateIdempotencyKey1792800000000 implements MigrationInterface {
+    name = "CreateIdempotencyKey1792800000000"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notifier_idempotency_key" (
+                "key"        VARCHAR(64) PRIMARY KEY,
+                "created_at" TIMESTAMPTZ NOT NULL,
+                "expires_at" TIMESTAMPTZ NOT NULL
+            )`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_notifier_idempotency_key_expires" ON "notifier_idempotency_key" ("expires_at")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "notifier_idempotency_key"`);
+    }
+}
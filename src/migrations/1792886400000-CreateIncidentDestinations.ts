@@ -0,0 +1,99 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+type Field = [string, string]
+
+const fields = (values: Field[]) => values.map(([key, value]) => `"${key}": "${value}"`).join(", ")
+
+// links are optional in most events, the handler drops the ones rendered without a href
+const pagerDutyEvent = (summary: string, eventClass: string, details: Field[], links: Field[]) => `{
+    "payload": {
+        "summary": "${summary}",
+        "component": "{{appName}}",
+        "group": "{{pipelineName}}",
+        "class": "${eventClass}",
+        "custom_details": {${fields(details)}}
+    },
+    "links": [${links.map(([text, key]) => `{"href": "{{{${key}}}}", "text": "${text}"}`).join(", ")}]
+}`
+
+// empty details are dropped by the handler
+const opsgenieAlert = (message: string, tag: string, details: Field[], links: Field[]) => `{
+    "message": "${message}",
+    "description": "${message}{{#failureReason}}: {{failureReason}}{{/failureReason}}{{#deploymentWindowComment}}: {{deploymentWindowComment}}{{/deploymentWindowComment}}",
+    "entity": "{{appName}}",
+    "tags": ["devtron", "${tag}"],
+    "details": {${fields([...details, ...links.map(([, key]): Field => [key, `{{{${key}}}}`])])}}
+}`
+
+const ciDetails: Field[] = [["application", "{{appName}}"], ["pipeline", "{{pipelineName}}"], ["triggeredBy", "{{triggeredBy}}"], ["time", "{{eventTime}}"], ["failureReason", "{{failureReason}}"]]
+const cdDetails: Field[] = [["application", "{{appName}}"], ["environment", "{{envName}}"], ["pipeline", "{{pipelineName}}"], ["stage", "{{stage}}"], ["image", "{{dockerImg}}"], ["triggeredBy", "{{triggeredBy}}"], ["time", "{{eventTime}}"]]
+const ciLinks: Field[] = [["View Pipeline", "buildHistoryLink"]]
+const cdLinks: Field[] = [["View Pipeline", "deploymentHistoryLink"], ["App Details", "appDetailsLink"]]
+
+// [event_type_id, node_type, template_name, pagerduty payload, opsgenie payload]
+const incidentTemplates: [number, string, string, string, string][] = [
+    [3, "CI", "CI failure template",
+        pagerDutyEvent("Build pipeline {{pipelineName}} of {{appName}} failed", "build-failure", ciDetails, ciLinks),
+        opsgenieAlert("Build pipeline {{pipelineName}} of {{appName}} failed", "build-failure", ciDetails, ciLinks)],
+    [3, "CD", "CD failure template",
+        pagerDutyEvent("{{stage}} pipeline {{pipelineName}} of {{appName}} failed on {{envName}}", "deployment-failure", cdDetails, cdLinks),
+        opsgenieAlert("{{stage}} pipeline {{pipelineName}} of {{appName}} failed on {{envName}}", "deployment-failure", cdDetails, cdLinks)],
+    [6, "CD", "CD blocked template",
+        pagerDutyEvent("{{stage}} pipeline {{pipelineName}} of {{appName}} blocked on {{envName}}", "deployment-blocked", [...cdDetails, ["comment", "{{deploymentWindowComment}}"]], cdLinks),
+        opsgenieAlert("{{stage}} pipeline {{pipelineName}} of {{appName}} blocked on {{envName}}", "deployment-blocked", cdDetails, cdLinks)],
+]
+
+export class CreateIncidentDestinations1792886400000 implements MigrationInterface {
+    name = "CreateIncidentDestinations1792886400000"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "pagerduty_config" (
+                "id"          SERIAL PRIMARY KEY,
+                "routing_key" VARCHAR(250) NOT NULL,
+                "api_url"     VARCHAR(500) NOT NULL DEFAULT 'https://events.pagerduty.com',
+                "config_name" VARCHAR(250) NOT NULL,
+                "description" TEXT,
+                "deleted"     BOOLEAN NOT NULL DEFAULT FALSE
+            )`);
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "opsgenie_config" (
+                "id"          SERIAL PRIMARY KEY,
+                "api_key"     VARCHAR(250) NOT NULL,
+                "api_url"     VARCHAR(500) NOT NULL DEFAULT 'https://api.opsgenie.com',
+                "config_name" VARCHAR(250) NOT NULL,
+                "description" TEXT,
+                "deleted"     BOOLEAN NOT NULL DEFAULT FALSE
+            )`);
+        for (const [eventTypeId, nodeType, templateName, pagerDutyPayload, opsgeniePayload] of incidentTemplates) {
+            for (const [channelType, templatePayload] of [["pagerduty", pagerDutyPayload], ["opsgenie", opsgeniePayload]]) {
+                await queryRunner.query(
+                    `INSERT INTO "notification_templates" ("channel_type", "node_type", "event_type_id", "template_name", "template_payload") VALUES ($1, $2, $3, $4, $5)`,
+                    [channelType, nodeType, eventTypeId, templateName, templatePayload]
+                );
+            }
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DELETE FROM "notification_templates" WHERE "channel_type" IN ('pagerduty', 'opsgenie')`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "opsgenie_config"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "pagerduty_config"`);
+    }
+}
@@ -0,0 +1,51 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {MigrationInterface, QueryRunner} from "typeorm";
+import {decryptSecrets, reencryptSecrets} from "../secret/secretRotation";
+import {SecretColumn} from "../secret/utils";
+
+// the columns as they were when the migration was written, columns added to SecretColumns later are encrypted on startup
+const destinationSecrets: SecretColumn[] = [
+    {table: "ses_config", column: "secret_access_key"},
+    {table: "ses_config", column: "session_token"},
+    {table: "smtp_config", column: "auth_password"},
+    {table: "webhook_config", column: "header", json: true},
+    {table: "pagerduty_config", column: "routing_key"},
+    {table: "opsgenie_config", column: "api_key"},
+]
+
+// encrypts the secrets stored so far, without SECRET_ENCRYPTION_KEY there is nothing to do and the secrets are
+// encrypted by the re-encryption on startup once a key is configured
+export class EncryptDestinationSecrets1792972800000 implements MigrationInterface {
+    name = "EncryptDestinationSecrets1792972800000"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // encrypted values are longer than the varchar limits of the plaintext ones
+        for (const {table, column} of destinationSecrets.filter(secret => !secret.json)) {
+            if (await queryRunner.hasColumn(table, column)) {
+                await queryRunner.query(`ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE TEXT`);
+            }
+        }
+        await reencryptSecrets(queryRunner, destinationSecrets);
+    }
+
+    // the columns are left as text, plaintext values fit into them as well
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await decryptSecrets(queryRunner, destinationSecrets);
+    }
+}
@@ -0,0 +1,38 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class CreateUserPreference1793145600000 implements MigrationInterface {
+    name = "CreateUserPreference1793145600000"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notifier_user_preference" (
+                "email"              VARCHAR(250) PRIMARY KEY,
+                "muted_event_types"  JSONB NOT NULL DEFAULT '[]',
+                "muted_destinations" JSONB NOT NULL DEFAULT '[]',
+                "muted_app_ids"      JSONB NOT NULL DEFAULT '[]',
+                "muted_env_ids"      JSONB NOT NULL DEFAULT '[]',
+                "email_format"       VARCHAR(10) NOT NULL DEFAULT 'html',
+                "updated_at"         TIMESTAMPTZ NOT NULL
+            )`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "notifier_user_preference"`);
+    }
+}
@@ -0,0 +1,37 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class CreateOpenIncident1793491200000 implements MigrationInterface {
+    name = "CreateOpenIncident1793491200000"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notifier_open_incident" (
+                "destination"  VARCHAR(50)  NOT NULL,
+                "config_id"    INTEGER      NOT NULL,
+                "incident_key" VARCHAR(250) NOT NULL,
+                "opened_at"    TIMESTAMPTZ  NOT NULL,
+                PRIMARY KEY ("destination", "config_id", "incident_key")
+            )`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "notifier_open_incident"`);
+    }
+}
@@ -0,0 +1,310 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DestinationConfigRepository} from "../../repository/destinationConfigRepository";
+import {CustomError} from "../../entities/events";
+import {SlackConfig} from "../../entities/slackConfig";
+import {TeamsConfig} from "../../entities/teamsConfig";
+import {WebhookConfig} from "../../entities/webhookconfig";
+import {SesConfig} from "../../entities/sesConfig";
+import {SMTPConfig} from "../../entities/smtpConfig";
+import {PagerDutyConfig} from "../../entities/pagerDutyConfig";
+import {OpsgenieConfig} from "../../entities/opsgenieConfig";
+
+// changes made through the notifier are attributed to the system user in the orchestrator's audit columns
+const systemUserId = 1
+
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+type FieldKind = "string" | "url" | "email" | "port" | "integer" | "boolean" | "headers"
+
+interface ConfigField {
+    name: string
+    kind: FieldKind
+    required?: boolean
+    secret?: boolean    // accepted but never returned
+    initial?: any       // value of new configs leaving the field out
+}
+
+interface ConfigType {
+    entity: any
+    fields: ConfigField[]
+    hasDefault?: boolean
+    audited?: boolean   // the table is owned by the orchestrator, which tracks who changed a config
+}
+
+const ConfigTypeMapping = new Map<string, ConfigType>([
+    ["slack", {
+        entity: SlackConfig, audited: true, fields: [
+            {name: "web_hook_url", kind: "url", required: true},
+            {name: "config_name", kind: "string", required: true},
+            {name: "description", kind: "string"},
+            {name: "team_id", kind: "integer"},
+        ]
+    }],
+    ["teams", {
+        entity: TeamsConfig, fields: [
+            {name: "web_hook_url", kind: "url", required: true},
+            {name: "config_name", kind: "string", required: true},
+            {name: "description", kind: "string"},
+        ]
+    }],
+    ["webhook", {
+        entity: WebhookConfig, audited: true, fields: [
+            {name: "web_hook_url", kind: "url", required: true},
+            {name: "config_name", kind: "string", required: true},
+            {name: "description", kind: "string"},
+            {name: "header", kind: "headers", secret: true},
+            {name: "payload", kind: "string"},
+            {name: "active", kind: "boolean", initial: true},
+        ]
+    }],
+    ["ses", {
+        entity: SesConfig, audited: true, hasDefault: true, fields: [
+            {name: "region", kind: "string", required: true},
+            {name: "access_key", kind: "string", required: true},
+            {name: "secret_access_key", kind: "string", required: true, secret: true},
+            {name: "session_token", kind: "string", secret: true},
+            {name: "from_email", kind: "email", required: true},
+            {name: "config_name", kind: "string", required: true},
+            {name: "description", kind: "string"},
+        ]
+    }],
+    ["smtp", {
+        entity: SMTPConfig, audited: true, hasDefault: true, fields: [
+            {name: "host", kind: "string", required: true},
+            {name: "port", kind: "port", required: true},
+            {name: "auth_type", kind: "string"},
+            {name: "auth_user", kind: "string"},
+            {name: "auth_password", kind: "string", secret: true},
+            {name: "from_email", kind: "email", required: true},
+            {name: "config_name", kind: "string", required: true},
+            {name: "description", kind: "string"},
+        ]
+    }],
+    ["pagerduty", {
+        entity: PagerDutyConfig, fields: [
+            {name: "routing_key", kind: "string", required: true, secret: true},
+            {name: "api_url", kind: "url"},
+            {name: "config_name", kind: "string", required: true},
+            {name: "description", kind: "string"},
+        ]
+    }],
+    ["opsgenie", {
+        entity: OpsgenieConfig, fields: [
+            {name: "api_key", kind: "string", required: true, secret: true},
+            {name: "api_url", kind: "url"},
+            {name: "config_name", kind: "string", required: true},
+            {name: "description", kind: "string"},
+        ]
+    }],
+]);
+
+export class DestinationConfigService {
+    private destinationConfigRepository: DestinationConfigRepository
+
+    constructor(destinationConfigRepository: DestinationConfigRepository) {
+        this.destinationConfigRepository = destinationConfigRepository
+    }
+
+    public async listConfigs(type: string): Promise<any[]> {
+        const configType = this.getConfigType(type)
+        const configs = await this.destinationConfigRepository.findConfigs(configType.entity)
+        return configs.map(config => this.toResponse(configType, config))
+    }
+
+    public async getConfig(type: string, id: any): Promise<any> {
+        const configType = this.getConfigType(type)
+        return this.toResponse(configType, await this.findConfig(configType, id))
+    }
+
+    public async createConfig(type: string, body: any): Promise<any> {
+        const configType = this.getConfigType(type)
+        body = body || {}
+        if (body.default !== undefined && typeof body.default !== "boolean") {
+            throw new CustomError("default must be true or false", 400)
+        }
+        const values = this.parseFields(configType, body, true)
+        const now = new Date()
+        let config: any = {...values, deleted: false}
+        if (configType.audited) {
+            config = {...config, created_on: now, created_by: systemUserId, updated_on: now, updated_by: systemUserId}
+        }
+        if (configType.hasDefault) {
+            config.default = 'false'
+        }
+        const saved = await this.destinationConfigRepository.saveConfig(configType.entity, config)
+        if (configType.hasDefault && body.default === true) {
+            await this.destinationConfigRepository.markDefault(configType.entity, saved.id)
+            saved.default = 'true'
+        }
+        return this.toResponse(configType, saved)
+    }
+
+    // fields left out of the body keep their current value, so that secrets do not have to be sent again
+    public async updateConfig(type: string, id: any, body: any): Promise<any> {
+        const configType = this.getConfigType(type)
+        const existing = await this.findConfig(configType, id)
+        const values = this.parseFields(configType, body || {}, false)
+        let config: any = {...existing, ...values}
+        this.checkRequired(configType, config)
+        if (configType.audited) {
+            config = {...config, updated_on: new Date(), updated_by: systemUserId}
+        }
+        const saved = await this.destinationConfigRepository.saveConfig(configType.entity, config)
+        return this.toResponse(configType, saved)
+    }
+
+    public async deleteConfig(type: string, id: any): Promise<void> {
+        const configType = this.getConfigType(type)
+        let config: any = {...await this.findConfig(configType, id), deleted: true}
+        if (configType.hasDefault) {
+            config.default = 'false'
+        }
+        if (configType.audited) {
+            config = {...config, updated_on: new Date(), updated_by: systemUserId}
+        }
+        await this.destinationConfigRepository.saveConfig(configType.entity, config)
+    }
+
+    public async setDefaultConfig(type: string, id: any): Promise<any> {
+        const configType = this.getConfigType(type)
+        if (!configType.hasDefault) {
+            throw new CustomError(type + " configs have no default", 400)
+        }
+        const config = await this.findConfig(configType, id)
+        await this.destinationConfigRepository.markDefault(configType.entity, config.id)
+        return this.toResponse(configType, {...config, default: 'true'})
+    }
+
+    // returns the config as stored, secrets included, for sending through it
+    public async findStoredConfig(type: string, id: any): Promise<any> {
+        return this.findConfig(this.getConfigType(type), id)
+    }
+
+    private getConfigType(type: string): ConfigType {
+        const configType = ConfigTypeMapping.get(type)
+        if (!configType) {
+            throw new CustomError("unknown destination type " + type + ", expected one of " + [...ConfigTypeMapping.keys()].join(", "), 404)
+        }
+        return configType
+    }
+
+    private async findConfig(configType: ConfigType, id: any): Promise<any> {
+        const parsed = Number(id)
+        if (!Number.isInteger(parsed)) {
+            throw new CustomError("id must be an integer", 400)
+        }
+        const config = await this.destinationConfigRepository.findConfig(configType.entity, parsed)
+        if (!config) {
+            throw new CustomError("config " + id + " not found", 404)
+        }
+        return config
+    }
+
+    private parseFields(configType: ConfigType, body: any, create: boolean): any {
+        const values = {}
+        for (const field of configType.fields) {
+            if (body[field.name] === undefined) {
+                if (create && field.initial !== undefined) {
+                    values[field.name] = field.initial
+                }
+                continue
+            }
+            values[field.name] = this.parseField(field, body[field.name])
+        }
+        if (create) {
+            this.checkRequired(configType, values)
+        }
+        return values
+    }
+
+    private checkRequired(configType: ConfigType, config: any) {
+        for (const field of configType.fields) {
+            if (field.required && (config[field.name] === undefined || config[field.name] === null || config[field.name] === "")) {
+                throw new CustomError(field.name + " is required", 400)
+            }
+        }
+    }
+
+    private parseField(field: ConfigField, value: any): any {
+        if (value === null) {
+            return null
+        }
+        switch (field.kind) {
+            case "url":
+                if (typeof value !== "string" || !this.isHttpUrl(value)) {
+                    throw new CustomError(field.name + " must be a valid http or https url", 400)
+                }
+                return value
+            case "email":
+                if (typeof value !== "string" || !emailPattern.test(value)) {
+                    throw new CustomError(field.name + " must be a valid email address", 400)
+                }
+                return value
+            case "port": {
+                const port = Number(value)
+                if (!Number.isInteger(port) || port < 1 || port > 65535) {
+                    throw new CustomError(field.name + " must be a port between 1 and 65535", 400)
+                }
+                // ports are stored as text
+                return String(port)
+            }
+            case "integer":
+                if (!Number.isInteger(value)) {
+                    throw new CustomError(field.name + " must be an integer", 400)
+                }
+                return value
+            case "boolean":
+                if (typeof value !== "boolean") {
+                    throw new CustomError(field.name + " must be true or false", 400)
+                }
+                return value
+            case "headers":
+                if (typeof value !== "object" || Array.isArray(value) || Object.values(value).some(v => typeof v !== "string")) {
+                    throw new CustomError(field.name + " must be an object of string values", 400)
+                }
+                return value
+            default:
+                if (typeof value !== "string") {
+                    throw new CustomError(field.name + " must be a string", 400)
+                }
+                return value
+        }
+    }
+
+    private isHttpUrl(value: string): boolean {
+        try {
+            const url = new URL(value)
+            return url.protocol === "http:" || url.protocol === "https:"
+        } catch (e) {
+            return false
+        }
+    }
+
+    private toResponse(configType: ConfigType, config: any): any {
+        const response = {...config}
+        for (const field of configType.fields) {
+            if (field.secret) {
+                delete response[field.name]
+            }
+        }
+        if (configType.hasDefault) {
+            response.default = config.default === 'true'
+        }
+        return response
+    }
+}
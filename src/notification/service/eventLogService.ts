@@ -0,0 +1,114 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DestinationDeliveryStats, EventLogFilter, EventLogRepository} from "../../repository/notifierEventLogRepository";
+import {NotifierEventLog} from "../../entities/notifierEventLogs";
+import {CustomError} from "../../entities/events";
+
+const defaultPageSize = 20
+const maxPageSize = 100
+
+export interface EventLogPage {
+    logs: NotifierEventLog[]
+    total: number
+    offset: number
+    size: number
+}
+
+export class EventLogService {
+    private eventLogRepository: EventLogRepository
+
+    constructor(eventLogRepository: EventLogRepository) {
+        this.eventLogRepository = eventLogRepository
+    }
+
+    public async getEventLogs(query: any): Promise<EventLogPage> {
+        const filter = this.parseFilter(query)
+        const offset = this.parseInteger(query.offset, "offset") ?? 0
+        const size = this.parseInteger(query.size, "size") ?? defaultPageSize
+        if (offset < 0) {
+            throw new CustomError("offset must not be negative", 400)
+        }
+        if (size < 1 || size > maxPageSize) {
+            throw new CustomError("size must be between 1 and " + maxPageSize, 400)
+        }
+        const [logs, total] = await this.eventLogRepository.findEventLogs(filter, offset, size)
+        return {logs: logs, total: total, offset: offset, size: size}
+    }
+
+    public async getDeliveryStats(query: any): Promise<DestinationDeliveryStats[]> {
+        return this.eventLogRepository.getDeliveryStats(this.parseFilter(query))
+    }
+
+    private parseFilter(query: any): EventLogFilter {
+        const filter: EventLogFilter = {
+            correlationId: this.parseString(query.correlationId),
+            pipelineId: this.parseInteger(query.pipelineId, "pipelineId"),
+            pipelineType: this.parseString(query.pipelineType),
+            eventTypeId: this.parseInteger(query.eventTypeId, "eventTypeId"),
+            destination: this.parseString(query.destination),
+            isNotificationSent: this.parseBoolean(query.sent, "sent"),
+            from: this.parseDate(query.from, "from"),
+            to: this.parseDate(query.to, "to"),
+        }
+        if (filter.from && filter.to && filter.from > filter.to) {
+            throw new CustomError("from must be before to", 400)
+        }
+        return filter
+    }
+
+    private parseString(value: any): string {
+        if (value === undefined || value === "") {
+            return undefined
+        }
+        return String(value)
+    }
+
+    private parseInteger(value: any, name: string): number {
+        if (value === undefined || value === "") {
+            return undefined
+        }
+        const parsed = Number(value)
+        if (!Number.isInteger(parsed)) {
+            throw new CustomError(name + " must be an integer", 400)
+        }
+        return parsed
+    }
+
+    private parseBoolean(value: any, name: string): boolean {
+        if (value === undefined || value === "") {
+            return undefined
+        }
+        if (value === "true" || value === true) {
+            return true
+        }
+        if (value === "false" || value === false) {
+            return false
+        }
+        throw new CustomError(name + " must be true or false", 400)
+    }
+
+    private parseDate(value: any, name: string): Date {
+        if (value === undefined || value === "") {
+            return undefined
+        }
+        const parsed = new Date(String(value))
+        if (isNaN(parsed.getTime())) {
+            throw new CustomError(name + " must be a valid date", 400)
+        }
+        return parsed
+    }
+}
@@ -0,0 +1,80 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {EventRejectionRepository} from "../../repository/eventRejectionRepository";
+import {EventRejection} from "../../entities/eventRejection";
+import {CustomError, EventValidationError} from "../../entities/events";
+import {redactValue} from "../../redaction/utils";
+
+const defaultPageSize = 20
+const maxPageSize = 100
+
+export interface EventRejectionPage {
+    rejections: EventRejection[]
+    total: number
+    offset: number
+    size: number
+}
+
+// events received from NATS which are invalid are kept here instead of being delivered again, so that
+// the fields the orchestrator got wrong can be looked up
+export class EventRejectionService {
+    private eventRejectionRepository: EventRejectionRepository
+    private logger: any
+
+    constructor(eventRejectionRepository: EventRejectionRepository, logger: any) {
+        this.eventRejectionRepository = eventRejectionRepository
+        this.logger = logger
+    }
+
+    public async reject(event: any, error: EventValidationError) {
+        const rejection = new EventRejection()
+        if (event && typeof event === "object") {
+            rejection.event_type_id = Number.isInteger(event.eventTypeId) ? event.eventTypeId : null
+            rejection.correlation_id = event.correlationId != null ? String(event.correlationId) : null
+        }
+        rejection.errors = error.errors
+        rejection.event = redactValue(event)
+        rejection.created_at = new Date()
+        await this.eventRejectionRepository.save(rejection)
+        this.logger.warn("rejected " + error.message, {rejectionId: rejection.id})
+    }
+
+    public async getRejections(query: any): Promise<EventRejectionPage> {
+        const eventTypeId = this.parseInteger(query.eventTypeId, "eventTypeId")
+        const offset = this.parseInteger(query.offset, "offset") ?? 0
+        const size = this.parseInteger(query.size, "size") ?? defaultPageSize
+        if (offset < 0) {
+            throw new CustomError("offset must not be negative", 400)
+        }
+        if (size < 1 || size > maxPageSize) {
+            throw new CustomError("size must be between 1 and " + maxPageSize, 400)
+        }
+        const [rejections, total] = await this.eventRejectionRepository.findRejections(eventTypeId, offset, size)
+        return {rejections: rejections, total: total, offset: offset, size: size}
+    }
+
+    private parseInteger(value: any, name: string): number {
+        if (value === undefined || value === "") {
+            return undefined
+        }
+        const parsed = Number(value)
+        if (!Number.isInteger(parsed)) {
+            throw new CustomError(name + " must be an integer", 400)
+        }
+        return parsed
+    }
+}
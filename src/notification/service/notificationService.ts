@@ -25,13 +25,82 @@ import { SESService } from "../../destination/destinationHandlers/sesHandler";
 import { SMTPService } from "../../destination/destinationHandlers/smtpHandler";
 import { EVENT_TYPE } from "../../common/types";
 import {SlackService} from "../../destination/destinationHandlers/slackHandler";
-import {NotifmeSdk} from 'notifme-sdk'
+import {TeamsService} from "../../destination/destinationHandlers/teamsHandler";
 import {CustomError, CustomResponse} from "../../entities/events";
+import {DeliveryDetail} from "../../common/eventLogBuilder";
+import {DigestService} from "../../digest/digestService";
+import {DeliveryScheduleService} from "../../schedule/scheduleService";
+import {IdempotencyService} from "../../throttle/idempotencyService";
+import {RateLimitService} from "../../throttle/rateLimitService";
+import {eventTypeLabel, recordDelivery, settingsMatched} from "../../common/metrics";
+import {eventAttributes, withSpan} from "../../tracing/tracing";
 
+// handle resolves once every delivery of the handler was attempted, with one outcome per resolved target
 export interface Handler {
-    handle(event: Event, templates: (NotificationTemplates[] | WebhookConfig[]), setting: NotificationSettings, configMap: Map<string, boolean>, destinationMap: Map<string, boolean>): boolean
+    handle(event: Event, templates: (NotificationTemplates[] | WebhookConfig[]), setting: NotificationSettings, configMap: Map<string, boolean>, destinationMap: Map<string, boolean>): Promise<DeliveryOutcome[]>
 
     sendNotification(event: Event, sdk: any, template: string)
+
+    preview(event: Event, templates: (NotificationTemplates[] | WebhookConfig[]), setting: NotificationSettings): Promise<NotificationPreview[]>
+}
+
+export interface DeliveryOutcome {
+    destination: string
+    configId?: number
+    target?: string     // recipient email or webhook host
+    success: boolean
+    retrying?: boolean  // the failed delivery was queued for retry
+    deferred?: boolean  // the event was buffered to be sent later, e.g. as part of a digest
+    suppressed?: boolean  // the event was dropped, during quiet hours, as a copy of an event delivered before or as a success without an open incident
+    error?: string
+}
+
+// every first attempt of a handler ends up here, which makes it the place deliveries are counted, see RetryService for retries
+export function deliveryOutcome(destination: string, success: boolean, detail: DeliveryDetail, retrying?: boolean): DeliveryOutcome {
+    recordDelivery(destination, success, detail.latency)
+    return {
+        destination: destination,
+        configId: detail.configId,
+        target: detail.target,
+        success: success,
+        retrying: retrying,
+        error: success ? undefined : detail.response,
+    }
+}
+
+export interface NotificationPreview {
+    settingId?: number
+    destination: string
+    configId?: number
+    recipient?: string  // email address or webhook host
+    payload?: any       // rendered template, parsed when it is valid json
+    error?: string
+}
+
+// renders a template for preview, recording render failures on the entry instead of failing the whole preview
+export function renderPreview(preview: NotificationPreview, render: () => string): NotificationPreview {
+    let rendered: string
+    try {
+        rendered = render()
+        preview.payload = JSON.parse(rendered)
+    } catch (error: any) {
+        preview.payload = rendered
+        preview.error = error.message
+    }
+    return preview
+}
+
+// scoop notifications carry their destination in the event instead of a notification setting
+export function scoopTarget(event: Event): { destination: string, webhookUrl: string } {
+    const scoopNotificationConfig = event.payload.scoopNotificationConfig
+    if (scoopNotificationConfig.webhookConfig) {
+        return {destination: "webhook", webhookUrl: scoopNotificationConfig.webhookConfig.web_hook_url}
+    } else if (scoopNotificationConfig.slackConfig) {
+        return {destination: "slack", webhookUrl: scoopNotificationConfig.slackConfig.webhookUrl}
+    } else if (scoopNotificationConfig.teamsConfig) {
+        return {destination: "teams", webhookUrl: scoopNotificationConfig.teamsConfig.webhookUrl}
+    }
+    return
 }
 
 class NotificationService {
@@ -39,16 +108,27 @@ class NotificationService {
     private notificationSettingsRepository: NotificationSettingsRepository
     private templatesRepository: NotificationTemplatesRepository
     private readonly handlers: Handler[]
+    private digestService: DigestService
+    private scheduleService: DeliveryScheduleService
+    private idempotencyService: IdempotencyService
+    private rateLimitService: RateLimitService
     private logger: any
+    // deliveries the caller didn't wait for, awaited on shutdown
+    private pending = new Set<Promise<DeliveryOutcome[]>>()
 
-    constructor(eventRepository: EventRepository, notificationSettingsRepository: NotificationSettingsRepository, templatesRepository: NotificationTemplatesRepository, handlers: Handler[], logger: any) {
+    constructor(eventRepository: EventRepository, notificationSettingsRepository: NotificationSettingsRepository, templatesRepository: NotificationTemplatesRepository, handlers: Handler[], digestService: DigestService,
+                scheduleService: DeliveryScheduleService, idempotencyService: IdempotencyService, rateLimitService: RateLimitService, logger: any) {
         this.eventRepository = eventRepository
         this.notificationSettingsRepository = notificationSettingsRepository
         this.handlers = handlers
         this.templatesRepository = templatesRepository
+        this.digestService = digestService
+        this.scheduleService = scheduleService
+        this.idempotencyService = idempotencyService
+        this.rateLimitService = rateLimitService
         this.logger = logger
     }
-    public sendApprovalNotificaton(event:Event){
+    public sendApprovalNotificaton(event:Event): Promise<DeliveryOutcome[]> {
         try {
             if (!this.isValidEventForApproval(event)) {
                 throw new CustomError("Event is not valid for approval ", 400)
@@ -59,6 +139,8 @@ class NotificationService {
                 this.logger.info("no notification settings found for event " + event.correlationId);
                 throw new CustomError("no notification settings found for event", 400)
             }
+            // approval events carry the providers of their single setting
+            settingsMatched.inc({event_type: eventTypeLabel(event.eventTypeId)})
             let destinationMap = new Map();
             let configsMap = new Map();
             this.logger.info("notification settings ");
@@ -70,164 +152,328 @@ class NotificationService {
             });
 
 
-            this.templatesRepository.findByEventTypeId(event.eventTypeId).then((templateResults: NotificationTemplates[]) => {
+            return withSpan("findByEventTypeId", eventAttributes(event), () => this.templatesRepository.findByEventTypeId(event.eventTypeId)).then((templateResults: NotificationTemplates[]) => {
                 if (!templateResults) {
-                    this.logger.info("no templates found for event ", event);
+                    this.logger.info("no templates found for event");
                     throw new CustomError("no templates found for event", 404)
                 }
                 let settings = new NotificationSettings()
                 settings.config = event.payload.providers
                 settings.pipeline_id = event.pipelineId
                 settings.event_type_id = event.eventTypeId
-                for (let h of this.handlers) {
-                    if ((h instanceof SESService) || (h instanceof SMTPService)) {
-                        h.handle(event, templateResults, settings, configsMap, destinationMap)
+                return this.idempotencyService.dropDuplicates(event, [settings]).then(checked => {
+                    const deliveries: Promise<DeliveryOutcome[]>[] = [Promise.resolve(checked.outcomes)]
+                    for (let h of this.handlers) {
+                        if ((h instanceof SESService) || (h instanceof SMTPService) || (h instanceof TeamsService)) {
+                            deliveries.push(h.handle(event, templateResults, checked.settings[0], configsMap, destinationMap))
+                        }
                     }
-                }
-            }).catch(err => this.logger.error("err" + err))
+                    return this.releaseOnFailure(this.collectOutcomes(deliveries), checked.claimed)
+                })
+            })
         }catch (e:any){
             throw e instanceof CustomError?e:new CustomError(e.message,400)
         }
     }
 
     // this function is used to send webhook notification for scoop notification event type
-    private sendWebhookNotification(event: Event) {
+    private sendWebhookNotification(event: Event): Promise<DeliveryOutcome[]> {
+        const deliveries: Promise<DeliveryOutcome>[] = []
         this.handlers.forEach((h) => {
             if (h instanceof WebhookService){
                 let setting = new NotificationSettings()
                 setting.event_type_id = event.eventTypeId
                 setting.pipeline_id = 0
                 setting.config = event.payload
-                h.sendAndLogNotification(event, event.payload.scoopNotificationConfig.webhookConfig as WebhookConfig, setting, {"dest": "webhook"})
+                deliveries.push(h.sendAndLogNotification(event, event.payload.scoopNotificationConfig.webhookConfig as WebhookConfig, setting, {"dest": "webhook"}))
             }
         })
+        return Promise.all(deliveries)
     }
 
     // this function is used to send slack notification for scoop notification event type
-    private sendSlackNotification(event: Event) {
+    private sendSlackNotification(event: Event): Promise<DeliveryOutcome[]> {
+        const deliveries: Promise<DeliveryOutcome>[] = []
         this.handlers.forEach((h) => {
             if (h instanceof SlackService){
-                this.templatesRepository.findByEventTypeIdAndChannelType(event.eventTypeId, "slack").then((templateResults:NotificationTemplates[]) => {
+                deliveries.push(this.templatesRepository.findByEventTypeIdAndChannelType(event.eventTypeId, "slack").then((templateResults:NotificationTemplates[]) => {
                     if (!templateResults) {
-                        this.logger.info("no templates found for event ", event);
+                        this.logger.info("no templates found for event");
                         return
                     }
 
                     const slackTemplateConfig = templateResults[0]
-                    let sdk: NotifmeSdk = new NotifmeSdk({
-                        channels: {
-                            slack: {
-                                providers: [{
-                                    type: 'webhook',
-                                    webhookUrl: event.payload.scoopNotificationConfig.slackConfig.webhookUrl
-                                }]
-                            }
-                        }
-                    });
 
                     let setting = new NotificationSettings()
                     setting.event_type_id = event.eventTypeId
                     setting.pipeline_id = 0
                     setting.config = event.payload
-                    h.sendAndLogNotification(event, sdk,setting,{"dest": "slack"}, slackTemplateConfig)
-                })
+                    return h.sendAndLogNotification(event, event.payload.scoopNotificationConfig.slackConfig.webhookUrl, setting, {"dest": "slack"}, slackTemplateConfig)
+                }))
             }
         })
+        return Promise.all(deliveries).then(outcomes => outcomes.filter(outcome => !!outcome))
     }
 
-    public async sendNotification(event: Event):Promise<CustomResponse> {
+    // this function is used to send teams notification for scoop notification event type
+    private sendTeamsNotification(event: Event): Promise<DeliveryOutcome[]> {
+        const deliveries: Promise<DeliveryOutcome>[] = []
+        this.handlers.forEach((h) => {
+            if (h instanceof TeamsService){
+                deliveries.push(this.templatesRepository.findByEventTypeIdAndChannelType(event.eventTypeId, "teams").then((templateResults:NotificationTemplates[]) => {
+                    if (!templateResults || templateResults.length == 0) {
+                        this.logger.info("no templates found for event");
+                        return
+                    }
+
+                    let setting = new NotificationSettings()
+                    setting.event_type_id = event.eventTypeId
+                    setting.pipeline_id = 0
+                    setting.config = event.payload
+                    return h.sendAndLogNotification(event, event.payload.scoopNotificationConfig.teamsConfig.webhookUrl, setting, {"dest": "teams"}, templateResults[0])
+                }))
+            }
+        })
+        return Promise.all(deliveries).then(outcomes => outcomes.filter(outcome => !!outcome))
+    }
+
+    // when wait is set the response is only returned once every delivery was attempted and reports the outcome of each of them
+    public async sendNotification(event: Event, wait?: boolean):Promise<CustomResponse> {
+        // idempotency keys claimed for the event, given up again when it fails
+        let claimed: string[] = []
         try {
             if (event.payload.providers && event.payload.providers.length > 0) {
-                this.sendApprovalNotificaton(event)
-                return new CustomResponse("notification sent",200)
+                return await this.respond(this.sendApprovalNotificaton(event), wait)
+            }
+
+            if (event.eventTypeId == EVENT_TYPE.ScoopNotification && event.payload.scoopNotificationConfig) {
+                const checked = await this.idempotencyService.dropDuplicateScoopEvent(event)
+                claimed = checked.claimed
+                const held = checked.outcomes ?? await this.digestService.bufferScoopEvent(event) ?? await this.rateLimitService.limitScoopEvent(event)
+                if (held) {
+                    return await this.respond(Promise.resolve(held), wait)
+                }
             }
 
             // check webhook for scoop notification event type
             if (event.eventTypeId == EVENT_TYPE.ScoopNotification && event.payload.scoopNotificationConfig.webhookConfig) {
-                this.sendWebhookNotification(event)
-                return new CustomResponse("notification sent",200)
+                return await this.respond(this.releaseOnFailure(this.sendWebhookNotification(event), claimed), wait)
             }
 
             // check slack for scoop notification event type
             if (event.eventTypeId == EVENT_TYPE.ScoopNotification && event.payload.scoopNotificationConfig.slackConfig) {
-                this.sendSlackNotification(event)
-                return new CustomResponse("notification sent",200)
+                return await this.respond(this.releaseOnFailure(this.sendSlackNotification(event), claimed), wait)
             }
 
+            // check teams for scoop notification event type
+            if (event.eventTypeId == EVENT_TYPE.ScoopNotification && event.payload.scoopNotificationConfig.teamsConfig) {
+                return await this.respond(this.releaseOnFailure(this.sendTeamsNotification(event), claimed), wait)
+            }
 
             if (!this.isValidEvent(event)) {
                 throw new CustomError("Event is not valid", 400)
             }
 
-            const settingsResults=await this.notificationSettingsRepository.findByEventSource(event.pipelineType, event.pipelineId, event.eventTypeId, event.appId, event.envId, event.teamId, event.clusterId, event.isProdEnv);
+            const foundSettings=await withSpan("findByEventSource", eventAttributes(event), () => this.notificationSettingsRepository.findByEventSource(event.pipelineType, event.pipelineId, event.eventTypeId, event.appId, event.envId, event.teamId, event.clusterId, event.isProdEnv));
                 this.logger.info('notificationSettingsRepository.findByEventSource')
-                if (!settingsResults || settingsResults.length == 0) {
+                settingsMatched.inc({event_type: eventTypeLabel(event.eventTypeId)}, foundSettings?.length ?? 0)
+                if (!foundSettings || foundSettings.length == 0) {
                     this.logger.info("no notification settings found for event " + event.correlationId);
                     return new CustomResponse("",0,new CustomError("no notification settings found for event",404))
                 }
-                let destinationMap = new Map();
-                let configsMap = new Map();
-                this.logger.info("notification settings ");
-                this.logger.info(JSON.stringify(settingsResults))
-                settingsResults.forEach((setting) => {
-                    const providerObjects = setting.config
-                    const providersSet = new Set(providerObjects);
-                    providersSet.forEach(p => {
-                        let id = p['dest'] + '-' + p['configId']
-                        configsMap.set(id, false)
-                    });
-                });
+                // destinations which already got a copy of the event are skipped
+                const checked = await this.idempotencyService.dropDuplicates(event, foundSettings)
+                claimed = checked.claimed
+                // destinations in quiet hours are dropped or only get the event once their schedule opens again
+                const scheduled = await this.scheduleService.applySchedules(event, checked.settings)
+                // destinations with a digest enabled only get the event later, as part of the digest
+                const digested = await this.digestService.bufferEvents(event, scheduled.settings)
+                // destinations over their rate limit get the event summarised or deferred once the limit window ends
+                const limited = await this.rateLimitService.applyRateLimits(event, digested.settings)
+                const outcomes = [...checked.outcomes, ...scheduled.outcomes, ...digested.outcomes, ...limited.outcomes]
+                const deliveries: Promise<DeliveryOutcome[]>[] = [Promise.resolve(outcomes), this.dispatchSettings(event, limited.settings)]
+            this.logger.info("notification sent");
+            return await this.respond(this.releaseOnFailure(this.collectOutcomes(deliveries), claimed), wait)
+        }catch (error:any){
+            // errors other than invalid events are unexpected, e.g. the database being unreachable, the event may be sent again
+            await this.idempotencyService.release(claimed)
+            return error instanceof CustomError ? new CustomResponse("", 0, error) : new CustomResponse("", 0, new CustomError(error.message, 500))
+        }
+    }
 
-                settingsResults.forEach((setting) => {
+    // the keys are given up before the failure is reported, so that the event isn't dropped as a duplicate when it is sent again
+    private releaseOnFailure(deliveries: Promise<DeliveryOutcome[]>, claimed: string[]): Promise<DeliveryOutcome[]> {
+        return deliveries.catch(async error => {
+            await this.idempotencyService.release(claimed)
+            throw error
+        })
+    }
 
-                    const configArray = setting.config as any;
-                    if (Array.isArray(configArray)) {
-                        const webhookConfig = configArray.filter((config) => config.dest === 'webhook');
+    // sends a notification deferred by a delivery schedule or a rate limit, the rate limits apply again once it's released
+    public async dispatchDeferred(event: Event, settings: NotificationSettings[]): Promise<DeliveryOutcome[]> {
+        const limited = await this.rateLimitService.applyRateLimits(event, settings)
+        const outcomes = await this.dispatchSettings(event, limited.settings)
+        return [...limited.outcomes, ...outcomes]
+    }
 
-                        if (webhookConfig.length) {
-                            const webhookConfigRepository = new WebhookConfigRepository();
-                            webhookConfig.forEach(config => {
-                                webhookConfigRepository.getAllWebhookConfigs().then((templateResults: WebhookConfig[]) => {
-                                    const newTemplateResult = templateResults.filter((t) => t.id === config.configId);
+    // sends the event to every destination of the settings
+    public dispatchSettings(event: Event, settingsResults: NotificationSettings[]): Promise<DeliveryOutcome[]> {
+        let destinationMap = new Map();
+        let configsMap = new Map();
+        this.logger.info("notification settings ");
+        this.logger.info(JSON.stringify(settingsResults))
+        settingsResults.forEach((setting) => {
+            const providerObjects = setting.config
+            const providersSet = new Set(providerObjects);
+            providersSet.forEach(p => {
+                let id = p['dest'] + '-' + p['configId']
+                configsMap.set(id, false)
+            });
+        });
 
-                                    if (newTemplateResult.length === 0) {
-                                        this.logger.info("no templates found for event ", event);
-                                        return new CustomResponse("",0,new CustomError("no templates found for event", 404));
-                                    }
+        const deliveries: Promise<DeliveryOutcome[]>[] = []
+        settingsResults.forEach((setting) => {
 
-                                    let ImageScanEvent = JSON.parse(JSON.stringify(event));
-                                    if (!!event.payload.imageScanExecutionInfo) {
-                                        ImageScanEvent.payload.imageScanExecutionInfo = JSON.parse(JSON.stringify(event.payload.imageScanExecutionInfo[setting.id] ?? {}));
-                                    }
-                                    for (const h of this.handlers) {
-                                        if (h instanceof WebhookService) {
-                                            if (event.eventTypeId === EVENT_TYPE.ImageScan && !!event.payload.imageScanExecutionInfo) {
-                                                h.handle(ImageScanEvent, newTemplateResult, setting, configsMap, destinationMap);
-                                            }
-                                            h.handle(event, newTemplateResult, setting, configsMap, destinationMap);
-                                        }
+            const configArray = setting.config as any;
+            if (Array.isArray(configArray)) {
+                const webhookConfig = configArray.filter((config) => config.dest === 'webhook');
+
+                if (webhookConfig.length) {
+                    const webhookConfigRepository = new WebhookConfigRepository();
+                    webhookConfig.forEach(config => {
+                        deliveries.push(webhookConfigRepository.getAllWebhookConfigs().then((templateResults: WebhookConfig[]) => {
+                            const newTemplateResult = templateResults.filter((t) => t.id === config.configId);
+
+                            if (newTemplateResult.length === 0) {
+                                this.logger.info("no templates found for event");
+                                return [{destination: "webhook", configId: config.configId, success: false, error: "no webhook config found"}];
+                            }
+
+                            let ImageScanEvent = JSON.parse(JSON.stringify(event));
+                            if (!!event.payload.imageScanExecutionInfo) {
+                                ImageScanEvent.payload.imageScanExecutionInfo = JSON.parse(JSON.stringify(event.payload.imageScanExecutionInfo[setting.id] ?? {}));
+                            }
+                            const webhookDeliveries: Promise<DeliveryOutcome[]>[] = []
+                            for (const h of this.handlers) {
+                                if (h instanceof WebhookService) {
+                                    if (event.eventTypeId === EVENT_TYPE.ImageScan && !!event.payload.imageScanExecutionInfo) {
+                                        webhookDeliveries.push(h.handle(ImageScanEvent, newTemplateResult, setting, configsMap, destinationMap));
                                     }
-                                });
-                            });
-                        }
-                        if (configArray.length > webhookConfig.length) {
-                            this.templatesRepository.findByEventTypeIdAndNodeType(event.eventTypeId, event.pipelineType).then((templateResults: NotificationTemplates[]) => {
-                                if (!templateResults) {
-                                    this.logger.info("no templates found for event ", event);
-                                    return new CustomResponse("",0,new CustomError("no templates found for event", 404));
-                                }
-                                for (let h of this.handlers) {
-                                    h.handle(event, templateResults, setting, configsMap, destinationMap)
+                                    webhookDeliveries.push(h.handle(event, newTemplateResult, setting, configsMap, destinationMap));
                                 }
-                            })
+                            }
+                            return this.collectOutcomes(webhookDeliveries)
+                        }));
+                    });
+                }
+                if (configArray.length > webhookConfig.length) {
+                    const templates = withSpan("findByEventTypeIdAndNodeType", eventAttributes(event), () => this.templatesRepository.findByEventTypeIdAndNodeType(event.eventTypeId, event.pipelineType))
+                    deliveries.push(templates.then((templateResults: NotificationTemplates[]) => {
+                        if (!templateResults) {
+                            this.logger.info("no templates found for event");
+                            return [];
                         }
+                        return this.collectOutcomes(this.handlers.map(h => h.handle(event, templateResults, setting, configsMap, destinationMap)))
+                    }))
+                }
+            }
+        });
+        return this.collectOutcomes(deliveries)
+    }
+
+    private async respond(deliveries: Promise<DeliveryOutcome[]>, wait: boolean): Promise<CustomResponse> {
+        if (!wait) {
+            const tracked = deliveries.catch(err => {
+                this.logger.error("err" + err)
+                return []
+            }).finally(() => this.pending.delete(tracked))
+            this.pending.add(tracked)
+            return new CustomResponse("notification sent",200)
+        }
+        const outcomes = await deliveries
+        const failed = outcomes.filter(outcome => !outcome.success).length
+        if (failed == 0) {
+            return new CustomResponse("notification sent", 200, undefined, outcomes)
+        }
+        // 207 when only some of the destinations failed, 502 when none of them could be notified
+        return new CustomResponse(failed + " of " + outcomes.length + " notifications failed", failed < outcomes.length ? 207 : 502, undefined, outcomes)
+    }
+
+    // resolves once the deliveries of events which were answered before they were delivered are done
+    public async drain() {
+        await Promise.all(this.pending)
+    }
+
+    private collectOutcomes(deliveries: Promise<DeliveryOutcome[]>[]): Promise<DeliveryOutcome[]> {
+        return Promise.all(deliveries).then(outcomes => [].concat(...outcomes))
+    }
+
+    // resolves the destinations of an event the same way sendNotification does and renders their templates without sending anything
+    public async previewNotification(event: Event): Promise<NotificationPreview[]> {
+        if (!event || !event.payload) {
+            throw new CustomError("Event is not valid", 400)
+        }
+        if (event.eventTypeId == EVENT_TYPE.ScoopNotification) {
+            throw new CustomError("preview is not supported for scoop notifications", 400)
+        }
+        const isApproval = event.payload.providers && event.payload.providers.length > 0
+        let settingsResults: NotificationSettings[]
+        let templateResults: NotificationTemplates[]
+        if (isApproval) {
+            if (!this.isValidEventForApproval(event)) {
+                throw new CustomError("Event is not valid for approval ", 400)
+            }
+            let settings = new NotificationSettings()
+            settings.config = event.payload.providers
+            settings.pipeline_id = event.pipelineId
+            settings.event_type_id = event.eventTypeId
+            settingsResults = [settings]
+            templateResults = await this.templatesRepository.findByEventTypeId(event.eventTypeId)
+        } else {
+            if (!this.isValidEvent(event)) {
+                throw new CustomError("Event is not valid", 400)
+            }
+            settingsResults = await this.notificationSettingsRepository.findByEventSource(event.pipelineType, event.pipelineId, event.eventTypeId, event.appId, event.envId, event.teamId, event.clusterId, event.isProdEnv)
+            templateResults = await this.templatesRepository.findByEventTypeIdAndNodeType(event.eventTypeId, event.pipelineType)
+        }
+        if (!settingsResults || settingsResults.length == 0) {
+            throw new CustomError("no notification settings found for event", 404)
+        }
+
+        // webhook configs are only read when one of the settings notifies a webhook
+        const notifiesWebhook = settingsResults.some(setting => Array.isArray(setting.config) && (setting.config as any[]).some(p => p.dest === 'webhook'))
+        const webhookConfigs = isApproval || !notifiesWebhook ? [] : await new WebhookConfigRepository().getAllWebhookConfigs()
+        const previews: NotificationPreview[] = []
+        const previewed = new Set<string>()
+        for (const setting of settingsResults) {
+            const configArray = Array.isArray(setting.config) ? setting.config as any[] : []
+            for (const h of this.handlers) {
+                let results: NotificationPreview[] = []
+                if (h instanceof WebhookService) {
+                    if (isApproval) {
+                        continue
                     }
-                });
-            this.logger.info("notification sent");
-            return  new CustomResponse("notification sent",200)
-        }catch (error:any){
-            return await error instanceof CustomError?new CustomResponse("",0,error):new CustomResponse("",0,new CustomError(error.message,400))
+                    let webhookEvent = event
+                    if (event.eventTypeId === EVENT_TYPE.ImageScan && !!event.payload.imageScanExecutionInfo) {
+                        webhookEvent = JSON.parse(JSON.stringify(event))
+                        webhookEvent.payload.imageScanExecutionInfo = event.payload.imageScanExecutionInfo[setting.id] ?? {}
+                    }
+                    const configs = webhookConfigs.filter(t => configArray.some(p => p.dest === 'webhook' && p.configId === t.id))
+                    results = await h.preview(webhookEvent, configs, setting)
+                } else if (!isApproval || (h instanceof SESService) || (h instanceof SMTPService) || (h instanceof TeamsService)) {
+                    results = await h.preview(event, templateResults || [], setting)
+                }
+                // the same destination reached through several settings is only notified once
+                for (const result of results) {
+                    const key = result.destination + '-' + (result.recipient ?? result.configId)
+                    if (!previewed.has(key)) {
+                        previewed.add(key)
+                        previews.push({settingId: setting.id, ...result})
+                    }
+                }
+            }
         }
+        return previews
     }
 
     private isValidEvent(event: Event) {
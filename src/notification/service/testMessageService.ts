@@ -0,0 +1,218 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {Event} from "./notificationService";
+import {DestinationConfigService} from "./destinationConfigService";
+import {NotificationTemplatesRepository} from "../../repository/templatesRepository";
+import {CustomError} from "../../entities/events";
+import {EVENT_TYPE} from "../../common/types";
+import {EventLogBuilder} from "../../common/eventLogBuilder";
+import {SlackService} from "../../destination/destinationHandlers/slackHandler";
+import {TeamsService} from "../../destination/destinationHandlers/teamsHandler";
+import {WebhookService} from "../../destination/destinationHandlers/webhookHandler";
+import {SESService} from "../../destination/destinationHandlers/sesHandler";
+import {SMTPService} from "../../destination/destinationHandlers/smtpHandler";
+
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// links of the sample event point here unless the request names the dashboard to link to
+const sampleBaseUrl = "https://devtron.example.com"
+
+export interface TestMessageResult {
+    destination: string
+    configId: number
+    success: boolean
+    target?: string
+    statusCode?: number
+    response?: string
+    error?: string
+}
+
+// sends a canned deployment success through a saved config, so a config can be checked before any setting uses it.
+// test messages bypass dedup, schedules, digests and rate limits and are neither logged nor retried
+export class TestMessageService {
+    private destinationConfigService: DestinationConfigService
+    private templatesRepository: NotificationTemplatesRepository
+    private slackService: SlackService
+    private teamsService: TeamsService
+    private webhookService: WebhookService
+    private sesService: SESService
+    private smtpService: SMTPService
+    private eventLogBuilder: EventLogBuilder
+    private logger: any
+
+    constructor(destinationConfigService: DestinationConfigService, templatesRepository: NotificationTemplatesRepository, slackService: SlackService, teamsService: TeamsService,
+                webhookService: WebhookService, sesService: SESService, smtpService: SMTPService, eventLogBuilder: EventLogBuilder, logger: any) {
+        this.destinationConfigService = destinationConfigService
+        this.templatesRepository = templatesRepository
+        this.slackService = slackService
+        this.teamsService = teamsService
+        this.webhookService = webhookService
+        this.sesService = sesService
+        this.smtpService = smtpService
+        this.eventLogBuilder = eventLogBuilder
+        this.logger = logger
+    }
+
+    public async sendTestMessage(type: string, id: any, body: any): Promise<TestMessageResult> {
+        body = body ?? {}
+        if (type == "pagerduty" || type == "opsgenie") {
+            // there is no way to tell a test incident apart, it would page whoever is on call
+            throw new CustomError("test messages are not supported for " + type + " configs", 400)
+        }
+        const config = await this.destinationConfigService.findStoredConfig(type, id)
+        const event = this.sampleEvent(this.parseBaseUrl(body.baseUrl))
+        const result: TestMessageResult = {destination: type, configId: config.id, success: false}
+        try {
+            switch (type) {
+                case "slack": {
+                    result.target = this.eventLogBuilder.getUrlHost(config.web_hook_url)
+                    const template = await this.findTemplate(event, type)
+                    this.readNotifmeResult(result, await this.slackService.sendNotification(event, this.slackService.createSdk(config.web_hook_url), template))
+                    break
+                }
+                case "teams": {
+                    result.target = this.eventLogBuilder.getUrlHost(config.web_hook_url)
+                    const template = await this.findTemplate(event, type)
+                    this.readHttpResult(result, await this.teamsService.sendNotification(event, config.web_hook_url, template))
+                    break
+                }
+                case "webhook": {
+                    result.target = this.eventLogBuilder.getUrlHost(config.web_hook_url)
+                    if (!config.payload) {
+                        throw new CustomError("webhook config " + config.id + " has no payload", 400)
+                    }
+                    const payload = typeof config.payload === "object" ? JSON.stringify(config.payload) : config.payload
+                    this.readHttpResult(result, await this.webhookService.sendNotification(event, config.web_hook_url, payload, config.header))
+                    break
+                }
+                case "ses":
+                case "smtp": {
+                    result.target = this.parseRecipient(body.recipient)
+                    const template = await this.findTemplate(event, type)
+                    event.payload['fromEmail'] = config.from_email
+                    event.payload['toEmail'] = result.target
+                    const handler = type == "ses" ? this.sesService : this.smtpService
+                    this.readNotifmeResult(result, await handler.sendNotification(event, handler.createSdk(config), template))
+                    break
+                }
+            }
+        } catch (error: any) {
+            // requests which can't be sent at all are the caller's mistake, anything else is reported as a failed delivery
+            if (error instanceof CustomError && error.statusCode == 400) {
+                throw error
+            }
+            this.logger.error("error occurred while sending " + type + " test message", error)
+            result.statusCode = error?.providerStatusCode
+            result.error = error?.message ?? String(error)
+        }
+        return result
+    }
+
+    private async findTemplate(event: Event, channel: string): Promise<string> {
+        const templates = await this.templatesRepository.findByEventTypeIdAndNodeType(event.eventTypeId, event.pipelineType)
+        const template = templates.find(t => t.channel_type == channel)
+        if (!template) {
+            throw new CustomError("no " + channel + " template found for " + event.pipelineType + " success events", 400)
+        }
+        return template.template_payload
+    }
+
+    private readNotifmeResult(result: TestMessageResult, res: any) {
+        if (res && res["status"] == "error") {
+            result.error = JSON.stringify(res["errors"])
+            return
+        }
+        result.success = true
+        result.response = this.eventLogBuilder.describeResponse(res)
+    }
+
+    private readHttpResult(result: TestMessageResult, res: { statusCode: number, data: any }) {
+        if (!res) {
+            result.error = "nothing was sent"
+            return
+        }
+        result.success = true
+        result.statusCode = res.statusCode
+        result.response = this.eventLogBuilder.describeResponse(res.data)
+    }
+
+    private parseRecipient(recipient: any): string {
+        if (typeof recipient !== "string" || !emailPattern.test(recipient)) {
+            throw new CustomError("recipient must be a valid email address", 400)
+        }
+        return recipient
+    }
+
+    private parseBaseUrl(baseUrl: any): string {
+        if (baseUrl === undefined || baseUrl === "") {
+            return sampleBaseUrl
+        }
+        let url: URL
+        try {
+            url = new URL(String(baseUrl))
+        } catch (e) {
+            url = null
+        }
+        if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) {
+            throw new CustomError("baseUrl must be a valid http or https url", 400)
+        }
+        // links in events are paths below the dashboard, see MustacheHelper
+        return url.origin + url.pathname.replace(/\/+$/, "")
+    }
+
+    private sampleEvent(baseUrl: string): Event {
+        return {
+            eventTypeId: EVENT_TYPE.Success,
+            pipelineId: 1,
+            pipelineType: "CD",
+            correlationId: "test-message-" + Date.now(),
+            eventTime: new Date().toISOString(),
+            appId: 1,
+            envId: 1,
+            teamId: 1,
+            clusterId: 1,
+            isProdEnv: false,
+            baseUrl: baseUrl,
+            payload: {
+                appName: "sample-app",
+                envName: "sample-env",
+                pipelineName: "sample-app-cd",
+                stage: "DEPLOY",
+                dockerImageUrl: "docker.io/devtron/sample-app:1.0.0",
+                triggeredBy: "admin",
+                deploymentHistoryLink: "/dashboard/app/1/cd-details/1/1",
+                appDetailLink: "/dashboard/app/1/details/1",
+                material: {
+                    gitTriggers: {
+                        "1": {
+                            Commit: "0123456789abcdef0123456789abcdef01234567",
+                            Author: "admin",
+                            Message: "notifier test message",
+                        }
+                    },
+                    ciMaterials: [{
+                        id: 1,
+                        type: "SOURCE_TYPE_BRANCH_FIXED",
+                        value: "main",
+                        url: "https://github.com/devtron-labs/devtron.git",
+                    }]
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,31 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import {buildOpenApiDocument} from "./openApi";
+
+// writes specs/api-spec.yaml, run through npm run generate-openapi after changing routes or schemas
+export const specFile = path.join(__dirname, "..", "..", "specs", "api-spec.yaml")
+
+export function generateSpec(): string {
+    return "# generated from src/openapi by npm run generate-openapi, changes have to be made there\n" + yaml.safeDump(buildOpenApiDocument(), {noRefs: true, lineWidth: 120})
+}
+
+if (require.main === module) {
+    fs.writeFileSync(specFile, generateSpec())
+}
@@ -0,0 +1,102 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {apiRoutes, RouteDefinition} from "./routes";
+import {componentParameters, componentSchemas, schemaRef, securitySchemes} from "./schemas";
+
+const errorResponse = {description: "", schema: schemaRef("ErrorResponse")}
+
+export function buildOpenApiDocument(): any {
+    const paths: { [path: string]: any } = {}
+    for (const route of apiRoutes) {
+        // /configs/:type becomes /configs/{type}
+        const path = route.path.replace(/:(\w+)/g, "{$1}")
+        paths[path] = {...paths[path], [route.method]: toOperation(route)}
+    }
+    const schemas: { [name: string]: any } = {}
+    for (const [name, schema] of Object.entries(componentSchemas)) {
+        schemas[name] = toOpenApiSchema(schema, schema)
+    }
+    return {
+        openapi: "3.0.3",
+        info: {version: "1.0.0", title: "Devtron Labs"},
+        paths: paths,
+        components: {securitySchemes: securitySchemes, parameters: componentParameters, schemas: schemas},
+    }
+}
+
+function toOperation(route: RouteDefinition): any {
+    const operation: any = {description: route.description}
+    const responses = {...route.responses}
+    if (route.scope) {
+        operation.security = Object.keys(securitySchemes).map(name => ({[name]: []}))
+        responses["401"] = {...errorResponse, description: "missing or invalid credentials" + (route.optionalAuth ? ", only checked when api clients are configured" : "")}
+        responses["403"] = {...errorResponse, description: "the client lacks the " + route.scope + " scope"}
+    }
+    if (route.parameters) {
+        operation.parameters = route.parameters
+    }
+    if (route.requestBody) {
+        operation.requestBody = {required: !route.optionalBody, content: {"application/json": {schema: toOpenApiSchema(route.requestBody)}}}
+    }
+    operation.responses = {}
+    for (const status of Object.keys(responses).sort()) {
+        const response = responses[status]
+        operation.responses[status] = {description: response.description}
+        if (response.schema) {
+            operation.responses[status].content = {[response.contentType ?? "application/json"]: {schema: toOpenApiSchema(response.schema)}}
+        }
+    }
+    return operation
+}
+
+const componentNames = new Map<any, string>(Object.entries(componentSchemas).map(([name, schema]) => [schema, name]))
+
+// schemas shared between components, e.g. the payload of an event, are referenced by the name of their component
+function toOpenApiSchema(value: any, root?: any): any {
+    if (value === null || typeof value !== "object") {
+        return value
+    }
+    if (value !== root && componentNames.has(value)) {
+        return schemaRef(componentNames.get(value))
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => toOpenApiSchema(item))
+    }
+    const schema: any = {}
+    for (const [key, item] of Object.entries(value)) {
+        schema[key] = toOpenApiSchema(item)
+    }
+    return schema
+}
+
+// swagger ui is served from /docs by the notifier itself, so that the docs also work without internet access
+export const docsPage = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Notifier API</title>
+    <link rel="stylesheet" href="/docs/swagger-ui.css">
+</head>
+<body>
+<div id="swagger-ui"></div>
+<script src="/docs/swagger-ui-bundle.js"></script>
+<script>
+    window.ui = SwaggerUIBundle({url: "/openapi.json", dom_id: "#swagger-ui"})
+</script>
+</body>
+</html>
+`
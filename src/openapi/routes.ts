@@ -0,0 +1,489 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {SCOPE} from "../auth/utils";
+import {parameterRef, schemaRef} from "./schemas";
+
+export interface RouteResponse {
+    description: string
+    // application/json when not set
+    contentType?: string
+    schema?: any
+}
+
+// a route of src/server.ts, the OpenAPI document is generated from these and test.ts fails when they differ from the routes
+export interface RouteDefinition {
+    method: "get" | "post" | "put" | "delete"
+    // as registered with express, e.g. /configs/:type/:id
+    path: string
+    description: string
+    // the scope clients need, routes without one are served to anyone
+    scope?: SCOPE
+    // credentials are only checked when api clients are configured
+    optionalAuth?: boolean
+    parameters?: any[]
+    requestBody?: any
+    // the body may be left out
+    optionalBody?: boolean
+    // responses to missing credentials and scopes are added for routes with a scope
+    responses: { [status: string]: RouteResponse }
+}
+
+export const apiRoutes: RouteDefinition[] = [
+    {
+        method: "post",
+        path: "/notify",
+        description: "Receive notifcation request & send the notification to the respective recipients",
+        scope: SCOPE.Notify,
+        optionalAuth: true,
+        parameters: [
+            {
+                name: "wait",
+                in: "query",
+                description: "wait until every delivery was attempted and report the outcome per destination",
+                schema: {type: "boolean", default: false},
+            },
+        ],
+        requestBody: schemaRef("Event"),
+        responses: {
+            "200": {
+                description: "notify response, with the outcome of every delivery when waiting",
+                schema: schemaRef("NotifyResponse"),
+            },
+            "207": {
+                description: "some of the deliveries failed, only returned when waiting",
+                schema: schemaRef("NotifyResponse"),
+            },
+            "400": {
+                description: "the event doesn't match the schema of its event type",
+                schema: schemaRef("ValidationErrorResponse"),
+            },
+            "502": {
+                description: "all of the deliveries failed, only returned when waiting",
+                schema: schemaRef("NotifyResponse"),
+            },
+            "503": {
+                description: "the notifier is shutting down, the event has to be sent again",
+                schema: schemaRef("ErrorResponse"),
+            },
+        },
+    },
+    {
+        method: "post",
+        path: "/notify/preview",
+        description: "Resolve the destinations of an event and render their templates without sending anything",
+        scope: SCOPE.Preview,
+        optionalAuth: true,
+        requestBody: schemaRef("Event"),
+        responses: {
+            "200": {
+                description: "rendered notifications per destination",
+                schema: {
+                    type: "object",
+                    properties: {notifications: {type: "array", items: schemaRef("NotificationPreview")}},
+                },
+            },
+            "400": {
+                description: "the event doesn't match the schema of its event type",
+                schema: schemaRef("ValidationErrorResponse"),
+            },
+            "404": {description: "no notification settings found for event", schema: schemaRef("ErrorResponse")},
+        },
+    },
+    {
+        method: "get",
+        path: "/events/logs",
+        description: "List delivery logs of sent notifications, latest first",
+        scope: SCOPE.Admin,
+        parameters: [
+            parameterRef("CorrelationId"),
+            parameterRef("PipelineId"),
+            parameterRef("PipelineType"),
+            parameterRef("EventTypeId"),
+            parameterRef("Destination"),
+            parameterRef("Sent"),
+            parameterRef("From"),
+            parameterRef("To"),
+            {name: "offset", in: "query", schema: {type: "integer", default: 0}},
+            {name: "size", in: "query", schema: {type: "integer", default: 20, maximum: 100}},
+        ],
+        responses: {
+            "200": {description: "page of delivery logs", schema: schemaRef("EventLogPage")},
+            "400": {description: "invalid filter", schema: schemaRef("ErrorResponse")},
+            "404": {description: "the admin api is disabled", schema: schemaRef("ErrorResponse")},
+        },
+    },
+    {
+        method: "get",
+        path: "/events/rejections",
+        description: "List events received from NATS which were dropped since they didn't match the schema of their event type, latest first",
+        scope: SCOPE.Admin,
+        parameters: [
+            parameterRef("EventTypeId"),
+            {name: "offset", in: "query", schema: {type: "integer", default: 0}},
+            {name: "size", in: "query", schema: {type: "integer", default: 20, maximum: 100}},
+        ],
+        responses: {
+            "200": {description: "page of rejected events", schema: schemaRef("EventRejectionPage")},
+            "400": {description: "invalid filter", schema: schemaRef("ErrorResponse")},
+            "404": {description: "the admin api is disabled", schema: schemaRef("ErrorResponse")},
+        },
+    },
+    {
+        method: "get",
+        path: "/events/logs/stats",
+        description: "Count sent and failed deliveries per destination",
+        scope: SCOPE.Admin,
+        parameters: [
+            parameterRef("CorrelationId"),
+            parameterRef("PipelineId"),
+            parameterRef("PipelineType"),
+            parameterRef("EventTypeId"),
+            parameterRef("Destination"),
+            parameterRef("Sent"),
+            parameterRef("From"),
+            parameterRef("To"),
+        ],
+        responses: {
+            "200": {
+                description: "delivery counts per destination",
+                schema: {
+                    type: "object",
+                    properties: {destinations: {type: "array", items: schemaRef("DestinationDeliveryStats")}},
+                },
+            },
+            "400": {description: "invalid filter", schema: schemaRef("ErrorResponse")},
+            "404": {description: "the admin api is disabled", schema: schemaRef("ErrorResponse")},
+        },
+    },
+    {
+        method: "get",
+        path: "/configs/:type",
+        description: "List the configs of a destination type which are not deleted. Secrets are never returned",
+        scope: SCOPE.Admin,
+        parameters: [
+            parameterRef("ConfigType"),
+        ],
+        responses: {
+            "200": {
+                description: "configs of the destination type",
+                schema: {
+                    type: "object",
+                    properties: {configs: {type: "array", items: schemaRef("DestinationConfig")}},
+                },
+            },
+            "404": {
+                description: "unknown destination type or config, or the admin api is disabled",
+                schema: schemaRef("ErrorResponse"),
+            },
+        },
+    },
+    {
+        method: "post",
+        path: "/configs/:type",
+        description: "Create a config of a destination type",
+        scope: SCOPE.Admin,
+        parameters: [
+            parameterRef("ConfigType"),
+        ],
+        requestBody: schemaRef("DestinationConfig"),
+        responses: {
+            "201": {description: "created config", schema: schemaRef("DestinationConfig")},
+            "400": {description: "invalid or missing field", schema: schemaRef("ErrorResponse")},
+            "404": {
+                description: "unknown destination type or config, or the admin api is disabled",
+                schema: schemaRef("ErrorResponse"),
+            },
+        },
+    },
+    {
+        method: "get",
+        path: "/configs/:type/:id",
+        description: "Get a config of a destination type",
+        scope: SCOPE.Admin,
+        parameters: [
+            parameterRef("ConfigType"),
+            parameterRef("ConfigId"),
+        ],
+        responses: {
+            "200": {description: "config", schema: schemaRef("DestinationConfig")},
+            "404": {
+                description: "unknown destination type or config, or the admin api is disabled",
+                schema: schemaRef("ErrorResponse"),
+            },
+        },
+    },
+    {
+        method: "put",
+        path: "/configs/:type/:id",
+        description: "Update a config, fields left out keep their current value",
+        scope: SCOPE.Admin,
+        parameters: [
+            parameterRef("ConfigType"),
+            parameterRef("ConfigId"),
+        ],
+        requestBody: schemaRef("DestinationConfig"),
+        responses: {
+            "200": {description: "updated config", schema: schemaRef("DestinationConfig")},
+            "400": {description: "invalid field", schema: schemaRef("ErrorResponse")},
+            "404": {
+                description: "unknown destination type or config, or the admin api is disabled",
+                schema: schemaRef("ErrorResponse"),
+            },
+        },
+    },
+    {
+        method: "delete",
+        path: "/configs/:type/:id",
+        description: "Mark a config as deleted, it is no longer used for deliveries",
+        scope: SCOPE.Admin,
+        parameters: [
+            parameterRef("ConfigType"),
+            parameterRef("ConfigId"),
+        ],
+        responses: {
+            "204": {description: "config deleted"},
+            "404": {
+                description: "unknown destination type or config, or the admin api is disabled",
+                schema: schemaRef("ErrorResponse"),
+            },
+        },
+    },
+    {
+        method: "post",
+        path: "/configs/:type/:id/default",
+        description: "Make a ses or smtp config the one every email of its destination is sent through",
+        scope: SCOPE.Admin,
+        parameters: [
+            parameterRef("ConfigType"),
+            parameterRef("ConfigId"),
+        ],
+        responses: {
+            "200": {description: "default config", schema: schemaRef("DestinationConfig")},
+            "400": {description: "the destination type has no default config", schema: schemaRef("ErrorResponse")},
+            "404": {
+                description: "unknown destination type or config, or the admin api is disabled",
+                schema: schemaRef("ErrorResponse"),
+            },
+        },
+    },
+    {
+        method: "post",
+        path: "/configs/:type/:id/test",
+        description: "Send a sample deployment success through a slack, teams, webhook, ses or smtp config. Test messages are neither logged nor retried.",
+        scope: SCOPE.Admin,
+        parameters: [
+            parameterRef("ConfigType"),
+            parameterRef("ConfigId"),
+        ],
+        optionalBody: true,
+        requestBody: {
+            type: "object",
+            properties: {
+                recipient: {
+                    type: "string",
+                    description: "email address the test message is sent to, required for ses and smtp",
+                },
+                baseUrl: {type: "string", description: "dashboard url the links of the sample event point to"},
+            },
+        },
+        responses: {
+            "200": {description: "the provider accepted the test message", schema: schemaRef("TestMessageResult")},
+            "400": {
+                description: "invalid request, no template for the destination, or the destination does not support test messages",
+                schema: schemaRef("ErrorResponse"),
+            },
+            "404": {
+                description: "unknown destination type or config, or the admin api is disabled",
+                schema: schemaRef("ErrorResponse"),
+            },
+            "502": {
+                description: "the provider rejected the test message or could not be reached",
+                schema: schemaRef("TestMessageResult"),
+            },
+        },
+    },
+    {
+        method: "get",
+        path: "/metrics",
+        description: "Metrics in the Prometheus text format",
+        responses: {
+            "200": {
+                description: "metrics of the notifier and its process",
+                contentType: "text/plain",
+                schema: {type: "string"},
+            },
+        },
+    },
+    {
+        method: "get",
+        path: "/live",
+        description: "Liveness probe, fails when the notifier can't recover without a restart, e.g. it gave up subscribing to NATS",
+        responses: {
+            "200": {description: "alive", schema: schemaRef("HealthReport")},
+            "503": {description: "the pod has to be restarted", schema: schemaRef("HealthReport")},
+        },
+    },
+    {
+        method: "get",
+        path: "/ready",
+        description: "Readiness probe, fails while the database, NATS or the JetStream consumers are unreachable. Missing default email configs are reported as warnings only.",
+        responses: {
+            "200": {description: "ready", schema: schemaRef("HealthReport")},
+            "503": {description: "not ready", schema: schemaRef("HealthReport")},
+        },
+    },
+    {
+        method: "get",
+        path: "/admin/dead-letters",
+        description: "Events which could not be processed, newest first. Events are redacted",
+        scope: SCOPE.Admin,
+        parameters: [
+            {name: "size", in: "query", schema: {type: "integer", minimum: 1, maximum: 100, default: 20}},
+            {
+                name: "before",
+                in: "query",
+                description: "sequence of the last dead letter of the previous page",
+                schema: {type: "integer"},
+            },
+        ],
+        responses: {
+            "200": {
+                description: "dead letters",
+                schema: {type: "object", properties: {deadLetters: {type: "array", items: schemaRef("DeadLetter")}}},
+            },
+            "400": {description: "invalid size or before", schema: schemaRef("ErrorResponse")},
+            "404": {description: "the admin api or nats is disabled", schema: schemaRef("ErrorResponse")},
+            "503": {description: "not connected to nats yet", schema: schemaRef("ErrorResponse")},
+        },
+    },
+    {
+        method: "post",
+        path: "/admin/dead-letters/:seq/replay",
+        description: "Publishes a dead letter to the subject it was received on again and removes it from the dead letters",
+        scope: SCOPE.Admin,
+        parameters: [
+            {name: "seq", in: "path", required: true, schema: {type: "integer"}},
+        ],
+        responses: {
+            "200": {description: "the replayed dead letter", schema: schemaRef("DeadLetter")},
+            "400": {description: "invalid sequence", schema: schemaRef("ErrorResponse")},
+            "404": {
+                description: "no dead letter with the sequence, or the admin api or nats is disabled",
+                schema: schemaRef("ErrorResponse"),
+            },
+            "503": {description: "not connected to nats yet", schema: schemaRef("ErrorResponse")},
+        },
+    },
+    {
+        method: "get",
+        path: "/admin/log-levels",
+        description: "Log level of the notifier and the modules logging at their own level",
+        scope: SCOPE.Admin,
+        responses: {
+            "200": {description: "current log levels", schema: schemaRef("LogLevels")},
+            "404": {description: "the admin api is disabled", schema: schemaRef("ErrorResponse")},
+        },
+    },
+    {
+        method: "put",
+        path: "/admin/log-levels",
+        description: "Changes log levels at runtime until the notifier restarts. Levels which are left out stay as they are, a module set to null logs at the default level again",
+        scope: SCOPE.Admin,
+        requestBody: schemaRef("LogLevels"),
+        responses: {
+            "200": {description: "log levels after the change", schema: schemaRef("LogLevels")},
+            "400": {description: "unknown level or module, nothing was changed", schema: schemaRef("ErrorResponse")},
+            "404": {description: "the admin api is disabled", schema: schemaRef("ErrorResponse")},
+        },
+    },
+    {
+        method: "get",
+        path: "/preferences/:email",
+        description: "What the recipient doesn't want to be emailed about, recipients without preferences get every email as html",
+        scope: SCOPE.Admin,
+        parameters: [
+            {name: "email", in: "path", required: true, schema: {type: "string", format: "email"}},
+        ],
+        responses: {
+            "200": {description: "preferences of the recipient", schema: schemaRef("UserPreference")},
+            "404": {description: "the admin api is disabled", schema: schemaRef("ErrorResponse")},
+        },
+    },
+    {
+        method: "put",
+        path: "/preferences/:email",
+        description: "Changes the preferences of a recipient, fields which are left out keep their value",
+        scope: SCOPE.Admin,
+        parameters: [
+            {name: "email", in: "path", required: true, schema: {type: "string", format: "email"}},
+        ],
+        requestBody: schemaRef("UserPreference"),
+        responses: {
+            "200": {description: "preferences after the change", schema: schemaRef("UserPreference")},
+            "400": {description: "invalid email or preferences", schema: schemaRef("ErrorResponse")},
+            "404": {description: "the admin api is disabled", schema: schemaRef("ErrorResponse")},
+        },
+    },
+    {
+        method: "get",
+        path: "/unsubscribe",
+        description: "Page opened by the unsubscribe link of an email, asks for a confirmation since mail scanners follow links",
+        parameters: [
+            {name: "token", in: "query", required: true, description: "token of the unsubscribe link", schema: {type: "string"}},
+        ],
+        responses: {
+            "200": {description: "confirmation page", contentType: "text/html", schema: {type: "string"}},
+            "400": {description: "the link is not valid or has expired", contentType: "text/html", schema: {type: "string"}},
+        },
+    },
+    {
+        method: "post",
+        path: "/unsubscribe",
+        description: "Unsubscribes the recipient of the link, also called by mail clients through List-Unsubscribe-Post",
+        parameters: [
+            {name: "token", in: "query", required: true, description: "token of the unsubscribe link", schema: {type: "string"}},
+        ],
+        responses: {
+            "200": {description: "the recipient was unsubscribed", contentType: "text/html", schema: {type: "string"}},
+            "400": {description: "the link is not valid or has expired", contentType: "text/html", schema: {type: "string"}},
+        },
+    },
+    {
+        method: "get",
+        path: "/openapi.json",
+        description: "This document",
+        responses: {"200": {description: "OpenAPI document of the api", schema: {type: "object"}}},
+    },
+    {
+        method: "get",
+        path: "/docs",
+        description: "Interactive documentation of the api",
+        responses: {"200": {description: "docs page", contentType: "text/html", schema: {type: "string"}}},
+    },
+    {
+        method: "get",
+        path: "/health",
+        description: "Kept for existing probes, use /live and /ready instead",
+        responses: {"200": {description: "healthy", contentType: "text/html", schema: {type: "string"}}},
+    },
+    {
+        method: "get",
+        path: "/",
+        description: "Welcome message",
+        responses: {"200": {description: "welcome message", contentType: "text/html", schema: {type: "string"}}},
+    },
+]
@@ -0,0 +1,291 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {EventSchemaComponents} from "../validation/eventSchemas";
+
+export function schemaRef(name: string) {
+    return {$ref: "#/components/schemas/" + name}
+}
+
+export function parameterRef(name: string) {
+    return {$ref: "#/components/parameters/" + name}
+}
+
+// the schemas of events are the ones they are validated against
+export const componentSchemas: { [name: string]: any } = {
+    EventLog: {
+        type: "object",
+        properties: {
+            id: {type: "integer"},
+            destination: {type: "string"},
+            source_id: {type: "integer"},
+            pipeline_type: {type: "string"},
+            event_type_id: {type: "integer"},
+            correlation_id: {type: "string"},
+            payload: {type: "object"},
+            is_notification_sent: {type: "boolean"},
+            config_id: {type: "integer", description: "id of the destination config the notification was sent through"},
+            target: {type: "string", description: "recipient email or webhook host the notification was sent to"},
+            response: {type: "string", description: "provider response or error message, truncated to 2000 characters"},
+            status_code: {type: "integer", description: "HTTP status code returned by the provider, when available"},
+            attempt: {type: "integer", description: "delivery attempt number, 1 for the first delivery"},
+            latency_ms: {type: "integer"},
+            event_time: {type: "string", format: "date-time"},
+            created_at: {type: "string", format: "date-time"},
+        },
+    },
+    EventLogPage: {
+        type: "object",
+        properties: {
+            logs: {type: "array", items: schemaRef("EventLog")},
+            total: {type: "integer"},
+            offset: {type: "integer"},
+            size: {type: "integer"},
+        },
+    },
+    DestinationDeliveryStats: {
+        type: "object",
+        properties: {
+            destination: {type: "string"},
+            sent: {type: "integer"},
+            failed: {type: "integer"},
+            total: {type: "integer"},
+        },
+    },
+    NotifyResponse: {
+        type: "object",
+        properties: {message: {type: "string"}, results: {type: "array", items: schemaRef("DeliveryOutcome")}},
+    },
+    DeliveryOutcome: {
+        type: "object",
+        properties: {
+            destination: {type: "string", example: "ses"},
+            configId: {type: "integer"},
+            target: {type: "string", description: "recipient email or webhook host"},
+            success: {type: "boolean"},
+            retrying: {type: "boolean", description: "the failed delivery was queued for retry"},
+            deferred: {
+                type: "boolean",
+                description: "the event was buffered to be sent later, as part of a digest or once the quiet hours or rate limit window of the destination end",
+            },
+            suppressed: {
+                type: "boolean",
+                description: "the event was dropped, during quiet hours or as a copy of an event delivered before",
+            },
+            error: {type: "string"},
+        },
+    },
+    NotificationPreview: {
+        type: "object",
+        properties: {
+            settingId: {type: "integer", description: "notification setting the destination was resolved from"},
+            destination: {type: "string", example: "slack"},
+            configId: {type: "integer"},
+            recipient: {type: "string", description: "recipient email or webhook host"},
+            payload: {description: "rendered template, parsed when it is valid json"},
+            error: {type: "string", description: "reason the template could not be resolved or rendered"},
+        },
+    },
+    DestinationConfig: {
+        type: "object",
+        description: "fields depend on the destination type, secrets (secret_access_key, session_token, auth_password, routing_key, api_key) are write only",
+        properties: {
+            id: {type: "integer", readOnly: true},
+            config_name: {type: "string"},
+            description: {type: "string"},
+            web_hook_url: {type: "string", description: "slack, teams and webhook, an http or https url"},
+            team_id: {type: "integer", description: "slack"},
+            header: {type: "object", additionalProperties: {type: "string"}, writeOnly: true, description: "webhook"},
+            payload: {type: "string", description: "webhook"},
+            active: {type: "boolean", description: "webhook"},
+            region: {type: "string", description: "ses"},
+            access_key: {type: "string", description: "ses"},
+            secret_access_key: {type: "string", writeOnly: true, description: "ses"},
+            session_token: {type: "string", writeOnly: true, description: "ses"},
+            host: {type: "string", description: "smtp"},
+            port: {type: "string", description: "smtp, between 1 and 65535"},
+            auth_type: {type: "string", description: "smtp"},
+            auth_user: {type: "string", description: "smtp"},
+            auth_password: {type: "string", writeOnly: true, description: "smtp"},
+            from_email: {type: "string", format: "email", description: "ses and smtp"},
+            default: {
+                type: "boolean",
+                description: "ses and smtp, set when creating a config or through /configs/{type}/{id}/default",
+            },
+            routing_key: {type: "string", writeOnly: true, description: "pagerduty"},
+            api_key: {type: "string", writeOnly: true, description: "opsgenie"},
+            api_url: {type: "string", description: "pagerduty and opsgenie"},
+        },
+    },
+    TestMessageResult: {
+        type: "object",
+        properties: {
+            destination: {type: "string"},
+            configId: {type: "integer"},
+            success: {type: "boolean"},
+            target: {type: "string", description: "host of the webhook url or the email recipient"},
+            statusCode: {type: "integer", description: "http status returned by the provider, when there is one"},
+            response: {type: "string"},
+            error: {type: "string"},
+        },
+    },
+    HealthReport: {
+        type: "object",
+        properties: {
+            status: {type: "string", enum: ["ok", "fail"]},
+            checks: {
+                type: "object",
+                description: "checks by name, database and nats for liveness, database, nats, sesConfig and smtpConfig for readiness, or only shutdown while the notifier shuts down",
+                additionalProperties: {
+                    type: "object",
+                    properties: {
+                        status: {type: "string", enum: ["ok", "warn", "fail", "disabled"]},
+                        error: {type: "string"},
+                    },
+                    additionalProperties: true,
+                },
+            },
+        },
+    },
+    DeadLetter: {
+        type: "object",
+        properties: {
+            seq: {type: "integer", description: "sequence in the dead letter stream"},
+            subject: {type: "string", description: "subject the event was received on and is replayed to"},
+            error: {type: "string", description: "error of the last delivery"},
+            deliveries: {type: "integer"},
+            deadLetteredAt: {type: "string", format: "date-time"},
+            event: {description: "the event as it was received, or its text when it isn't valid json"},
+        },
+    },
+    LogLevel: {type: "string", enum: ["error", "warn", "info", "http", "verbose", "debug", "silly"]},
+    LogLevels: {
+        type: "object",
+        properties: {
+            level: schemaRef("LogLevel"),
+            modules: {
+                type: "object",
+                description: "levels of modules which don't log at the default level",
+                additionalProperties: {
+                    allOf: [schemaRef("LogLevel")],
+                    nullable: true,
+                },
+                example: {pubsub: "debug"},
+            },
+        },
+    },
+    ErrorResponse: {type: "object", properties: {message: {type: "string"}}},
+    FieldError: {
+        type: "object",
+        properties: {
+            field: {
+                type: "string",
+                description: "path of the field, e.g. payload.material.ciMaterials[0].id",
+                example: "payload.material",
+            },
+            message: {type: "string", example: "is required"},
+        },
+    },
+    ValidationErrorResponse: {
+        type: "object",
+        properties: {message: {type: "string"}, errors: {type: "array", items: schemaRef("FieldError")}},
+    },
+    EventRejection: {
+        type: "object",
+        properties: {
+            id: {type: "integer"},
+            event_type_id: {type: "integer", nullable: true},
+            correlation_id: {type: "string", nullable: true},
+            errors: {type: "array", items: schemaRef("FieldError")},
+            event: {description: "the redacted event, or the text of the message when it isn't valid json"},
+            created_at: {type: "string", format: "date-time"},
+        },
+    },
+    EventRejectionPage: {
+        type: "object",
+        properties: {
+            rejections: {type: "array", items: schemaRef("EventRejection")},
+            total: {type: "integer"},
+            offset: {type: "integer"},
+            size: {type: "integer"},
+        },
+    },
+    UserPreference: {
+        type: "object",
+        properties: {
+            email: {type: "string", format: "email", readOnly: true},
+            muted_event_types: {type: "array", items: {type: "integer"}, description: "event type ids the recipient gets no emails of"},
+            muted_destinations: {type: "array", items: {type: "string", enum: ["ses", "smtp"]}},
+            muted_app_ids: {type: "array", items: {type: "integer"}},
+            muted_env_ids: {type: "array", items: {type: "integer"}},
+            email_format: {type: "string", enum: ["html", "text"], default: "html"},
+            updated_at: {type: "string", format: "date-time", readOnly: true},
+        },
+    },
+    ...EventSchemaComponents,
+}
+
+export const componentParameters: { [name: string]: any } = {
+    ConfigType: {
+        name: "type",
+        in: "path",
+        required: true,
+        schema: {type: "string", enum: ["slack", "teams", "webhook", "ses", "smtp", "pagerduty", "opsgenie"]},
+    },
+    ConfigId: {name: "id", in: "path", required: true, schema: {type: "integer"}},
+    CorrelationId: {name: "correlationId", in: "query", schema: {type: "string"}},
+    PipelineId: {name: "pipelineId", in: "query", schema: {type: "integer"}},
+    PipelineType: {name: "pipelineType", in: "query", schema: {type: "string", example: "CI"}},
+    EventTypeId: {name: "eventTypeId", in: "query", schema: {type: "integer"}},
+    Destination: {name: "destination", in: "query", schema: {type: "string", example: "ses"}},
+    Sent: {
+        name: "sent",
+        in: "query",
+        description: "filter on whether the notification was delivered",
+        schema: {type: "boolean"},
+    },
+    From: {
+        name: "from",
+        in: "query",
+        description: "only logs created at or after this time",
+        schema: {type: "string", format: "date-time"},
+    },
+    To: {
+        name: "to",
+        in: "query",
+        description: "only logs created at or before this time",
+        schema: {type: "string", format: "date-time"},
+    },
+}
+
+export const securitySchemes: { [name: string]: any } = {
+    BearerToken: {
+        type: "http",
+        scheme: "bearer",
+        description: "token of a client of AUTH_CLIENTS, or CONFIG_API_TOKEN for the admin scope",
+    },
+    SignedRequest: {
+        type: "apiKey",
+        in: "header",
+        name: "X-Notifier-Signature",
+        description: "`sha256=<hex>` HMAC of `<timestamp>.<method>.<path with query>.<body>` with the hmacSecret of the client, sent along with X-Notifier-Client naming the client and X-Notifier-Timestamp holding the unix timestamp. Requests outside of AUTH_HMAC_TOLERANCE and reused signatures are rejected",
+    },
+    ClientCertificate: {
+        type: "http",
+        scheme: "mutual-tls",
+        description: "client certificate signed by TLS_CLIENT_CA_FILE whose subject has the attributes of the certSubject of a client, only available when the api is served over https",
+    },
+}
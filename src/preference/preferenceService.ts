@@ -0,0 +1,274 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {createHmac, timingSafeEqual} from "crypto";
+import {UserPreferenceRepository} from "../repository/userPreferenceRepository";
+import {UserPreference} from "../entities/userPreference";
+import {CustomError} from "../entities/events";
+import {Event} from "../notification/service/notificationService";
+import {EVENT_TYPE} from "../common/types";
+import {EMAIL_DESTINATIONS, EMAIL_FORMAT, UNSUBSCRIBE_SCOPE, UNSUBSCRIBE_TOKEN_VERSION, unsubscribeBaseUrl, unsubscribeLinkTtl, unsubscribeSecret} from "./utils";
+
+export interface UnsubscribeToken {
+    email: string
+    scope: UNSUBSCRIBE_SCOPE
+    value: number
+    // shown on the unsubscribe page, e.g. the name of the app
+    label: string
+}
+
+// preferences of email recipients, consulted by the ses and smtp handlers before sending, and the signed
+// unsubscribe links added to their emails
+export class PreferenceService {
+    private userPreferenceRepository: UserPreferenceRepository
+    private logger: any
+
+    constructor(userPreferenceRepository: UserPreferenceRepository, logger: any) {
+        this.userPreferenceRepository = userPreferenceRepository
+        this.logger = logger
+    }
+
+    // recipients without preferences get every email as html
+    public async getPreference(email: string): Promise<UserPreference> {
+        const key = normalizeEmail(email)
+        const preference = await this.userPreferenceRepository.findByEmail(key)
+        if (preference) {
+            return preference
+        }
+        const defaults = new UserPreference()
+        defaults.email = key
+        defaults.muted_event_types = []
+        defaults.muted_destinations = []
+        defaults.muted_app_ids = []
+        defaults.muted_env_ids = []
+        defaults.email_format = EMAIL_FORMAT.Html
+        return defaults
+    }
+
+    // fields left out keep their value
+    public async updatePreference(email: string, body: any): Promise<UserPreference> {
+        if (!email || !email.includes("@")) {
+            throw new CustomError("email is not valid", 400)
+        }
+        if (!body || typeof body !== "object") {
+            throw new CustomError("preference must be an object", 400)
+        }
+        const eventTypes = Object.values(EVENT_TYPE).filter(value => typeof value === "number")
+        const preference = await this.getPreference(email)
+        preference.muted_event_types = this.parseList(body.muted_event_types, "muted_event_types", value => eventTypes.includes(value)) ?? preference.muted_event_types
+        preference.muted_destinations = this.parseList(body.muted_destinations, "muted_destinations", value => EMAIL_DESTINATIONS.includes(value)) ?? preference.muted_destinations
+        preference.muted_app_ids = this.parseList(body.muted_app_ids, "muted_app_ids", Number.isInteger) ?? preference.muted_app_ids
+        preference.muted_env_ids = this.parseList(body.muted_env_ids, "muted_env_ids", Number.isInteger) ?? preference.muted_env_ids
+        if (body.email_format !== undefined) {
+            if (!(Object.values(EMAIL_FORMAT) as string[]).includes(body.email_format)) {
+                throw new CustomError("email_format must be one of " + Object.values(EMAIL_FORMAT).join(", "), 400)
+            }
+            preference.email_format = body.email_format
+        }
+        preference.updated_at = new Date()
+        return this.userPreferenceRepository.save(preference)
+    }
+
+    // why the recipient doesn't get the event through the destination, undefined when they do
+    public async optOutReason(email: string, event: Event, destination: string): Promise<string> {
+        const preference = await this.findPreference(email)
+        if (!preference) {
+            return undefined
+        }
+        if (preference.muted_destinations.includes(destination)) {
+            return "recipient opted out of " + destination + " emails"
+        }
+        if (preference.muted_event_types.includes(event.eventTypeId)) {
+            return "recipient opted out of " + eventTypeName(event.eventTypeId) + " emails"
+        }
+        if (event.appId && preference.muted_app_ids.includes(event.appId)) {
+            return "recipient opted out of emails about app " + event.appId
+        }
+        if (event.envId && preference.muted_env_ids.includes(event.envId)) {
+            return "recipient opted out of emails about environment " + event.envId
+        }
+        return undefined
+    }
+
+    // template variables, unsubscribeLink stops emails about the app of the event or, without an app, of its event type
+    public unsubscribeLinks(email: string, event: Event): { [name: string]: string } {
+        const tokens = this.unsubscribeTokens(email, event)
+        const links: { [name: string]: string } = {}
+        if (tokens.app) {
+            links.unsubscribeAppLink = unsubscribeLink(tokens.app)
+        }
+        if (tokens.eventType) {
+            links.unsubscribeEventTypeLink = unsubscribeLink(tokens.eventType)
+        }
+        const oneClick = tokens.app ?? tokens.eventType
+        if (oneClick) {
+            links.unsubscribeLink = unsubscribeLink(oneClick)
+        }
+        return links
+    }
+
+    // applies the email format of the recipient, and adds unsubscribe headers and links to emails whose template doesn't have them
+    public async prepareEmail(email: any, event: Event): Promise<any> {
+        const recipient: string = event.payload?.toEmail
+        if (!recipient || !email || typeof email !== "object") {
+            return email
+        }
+        const tokens = this.unsubscribeTokens(recipient, event)
+        const oneClick = tokens.app ?? tokens.eventType
+        if (oneClick) {
+            email.headers = {...email.headers, "List-Unsubscribe": "<" + unsubscribeLink(oneClick) + ">", "List-Unsubscribe-Post": "List-Unsubscribe=One-Click"}
+            // templates escape the link, its token is left as it is
+            if (typeof email.html === "string" && !email.html.includes(oneClick)) {
+                email.html += this.unsubscribeFooter(recipient, event)
+            }
+        }
+        const preference = await this.findPreference(recipient)
+        if (preference?.email_format == EMAIL_FORMAT.Text && typeof email.html === "string") {
+            email.text = email.text || htmlToText(email.html)
+            delete email.html
+        }
+        return email
+    }
+
+    public parseUnsubscribeToken(token: any): UnsubscribeToken {
+        const [payload, signature] = String(token ?? "").split(".")
+        if (!unsubscribeSecret || !payload || !signature || !safeEqual(signature, sign(payload))) {
+            throw new CustomError("the unsubscribe link is not valid", 400)
+        }
+        const [version, expiresAt, email, scope, value, label] = JSON.parse(fromBase64Url(payload))
+        if (version !== UNSUBSCRIBE_TOKEN_VERSION || !(expiresAt * 1000 > Date.now())) {
+            throw new CustomError("the unsubscribe link has expired", 400)
+        }
+        return {email: email, scope: scope, value: value, label: label}
+    }
+
+    public describeUnsubscribe(token: UnsubscribeToken): string {
+        return token.scope == UNSUBSCRIBE_SCOPE.App ? "emails about " + token.label : token.label + " emails"
+    }
+
+    public async unsubscribe(token: UnsubscribeToken): Promise<UserPreference> {
+        const preference = await this.getPreference(token.email)
+        const muted = token.scope == UNSUBSCRIBE_SCOPE.App ? preference.muted_app_ids : preference.muted_event_types
+        if (!muted.includes(token.value)) {
+            muted.push(token.value)
+        }
+        preference.updated_at = new Date()
+        this.logger.info("unsubscribed recipient from " + this.describeUnsubscribe(token))
+        return this.userPreferenceRepository.save(preference)
+    }
+
+    private unsubscribeTokens(email: string, event: Event): { app?: string, eventType?: string } {
+        if (!unsubscribeSecret || !unsubscribeBaseUrl || !email) {
+            return {}
+        }
+        const key = normalizeEmail(email)
+        const expiresAt = Math.floor(Date.now() / 1000) + unsubscribeLinkTtl
+        const tokens: { app?: string, eventType?: string } = {}
+        if (event.appId) {
+            tokens.app = createToken([UNSUBSCRIBE_TOKEN_VERSION, expiresAt, key, UNSUBSCRIBE_SCOPE.App, event.appId, event.payload?.appName || "app " + event.appId])
+        }
+        if (event.eventTypeId) {
+            tokens.eventType = createToken([UNSUBSCRIBE_TOKEN_VERSION, expiresAt, key, UNSUBSCRIBE_SCOPE.EventType, event.eventTypeId, eventTypeName(event.eventTypeId)])
+        }
+        return tokens
+    }
+
+    // emails are sent as if the recipient had no preferences when they can't be read, rather than not at all
+    private async findPreference(email: string): Promise<UserPreference> {
+        try {
+            return await this.getPreference(email)
+        } catch (error) {
+            this.logger.error("error occurred while reading the preferences of a recipient, sending without them", error)
+            return undefined
+        }
+    }
+
+    private unsubscribeFooter(recipient: string, event: Event): string {
+        const links = this.unsubscribeLinks(recipient, event)
+        const unsubscribe = []
+        if (links.unsubscribeAppLink) {
+            unsubscribe.push('<a href="' + links.unsubscribeAppLink + '">Unsubscribe from ' + escapeHtml(event.payload?.appName || "this app") + '</a>')
+        }
+        unsubscribe.push('<a href="' + links.unsubscribeEventTypeLink + '">Unsubscribe from ' + eventTypeName(event.eventTypeId) + ' emails</a>')
+        return '<p style="font-size: 12px; color: #767d84;">This email was sent to ' + escapeHtml(recipient) + '. ' + unsubscribe.join(" | ") + '</p>'
+    }
+
+    private parseList(value: any, name: string, valid: (value: any) => boolean): any[] {
+        if (value === undefined) {
+            return undefined
+        }
+        if (!Array.isArray(value) || !value.every(valid)) {
+            throw new CustomError(name + " has values which are not valid", 400)
+        }
+        return [...new Set(value)]
+    }
+}
+
+// the page unsubscribe links open, a GET only asks for a confirmation since mail scanners follow links
+export function unsubscribePage(message: string, token?: string): string {
+    const form = token ? '<form method="post" action="?token=' + encodeURIComponent(token) + '"><button type="submit">Unsubscribe</button></form>' : ''
+    return '<!DOCTYPE html>\n<html lang="en">\n<head><meta charset="UTF-8"><title>Unsubscribe</title></head>\n<body>\n<p>' + escapeHtml(message) + '</p>\n' + form + '\n</body>\n</html>\n'
+}
+
+function normalizeEmail(email: string): string {
+    return String(email).trim().toLowerCase()
+}
+
+// e.g. ImagePromotion becomes image promotion
+function eventTypeName(eventTypeId: number): string {
+    return (EVENT_TYPE[eventTypeId] ?? "notification").replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase()
+}
+
+function unsubscribeLink(token: string): string {
+    return unsubscribeBaseUrl + "/unsubscribe?token=" + token
+}
+
+function createToken(payload: any[]): string {
+    const encoded = toBase64Url(Buffer.from(JSON.stringify(payload)))
+    return encoded + "." + sign(encoded)
+}
+
+function sign(payload: string): string {
+    return toBase64Url(createHmac("sha256", unsubscribeSecret).update(payload).digest())
+}
+
+function safeEqual(value: string, expected: string): boolean {
+    return value.length == expected.length && timingSafeEqual(Buffer.from(value), Buffer.from(expected))
+}
+
+function toBase64Url(value: Buffer): string {
+    return value.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string): string {
+    return Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64").toString()
+}
+
+function escapeHtml(text: string): string {
+    return String(text).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;")
+}
+
+function htmlToText(html: string): string {
+    return html
+        .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+        .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, "$2 ($1)")
+        .replace(/<br\s*\/?>|<\/?(p|div|tr|h\d|li)(\s[^>]*)?>/gi, "\n")
+        .replace(/<[^>]+>/g, "")
+        .replace(/&nbsp;/g, " ").replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, "&")
+        .replace(/[ \t]+/g, " ")
+        .replace(/\n\s*\n\s*/g, "\n\n")
+        .trim()
+}
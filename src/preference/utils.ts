@@ -0,0 +1,28 @@
+import * as process from "process";
+import {SES_DESTINATION, SMTP_DESTINATION} from "../retry/utils";
+
+export enum EMAIL_FORMAT {
+    Html = "html",
+    Text = "text",
+}
+
+// the destinations preferences apply to, recipients of the other destinations are channels rather than people
+export const EMAIL_DESTINATIONS = [SES_DESTINATION, SMTP_DESTINATION]
+
+// unsubscribe links are only added to emails when both are set, the links are signed with the secret
+export const unsubscribeSecret: string = process.env.UNSUBSCRIBE_SECRET
+// url the notifier is reached at from the mail clients of recipients, e.g. https://devtron.example.com/notifier
+export const unsubscribeBaseUrl: string = (process.env.UNSUBSCRIBE_BASE_URL || "").replace(/\/+$/, "")
+
+const linkTtl: number = parseInt(process.env.UNSUBSCRIBE_LINK_TTL)
+// seconds an unsubscribe link stays valid after the email was sent
+export const unsubscribeLinkTtl: number = !isNaN(linkTtl) ? linkTtl : 90 * 24 * 60 * 60
+
+// signed along with the link, links of another version are no longer accepted once the format of their token changes
+export const UNSUBSCRIBE_TOKEN_VERSION = 1
+
+// what a link unsubscribes the recipient from
+export enum UNSUBSCRIBE_SCOPE {
+    App = "app",
+    EventType = "eventType",
+}
@@ -0,0 +1,174 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {headers, JetStreamClient, JetStreamManager, JsMsg, MsgHdrs, NatsError, StoredMsg, StringCodec} from "nats";
+import {
+    DEAD_LETTER_HEADER,
+    DEAD_LETTER_STREAM,
+    deadLetterStreamMaxAge,
+    deadLetterSubject,
+    messageNotFoundErrorCode,
+    streamNotFoundErrorCode,
+} from "./utils";
+import {CustomError} from "../entities/events";
+import {redactText, redactValue} from "../redaction/utils";
+
+const defaultPageSize = 20
+const maxPageSize = 100
+
+export interface DeadLetter {
+    seq: number
+    subject: string
+    error: string
+    deliveries: number
+    deadLetteredAt: string
+    // the event as it was received, or its text when it isn't valid json
+    event: any
+}
+
+// keeps messages which could not be processed in a stream of their own, from where they can be replayed to their subject
+export class DeadLetterService {
+    private js: JetStreamClient
+    private jsm: JetStreamManager
+    private logger: any
+
+    constructor(js: JetStreamClient, jsm: JetStreamManager, logger: any) {
+        this.js = js
+        this.jsm = jsm
+        this.logger = logger
+    }
+
+    public async addOrUpdateStream() {
+        try {
+            const info = await this.jsm.streams.info(DEAD_LETTER_STREAM)
+            if (info.config.max_age != deadLetterStreamMaxAge || !info.config.subjects.includes(deadLetterSubject)) {
+                await this.jsm.streams.update(DEAD_LETTER_STREAM, {...info.config, subjects: [deadLetterSubject], max_age: deadLetterStreamMaxAge})
+                this.logger.info("dead letter stream updated successfully")
+            }
+        } catch (err) {
+            if (!(err instanceof NatsError) || err.api_error?.err_code !== streamNotFoundErrorCode) {
+                throw err
+            }
+            await this.jsm.streams.add({name: DEAD_LETTER_STREAM, subjects: [deadLetterSubject], max_age: deadLetterStreamMaxAge})
+            this.logger.info("dead letter stream added successfully")
+        }
+    }
+
+    // the message is only terminated once it was stored, a failed publish leaves it to be delivered again
+    public async deadLetter(msg: JsMsg, error: any) {
+        const deadLetterHeaders = copyHeaders(msg.headers)
+        deadLetterHeaders.set(DEAD_LETTER_HEADER.Subject, msg.subject)
+        // header values can't span lines
+        deadLetterHeaders.set(DEAD_LETTER_HEADER.Error, redactText(error?.message ?? String(error)).replace(/[\r\n]+/g, " "))
+        deadLetterHeaders.set(DEAD_LETTER_HEADER.Deliveries, String(msg.info.redeliveryCount))
+        deadLetterHeaders.set(DEAD_LETTER_HEADER.DeadLetteredAt, new Date().toISOString())
+        await this.js.publish(deadLetterSubject, msg.data, {headers: deadLetterHeaders})
+        msg.term()
+        this.logger.error("moved message " + msg.info.streamSequence + " of " + msg.subject + " to " + deadLetterSubject + " after " + msg.info.redeliveryCount + " deliveries")
+    }
+
+    // newest first, before takes the sequence of the last dead letter of the previous page
+    public async getDeadLetters(query: any): Promise<DeadLetter[]> {
+        const size = this.parseInteger(query.size, "size") ?? defaultPageSize
+        const before = this.parseInteger(query.before, "before")
+        if (size < 1 || size > maxPageSize) {
+            throw new CustomError("size must be between 1 and " + maxPageSize, 400)
+        }
+        const state = (await this.jsm.streams.info(DEAD_LETTER_STREAM)).state
+        const deadLetters: DeadLetter[] = []
+        for (let seq = Math.min(before ? before - 1 : state.last_seq, state.last_seq); seq >= state.first_seq && deadLetters.length < size; seq--) {
+            const msg = await this.getMessage(seq)
+            if (msg) {
+                deadLetters.push(this.toDeadLetter(msg))
+            }
+        }
+        return deadLetters
+    }
+
+    // publishes the message to the subject it was received on again and removes it from the dead letters
+    public async replay(value: any): Promise<DeadLetter> {
+        const seq = this.parseInteger(value, "seq")
+        const msg = await this.getMessage(seq)
+        if (!msg) {
+            throw new CustomError("no dead letter with sequence " + seq, 404)
+        }
+        const deadLetter = this.toDeadLetter(msg)
+        if (!deadLetter.subject) {
+            throw new CustomError("dead letter " + seq + " doesn't name the subject it was received on", 409)
+        }
+        const replayHeaders = copyHeaders(msg.header, name => !(Object.values(DEAD_LETTER_HEADER) as string[]).includes(name))
+        await this.js.publish(deadLetter.subject, msg.data, {headers: replayHeaders})
+        await this.jsm.streams.deleteMessage(DEAD_LETTER_STREAM, seq)
+        this.logger.info("replayed dead letter " + seq + " to " + deadLetter.subject)
+        return deadLetter
+    }
+
+    private async getMessage(seq: number): Promise<StoredMsg> {
+        try {
+            return await this.jsm.streams.getMessage(DEAD_LETTER_STREAM, {seq: seq})
+        } catch (err) {
+            // replayed dead letters leave gaps in the sequence
+            if (err instanceof NatsError && err.api_error?.err_code === messageNotFoundErrorCode) {
+                return undefined
+            }
+            throw err
+        }
+    }
+
+    // events may hold secrets, they are only shown redacted
+    private toDeadLetter(msg: StoredMsg): DeadLetter {
+        const text = StringCodec().decode(msg.data)
+        let event: any
+        try {
+            event = JSON.parse(text)
+        } catch (err) {
+            event = text
+        }
+        return {
+            seq: msg.seq,
+            subject: msg.header?.get(DEAD_LETTER_HEADER.Subject),
+            error: msg.header?.get(DEAD_LETTER_HEADER.Error),
+            deliveries: parseInt(msg.header?.get(DEAD_LETTER_HEADER.Deliveries)) || undefined,
+            deadLetteredAt: msg.header?.get(DEAD_LETTER_HEADER.DeadLetteredAt),
+            event: redactValue(event),
+        }
+    }
+
+    private parseInteger(value: any, name: string): number {
+        if (value === undefined || value === "") {
+            return undefined
+        }
+        const parsed = Number(value)
+        if (!Number.isInteger(parsed)) {
+            throw new CustomError(name + " must be an integer", 400)
+        }
+        return parsed
+    }
+}
+
+// the original headers are kept, e.g. the trace context of the publisher
+function copyHeaders(source: MsgHdrs, include: (name: string) => boolean = () => true): MsgHdrs {
+    const copy = headers()
+    for (const name of source?.keys() ?? []) {
+        if (include(name)) {
+            for (const value of source.values(name)) {
+                copy.append(name, value)
+            }
+        }
+    }
+    return copy
+}
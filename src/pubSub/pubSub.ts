@@ -1,6 +1,6 @@
 import {createInbox, JetStreamClient, NatsConnection, NatsError, StreamInfo, StringCodec,
     AckPolicy,
-    DeliverPolicy} from "nats";
+    DeliverPolicy, JetStreamSubscription, JsMsg, MsgHdrs} from "nats";
 import {
     GetStreamSubjects,
     NatsConsumerConfig,
@@ -9,17 +9,31 @@ import {
     NatsStreamWiseConfigMapping,
     NatsTopic,
     NatsTopicMapping, numberOfRetries,
+    SUBSCRIPTION_STATE, consumerNotFoundErrorCode, streamNotFoundErrorCode, maxMessageDeliveries, messageNakDelay,
 
 } from "./utils";
 import {ConsumerOptsBuilderImpl} from "nats/lib/nats-base-client/jsconsumeropts";
 
 import {ConsumerInfo, ConsumerUpdateConfig, JetStreamManager, StreamConfig} from "nats/lib/nats-base-client/types";
+import {natsConsumerMessages, natsRedeliveries, registerNatsConsumerCollector} from "../common/metrics";
+import {SpanKind} from "@opentelemetry/api";
+import {extractContext, withSpan} from "../tracing/tracing";
+import {DeadLetterService} from "./deadLetterService";
+import {CustomError} from "../entities/events";
+
+
+export interface Subscription {
+    topic: string
+    streamName: string
+    consumerName: string
+    state: SUBSCRIPTION_STATE
+}
 
-const consumerNotFoundErrorCode = 10014;
-const streamNotFoundErrorCode = 10059;
+// messages are acked once the callback resolves, callbacks reject with a CustomError below 500 for messages which can't be processed at all
+export type MessageCallback = (msg: string) => Promise<void> | void
 
 export interface PubSubService {
-    Subscribe(topic: string, callback: (msg: string) => void): void
+    Subscribe(topic: string, callback: MessageCallback): void
 }
 
 
@@ -28,18 +42,26 @@ export class PubSubServiceImpl implements PubSubService {
     private js: JetStreamClient
     private jsm: JetStreamManager
     private logger: any
+    // by topic, the backlog of the consumers is reported on every metrics scrape
+    private subscriptions = new Map<string, Subscription>()
+    private natsSubscriptions: JetStreamSubscription[] = []
+    // messages whose callback didn't finish yet, they are acked or dead lettered once it does
+    private inFlight = new Set<Promise<void>>()
+    private deadLetterService: DeadLetterService
 
 
-    constructor(conn: NatsConnection, jsm: JetStreamManager, logger: any) {
+    constructor(conn: NatsConnection, jsm: JetStreamManager, deadLetterService: DeadLetterService, logger: any) {
         this.nc = conn
         this.js = this.nc.jetstream()
         this.jsm = jsm
+        this.deadLetterService = deadLetterService
         this.logger = logger
+        registerNatsConsumerCollector(() => this.collectConsumerMetrics())
     }
 
     // ********** Subscribe function provided by consumer
 
-    async Subscribe(topic: string, callback: (msg: string) => void) {
+    async Subscribe(topic: string, callback: MessageCallback) {
         const natsTopicConfig: NatsTopic = NatsTopicMapping.get(topic)
         const streamName = natsTopicConfig.streamName
         const consumerName = natsTopicConfig.consumerName
@@ -47,6 +69,8 @@ export class PubSubServiceImpl implements PubSubService {
 
         const queueName = natsTopicConfig.queueName
         const consumerConfiguration = NatsConsumerWiseConfigMapping.get(consumerName)
+        const subscription: Subscription = {topic: topic, streamName: streamName, consumerName: consumerName, state: SUBSCRIPTION_STATE.Subscribing}
+        this.subscriptions.set(topic, subscription)
         const inbox = createInbox()
         const consumerOptsDetails = new ConsumerOptsBuilderImpl({
             name: consumerName,
@@ -57,15 +81,15 @@ export class PubSubServiceImpl implements PubSubService {
             deliver_group:queueName,
             ack_policy:AckPolicy.Explicit,
             deliver_policy:DeliverPolicy.Last,
-            max_ack_pending:1,
+            max_ack_pending:consumerConfiguration.max_ack_pending,
         }).bindStream(streamName).callback((err, msg) => {
-            try {
-                const msgString = getJsonString(msg.data)
-                callback(msgString)
-            } catch (err) {
-                this.logger.error("msg: "+msg.data+" err: "+err);
+            if (!msg) {
+                this.logger.error("error occurred while receiving messages of " + topic, err)
+                return
             }
-            msg.ack();
+            const processing = this.processMessage(topic, msg, callback, consumerConfiguration.ack_wait / 1e6)
+                .finally(() => this.inFlight.delete(processing))
+            this.inFlight.add(processing)
         }).queue(queueName)
 
         const streamConfiguration = NatsStreamWiseConfigMapping.get(streamName)
@@ -78,6 +102,7 @@ export class PubSubServiceImpl implements PubSubService {
             try {
                 // *******Creating/Updating stream
                 await this.addOrUpdateStream(streamName, streamConfigParsed)
+                await this.deadLetterService.addOrUpdateStream()
 
                 //******* Getting consumer configuration
 
@@ -99,7 +124,7 @@ export class PubSubServiceImpl implements PubSubService {
                             num_replicas: 0, // by setting this to zero,it will inherit replicas from stream
                             ack_policy:AckPolicy.Explicit,
                             deliver_policy:DeliverPolicy.Last,
-                            max_ack_pending:1,
+                            max_ack_pending:consumerConfiguration.max_ack_pending,
                         })
                         this.logger.info("consumer added successfully")
                     } catch (err) {
@@ -108,14 +133,16 @@ export class PubSubServiceImpl implements PubSubService {
                 }
 
                 // ****** NATS Subscribe function
-                await this.js.subscribe(topic, consumerOptsDetails)
+                this.natsSubscriptions.push(await this.js.subscribe(topic, consumerOptsDetails))
                 this.logger.info("subscribed to nats successfully")
+                subscription.state = SUBSCRIPTION_STATE.Subscribed
 
                 break;
             } catch (err) {
                 this.logger.error("unsuccessful in subscribing to NATS", err);
                 attempts++;
                 if (attempts === maxAttempts) {
+                    subscription.state = SUBSCRIPTION_STATE.Failed
                     this.logger.error("Maximum restart attempts reached. Exiting loop.");
                 } else {
                     const delayInMilliseconds = 5000; // 5 seconds
@@ -126,6 +153,63 @@ export class PubSubServiceImpl implements PubSubService {
 
     }
 
+    // stops the delivery of new messages and waits until the ones which were already received are acked or dead lettered
+    public async drainSubscriptions() {
+        await Promise.all(this.natsSubscriptions.map(subscription => subscription.drain()))
+        await Promise.all(this.inFlight)
+    }
+
+    // acks the message once the callback is done with it, failed messages are delivered again after a delay
+    // until MAX_DELIVERIES, messages which can't be processed at all are dead lettered right away
+    private async processMessage(topic: string, msg: JsMsg, callback: MessageCallback, ackWait: number) {
+        if (msg.redelivered) {
+            natsRedeliveries.inc({topic: topic})
+        }
+        // the ack deadline is pushed out while deliveries are still running
+        const progress = setInterval(() => msg.working(), Math.max(ackWait / 2, 1000))
+        try {
+            const msgString = getJsonString(msg.data)
+            // the handling continues the trace of the publisher when its context came with the message headers
+            await withSpan("receive " + topic, {"messaging.system": "nats", "messaging.destination.name": topic}, async () => callback(msgString),
+                SpanKind.CONSUMER, extractContext(getHeaders(msg.headers)))
+            msg.ack()
+        } catch (err: any) {
+            // decoded so that the log redaction sees the text of the message
+            this.logger.error("msg: "+StringCodec().decode(msg.data)+" err: "+err);
+            const retryable = !(err instanceof CustomError && err.statusCode < 500)
+            if (retryable && msg.info.redeliveryCount < maxMessageDeliveries) {
+                msg.nak(messageNakDelay * 1000 * msg.info.redeliveryCount)
+                return
+            }
+            await this.deadLetterService.deadLetter(msg, err).catch(deadLetterErr => {
+                this.logger.error("error occurred while dead lettering message of " + topic, deadLetterErr)
+                msg.nak(messageNakDelay * 1000)
+            })
+        } finally {
+            clearInterval(progress)
+        }
+    }
+
+    public getSubscriptions(): Subscription[] {
+        return [...this.subscriptions.values()]
+    }
+
+    public getConsumerInfo(subscription: Subscription): Promise<ConsumerInfo> {
+        return this.jsm.consumers.info(subscription.streamName, subscription.consumerName)
+    }
+
+    private async collectConsumerMetrics() {
+        for (const {streamName, consumerName} of this.getSubscriptions().filter(s => s.state == SUBSCRIPTION_STATE.Subscribed)) {
+            try {
+                const info = await this.jsm.consumers.info(streamName, consumerName)
+                natsConsumerMessages.set({stream: streamName, consumer: consumerName, state: "pending"}, info.num_pending)
+                natsConsumerMessages.set({stream: streamName, consumer: consumerName, state: "ack_pending"}, info.num_ack_pending)
+            } catch (err) {
+                this.logger.error("error occurred while reading consumer info of " + consumerName, err)
+            }
+        }
+    }
+
     async updateConsumer(streamName: string, consumerName: string, consumerConfiguration: NatsConsumerConfig): Promise<boolean> {
         let updatesDetected: boolean = false
         try {
@@ -137,6 +221,11 @@ export class PubSubServiceImpl implements PubSubService {
                     updatesDetected = true
                 }
 
+                if (info.config.max_ack_pending != consumerConfiguration.max_ack_pending) {
+                    info.config.max_ack_pending = consumerConfiguration.max_ack_pending
+                    updatesDetected = true
+                }
+
                 const streamInfo: StreamInfo | null = await this.jsm.streams.info(streamName)
                 if (streamInfo){
                     if (info.config.num_replicas != streamInfo.config.num_replicas){
@@ -221,6 +310,14 @@ function getJsonString(bytes: Uint8Array) {
 
 }
 
+function getHeaders(headers: MsgHdrs): { [name: string]: string } {
+    const values = {}
+    for (const name of headers?.keys() ?? []) {
+        values[name] = headers.get(name)
+    }
+    return values
+}
+
 function getStreamConfig(streamConfig: NatsStreamConfig, streamName: string) {
 
     return {
@@ -4,12 +4,45 @@ export const NOTIFICATION_EVENT_TOPIC: string = "NOTIFICATION_EVENT_TOPIC"
 export const NOTIFICATION_EVENT_GROUP: string = "NOTIFICATION_EVENT_GROUP"
 export const NOTIFICATION_EVENT_DURABLE: string = "NOTIFICATION_EVENT_DURABLE"
 export const ORCHESTRATOR_STREAM: string = "ORCHESTRATOR"
+
+// error codes of the JetStream api
+export const consumerNotFoundErrorCode = 10014;
+export const streamNotFoundErrorCode = 10059;
+export const messageNotFoundErrorCode = 10037;
 const ackWait: number = parseInt(process.env.ACK_WAIT)
+const maxAckPending: number = parseInt(process.env.MAX_ACK_PENDING)
 const maxAge: number = parseInt(process.env.MAX_AGE)
 const numberOfRetriesFetched: number = parseInt(process.env.NO_OF_RETRIES)||5
 // Ensure the value is not greater than 5
 export const numberOfRetries = Math.min(numberOfRetriesFetched, 5);
 
+// events which could not be processed are moved to the dead letter subject, kept in a stream of its own
+export const DEAD_LETTER_STREAM: string = "NOTIFIER_DEAD_LETTER"
+export const deadLetterSubject: string = process.env.DEAD_LETTER_SUBJECT || "NOTIFICATION_EVENT_DEAD_LETTER"
+const deadLetterMaxAge: number = parseInt(process.env.DEAD_LETTER_MAX_AGE)
+// nanoseconds dead lettered events are kept, 7 days by default
+export const deadLetterStreamMaxAge: number = (!isNaN(deadLetterMaxAge) && deadLetterMaxAge > 0 ? deadLetterMaxAge : 7 * 24 * 3600) * 1e9
+const maxDeliveries: number = parseInt(process.env.MAX_DELIVERIES)
+const nakDelay: number = parseInt(process.env.NAK_DELAY)
+// deliveries of a message, the first one included, before it is dead lettered
+export const maxMessageDeliveries: number = !isNaN(maxDeliveries) && maxDeliveries > 0 ? maxDeliveries : 5
+// seconds before a message which failed is delivered again, multiplied by the number of deliveries so far
+export const messageNakDelay: number = !isNaN(nakDelay) && nakDelay >= 0 ? nakDelay : 10
+
+// headers added to dead lettered messages, next to the headers of the original message
+export enum DEAD_LETTER_HEADER {
+    Subject = "Notifier-Subject",
+    Error = "Notifier-Error",
+    Deliveries = "Notifier-Deliveries",
+    DeadLetteredAt = "Notifier-Dead-Lettered-At",
+}
+
+export enum SUBSCRIPTION_STATE {
+    Subscribing = "SUBSCRIBING",
+    Subscribed = "SUBSCRIBED",
+    Failed = "FAILED",      // every attempt failed, messages of the topic are no longer consumed
+}
+
 export interface NatsTopic {
     topicName: string
     streamName: string
@@ -19,6 +52,8 @@ export interface NatsTopic {
 
 export interface NatsConsumerConfig {
     ack_wait: number
+    // messages handed out at once, a message waiting to be delivered again doesn't hold back the others
+    max_ack_pending: number
 }
 
 export interface NatsStreamConfig {
@@ -40,6 +75,7 @@ export const NatsConsumerWiseConfigMapping = new Map<string, NatsConsumerConfig>
     [[NOTIFICATION_EVENT_DURABLE, {
 
         ack_wait: !isNaN(ackWait) ? ackWait * 1e9 : 30 * 1e9,
+        max_ack_pending: !isNaN(maxAckPending) && maxAckPending > 0 ? maxAckPending : 20,
 
     }]
     ]);
@@ -0,0 +1,120 @@
+import * as process from "process";
+import * as winston from "winston";
+
+export const redactedValue = "[REDACTED]"
+
+const defaultKeys = ["password", "passwd", "secret", "token", "authorization", "apikey", "routingkey", "accesskey", "cookie", "header", "headers"]
+
+const defaultPatterns = [
+    "(?:Bearer|Basic)\\s+[A-Za-z0-9\\-._~+/]+=*",   // authorization header values
+    "https://hooks\\.slack\\.com/services/[A-Za-z0-9/]+",
+    "https://[\\w.-]+\\.webhook\\.office\\.com/[^\\s\"']+",
+    "AKIA[0-9A-Z]{16}",                             // aws access key ids
+    "enc:v1:[A-Za-z0-9+/=:]+",                      // secrets encrypted at rest
+    "[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}",
+]
+
+// names are compared without case, dashes and underscores, so "apikey" covers api_key, x-api-key and apiKey
+function normalize(key: string): string {
+    return key.toLowerCase().replace(/[-_]/g, "")
+}
+
+function readList(name: string, separator: RegExp, defaults: string[]): string[] {
+    const value = process.env[name]
+    if (value === undefined) {
+        return defaults
+    }
+    return value.split(separator).map(item => item.trim()).filter(item => !!item)
+}
+
+const enabled: boolean = process.env.REDACTION_ENABLED !== "false"
+// values of keys whose name contains one of these are redacted, read from REDACT_KEYS, comma separated
+const keys: string[] = readList("REDACT_KEYS", /,/, defaultKeys).map(normalize)
+// matches of these regular expressions are redacted in every string, read from REDACT_PATTERNS, one per line
+const patterns: RegExp[] = readList("REDACT_PATTERNS", /\r?\n/, defaultPatterns).map(pattern => new RegExp(pattern, "g"))
+// key value pairs inside of text, e.g. json bodies or query strings which are logged as a whole.
+// nested objects are not matched as a value, their own pairs are
+const pairPattern = /("?)([\w-]+)\1(\s*[:=]\s*)("(?:[^"\\]|\\.)*"|[^\s,;&?{}\[\]"]+)/
+
+function isSecretKey(key: string): boolean {
+    const name = normalize(key)
+    return keys.some(secretKey => name.includes(secretKey))
+}
+
+export function redactText(text: string): string {
+    if (!enabled || !text) {
+        return text
+    }
+    let redacted = redactPairs(text)
+    for (const pattern of patterns) {
+        redacted = redacted.replace(pattern, redactedValue)
+    }
+    return redacted
+}
+
+// values of other keys are scanned as well, they may hold pairs themselves, e.g. urls with a query or error messages
+function redactPairs(text: string): string {
+    const pattern = new RegExp(pairPattern.source, "g")
+    let redacted = ""
+    let copied = 0
+    let match: RegExpExecArray
+    while ((match = pattern.exec(text)) !== null) {
+        const [pair, quote, key, separator, value] = match
+        const valueStart = match.index + pair.length - value.length
+        if (!isSecretKey(key)) {
+            pattern.lastIndex = valueStart
+            continue
+        }
+        redacted += text.substring(copied, valueStart) + (value.startsWith("\"") ? "\"" + redactedValue + "\"" : redactedValue)
+        copied = match.index + pair.length
+    }
+    return redacted + text.substring(copied)
+}
+
+// returns a redacted copy, the value itself is left as it is
+export function redactValue(value: any): any {
+    return enabled ? redactCopy(value, new WeakSet()) : value
+}
+
+function redactCopy(value: any, seen: WeakSet<object>): any {
+    if (value === null || value === undefined) {
+        return value
+    }
+    if (typeof value === "string") {
+        return redactText(value)
+    }
+    if (typeof value !== "object" || value instanceof Date) {
+        return value
+    }
+    if (seen.has(value)) {
+        return "[Circular]"
+    }
+    seen.add(value)
+    let copy: any
+    if (Array.isArray(value)) {
+        copy = value.map(item => redactCopy(item, seen))
+    } else {
+        copy = {}
+        for (const [key, item] of Object.entries(value)) {
+            copy[key] = isSecretKey(key) && item !== null && item !== "" ? redactedValue : redactCopy(item, seen)
+        }
+    }
+    // only ancestors count as circular, objects referenced twice are copied twice
+    seen.delete(value)
+    return copy
+}
+
+// redacts the message and metadata of every log entry, errors are reduced to their redacted message and stack
+export const redactFormat = winston.format(info => {
+    if (!enabled) {
+        return info
+    }
+    for (const key of Object.keys(info)) {
+        if (key == "level" || key == "timestamp") {
+            continue
+        }
+        const value = info[key]
+        info[key] = value instanceof Error ? redactText(value.stack ?? value.message) : redactValue(value)
+    }
+    return info
+})
@@ -0,0 +1,68 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {getManager, In, IsNull} from "typeorm";
+import {DeliverySchedule} from "../entities/deliverySchedule";
+import {DeferredNotification} from "../entities/deferredNotification";
+
+export class DeliveryScheduleRepository {
+
+    // active schedules of the given settings along with the ones applying to every setting
+    findSchedules(settingIds: number[]): Promise<DeliverySchedule[]> {
+        const where: any[] = [{notification_setting_id: IsNull(), active: true}]
+        const ids = settingIds.filter(id => id != null)
+        if (ids.length > 0) {
+            where.push({notification_setting_id: In(ids), active: true})
+        }
+        return getManager().getRepository(DeliverySchedule).find({where: where});
+    }
+
+    saveDeferredNotification(deferred: Partial<DeferredNotification>) {
+        return getManager().getRepository(DeferredNotification).save(deferred);
+    }
+
+    // claims due notifications by leasing them, so that other notifier replicas skip them. notifications are only deleted
+    // once they were dispatched, the ones of a replica which died mid-delivery are claimed again after the lease
+    claimDueDeferredNotifications(limit: number, leaseUntil: Date): Promise<DeferredNotification[]> {
+        return getManager().transaction(async manager => {
+            const now = new Date()
+            const due = await manager.getRepository(DeferredNotification)
+                .createQueryBuilder("d")
+                .setLock("pessimistic_write")
+                .setOnLocked("skip_locked")
+                .where("d.deliver_at <= :now", {now: now})
+                .andWhere("(d.lease_until IS NULL OR d.lease_until <= :now)", {now: now})
+                .orderBy("d.deliver_at", "ASC")
+                .addOrderBy("d.id", "ASC")
+                .limit(limit)
+                .getMany();
+            if (due.length > 0) {
+                await manager.getRepository(DeferredNotification)
+                    .createQueryBuilder()
+                    .update()
+                    .set({lease_until: leaseUntil})
+                    .whereInIds(due.map(d => d.id))
+                    .execute();
+            }
+            return due;
+        });
+    }
+
+    deleteDeferredNotification(id: number) {
+        return getManager().getRepository(DeferredNotification).delete(id);
+    }
+
+}
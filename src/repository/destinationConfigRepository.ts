@@ -0,0 +1,42 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {EntityTarget, getManager} from "typeorm";
+
+// reads and writes configs of every destination type, deleted configs are kept with their deleted flag set
+export class DestinationConfigRepository {
+
+    findConfigs(entity: EntityTarget<any>) {
+        return getManager().getRepository(entity).find({where: {deleted: false}, order: {id: "ASC"}});
+    }
+
+    findConfig(entity: EntityTarget<any>, id: number) {
+        return getManager().getRepository(entity).findOne({where: {id: id, deleted: false}});
+    }
+
+    saveConfig(entity: EntityTarget<any>, config: any) {
+        return getManager().getRepository(entity).save(config);
+    }
+
+    // emails are sent through the single default config of their destination
+    markDefault(entity: EntityTarget<any>, id: number) {
+        return getManager().transaction(async manager => {
+            await manager.getRepository(entity).update({deleted: false}, {default: 'false'});
+            await manager.getRepository(entity).update({id: id}, {default: 'true'});
+        });
+    }
+
+}
@@ -0,0 +1,35 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {getManager} from "typeorm";
+import {EventRejection} from "../entities/eventRejection";
+
+export class EventRejectionRepository {
+
+    save(rejection: EventRejection) {
+        return getManager().getRepository(EventRejection).save(rejection);
+    }
+
+    findRejections(eventTypeId: number, offset: number, size: number): Promise<[EventRejection[], number]> {
+        return getManager().getRepository(EventRejection).findAndCount({
+            where: eventTypeId ? {event_type_id: eventTypeId} : {},
+            order: {created_at: "DESC", id: "DESC"},
+            skip: offset,
+            take: size,
+        });
+    }
+
+}
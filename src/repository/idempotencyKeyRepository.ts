@@ -0,0 +1,41 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {getManager, In, LessThan} from "typeorm";
+import {IdempotencyKey} from "../entities/idempotencyKey";
+
+export class IdempotencyKeyRepository {
+
+    // inserts the keys or takes over expired ones and returns the keys claimed, keys held by an earlier delivery are left out
+    async claimKeys(keys: string[], expiresAt: Date): Promise<string[]> {
+        const rows: { key: string }[] = await getManager().query(`
+            INSERT INTO "notifier_idempotency_key" ("key", "created_at", "expires_at")
+            SELECT UNNEST($1::VARCHAR[]), NOW(), $2::TIMESTAMPTZ
+            ON CONFLICT ("key") DO UPDATE SET "created_at" = EXCLUDED."created_at", "expires_at" = EXCLUDED."expires_at"
+            WHERE "notifier_idempotency_key"."expires_at" <= NOW()
+            RETURNING "key"`, [keys, expiresAt]);
+        return rows.map(row => row.key);
+    }
+
+    deleteKeys(keys: string[]) {
+        return getManager().getRepository(IdempotencyKey).delete({key: In(keys)});
+    }
+
+    deleteExpiredKeys() {
+        return getManager().getRepository(IdempotencyKey).delete({expires_at: LessThan(new Date())});
+    }
+
+}
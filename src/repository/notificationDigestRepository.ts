@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {getManager, IsNull} from "typeorm";
+import {NotificationDigestConfig} from "../entities/notificationDigestConfig";
+import {NotificationDigestEvent} from "../entities/notificationDigestEvent";
+
+export class NotificationDigestRepository {
+
+    // a config of the setting itself takes precedence over one applying to every setting of the event type
+    async findDigestConfig(settingId: number, eventTypeId: number): Promise<NotificationDigestConfig> {
+        const configs = await getManager().getRepository(NotificationDigestConfig).find({
+            where: [
+                {notification_setting_id: settingId ?? IsNull(), event_type_id: eventTypeId, active: true},
+                {notification_setting_id: IsNull(), event_type_id: eventTypeId, active: true},
+            ]
+        });
+        return configs.find(c => c.notification_setting_id != null) ?? configs[0];
+    }
+
+    // events of a digest which is being sent are leased, so any event left for the key without a lease belongs to the open window
+    findBufferedDigestEvent(digestKey: string) {
+        return getManager().getRepository(NotificationDigestEvent).findOne({
+            where: {digest_key: digestKey, lease_until: IsNull()},
+            order: {flush_at: "ASC"}
+        });
+    }
+
+    saveDigestEvent(digestEvent: Partial<NotificationDigestEvent>) {
+        return getManager().getRepository(NotificationDigestEvent).save(digestEvent);
+    }
+
+    // claims the events of due digests by leasing them, so that other notifier replicas skip them. events are only
+    // deleted once their digest was sent, the ones of a replica which died mid-delivery are claimed again after the lease
+    claimDueDigestEvents(limit: number, leaseUntil: Date): Promise<NotificationDigestEvent[]> {
+        return getManager().transaction(async manager => {
+            const now = new Date()
+            const due = await manager.getRepository(NotificationDigestEvent)
+                .createQueryBuilder("d")
+                .setLock("pessimistic_write")
+                .setOnLocked("skip_locked")
+                .where("d.flush_at <= :now", {now: now})
+                .andWhere("(d.lease_until IS NULL OR d.lease_until <= :now)", {now: now})
+                .orderBy("d.flush_at", "ASC")
+                .addOrderBy("d.id", "ASC")
+                .limit(limit)
+                .getMany();
+            if (due.length > 0) {
+                await manager.getRepository(NotificationDigestEvent)
+                    .createQueryBuilder()
+                    .update()
+                    .set({lease_until: leaseUntil})
+                    .whereInIds(due.map(d => d.id))
+                    .execute();
+            }
+            return due;
+        });
+    }
+
+    deleteDigestEvents(ids: number[]) {
+        return getManager().getRepository(NotificationDigestEvent).delete(ids);
+    }
+
+}
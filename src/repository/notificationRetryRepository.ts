@@ -0,0 +1,55 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {getManager} from "typeorm";
+import {NotificationRetry} from "../entities/notificationRetry";
+import {RETRY_STATUS} from "../retry/utils";
+
+export class NotificationRetryRepository {
+
+    saveRetry(retry: Partial<NotificationRetry>) {
+        return getManager().getRepository(NotificationRetry).save(retry);
+    }
+
+    updateRetry(id: number, fields: Partial<NotificationRetry>) {
+        return getManager().getRepository(NotificationRetry).update({id: id}, {...fields, updated_at: new Date()});
+    }
+
+    // claims due entries by pushing their next_attempt_at past the lease, so that other notifier replicas skip them
+    claimDueRetries(limit: number, leaseUntil: Date): Promise<NotificationRetry[]> {
+        return getManager().transaction(async manager => {
+            const due = await manager.getRepository(NotificationRetry)
+                .createQueryBuilder("r")
+                .setLock("pessimistic_write")
+                .setOnLocked("skip_locked")
+                .where("r.status = :status", {status: RETRY_STATUS.Pending})
+                .andWhere("r.next_attempt_at <= :now", {now: new Date()})
+                .orderBy("r.next_attempt_at", "ASC")
+                .limit(limit)
+                .getMany();
+            if (due.length > 0) {
+                await manager.getRepository(NotificationRetry)
+                    .createQueryBuilder()
+                    .update()
+                    .set({next_attempt_at: leaseUntil, updated_at: new Date()})
+                    .whereInIds(due.map(r => r.id))
+                    .execute();
+            }
+            return due;
+        });
+    }
+
+}
@@ -15,12 +15,94 @@
  */
 
 import { NotifierEventLog } from "../entities/notifierEventLogs";
-import { getManager } from "typeorm";
+import { getManager, SelectQueryBuilder } from "typeorm";
+
+export interface EventLogFilter {
+    correlationId?: string
+    pipelineId?: number
+    pipelineType?: string
+    eventTypeId?: number
+    destination?: string
+    isNotificationSent?: boolean
+    from?: Date
+    to?: Date
+}
+
+export interface DestinationDeliveryStats {
+    destination: string
+    sent: number
+    failed: number
+    total: number
+}
 
 export class EventLogRepository {
+    // handlers don't wait for their event logs to be saved, the saves still running are awaited on shutdown
+    private pending = new Set<Promise<any>>()
 
     saveEventLog(eventLog) {
-        return getManager().getRepository(NotifierEventLog).save(eventLog);
+        const saved = getManager().getRepository(NotifierEventLog).save(eventLog);
+        const tracked = saved.catch(() => undefined).finally(() => this.pending.delete(tracked))
+        this.pending.add(tracked)
+        return saved
+    }
+
+    async flush() {
+        await Promise.all(this.pending)
+    }
+
+    findEventLogs(filter: EventLogFilter, offset: number, size: number): Promise<[NotifierEventLog[], number]> {
+        return this.applyFilter(getManager().getRepository(NotifierEventLog).createQueryBuilder("log"), filter)
+            .orderBy("log.created_at", "DESC")
+            .addOrderBy("log.id", "DESC")
+            .skip(offset)
+            .take(size)
+            .getManyAndCount();
+    }
+
+    async getDeliveryStats(filter: EventLogFilter): Promise<DestinationDeliveryStats[]> {
+        const rows = await this.applyFilter(getManager().getRepository(NotifierEventLog).createQueryBuilder("log"), filter)
+            .select("log.destination", "destination")
+            .addSelect("COUNT(*) FILTER (WHERE log.is_notification_sent = true)", "sent")
+            .addSelect("COUNT(*) FILTER (WHERE log.is_notification_sent = false)", "failed")
+            .addSelect("COUNT(*)", "total")
+            .groupBy("log.destination")
+            .orderBy("log.destination", "ASC")
+            .getRawMany();
+        return rows.map(row => ({
+            destination: row.destination,
+            sent: Number(row.sent),
+            failed: Number(row.failed),
+            total: Number(row.total),
+        }));
+    }
+
+    private applyFilter(query: SelectQueryBuilder<NotifierEventLog>, filter: EventLogFilter): SelectQueryBuilder<NotifierEventLog> {
+        query.where("1 = 1")
+        if (filter.correlationId) {
+            query.andWhere("log.correlation_id = :correlationId", {correlationId: filter.correlationId})
+        }
+        if (filter.pipelineId !== undefined) {
+            query.andWhere("log.source_id = :pipelineId", {pipelineId: filter.pipelineId})
+        }
+        if (filter.pipelineType) {
+            query.andWhere("log.pipeline_type = :pipelineType", {pipelineType: filter.pipelineType})
+        }
+        if (filter.eventTypeId !== undefined) {
+            query.andWhere("log.event_type_id = :eventTypeId", {eventTypeId: filter.eventTypeId})
+        }
+        if (filter.destination) {
+            query.andWhere("log.destination = :destination", {destination: filter.destination})
+        }
+        if (filter.isNotificationSent !== undefined) {
+            query.andWhere("log.is_notification_sent = :isNotificationSent", {isNotificationSent: filter.isNotificationSent})
+        }
+        if (filter.from) {
+            query.andWhere("log.created_at >= :from", {from: filter.from})
+        }
+        if (filter.to) {
+            query.andWhere("log.created_at <= :to", {to: filter.to})
+        }
+        return query
     }
 
 }
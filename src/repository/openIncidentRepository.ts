@@ -0,0 +1,36 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {getManager} from "typeorm";
+import {OpenIncident} from "../entities/openIncident";
+
+export class OpenIncidentRepository {
+
+    async openIncident(destination: string, configId: number, incidentKey: string) {
+        await getManager().query(`
+            INSERT INTO "notifier_open_incident" ("destination", "config_id", "incident_key", "opened_at")
+            VALUES ($1, $2, $3, NOW())
+            ON CONFLICT ("destination", "config_id", "incident_key") DO NOTHING`, [destination, configId, incidentKey]);
+    }
+
+    // returns whether the incident was open, only one of several replicas closing the same incident gets true
+    async closeIncident(destination: string, configId: number, incidentKey: string): Promise<boolean> {
+        const result = await getManager().getRepository(OpenIncident).delete({destination: destination, config_id: configId, incident_key: incidentKey});
+        return result.affected > 0;
+    }
+
+}
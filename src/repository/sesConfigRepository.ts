@@ -20,7 +20,7 @@ import {SesConfig} from "../entities/sesConfig";
 export class SESConfigRepository {
 
     findBySESConfigId(id: number) {
-        return getManager().getRepository(SesConfig).findOne({where: {id: id}});
+        return getManager().getRepository(SesConfig).findOne({where: {id: id, deleted: false}});
     }
 
     findDefaultSESConfig() {
@@ -20,7 +20,7 @@ import {SlackConfig} from "../entities/slackConfig";
 export class SlackConfigRepository {
 
     findBySlackConfigId(slackConfigId: number) {
-        return getManager().getRepository(SlackConfig).findOne({ where: { id: slackConfigId} });
+        return getManager().getRepository(SlackConfig).findOne({ where: { id: slackConfigId, deleted: false} });
     }
 
 }
\ No newline at end of file
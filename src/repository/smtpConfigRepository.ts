@@ -20,7 +20,7 @@ import {SMTPConfig} from "../entities/smtpConfig";
 export class SMTPConfigRepository {
 
     findBySMTPConfigId(id: number) {
-        return getManager().getRepository(SMTPConfig).findOne({where: {id: id}});
+        return getManager().getRepository(SMTPConfig).findOne({where: {id: id, deleted: false}});
     }
 
     findDefaultSMTPConfig() {
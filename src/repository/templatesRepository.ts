@@ -50,7 +50,7 @@ export class WebhookConfigRepository {
     async getAllWebhookConfigs() {
       const webhookConfigs = await getManager()
         .getRepository(WebhookConfig)
-        .find();
+        .find({ where: { deleted: false } });
   
       return webhookConfigs;
     }
@@ -20,7 +20,7 @@ import { WebhookConfig } from "../entities/webhookconfig";
 export class WebhookConfigRepository {
 
     findByWebhookConfigId(webhookConfigId: number) {
-        return getManager().getRepository(WebhookConfig).findOne({ where: { id: webhookConfigId} });
+        return getManager().getRepository(WebhookConfig).findOne({ where: { id: webhookConfigId, deleted: false} });
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Event} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {NotificationRetry} from "../entities/notificationRetry";
+import {NotificationRetryRepository} from "../repository/notificationRetryRepository";
+import {EventLogRepository} from "../repository/notifierEventLogRepository";
+import {DeliveryDetail, EventLogBuilder} from "../common/eventLogBuilder";
+import {
+    getBackoffDelay,
+    RETRY_STATUS,
+    retryBatchSize,
+    retryLeaseTimeout,
+    retryPollInterval,
+    RetryPolicyMapping,
+    RetryTarget
+} from "./utils";
+import {recordDelivery} from "../common/metrics";
+import {eventLogContext, withLogContext} from "../logging/logger";
+import {waitUntil} from "../shutdown/utils";
+
+// implemented by destination handlers which can re-attempt a single failed delivery from its queued snapshot,
+// resolving with the detail of the successful attempt
+export interface RetryableHandler {
+    resend(retry: NotificationRetry): Promise<DeliveryDetail>
+}
+
+export class RetryService {
+    private retryRepository: NotificationRetryRepository
+    private eventLogRepository: EventLogRepository
+    private eventLogBuilder: EventLogBuilder
+    private logger: any
+    private handlers: Map<string, RetryableHandler> = new Map()
+    private timer: NodeJS.Timeout
+    private polling: boolean = false
+
+    constructor(retryRepository: NotificationRetryRepository, eventLogRepository: EventLogRepository, eventLogBuilder: EventLogBuilder, logger: any) {
+        this.retryRepository = retryRepository
+        this.eventLogRepository = eventLogRepository
+        this.eventLogBuilder = eventLogBuilder
+        this.logger = logger
+    }
+
+    public registerHandler(destination: string, handler: RetryableHandler) {
+        this.handlers.set(destination, handler)
+    }
+
+    // returns false when the delivery could not be queued, in which case the caller has to record the failure itself
+    public async enqueue(destination: string, event: Event, setting: NotificationSettings, provider: any, template: string, target: RetryTarget, error?: string): Promise<boolean> {
+        const policy = RetryPolicyMapping.get(destination)
+        if (!policy || policy.maxAttempts <= 0 || !this.handlers.has(destination)) {
+            return false
+        }
+        try {
+            const now = new Date()
+            await this.retryRepository.saveRetry({
+                destination: destination,
+                event: JSON.parse(JSON.stringify(event)),
+                setting: JSON.parse(JSON.stringify(setting)),
+                provider: provider,
+                target: target,
+                template: template,
+                status: RETRY_STATUS.Pending,
+                attempts: 0,
+                max_attempts: policy.maxAttempts,
+                last_error: error,
+                next_attempt_at: new Date(now.getTime() + getBackoffDelay(policy, 1)),
+                created_at: now,
+                updated_at: now,
+            })
+            this.logger.info("queued " + destination + " notification for retry, correlationId: " + event.correlationId)
+            return true
+        } catch (err) {
+            this.logger.error("error occurred while queuing notification for retry", err)
+            return false
+        }
+    }
+
+    public start() {
+        if (this.timer) {
+            return
+        }
+        this.timer = setInterval(() => this.processDueRetries(), retryPollInterval * 1000)
+        this.logger.info("retry queue worker started")
+    }
+
+    // resolves once a poll which was already running has finished
+    public async stop() {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+        await waitUntil(() => !this.polling)
+    }
+
+    public async processDueRetries() {
+        if (this.polling) {
+            return
+        }
+        this.polling = true
+        try {
+            const leaseUntil = new Date(Date.now() + retryLeaseTimeout * 1000)
+            const due = await this.retryRepository.claimDueRetries(retryBatchSize, leaseUntil)
+            for (const retry of due) {
+                const fields = {...eventLogContext(retry.event), destination: retry.destination, configId: retry.target?.configId}
+                await withLogContext(fields, () => this.processRetry(retry))
+            }
+        } catch (err) {
+            this.logger.error("error occurred while processing retry queue", err)
+        } finally {
+            this.polling = false
+        }
+    }
+
+    private async processRetry(retry: NotificationRetry) {
+        const attempt = retry.attempts + 1
+        const start = Date.now()
+        // the first delivery happened before the entry was queued, so retry n is delivery attempt n + 1
+        const detail: DeliveryDetail = {
+            attempt: attempt + 1,
+            configId: retry.target?.configId,
+            target: retry.target?.recipient ?? this.eventLogBuilder.getUrlHost(retry.target?.webhookUrl),
+        }
+        try {
+            const handler = this.handlers.get(retry.destination)
+            if (!handler) {
+                throw new Error("no handler registered for destination " + retry.destination)
+            }
+            const delivered = await handler.resend(retry)
+            recordDelivery(retry.destination, true, Date.now() - start)
+            await this.retryRepository.updateRetry(retry.id, {status: RETRY_STATUS.Succeeded, attempts: attempt})
+            this.logger.info("retry " + attempt + " succeeded for " + retry.destination + " notification, correlationId: " + retry.event.correlationId)
+            this.saveEventLog(retry, true, {...detail, ...delivered, latency: Date.now() - start})
+        } catch (error: any) {
+            recordDelivery(retry.destination, false, Date.now() - start)
+            const message = error && error.message ? error.message : String(error)
+            if (attempt >= retry.max_attempts) {
+                await this.retryRepository.updateRetry(retry.id, {status: RETRY_STATUS.Failed, attempts: attempt, last_error: message})
+                this.logger.error("giving up on " + retry.destination + " notification after " + attempt + " retries, correlationId: " + retry.event.correlationId + " err: " + message)
+                this.saveEventLog(retry, false, {...detail, response: message, statusCode: error?.providerStatusCode, latency: Date.now() - start})
+            } else {
+                const policy = RetryPolicyMapping.get(retry.destination)
+                const nextAttemptAt = new Date(Date.now() + getBackoffDelay(policy, attempt + 1))
+                await this.retryRepository.updateRetry(retry.id, {attempts: attempt, last_error: message, next_attempt_at: nextAttemptAt})
+                this.logger.info("retry " + attempt + " failed for " + retry.destination + " notification, next attempt at " + nextAttemptAt.toISOString())
+            }
+        }
+    }
+
+    private saveEventLog(retry: NotificationRetry, sentStatus: boolean, detail: DeliveryDetail) {
+        let eventLog = this.eventLogBuilder.buildEventLog(retry.event, retry.destination, sentStatus, retry.setting, detail);
+        this.eventLogRepository.saveEventLog(eventLog).catch(err => this.logger.error("error occurred while saving event log", err));
+    }
+}
@@ -0,0 +1,80 @@
+import * as process from "process";
+
+export const SLACK_DESTINATION: string = "slack"
+export const SES_DESTINATION: string = "ses"
+export const SMTP_DESTINATION: string = "smtp"
+export const WEBHOOK_DESTINATION: string = "webhook"
+export const TEAMS_DESTINATION: string = "teams"
+export const PAGERDUTY_DESTINATION: string = "pagerduty"
+export const OPSGENIE_DESTINATION: string = "opsgenie"
+
+export enum RETRY_STATUS {
+    Pending = "PENDING",
+    Succeeded = "SUCCEEDED",
+    Failed = "FAILED",
+}
+
+const pollInterval: number = parseInt(process.env.RETRY_POLL_INTERVAL)
+const batchSize: number = parseInt(process.env.RETRY_BATCH_SIZE)
+const leaseTimeout: number = parseInt(process.env.RETRY_LEASE_TIMEOUT)
+
+// interval in seconds at which the retry queue is polled for due deliveries
+export const retryPollInterval: number = !isNaN(pollInterval) ? pollInterval : 10
+export const retryBatchSize: number = !isNaN(batchSize) ? batchSize : 20
+// a claimed entry becomes due again after this many seconds if the pod processing it dies mid-delivery
+export const retryLeaseTimeout: number = !isNaN(leaseTimeout) ? leaseTimeout : 300
+
+export interface RetryPolicy {
+    maxAttempts: number
+    baseDelay: number   // seconds
+    maxDelay: number    // seconds
+    multiplier: number
+    jitter: number      // fraction of the computed delay, 0 - 1
+}
+
+export interface RetryTarget {
+    webhookUrl?: string
+    recipient?: string
+    configId?: number
+}
+
+const defaultRetryPolicy: RetryPolicy = {
+    maxAttempts: 5,
+    baseDelay: 30,
+    maxDelay: 3600,
+    multiplier: 2,
+    jitter: 0.2,
+}
+
+// values are read from <DEST>_RETRY_<KEY> and fall back to RETRY_<KEY>, e.g. SMTP_RETRY_MAX_ATTEMPTS, RETRY_MAX_ATTEMPTS
+function getRetryPolicy(destination: string): RetryPolicy {
+    const read = (key: string, fallback: number): number => {
+        const value = parseFloat(process.env[`${destination.toUpperCase()}_RETRY_${key}`] ?? process.env[`RETRY_${key}`])
+        return !isNaN(value) && value >= 0 ? value : fallback
+    }
+    return {
+        maxAttempts: Math.floor(read("MAX_ATTEMPTS", defaultRetryPolicy.maxAttempts)),
+        baseDelay: read("BASE_DELAY", defaultRetryPolicy.baseDelay),
+        maxDelay: read("MAX_DELAY", defaultRetryPolicy.maxDelay),
+        multiplier: Math.max(read("MULTIPLIER", defaultRetryPolicy.multiplier), 1),
+        jitter: Math.min(read("JITTER", defaultRetryPolicy.jitter), 1),
+    }
+}
+
+export const RetryPolicyMapping = new Map<string, RetryPolicy>([
+    [SLACK_DESTINATION, getRetryPolicy(SLACK_DESTINATION)],
+    [SES_DESTINATION, getRetryPolicy(SES_DESTINATION)],
+    [SMTP_DESTINATION, getRetryPolicy(SMTP_DESTINATION)],
+    [WEBHOOK_DESTINATION, getRetryPolicy(WEBHOOK_DESTINATION)],
+    [TEAMS_DESTINATION, getRetryPolicy(TEAMS_DESTINATION)],
+    [PAGERDUTY_DESTINATION, getRetryPolicy(PAGERDUTY_DESTINATION)],
+    [OPSGENIE_DESTINATION, getRetryPolicy(OPSGENIE_DESTINATION)],
+]);
+
+// returns the delay in milliseconds before the given retry attempt (1 based)
+export function getBackoffDelay(policy: RetryPolicy, attempt: number): number {
+    const exponential = policy.baseDelay * Math.pow(policy.multiplier, Math.max(attempt - 1, 0))
+    const delay = Math.min(exponential, policy.maxDelay)
+    const jitter = delay * policy.jitter * (Math.random() * 2 - 1)
+    return Math.max(Math.round((delay + jitter) * 1000), 0)
+}
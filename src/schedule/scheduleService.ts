@@ -0,0 +1,186 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DeliveryOutcome, Event} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {DeliverySchedule} from "../entities/deliverySchedule";
+import {DeliveryScheduleRepository} from "../repository/deliveryScheduleRepository";
+import {DigestService} from "../digest/digestService";
+import {DIGEST_DESTINATIONS} from "../digest/utils";
+import {isBypassed, isWithinWindow, nextWindowStart, QUIET_ACTION, scheduleBatchSize, scheduleLeaseTimeout, schedulePollInterval} from "./utils";
+import {waitUntil} from "../shutdown/utils";
+
+// sends an event to the destinations of the given settings, used to deliver deferred notifications once their window opens
+export type ScheduleDispatcher = (event: Event, settings: NotificationSettings[]) => Promise<DeliveryOutcome[]>
+
+export class DeliveryScheduleService {
+    private scheduleRepository: DeliveryScheduleRepository
+    private digestService: DigestService
+    private logger: any
+    private dispatcher: ScheduleDispatcher
+    private timer: NodeJS.Timeout
+    private polling: boolean = false
+
+    constructor(scheduleRepository: DeliveryScheduleRepository, digestService: DigestService, logger: any) {
+        this.scheduleRepository = scheduleRepository
+        this.digestService = digestService
+        this.logger = logger
+    }
+
+    public registerDispatcher(dispatcher: ScheduleDispatcher) {
+        this.dispatcher = dispatcher
+    }
+
+    // drops, defers or digests the event for every destination of the settings which is in quiet hours and returns the settings
+    // stripped of those destinations, which are left to be notified right away
+    public async applySchedules(event: Event, settings: NotificationSettings[]): Promise<{ settings: NotificationSettings[], outcomes: DeliveryOutcome[] }> {
+        let schedules: DeliverySchedule[] = []
+        try {
+            schedules = await this.scheduleRepository.findSchedules(settings.map(s => s.id))
+        } catch (error) {
+            this.logger.error("error occurred while fetching delivery schedules", error)
+        }
+        if (schedules.length == 0) {
+            return {settings: settings, outcomes: []}
+        }
+
+        const now = new Date()
+        const remaining: NotificationSettings[] = []
+        const outcomes: DeliveryOutcome[] = []
+        // a destination reached through several settings is only held back once
+        const held = new Set<string>()
+        for (const setting of settings) {
+            const providers = Array.isArray(setting.config) ? setting.config as any[] : []
+            const immediate = []
+            const deferred = new Map<number, any[]>()
+            for (const p of providers) {
+                const schedule = this.findSchedule(schedules, setting.id, p)
+                if (!schedule || isWithinWindow(schedule, now) || isBypassed(schedule, event)) {
+                    immediate.push(p)
+                    continue
+                }
+                const key = p['dest'] + '-' + p['configId']
+                if (held.has(key)) {
+                    continue
+                }
+                const opensAt = nextWindowStart(schedule, now)
+                if (schedule.quiet_action == QUIET_ACTION.Drop) {
+                    this.logger.info("dropped " + p['dest'] + " notification during quiet hours of schedule " + schedule.id + ", correlationId: " + event.correlationId)
+                    outcomes.push({destination: p['dest'], configId: p['configId'], success: true, suppressed: true})
+                    held.add(key)
+                    continue
+                }
+                if (schedule.quiet_action == QUIET_ACTION.Digest && DIGEST_DESTINATIONS.includes(p['dest'])) {
+                    try {
+                        outcomes.push(await this.digestService.bufferUntil(event, setting, p, opensAt))
+                        held.add(key)
+                        continue
+                    } catch (error) {
+                        // deferred on its own instead
+                        this.logger.error("error occurred while buffering event for quiet hours digest", error)
+                    }
+                }
+                if (!deferred.has(opensAt.getTime())) {
+                    deferred.set(opensAt.getTime(), [])
+                }
+                deferred.get(opensAt.getTime()).push(p)
+                held.add(key)
+            }
+
+            for (const [deliverAt, deferredProviders] of deferred) {
+                const deferredOutcomes = await this.defer(event, setting, deferredProviders, new Date(deliverAt))
+                if (deferredOutcomes) {
+                    outcomes.push(...deferredOutcomes)
+                } else {
+                    // an event which could not be deferred is still delivered right away
+                    immediate.push(...deferredProviders)
+                }
+            }
+            remaining.push(Object.assign(new NotificationSettings(), setting, {config: immediate}))
+        }
+        return {settings: remaining, outcomes: outcomes}
+    }
+
+    // stores the event to be delivered to the given destinations of the setting at deliverAt, returns nothing when it could not be stored
+    public async defer(event: Event, setting: NotificationSettings, providers: any[], deliverAt: Date): Promise<DeliveryOutcome[]> {
+        try {
+            await this.scheduleRepository.saveDeferredNotification({
+                event: JSON.parse(JSON.stringify(event)),
+                setting: JSON.parse(JSON.stringify({...setting, config: providers})),
+                deliver_at: deliverAt,
+                created_at: new Date(),
+            })
+            this.logger.info("deferred notification to " + deliverAt.toISOString() + ", correlationId: " + event.correlationId)
+            return providers.map(p => ({destination: p['dest'], configId: p['configId'], success: true, deferred: true}))
+        } catch (error) {
+            this.logger.error("error occurred while deferring notification", error)
+            return
+        }
+    }
+
+    public start() {
+        if (this.timer) {
+            return
+        }
+        this.timer = setInterval(() => this.processDueNotifications(), schedulePollInterval * 1000)
+        this.logger.info("deferred notification worker started")
+    }
+
+    // resolves once a poll which was already running has finished
+    public async stop() {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+        await waitUntil(() => !this.polling)
+    }
+
+    public async processDueNotifications() {
+        if (this.polling || !this.dispatcher) {
+            return
+        }
+        this.polling = true
+        try {
+            const due = await this.scheduleRepository.claimDueDeferredNotifications(scheduleBatchSize, new Date(Date.now() + scheduleLeaseTimeout * 1000))
+            for (const deferred of due) {
+                try {
+                    // failed deliveries to single destinations are left to the retry queue
+                    const outcomes = await this.dispatcher(deferred.event, [Object.assign(new NotificationSettings(), deferred.setting)])
+                    const failed = outcomes.filter(outcome => !outcome.success).length
+                    this.logger.info("delivered deferred notification " + deferred.id + ", " + failed + " of " + outcomes.length + " deliveries failed, correlationId: " + deferred.event.correlationId)
+                    await this.scheduleRepository.deleteDeferredNotification(deferred.id)
+                } catch (error) {
+                    this.logger.error("error occurred while delivering deferred notification " + deferred.id + ", attempting it again in " + scheduleLeaseTimeout + " seconds", error)
+                }
+            }
+        } catch (err) {
+            this.logger.error("error occurred while processing deferred notifications", err)
+        } finally {
+            this.polling = false
+        }
+    }
+
+    // a schedule of the setting takes precedence over a global one, and within those a schedule of the destination's
+    // config over one of its destination type over one of every destination
+    private findSchedule(schedules: DeliverySchedule[], settingId: number, provider: any): DeliverySchedule {
+        const rank = (s: DeliverySchedule) => (s.notification_setting_id != null ? 4 : 0) + (s.config_id != null ? 2 : 0) + (s.destination ? 1 : 0)
+        return schedules
+            .filter(s => s.notification_setting_id == null || s.notification_setting_id == settingId)
+            .filter(s => !s.destination || s.destination == provider['dest'])
+            .filter(s => s.config_id == null || s.config_id == provider['configId'])
+            .sort((a, b) => rank(b) - rank(a))[0]
+    }
+}
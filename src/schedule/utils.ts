@@ -0,0 +1,78 @@
+import * as process from "process";
+import moment from "moment-timezone";
+import {DeliverySchedule} from "../entities/deliverySchedule";
+import {Event} from "../notification/service/notificationService";
+
+// what happens to an event reaching a destination outside of its active window
+export enum QUIET_ACTION {
+    Drop = "DROP",
+    Defer = "DEFER",        // delivered on its own once the window opens
+    Digest = "DIGEST",      // delivered as part of a digest once the window opens, emails are deferred instead
+}
+
+const pollInterval: number = parseInt(process.env.SCHEDULE_POLL_INTERVAL)
+const batchSize: number = parseInt(process.env.SCHEDULE_BATCH_SIZE)
+const leaseTimeout: number = parseInt(process.env.SCHEDULE_LEASE_TIMEOUT)
+
+// interval in seconds at which deferred notifications are checked for opened windows
+export const schedulePollInterval: number = !isNaN(pollInterval) ? pollInterval : 60
+export const scheduleBatchSize: number = !isNaN(batchSize) ? batchSize : 100
+// a claimed notification is claimed again after this many seconds unless it was dispatched, e.g. when the pod delivering it died
+export const scheduleLeaseTimeout: number = !isNaN(leaseTimeout) ? leaseTimeout : 300
+
+function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(t => parseInt(t))
+    return hours * 60 + minutes
+}
+
+// unknown time zones fall back to UTC rather than holding back every event
+function timezone(schedule: DeliverySchedule): string {
+    return moment.tz.zone(schedule.timezone) ? schedule.timezone : "UTC"
+}
+
+function localTime(schedule: DeliverySchedule, at: Date): moment.Moment {
+    return moment(at).tz(timezone(schedule))
+}
+
+function isActiveDay(schedule: DeliverySchedule, isoWeekday: number): boolean {
+    return !schedule.active_days || schedule.active_days.length == 0 || schedule.active_days.includes(isoWeekday)
+}
+
+// a window ending before it starts spans midnight and belongs to the day it starts on, one starting and ending at the same time covers the whole day
+export function isWithinWindow(schedule: DeliverySchedule, at: Date): boolean {
+    const local = localTime(schedule, at)
+    const start = toMinutes(schedule.window_start)
+    const end = toMinutes(schedule.window_end)
+    const now = local.hours() * 60 + local.minutes()
+    const today = local.isoWeekday()
+    if (start == end) {
+        return isActiveDay(schedule, today)
+    }
+    if (start < end) {
+        return isActiveDay(schedule, today) && now >= start && now < end
+    }
+    const yesterday = today == 1 ? 7 : today - 1
+    return (isActiveDay(schedule, today) && now >= start) || (isActiveDay(schedule, yesterday) && now < end)
+}
+
+// the next time the window opens after the given time
+export function nextWindowStart(schedule: DeliverySchedule, at: Date): Date {
+    const local = localTime(schedule, at)
+    const start = toMinutes(schedule.window_start)
+    for (let day = 0; day <= 7; day++) {
+        // parsed in the time zone, a start skipped when clocks move forward opens the window as much later
+        const date = local.clone().add(day, "days").format("YYYY-MM-DD")
+        const opening = moment.tz(date + " " + Math.floor(start / 60) + ":" + start % 60, "YYYY-MM-DD H:m", timezone(schedule))
+        if (opening.isAfter(local) && isActiveDay(schedule, opening.isoWeekday())) {
+            return opening.toDate()
+        }
+    }
+    // only reached when none of the active days is a valid weekday
+    return local.clone().add(7, "days").toDate()
+}
+
+// bypassed event types are delivered during quiet hours as well, only for production environments when bypass_prod_only is set
+export function isBypassed(schedule: DeliverySchedule, event: Event): boolean {
+    const eventTypes = schedule.bypass_event_types ?? []
+    return eventTypes.includes(event.eventTypeId) && (!schedule.bypass_prod_only || event.isProdEnv === true)
+}
@@ -0,0 +1,50 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {decryptSecret, encryptSecret, isEncrypted, needsEncryption, SecretColumn, SecretColumns} from "./utils";
+
+// a query runner or entity manager, the rotation runs inside migrations as well as on startup
+interface SqlRunner {
+    query(query: string, parameters?: any[]): Promise<any>
+}
+
+async function rewriteSecrets(runner: SqlRunner, columns: SecretColumn[], rewrite: (value: any, json: boolean) => any, needsRewrite: (value: any) => boolean): Promise<number> {
+    let rewritten = 0
+    for (const {table, column, json} of columns) {
+        const exists = await runner.query(`SELECT 1 FROM information_schema.columns WHERE table_name = $1 AND column_name = $2`, [table, column])
+        if (!exists.length) {
+            continue
+        }
+        const rows: any[] = await runner.query(`SELECT id, "${column}" AS value FROM "${table}" WHERE "${column}" IS NOT NULL`)
+        for (const row of rows.filter(row => needsRewrite(row.value))) {
+            const value = rewrite(row.value, json)
+            await runner.query(`UPDATE "${table}" SET "${column}" = $1${json ? "::jsonb" : ""} WHERE id = $2`, [json ? JSON.stringify(value) : value, row.id])
+            rewritten++
+        }
+    }
+    return rewritten
+}
+
+// encrypts plaintext secrets and re-encrypts the ones written with a previous key, returns the number of rewritten values
+export function reencryptSecrets(runner: SqlRunner, columns: SecretColumn[] = SecretColumns): Promise<number> {
+    return rewriteSecrets(runner, columns, (value, json) => encryptSecret(json && !isEncrypted(value) ? JSON.stringify(value) : value), needsEncryption)
+}
+
+// writes secrets back as plaintext, e.g. before the notifier is rolled back to a version without encryption
+export function decryptSecrets(runner: SqlRunner, columns: SecretColumn[] = SecretColumns): Promise<number> {
+    return rewriteSecrets(runner, columns, (value, json) => json ? JSON.parse(decryptSecret(value)) : decryptSecret(value), isEncrypted)
+}
@@ -0,0 +1,124 @@
+import * as process from "process";
+import * as fs from "fs";
+import {createCipheriv, createDecipheriv, createHash, randomBytes} from "crypto";
+import {ValueTransformer} from "typeorm";
+
+// encrypted values look like enc:v1:<key id>:<wrapped data key>:<ciphertext>, anything else is read as plaintext
+const prefix = "enc:v1:"
+const algorithm = "aes-256-gcm"
+const ivLength = 12
+const tagLength = 16
+
+interface SecretKey {
+    id: string
+    key: Buffer
+}
+
+// keys are base64 encoded 32 byte values, read from the variable or from the file it names, e.g. a mounted secret
+function readKeys(name: string): string[] {
+    let value = process.env[name]
+    const file = process.env[name + "_FILE"]
+    if (!value && file) {
+        value = fs.readFileSync(file, "utf8")
+    }
+    return (value ?? "").split(/[\s,]+/).filter(key => !!key)
+}
+
+function toSecretKey(value: string, name: string): SecretKey {
+    const key = Buffer.from(value, "base64")
+    if (key.length != 32) {
+        throw new Error(name + " must hold base64 encoded 32 byte keys")
+    }
+    return {id: createHash("sha256").update(key).digest("hex").substring(0, 8), key: key}
+}
+
+const currentKeys = readKeys("SECRET_ENCRYPTION_KEY")
+if (currentKeys.length > 1) {
+    throw new Error("SECRET_ENCRYPTION_KEY must hold a single key, previous keys go into SECRET_ENCRYPTION_OLD_KEYS")
+}
+
+// new values are encrypted with the current key, previous keys are only used to read values until they are re-encrypted
+export const currentKey: SecretKey = currentKeys.length ? toSecretKey(currentKeys[0], "SECRET_ENCRYPTION_KEY") : undefined
+const keys = new Map<string, SecretKey>(readKeys("SECRET_ENCRYPTION_OLD_KEYS")
+    .map(key => toSecretKey(key, "SECRET_ENCRYPTION_OLD_KEYS"))
+    .concat(currentKey ? [currentKey] : [])
+    .map(key => [key.id, key]))
+
+function seal(key: Buffer, plaintext: Buffer): string {
+    const iv = randomBytes(ivLength)
+    const cipher = createCipheriv(algorithm, key, iv)
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64")
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+    const data = Buffer.from(sealed, "base64")
+    const decipher = createDecipheriv(algorithm, key, data.subarray(0, ivLength))
+    decipher.setAuthTag(data.subarray(ivLength, ivLength + tagLength))
+    return Buffer.concat([decipher.update(data.subarray(ivLength + tagLength)), decipher.final()])
+}
+
+export function isEncrypted(value: any): boolean {
+    return typeof value === "string" && value.startsWith(prefix)
+}
+
+// true for values which the re-encryption has to rewrite, i.e. plaintext or encrypted with a previous key
+export function needsEncryption(value: any): boolean {
+    if (!currentKey || value === null || value === undefined || value === "") {
+        return false
+    }
+    return !isEncrypted(value) || value.split(":")[2] != currentKey.id
+}
+
+// every value gets its own data key, which is stored wrapped by the current key next to the value
+export function encryptSecret(value: string): string {
+    if (!currentKey || value === null || value === undefined || value === "") {
+        return value
+    }
+    if (isEncrypted(value)) {
+        value = decryptSecret(value)
+    }
+    const dataKey = randomBytes(32)
+    return prefix + currentKey.id + ":" + seal(currentKey.key, dataKey) + ":" + seal(dataKey, Buffer.from(value, "utf8"))
+}
+
+export function decryptSecret(value: string): string {
+    if (!isEncrypted(value)) {
+        return value
+    }
+    const [keyId, wrappedKey, ciphertext] = value.substring(prefix.length).split(":")
+    const key = keys.get(keyId)
+    if (!key) {
+        throw new Error("secret is encrypted with unknown key " + keyId + ", add it to SECRET_ENCRYPTION_OLD_KEYS")
+    }
+    return open(open(key.key, wrappedKey), ciphertext).toString("utf8")
+}
+
+// transparently encrypts text columns on write and decrypts them on read, plaintext values are read as they are
+export const secretTransformer: ValueTransformer = {
+    to: (value: string) => encryptSecret(value),
+    from: (value: string) => decryptSecret(value),
+}
+
+// jsonb columns hold the encrypted json of their value as a json string
+export const jsonSecretTransformer: ValueTransformer = {
+    to: (value: any) => value === null || value === undefined || !currentKey ? value : encryptSecret(JSON.stringify(value)),
+    from: (value: any) => isEncrypted(value) ? JSON.parse(decryptSecret(value)) : value,
+}
+
+export interface SecretColumn {
+    table: string
+    column: string
+    // jsonb columns hold the encrypted json of their value as a json string
+    json?: boolean
+}
+
+// columns holding secrets, kept in sync with the columns using the transformers above
+export const SecretColumns: SecretColumn[] = [
+    {table: "ses_config", column: "secret_access_key"},
+    {table: "ses_config", column: "session_token"},
+    {table: "smtp_config", column: "auth_password"},
+    {table: "webhook_config", column: "header", json: true},
+    {table: "pagerduty_config", column: "routing_key"},
+    {table: "opsgenie_config", column: "api_key"},
+]
@@ -15,9 +15,11 @@
  */
 
 import express from 'express';
+import * as fs from "fs";
+import * as https from "https";
 import { NotificationService, Event, Handler } from './notification/service/notificationService'
 import "reflect-metadata"
-import {ConnectionOptions, createConnection, getConnectionOptions, getManager} from "typeorm"
+import {ConnectionOptions, createConnection, DataSource, getConnectionOptions, getManager} from "typeorm"
 import { NotificationSettingsRepository } from "./repository/notificationSettingsRepository"
 import { SlackService } from './destination/destinationHandlers/slackHandler'
 import { SESService } from './destination/destinationHandlers/sesHandler'
@@ -31,14 +33,12 @@ import { NotificationSettings } from "./entities/notificationSettings";
 import { NotifierEventLog } from "./entities/notifierEventLogs";
 import { NotificationTemplates } from "./entities/notificationTemplates";
 import { SlackConfig } from "./entities/slackConfig";
-import * as winston from 'winston';
 import { SesConfig } from "./entities/sesConfig";
 import { SESConfigRepository } from "./repository/sesConfigRepository";
 import { SMTPConfig } from "./entities/smtpConfig";
 import { SMTPConfigRepository } from "./repository/smtpConfigRepository";
 import { UsersRepository } from './repository/usersRepository';
 import { Users } from "./entities/users";
-import { send } from './tests/sendSlackNotification';
 import { MustacheHelper } from './common/mustacheHelper';
 import { WebhookConfigRepository } from './repository/webhookConfigRepository';
 import { WebhookService } from './destination/destinationHandlers/webhookHandler';
@@ -49,22 +49,87 @@ import {connect, NatsConnection} from "nats";
 
 import {NOTIFICATION_EVENT_TOPIC} from "./pubSub/utils";
 import {PubSubServiceImpl} from "./pubSub/pubSub";
+import { NotificationRetry } from "./entities/notificationRetry";
+import { NotificationRetryRepository } from "./repository/notificationRetryRepository";
+import { RetryService } from "./retry/retryService";
+import { OPSGENIE_DESTINATION, PAGERDUTY_DESTINATION, SES_DESTINATION, SLACK_DESTINATION, SMTP_DESTINATION, TEAMS_DESTINATION, WEBHOOK_DESTINATION } from "./retry/utils";
+import { CreateNotifierRetryQueue1792368000000 } from "./migrations/1792368000000-CreateNotifierRetryQueue";
+import { TeamsConfig } from "./entities/teamsConfig";
+import { TeamsConfigRepository } from "./repository/teamsConfigRepository";
+import { TeamsService } from "./destination/destinationHandlers/teamsHandler";
+import { CreateTeamsConfig1792454400000 } from "./migrations/1792454400000-CreateTeamsConfig";
+import { PagerDutyConfig } from "./entities/pagerDutyConfig";
+import { PagerDutyConfigRepository } from "./repository/pagerDutyConfigRepository";
+import { PagerDutyService } from "./destination/destinationHandlers/pagerDutyHandler";
+import { OpsgenieConfig } from "./entities/opsgenieConfig";
+import { OpsgenieConfigRepository } from "./repository/opsgenieConfigRepository";
+import { OpenIncident } from "./entities/openIncident";
+import { OpenIncidentRepository } from "./repository/openIncidentRepository";
+import { IncidentTracker } from "./common/incident";
+import { OpsgenieService } from "./destination/destinationHandlers/opsgenieHandler";
+import { CreateIncidentDestinations1792886400000 } from "./migrations/1792886400000-CreateIncidentDestinations";
+import { DestinationConfigRepository } from "./repository/destinationConfigRepository";
+import { DestinationConfigService } from "./notification/service/destinationConfigService";
+import { TestMessageService } from "./notification/service/testMessageService";
+import { HealthService } from "./health/healthService";
+import { HEALTH_STATUS } from "./health/utils";
+import { AddDeliveryDetailToEventLog1792540800000 } from "./migrations/1792540800000-AddDeliveryDetailToEventLog";
+import { EventLogService } from "./notification/service/eventLogService";
+import { NotificationDigestConfig } from "./entities/notificationDigestConfig";
+import { NotificationDigestEvent } from "./entities/notificationDigestEvent";
+import { NotificationDigestRepository } from "./repository/notificationDigestRepository";
+import { DigestService } from "./digest/digestService";
+import { CreateNotifierDigest1792627200000 } from "./migrations/1792627200000-CreateNotifierDigest";
+import { DeliverySchedule } from "./entities/deliverySchedule";
+import { DeferredNotification } from "./entities/deferredNotification";
+import { DeliveryScheduleRepository } from "./repository/deliveryScheduleRepository";
+import { DeliveryScheduleService } from "./schedule/scheduleService";
+import { CreateDeliverySchedule1792713600000 } from "./migrations/1792713600000-CreateDeliverySchedule";
+import { IdempotencyKey } from "./entities/idempotencyKey";
+import { IdempotencyKeyRepository } from "./repository/idempotencyKeyRepository";
+import { IdempotencyService } from "./throttle/idempotencyService";
+import { RateLimitService } from "./throttle/rateLimitService";
+import { CreateIdempotencyKey1792800000000 } from "./migrations/1792800000000-CreateIdempotencyKey";
+import { EncryptDestinationSecrets1792972800000 } from "./migrations/1792972800000-EncryptDestinationSecrets";
+import { reencryptSecrets } from "./secret/secretRotation";
+import { currentKey } from "./secret/utils";
+import { createLogger, eventLogContext, getLogLevels, setLogLevels, withLogContext } from "./logging/logger";
+import { LOG_MODULE } from "./logging/utils";
+import { EVENT_SOURCE, eventsReceived, eventTypeLabel, metricsRegistry } from "./common/metrics";
+import { CustomError, EventValidationError } from "./entities/events";
+import { SpanKind } from "@opentelemetry/api";
+import { eventAttributes, extractContext, initTracing, shutdownTracing, withSpan } from "./tracing/tracing";
+import { ShutdownCoordinator } from "./shutdown/shutdownCoordinator";
+import { DeadLetterService } from "./pubSub/deadLetterService";
+import { AuthService } from "./auth/authService";
+import { authClients, configApiClient, SCOPE, tlsCertFile, tlsClientCaFile, tlsKeyFile } from "./auth/utils";
+import { EventValidator } from "./validation/eventValidator";
+import { EventRejection } from "./entities/eventRejection";
+import { EventRejectionRepository } from "./repository/eventRejectionRepository";
+import { EventRejectionService } from "./notification/service/eventRejectionService";
+import { CreateEventRejection1793059200000 } from "./migrations/1793059200000-CreateEventRejection";
+import { buildOpenApiDocument, docsPage } from "./openapi/openApi";
+import { getAbsoluteFSPath } from "swagger-ui-dist";
+import { UserPreference } from "./entities/userPreference";
+import { UserPreferenceRepository } from "./repository/userPreferenceRepository";
+import { PreferenceService, unsubscribePage } from "./preference/preferenceService";
+import { AttachmentService } from "./attachment/attachmentService";
+import { CreateUserPreference1793145600000 } from "./migrations/1793145600000-CreateUserPreference";
+import { AddDigestEventLease1793232000000 } from "./migrations/1793232000000-AddDigestEventLease";
+import { AddDeferredNotificationLease1793318400000 } from "./migrations/1793318400000-AddDeferredNotificationLease";
+import { CreateOpenIncident1793491200000 } from "./migrations/1793491200000-CreateOpenIncident";
 const app = express();
 const natsUrl = process.env.NATS_URL
-app.use(bodyParser.json({ limit: '10mb' }));
+// signed requests are verified against the body as it was sent
+app.use(bodyParser.json({ limit: '10mb', verify: (req: express.Request, res, buf) => req.rawBody = buf.toString() }));
 app.use(express.json());
 
 
-let logger = winston.createLogger({
-    level: 'info',
-    format: winston.format.combine(
-        winston.format.timestamp(),
-        winston.format.printf(info => {
-            return `${info.timestamp} ${info.level}: ${info.message}`;
-        })
-    ),
-    transports: [new winston.transports.Console()]
-});
+// modules log through child loggers carrying their name, which their log level is looked up by
+const rootLogger = createLogger()
+let logger = rootLogger.child({module: LOG_MODULE.Server})
+const destinationLogger = rootLogger.child({module: LOG_MODULE.Destination})
+initTracing(logger)
 
 let eventLogRepository: EventLogRepository = new EventLogRepository()
 let eventLogBuilder: EventLogBuilder = new EventLogBuilder()
@@ -72,20 +137,51 @@ let slackConfigRepository: SlackConfigRepository = new SlackConfigRepository()
 let webhookConfigRepository: WebhookConfigRepository = new WebhookConfigRepository()
 let sesConfigRepository: SESConfigRepository = new SESConfigRepository()
 let smtpConfigRepository: SMTPConfigRepository = new SMTPConfigRepository()
+let teamsConfigRepository: TeamsConfigRepository = new TeamsConfigRepository()
 let usersRepository: UsersRepository = new UsersRepository()
 let mustacheHelper: MustacheHelper = new MustacheHelper()
-let slackService = new SlackService(eventLogRepository, eventLogBuilder, slackConfigRepository, logger, mustacheHelper)
-let webhookService = new WebhookService(eventLogRepository, eventLogBuilder, webhookConfigRepository, logger, mustacheHelper)
-let sesService = new SESService(eventLogRepository, eventLogBuilder, sesConfigRepository, usersRepository, logger, mustacheHelper)
-let smtpService = new SMTPService(eventLogRepository, eventLogBuilder, smtpConfigRepository, usersRepository, logger, mustacheHelper)
+let retryService = new RetryService(new NotificationRetryRepository(), eventLogRepository, eventLogBuilder, rootLogger.child({module: LOG_MODULE.Retry}))
+let slackService = new SlackService(eventLogRepository, eventLogBuilder, slackConfigRepository, destinationLogger, mustacheHelper, retryService)
+let webhookService = new WebhookService(eventLogRepository, eventLogBuilder, webhookConfigRepository, destinationLogger, mustacheHelper, retryService)
+let preferenceService = new PreferenceService(new UserPreferenceRepository(), rootLogger.child({module: LOG_MODULE.Preference}))
+let attachmentService = new AttachmentService(mustacheHelper, rootLogger.child({module: LOG_MODULE.Attachment}))
+let sesService = new SESService(eventLogRepository, eventLogBuilder, sesConfigRepository, usersRepository, destinationLogger, mustacheHelper, retryService, preferenceService, attachmentService)
+let smtpService = new SMTPService(eventLogRepository, eventLogBuilder, smtpConfigRepository, usersRepository, destinationLogger, mustacheHelper, retryService, preferenceService, attachmentService)
+let teamsService = new TeamsService(eventLogRepository, eventLogBuilder, teamsConfigRepository, destinationLogger, mustacheHelper, retryService)
+let incidentTracker = new IncidentTracker(new OpenIncidentRepository(), destinationLogger)
+let pagerDutyService = new PagerDutyService(eventLogRepository, eventLogBuilder, new PagerDutyConfigRepository(), destinationLogger, mustacheHelper, retryService, incidentTracker)
+let opsgenieService = new OpsgenieService(eventLogRepository, eventLogBuilder, new OpsgenieConfigRepository(), destinationLogger, mustacheHelper, retryService, incidentTracker)
+retryService.registerHandler(SLACK_DESTINATION, slackService)
+retryService.registerHandler(WEBHOOK_DESTINATION, webhookService)
+retryService.registerHandler(SES_DESTINATION, sesService)
+retryService.registerHandler(SMTP_DESTINATION, smtpService)
+retryService.registerHandler(TEAMS_DESTINATION, teamsService)
+retryService.registerHandler(PAGERDUTY_DESTINATION, pagerDutyService)
+retryService.registerHandler(OPSGENIE_DESTINATION, opsgenieService)
 
 let handlers: Handler[] = []
 handlers.push(slackService)
 handlers.push(webhookService)
 handlers.push(sesService)
 handlers.push(smtpService)
+handlers.push(teamsService)
+handlers.push(pagerDutyService)
+handlers.push(opsgenieService)
 
-let notificationService = new NotificationService(new EventRepository(), new NotificationSettingsRepository(), new NotificationTemplatesRepository(), handlers, logger)
+let templatesRepository = new NotificationTemplatesRepository()
+let digestService = new DigestService(new NotificationDigestRepository(), templatesRepository, slackConfigRepository, teamsConfigRepository, webhookConfigRepository, slackService, teamsService, webhookService, eventLogBuilder, mustacheHelper, rootLogger.child({module: LOG_MODULE.Digest}))
+let scheduleService = new DeliveryScheduleService(new DeliveryScheduleRepository(), digestService, rootLogger.child({module: LOG_MODULE.Schedule}))
+let idempotencyService = new IdempotencyService(new IdempotencyKeyRepository(), rootLogger.child({module: LOG_MODULE.Throttle}))
+let rateLimitService = new RateLimitService(digestService, scheduleService, rootLogger.child({module: LOG_MODULE.Throttle}))
+let notificationService = new NotificationService(new EventRepository(), new NotificationSettingsRepository(), templatesRepository, handlers, digestService, scheduleService, idempotencyService, rateLimitService, rootLogger.child({module: LOG_MODULE.Notification}))
+scheduleService.registerDispatcher((event, settings) => withLogContext(eventLogContext(event), () => notificationService.dispatchDeferred(event, settings)))
+let eventLogService = new EventLogService(eventLogRepository)
+let destinationConfigService = new DestinationConfigService(new DestinationConfigRepository())
+let testMessageService = new TestMessageService(destinationConfigService, templatesRepository, slackService, teamsService, webhookService, sesService, smtpService, eventLogBuilder, rootLogger.child({module: LOG_MODULE.Config}))
+let eventValidator = new EventValidator()
+let eventRejectionService = new EventRejectionService(new EventRejectionRepository(), rootLogger.child({module: LOG_MODULE.Validation}))
+let authService = new AuthService(authClients, configApiClient, rootLogger.child({module: LOG_MODULE.Auth}))
+let healthService = new HealthService(sesConfigRepository, smtpConfigRepository, !!natsUrl, rootLogger.child({module: LOG_MODULE.Health}))
 
 let dbHost: string = process.env.DB_HOST;
 const dbPort: number = +process.env.DB_PORT;
@@ -100,22 +196,46 @@ let dbOptions: ConnectionOptions = {
     username: user,
     password: pwd,
     database: db,
-    entities: [NotificationSettings, NotifierEventLog, Event, NotificationTemplates, SlackConfig, SesConfig, SMTPConfig, WebhookConfig, Users]
+    entities: [NotificationSettings, NotifierEventLog, Event, NotificationTemplates, SlackConfig, SesConfig, SMTPConfig, WebhookConfig, Users, NotificationRetry, TeamsConfig, NotificationDigestConfig, NotificationDigestEvent, DeliverySchedule, DeferredNotification, IdempotencyKey, PagerDutyConfig, OpsgenieConfig, EventRejection, UserPreference, OpenIncident],
+    migrations: [CreateNotifierRetryQueue1792368000000, CreateTeamsConfig1792454400000, AddDeliveryDetailToEventLog1792540800000, CreateNotifierDigest1792627200000, CreateDeliverySchedule1792713600000, CreateIdempotencyKey1792800000000, CreateIncidentDestinations1792886400000, EncryptDestinationSecrets1792972800000, CreateEventRejection1793059200000, CreateUserPreference1793145600000, AddDigestEventLease1793232000000, AddDeferredNotificationLease1793318400000, CreateOpenIncident1793491200000],
+    migrationsRun: true,
+    migrationsTableName: "notifier_migrations"
 }
 
+// set once connected, closed on shutdown
+let dbConnection: DataSource
+let natsConnection: NatsConnection
+let pubSubService: PubSubServiceImpl
+let deadLetterService: DeadLetterService
+
 createConnection(dbOptions).then(async connection => {
     logger.info("Connected to DB")
+    dbConnection = connection
+    healthService.watchDatabase(connection)
+    // rewrites secrets stored in plaintext by the orchestrator or encrypted with a previous key
+    if (currentKey) {
+        await reencryptSecrets(connection.manager).then(count => {
+            logger.info("re-encrypted " + count + " secrets with key " + currentKey.id)
+        }).catch(err => logger.error("error occurred while re-encrypting secrets", err))
+    }
+    retryService.start()
+    digestService.start()
+    scheduleService.start()
+    idempotencyService.start()
     if(natsUrl){
-        let conn: NatsConnection
         (async () => {
             logger.info("Connecting to NATS server...");
-            conn = await connect({servers:natsUrl})
-            const jsm = await conn.jetstreamManager()
-            const obj = new PubSubServiceImpl(conn, jsm,logger)
-            await obj.Subscribe(NOTIFICATION_EVENT_TOPIC, natsEventHandler)
+            natsConnection = await connect({servers:natsUrl})
+            const jsm = await natsConnection.jetstreamManager()
+            const pubSubLogger = rootLogger.child({module: LOG_MODULE.PubSub})
+            deadLetterService = new DeadLetterService(natsConnection.jetstream(), jsm, pubSubLogger)
+            pubSubService = new PubSubServiceImpl(natsConnection, jsm, deadLetterService, pubSubLogger)
+            healthService.watchNats(natsConnection, pubSubService)
+            await pubSubService.Subscribe(NOTIFICATION_EVENT_TOPIC, natsEventHandler)
         })().catch(
             (err) => {
                 logger.error("error occurred due to", err)
+                healthService.reportNatsError(err)
             }
         )
     }
@@ -124,30 +244,350 @@ createConnection(dbOptions).then(async connection => {
     logger.error("shutting down notifier due to un-successful database connection...")
     process.exit(1)
 });
-const natsEventHandler = (msg: string) => {
-    const eventAsString = JSON.parse(msg)
-    const event = JSON.parse(eventAsString) as Event
-    notificationService.sendNotification(event)
+// resolves once the event was delivered, so that the message is only acked then. Failed deliveries are left to the
+// retry queue, events which are invalid or can't be parsed are kept as rejections and the others are delivered again
+const natsEventHandler = async (msg: string) => {
+    let received: any = msg
+    let event: Event
+    try {
+        const eventAsString = JSON.parse(msg)
+        received = JSON.parse(eventAsString)
+        event = eventValidator.validate(received)
+    } catch (error: any) {
+        const rejection = error instanceof EventValidationError ? error : new EventValidationError([{field: "", message: "malformed event: " + error.message}])
+        // failing to save the rejection leaves the message to be delivered again
+        return eventRejectionService.reject(received, rejection)
+    }
+    eventsReceived.inc({source: EVENT_SOURCE.Nats, event_type: eventTypeLabel(event?.eventTypeId)})
+    const response = await withLogContext(eventLogContext(event), () => notificationService.sendNotification(event, true))
+    // events without notification settings or templates are done with
+    if (response.status == 0 && response.error.statusCode != 404) {
+        throw response.error
+    }
+}
+const sendError = (res: express.Response, error: any) => {
+    if (error instanceof EventValidationError) {
+        res.status(error.statusCode).json({message: error.message, errors: error.errors})
+    } else if (error instanceof CustomError) {
+        res.status(error.statusCode).json({message: error.message})
+    } else {
+        logger.error("error occurred while serving request", error)
+        res.status(500).json({message: "internal server error"})
+    }
+}
+
+// the admin api is only served when clients are configured, see AUTH_CLIENTS and CONFIG_API_TOKEN
+const authorize = (scope: SCOPE) => (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!authService.isAdminEnabled()) {
+        return res.status(404).json({message: "admin api is disabled, set AUTH_CLIENTS or CONFIG_API_TOKEN to enable it"})
+    }
+    try {
+        authService.authorize(req, scope)
+    } catch (error) {
+        return sendError(res, error)
+    }
+    next()
+}
+
+// events are accepted from anyone as long as no client is configured
+const authorizeIfEnabled = (scope: SCOPE) => (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!authService.isEnabled()) {
+        return next()
+    }
+    try {
+        authService.authorize(req, scope)
+    } catch (error) {
+        return sendError(res, error)
+    }
+    next()
+}
+
+// dead letters are kept in NATS, they can't be read before the notifier is connected to it
+const requireDeadLetterService = (): DeadLetterService => {
+    if (!natsUrl) {
+        throw new CustomError("nats is disabled, set NATS_URL to enable it", 404)
+    }
+    if (!deadLetterService) {
+        throw new CustomError("not connected to nats yet", 503)
+    }
+    return deadLetterService
+}
+
+// events are no longer accepted once the shutdown started, so that the caller sends them to another pod
+const rejectDuringShutdown = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (shutdownCoordinator.isShuttingDown()) {
+        return res.status(503).json({message: "notifier is shutting down"})
+    }
+    next()
+}
+
+// events are checked against the schema of their event type before anything is looked up for them
+const validateEvent = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+        eventValidator.validate(req.body)
+    } catch (error) {
+        return sendError(res, error)
+    }
+    next()
 }
+
+// the event in the body is attached to every entry logged while handling the request
+const withEventLogContext = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    withLogContext(eventLogContext(req.body), next)
+}
+
 app.get('/', (req, res) => res.send('Welcome to notifier Notifier!'))
 
+// generated from src/openapi/routes.ts, test.ts fails when a route is missing there
+const openApiDocument = buildOpenApiDocument()
+app.get('/openapi.json', (req, res) => res.json(openApiDocument))
+app.get('/docs', (req, res) => res.type('html').send(docsPage))
+app.use('/docs', express.static(getAbsoluteFSPath(), {index: false}))
+
 app.get('/health', (req, res) => {
     res.status(200).send("healthy")
 })
 
-app.get('/test', (req, res) => {
-    send();
-    res.send('Test!');
+app.get('/live', async (req, res) => {
+    try {
+        const report = await healthService.checkLiveness()
+        res.status(report.status == HEALTH_STATUS.Ok ? 200 : 503).json(report)
+    } catch (error) {
+        sendError(res, error)
+    }
+})
+
+app.get('/ready', async (req, res) => {
+    try {
+        const report = await healthService.checkReadiness()
+        res.status(report.status == HEALTH_STATUS.Ok ? 200 : 503).json(report)
+    } catch (error) {
+        sendError(res, error)
+    }
+})
+
+app.get('/metrics', async (req, res) => {
+    try {
+        res.set('Content-Type', metricsRegistry.contentType)
+        res.send(await metricsRegistry.metrics())
+    } catch (error) {
+        sendError(res, error)
+    }
+})
+
+app.get('/admin/log-levels', authorize(SCOPE.Admin), (req, res) => {
+    res.status(200).json(getLogLevels())
 })
 
-app.post('/notify', async(req, res) => {
+app.put('/admin/log-levels', authorize(SCOPE.Admin), (req, res) => {
+    try {
+        const levels = setLogLevels(req.body)
+        logger.info("log levels changed to " + JSON.stringify(levels))
+        res.status(200).json(levels)
+    } catch (error) {
+        sendError(res, error)
+    }
+})
+
+app.get('/admin/dead-letters', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json({deadLetters: await requireDeadLetterService().getDeadLetters(req.query)})
+    } catch (error) {
+        sendError(res, error)
+    }
+})
+
+app.post('/admin/dead-letters/:seq/replay', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json(await requireDeadLetterService().replay(req.params.seq))
+    } catch (error) {
+        sendError(res, error)
+    }
+})
+
+app.post('/notify', authorizeIfEnabled(SCOPE.Notify), rejectDuringShutdown, validateEvent, withEventLogContext, async(req, res) => {
     logger.info("notifications Received")
-    const response=await notificationService.sendNotification(req.body);
+    eventsReceived.inc({source: EVENT_SOURCE.Http, event_type: eventTypeLabel(req.body?.eventTypeId)})
+    const response=await withSpan("POST /notify", eventAttributes(req.body), () => notificationService.sendNotification(req.body, req.query.wait === "true"), SpanKind.SERVER, extractContext(req.headers));
     if (response.status!=0){
-        res.status(response.status).json({message:response.message}).send()
+        res.status(response.status).json({message:response.message, results:response.results}).send()
     }else{
         res.status(response.error.statusCode).json({message:response.error.message}).send()
     }
 });
 
-app.listen(3000, () => logger.info('Notifier app listening on port 3000!'))
+app.post('/notify/preview', authorizeIfEnabled(SCOPE.Preview), validateEvent, withEventLogContext, async (req, res) => {
+    try {
+        res.status(200).json({notifications: await notificationService.previewNotification(req.body)})
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.get('/events/logs', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json(await eventLogService.getEventLogs(req.query))
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.get('/events/rejections', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json(await eventRejectionService.getRejections(req.query))
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.get('/events/logs/stats', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json({destinations: await eventLogService.getDeliveryStats(req.query)})
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.get('/preferences/:email', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json(await preferenceService.getPreference(req.params.email))
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.put('/preferences/:email', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json(await preferenceService.updatePreference(req.params.email, req.body))
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+// recipients opening unsubscribe links get a page rather than json
+const sendUnsubscribeError = (res: express.Response, error: any) => {
+    if (error instanceof CustomError) {
+        res.status(error.statusCode).type('html').send(unsubscribePage(error.message))
+    } else {
+        logger.error("error occurred while unsubscribing", error)
+        res.status(500).type('html').send(unsubscribePage("internal server error"))
+    }
+}
+
+// opened from the links in emails, the signed token is the only credential
+app.get('/unsubscribe', (req, res) => {
+    try {
+        const token = preferenceService.parseUnsubscribeToken(req.query.token)
+        res.status(200).type('html').send(unsubscribePage("Unsubscribe " + token.email + " from " + preferenceService.describeUnsubscribe(token) + "?", String(req.query.token)))
+    } catch (error) {
+        sendUnsubscribeError(res, error)
+    }
+});
+
+// also called by mail clients offering one-click unsubscribe, see List-Unsubscribe-Post
+app.post('/unsubscribe', async (req, res) => {
+    try {
+        const token = preferenceService.parseUnsubscribeToken(req.query.token)
+        await preferenceService.unsubscribe(token)
+        res.status(200).type('html').send(unsubscribePage(token.email + " no longer gets " + preferenceService.describeUnsubscribe(token) + "."))
+    } catch (error) {
+        sendUnsubscribeError(res, error)
+    }
+});
+
+app.get('/configs/:type', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json({configs: await destinationConfigService.listConfigs(req.params.type)})
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.get('/configs/:type/:id', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json(await destinationConfigService.getConfig(req.params.type, req.params.id))
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.post('/configs/:type', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(201).json(await destinationConfigService.createConfig(req.params.type, req.body))
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.put('/configs/:type/:id', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json(await destinationConfigService.updateConfig(req.params.type, req.params.id, req.body))
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.delete('/configs/:type/:id', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        await destinationConfigService.deleteConfig(req.params.type, req.params.id)
+        res.status(204).send()
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.post('/configs/:type/:id/default', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        res.status(200).json(await destinationConfigService.setDefaultConfig(req.params.type, req.params.id))
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+app.post('/configs/:type/:id/test', authorize(SCOPE.Admin), async (req, res) => {
+    try {
+        const result = await testMessageService.sendTestMessage(req.params.type, req.params.id, req.body)
+        res.status(result.success ? 200 : 502).json(result)
+    } catch (error) {
+        sendError(res, error)
+    }
+});
+
+if (!authService.isEnabled()) {
+    logger.warn("no api clients are configured, events are accepted without authentication")
+}
+// client certificates are verified by the server, whether one is required is up to the route
+const server = tlsCertFile
+    ? https.createServer({
+        cert: fs.readFileSync(tlsCertFile),
+        key: fs.readFileSync(tlsKeyFile),
+        ca: tlsClientCaFile ? fs.readFileSync(tlsClientCaFile) : undefined,
+        requestCert: !!tlsClientCaFile,
+        rejectUnauthorized: false,
+    }, app).listen(3000, () => logger.info('Notifier app listening on port 3000 over https!'))
+    : app.listen(3000, () => logger.info('Notifier app listening on port 3000!'))
+
+// in flight events are delivered before the connections they need are closed, see SHUTDOWN_TIMEOUT
+const shutdownCoordinator = new ShutdownCoordinator(logger)
+shutdownCoordinator.register("stop accepting events", () => {
+    healthService.reportShutdown()
+    // open requests are still answered
+    return new Promise<void>(resolve => server.close(() => resolve()))
+})
+shutdownCoordinator.register("drain nats subscriptions", () => pubSubService?.drainSubscriptions())
+shutdownCoordinator.register("finish deliveries", () => Promise.all([
+    notificationService.drain(),
+    retryService.stop(),
+    digestService.stop(),
+    scheduleService.stop(),
+    idempotencyService.stop(),
+]))
+shutdownCoordinator.register("close nats connection", () => natsConnection?.drain())
+shutdownCoordinator.register("flush event logs", () => eventLogRepository.flush())
+shutdownCoordinator.register("close database connection", () => dbConnection?.isInitialized && dbConnection.destroy())
+shutdownCoordinator.register("flush traces", () => shutdownTracing())
+
+// a second signal exits right away
+for (const signal of ["SIGTERM", "SIGINT"] as NodeJS.Signals[]) {
+    process.on(signal, () => shutdownCoordinator.shutdown(signal).then(() => process.exit(0)))
+}
@@ -0,0 +1,73 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {shutdownTimeout} from "./utils";
+
+interface ShutdownStep {
+    name: string
+    run: () => any
+}
+
+// runs the registered steps one after the other once the process is asked to terminate, so that events which were
+// received are delivered before the connections they depend on are closed
+export class ShutdownCoordinator {
+    private steps: ShutdownStep[] = []
+    private shuttingDown: boolean = false
+    private logger: any
+
+    constructor(logger: any) {
+        this.logger = logger
+    }
+
+    public register(name: string, run: () => any) {
+        this.steps.push({name: name, run: run})
+    }
+
+    public isShuttingDown(): boolean {
+        return this.shuttingDown
+    }
+
+    // resolves right away when the shutdown is already in progress,
+    // a step which fails or runs out of time doesn't keep the later ones from running, steps started after the deadline
+    // still get a second each so that connections are closed properly
+    public async shutdown(signal: string) {
+        if (this.shuttingDown) {
+            this.logger.info("received " + signal + " again, exiting without waiting for the shutdown to complete")
+            return
+        }
+        this.shuttingDown = true
+        this.logger.info("received " + signal + ", shutting down within " + shutdownTimeout + "s")
+        const deadline = Date.now() + shutdownTimeout * 1000
+        for (const step of this.steps) {
+            const start = Date.now()
+            try {
+                await this.runStep(step, Math.max(deadline - start, 1000))
+                this.logger.info("shutdown step " + step.name + " done in " + (Date.now() - start) + "ms")
+            } catch (err) {
+                this.logger.error("shutdown step " + step.name + " failed", err)
+            }
+        }
+        this.logger.info("shutdown complete")
+    }
+
+    private runStep(step: ShutdownStep, timeout: number): Promise<any> {
+        let timer: NodeJS.Timeout
+        const expired = new Promise((resolve, reject) => {
+            timer = setTimeout(() => reject(new Error("timed out after " + timeout + "ms")), timeout)
+        })
+        return Promise.race([Promise.resolve().then(step.run), expired]).finally(() => clearTimeout(timer))
+    }
+}
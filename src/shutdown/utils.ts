@@ -0,0 +1,13 @@
+import * as process from "process";
+
+const timeout: number = parseInt(process.env.SHUTDOWN_TIMEOUT)
+
+// seconds the shutdown may take, below the 30s termination grace period kubernetes gives a pod by default
+export const shutdownTimeout: number = !isNaN(timeout) && timeout > 0 ? timeout : 25
+
+// resolves once the condition holds, e.g. a poll which was running when its timer got stopped has finished
+export async function waitUntil(condition: () => boolean): Promise<void> {
+    while (!condition()) {
+        await new Promise(resolve => setTimeout(resolve, 100))
+    }
+}
@@ -0,0 +1,161 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {silentLogger, test} from "./harness";
+import {AttachmentService} from "../attachment/attachmentService";
+import {attachmentMaxBytes, buildLogMaxLines, inlineMaxBytes} from "../attachment/utils";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {EVENT_TYPE} from "../common/types";
+import {Event} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {redactedValue} from "../redaction/utils";
+
+const service = new AttachmentService(new MustacheHelper(), silentLogger)
+const setting = Object.assign(new NotificationSettings(), {id: 1})
+const csvHeader = "CVE,Severity,Package,Current Version,Fixed Version,Permission\r\n"
+
+function vulnerability(id: number, severity: string, pkg: string = "libssl") {
+    return {cveName: "CVE-2024-" + String(id).padStart(4, "0"), severity: severity, package: pkg, currentVersion: "1.0.0", fixedVersion: "1.0.1", permission: "root"}
+}
+
+// the scan results of other settings are left out of the report
+function scanEvent(vulnerabilities: any[]): Event {
+    return {
+        eventTypeId: EVENT_TYPE.ImageScan, pipelineType: "CI", correlationId: "scan",
+        payload: {appName: "payments", envName: "prod", imageScanExecutionInfo: {
+            1: {scannedAt: "2024-03-01T10:00:00Z", scannedBy: "trivy", severityCount: {critical: 1, high: 1, medium: 0, low: 1}, vulnerabilities: vulnerabilities},
+            2: {vulnerabilities: [vulnerability(9999, "critical", "other-setting")]},
+        }},
+    } as any
+}
+
+function failedBuild(log: string, pipelineType: string = "CI"): Event {
+    return {eventTypeId: EVENT_TYPE.Fail, pipelineType: pipelineType, correlationId: "build", payload: {appName: "payments", pipelineName: "ci build", buildLog: log}} as any
+}
+
+function email(generatedFiles?: any): any {
+    return {to: "dev@example.com", subject: "scan", html: "<p>scanned</p>", generatedFiles: generatedFiles}
+}
+
+test("vulnerability reports are attached as csv, the most severe first", () => {
+    const vulnerabilities = [vulnerability(1, "low"), vulnerability(2, "Critical", 'lib "x", y'), vulnerability(3, "high")]
+    const sent = service.attach(email(), scanEvent(vulnerabilities), setting)
+    assert.strictEqual(sent.generatedFiles, undefined)
+    assert.strictEqual(sent.html, "<p>scanned</p>")
+    assert.deepStrictEqual(sent.attachments, [{
+        filename: "payments-prod-vulnerabilities.csv",
+        contentType: "text/csv",
+        content: csvHeader +
+            'CVE-2024-0002,Critical,"lib ""x"", y",1.0.0,1.0.1,root\r\n' +
+            "CVE-2024-0003,high,libssl,1.0.0,1.0.1,root\r\n" +
+            "CVE-2024-0001,low,libssl,1.0.0,1.0.1,root\r\n",
+    }])
+})
+
+test("vulnerability reports are attached as json when the template chooses it", () => {
+    const sent = service.attach(email({format: "json"}), scanEvent([vulnerability(1, "low"), vulnerability(2, "high")]), setting)
+    assert.strictEqual(sent.attachments[0].filename, "payments-prod-vulnerabilities.json")
+    assert.strictEqual(sent.attachments[0].contentType, "application/json")
+    const report = JSON.parse(sent.attachments[0].content)
+    assert.strictEqual(report.scannedBy, "trivy")
+    assert.deepStrictEqual(report.severityCount, {critical: 1, high: 1, medium: 0, low: 1})
+    assert.deepStrictEqual(report.vulnerabilities.map(v => v.CVEName), ["CVE-2024-0002", "CVE-2024-0001"])
+})
+
+test("attached reports keep the most severe vulnerabilities which fit the attachment limit", () => {
+    const low = Array.from({length: 100}, (_, i) => vulnerability(i, "low"))
+    const critical = Array.from({length: 100}, (_, i) => vulnerability(1000 + i, "critical"))
+    const sent = service.attach(email(), scanEvent([...low, ...critical]), setting)
+    const content: string = sent.attachments[0].content
+    const rows = content.split("\r\n").slice(1, -1)
+    const rowBytes = Buffer.byteLength("CVE-2024-1000,critical,libssl,1.0.0,1.0.1,root\r\n")
+    assert.strictEqual(rows.length, Math.floor((attachmentMaxBytes - Buffer.byteLength(csvHeader)) / rowBytes))
+    assert.ok(rows.every(row => row.includes(",critical,")))
+    assert.ok(Buffer.byteLength(content) <= attachmentMaxBytes)
+    assert.ok(sent.html.endsWith(escapeNote("The report lists the " + rows.length + " most severe of 200 vulnerabilities, the others exceed its size limit.")))
+})
+
+test("inline reports keep to the smaller inline limit", () => {
+    const vulnerabilities = Array.from({length: 100}, (_, i) => vulnerability(1000 + i, "critical"))
+    const sent = service.attach(email({mode: "inline"}), scanEvent(vulnerabilities), setting)
+    assert.strictEqual(sent.attachments, undefined)
+    const table: string = sent.html.substring("<p>scanned</p>".length, sent.html.indexOf("</table>") + "</table>".length)
+    const rows = table.match(/<tr><td/g).length
+    const emptyTable = table.replace(/<tr><td.*?<\/tr>/g, "")
+    const rowBytes = (Buffer.byteLength(table) - Buffer.byteLength(emptyTable)) / rows
+    assert.ok(Buffer.byteLength(table) <= inlineMaxBytes)
+    assert.ok(Buffer.byteLength(table) + rowBytes > inlineMaxBytes)
+    assert.ok(sent.html.endsWith(escapeNote("The report lists the " + rows + " most severe of 100 vulnerabilities, the others exceed its size limit.")))
+
+    const attached = service.attach(email(), scanEvent(vulnerabilities), setting)
+    assert.ok(attached.attachments[0].content.split("\r\n").length - 2 > rows)
+})
+
+test("emails without an html body get inline files attached, with the note in their text", () => {
+    const vulnerabilities = Array.from({length: 100}, (_, i) => vulnerability(1000 + i, "critical"))
+    const sent = service.attach({to: "dev@example.com", text: "scanned", generatedFiles: {mode: "inline"}}, scanEvent(vulnerabilities), setting)
+    assert.strictEqual(sent.attachments.length, 1)
+    assert.ok(sent.text.startsWith("scanned\n\nThe report lists the "))
+})
+
+test("reports of which not even a single vulnerability fits are left out", () => {
+    const sent = service.attach(email(), scanEvent([{...vulnerability(1, "critical"), package: "x".repeat(attachmentMaxBytes)}]), setting)
+    assert.strictEqual(sent.attachments, undefined)
+    assert.strictEqual(sent.html, "<p>scanned</p>")
+})
+
+test("templates choosing no files or an unknown mode get none or the default", () => {
+    assert.strictEqual(service.attach(email({mode: "none"}), scanEvent([vulnerability(1, "low")]), setting).attachments, undefined)
+    assert.strictEqual(service.attach(email({mode: "fax"}), scanEvent([vulnerability(1, "low")]), setting).attachments.length, 1)
+    assert.strictEqual(service.attach(email(), scanEvent([]), setting).attachments, undefined)
+})
+
+test("failed builds attach the end of their log without colour codes and secrets", () => {
+    const log = Array.from({length: 80}, (_, i) => "\u001b[31mline " + (i + 1) + " password=secret" + (i + 1) + "\u001b[0m").join("\r\n") + "\n\n"
+    const sent = service.attach(email(), failedBuild(log), setting)
+    assert.strictEqual(sent.attachments[0].filename, "payments-ci-build-build.log")
+    assert.strictEqual(sent.attachments[0].contentType, "text/plain")
+    const lines: string[] = sent.attachments[0].content.split("\n").slice(0, -1)
+    assert.strictEqual(lines.length, buildLogMaxLines)
+    assert.strictEqual(lines[0], "line 31 password=" + redactedValue)
+    assert.strictEqual(lines[lines.length - 1], "line 80 password=" + redactedValue)
+    assert.ok(sent.html.endsWith(escapeNote("The build log excerpt holds the last 50 of 80 lines.")))
+})
+
+test("build logs keep the last lines which fit the attachment limit", () => {
+    const lines = Array.from({length: 30}, (_, i) => String(i).padStart(200, "."))
+    const sent = service.attach(email(), failedBuild(lines.join("\n")), setting)
+    const kept = Math.floor(attachmentMaxBytes / 201)
+    assert.strictEqual(sent.attachments[0].content, lines.slice(-kept).join("\n") + "\n")
+
+    const inline = service.attach(email({mode: "inline"}), failedBuild(lines.join("\n")), setting)
+    const pre = '<h3>Build log</h3><pre style="font-size: 12px; white-space: pre-wrap;"></pre>'
+    const keptInline = Math.floor((inlineMaxBytes - Buffer.byteLength(pre) + 1) / 201)
+    assert.ok(inline.html.includes("<h3>Build log</h3>"))
+    assert.ok(inline.html.includes("holds the last " + keptInline + " of 30 lines"))
+})
+
+test("only failed ci builds with a log get an excerpt", () => {
+    assert.strictEqual(service.attach(email(), failedBuild("error", "CD"), setting).attachments, undefined)
+    assert.strictEqual(service.attach(email(), failedBuild("  \n"), setting).attachments, undefined)
+    assert.strictEqual(service.attach(email(), {...failedBuild("error"), eventTypeId: EVENT_TYPE.Success} as Event, setting).attachments, undefined)
+})
+
+function escapeNote(note: string): string {
+    return '<p style="font-size: 12px; color: #767d84;">' + note + '</p>'
+}
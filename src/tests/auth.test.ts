@@ -0,0 +1,119 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import * as http from "http";
+import {AddressInfo} from "net";
+import {createHmac} from "crypto";
+import axios from "axios";
+import express from "express";
+import bodyParser from "body-parser";
+import {silentLogger, test} from "./harness";
+import {AuthService} from "../auth/authService";
+import {AUTH_HEADER, AuthClient, hmacTolerance, SCOPE} from "../auth/utils";
+
+const clients: AuthClient[] = [
+    {name: "orchestrator", token: "orchestrator-token", scopes: [SCOPE.Notify, SCOPE.Preview]},
+    {name: "ci", hmacSecret: "ci-secret", scopes: [SCOPE.Notify]},
+]
+const configApiClient: AuthClient = {name: "config-api", token: "config-token", scopes: [SCOPE.Admin]}
+
+// serves the scope of the path to the clients of the auth service, with the body parsed as by server.ts
+async function withApi(authService: AuthService, run: (url: string) => Promise<void>) {
+    const app = express()
+    app.use(bodyParser.json({verify: (req: express.Request, res, buf) => req.rawBody = buf.toString()}))
+    app.post("/:scope", (req, res) => {
+        try {
+            res.json({client: authService.authorize(req, req.params.scope as SCOPE).name})
+        } catch (error: any) {
+            res.status(error.statusCode).json({message: error.message})
+        }
+    })
+    const server = http.createServer(app)
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", () => resolve()))
+    try {
+        await run("http://127.0.0.1:" + (server.address() as AddressInfo).port)
+    } finally {
+        await new Promise(resolve => server.close(resolve))
+    }
+}
+
+function post(url: string, body: any, headers: { [name: string]: string } = {}) {
+    return axios.post(url, body, {headers: {"Content-Type": "application/json", ...headers}, validateStatus: () => true, transformRequest: data => data})
+}
+
+function sign(secret: string, timestamp: number, path: string, body: string): string {
+    return "sha256=" + createHmac("sha256", secret).update(timestamp + ".POST." + path + "." + body).digest("hex")
+}
+
+function signed(client: string, secret: string, path: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)) {
+    return {[AUTH_HEADER.Client]: client, [AUTH_HEADER.Timestamp]: String(timestamp), [AUTH_HEADER.Signature]: sign(secret, timestamp, path, body)}
+}
+
+test("auth is only enabled for the routes the configured clients turn it on for", () => {
+    assert.strictEqual(new AuthService([], undefined, silentLogger).isEnabled(), false)
+    assert.strictEqual(new AuthService([], undefined, silentLogger).isAdminEnabled(), false)
+    assert.strictEqual(new AuthService([], configApiClient, silentLogger).isEnabled(), false)
+    assert.strictEqual(new AuthService([], configApiClient, silentLogger).isAdminEnabled(), true)
+    assert.strictEqual(new AuthService(clients, undefined, silentLogger).isEnabled(), true)
+    assert.strictEqual(new AuthService(clients, undefined, silentLogger).isAdminEnabled(), true)
+})
+
+test("bearer tokens authenticate their client, which needs the scope of the route", () => withApi(new AuthService(clients, configApiClient, silentLogger), async url => {
+    const notify = await post(url + "/notify", "{}", {Authorization: "Bearer orchestrator-token"})
+    assert.deepStrictEqual([notify.status, notify.data], [200, {client: "orchestrator"}])
+    const admin = await post(url + "/admin", "{}", {Authorization: "bearer config-token"})
+    assert.deepStrictEqual([admin.status, admin.data], [200, {client: "config-api"}])
+
+    const lackingScope = await post(url + "/admin", "{}", {Authorization: "Bearer orchestrator-token"})
+    assert.deepStrictEqual([lackingScope.status, lackingScope.data.message], [403, "client orchestrator lacks the admin scope"])
+    const configApiNotify = await post(url + "/notify", "{}", {Authorization: "Bearer config-token"})
+    assert.strictEqual(configApiNotify.status, 403)
+    const invalid = await post(url + "/notify", "{}", {Authorization: "Bearer orchestrator-tokenx"})
+    assert.deepStrictEqual([invalid.status, invalid.data.message], [401, "invalid bearer token"])
+    const missing = await post(url + "/notify", "{}")
+    assert.deepStrictEqual([missing.status, missing.data.message], [401, "missing credentials"])
+}))
+
+test("signed requests are verified against the raw body and can't be replayed", () => withApi(new AuthService(clients, undefined, silentLogger), async url => {
+    // spacing which JSON.stringify of the parsed body wouldn't reproduce
+    const body = '{ "eventTypeId" : 1 }'
+    const headers = signed("ci", "ci-secret", "/notify", body)
+    const accepted = await post(url + "/notify", body, headers)
+    assert.deepStrictEqual([accepted.status, accepted.data], [200, {client: "ci"}])
+
+    const replayed = await post(url + "/notify", body, headers)
+    assert.deepStrictEqual([replayed.status, replayed.data.message], [401, "signature was already used"])
+
+    const tampered = await post(url + "/notify", '{ "eventTypeId" : 2 }', signed("ci", "ci-secret", "/notify", body))
+    assert.deepStrictEqual([tampered.status, tampered.data.message], [401, "invalid signature"])
+    const otherPath = await post(url + "/preview", body, signed("ci", "ci-secret", "/notify", body))
+    assert.deepStrictEqual([otherPath.status, otherPath.data.message], [401, "invalid signature"])
+    const wrongSecret = await post(url + "/notify", body, signed("ci", "other-secret", "/notify", body))
+    assert.deepStrictEqual([wrongSecret.status, wrongSecret.data.message], [401, "invalid signature"])
+    const unknown = await post(url + "/notify", body, signed("unknown", "ci-secret", "/notify", body))
+    assert.strictEqual(unknown.status, 401)
+    const tokenClient = await post(url + "/notify", body, signed("orchestrator", "orchestrator-token", "/notify", body))
+    assert.strictEqual(tokenClient.status, 401)
+
+    const stale = await post(url + "/notify", body, signed("ci", "ci-secret", "/notify", body, Math.floor(Date.now() / 1000) - hmacTolerance - 5))
+    assert.strictEqual(stale.status, 401)
+    assert.ok(stale.data.message.startsWith(AUTH_HEADER.Timestamp), stale.data.message)
+
+    const lackingScope = await post(url + "/preview", body, signed("ci", "ci-secret", "/preview", body))
+    assert.strictEqual(lackingScope.status, 403)
+}))
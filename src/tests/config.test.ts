@@ -0,0 +1,118 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {test} from "./harness";
+import {DestinationConfigService} from "../notification/service/destinationConfigService";
+import {SlackConfig} from "../entities/slackConfig";
+import {SesConfig} from "../entities/sesConfig";
+import {SMTPConfig} from "../entities/smtpConfig";
+import {WebhookConfig} from "../entities/webhookconfig";
+import {CustomError} from "../entities/events";
+import {MemoryDestinationConfigRepository} from "./fakes";
+
+function configService(): { service: DestinationConfigService, repository: MemoryDestinationConfigRepository } {
+    const repository = new MemoryDestinationConfigRepository()
+    return {service: new DestinationConfigService(repository), repository: repository}
+}
+
+const ses = {region: "us-east-1", access_key: "AKIA", secret_access_key: "aws-secret", from_email: "notifier@example.com", config_name: "ses"}
+
+function rejectedWith(statusCode: number, message?: string) {
+    return (err: CustomError) => err instanceof CustomError && err.statusCode == statusCode && (!message || err.message == message)
+}
+
+test("configs are created with the audit columns of the orchestrator and listed", async () => {
+    const {service, repository} = configService()
+    const created = await service.createConfig("slack", {web_hook_url: "https://hooks.slack.com/services/T0/B0/x", config_name: "alerts", team_id: 3})
+    assert.deepStrictEqual([created.id, created.config_name, created.team_id, created.deleted, created.created_by, created.updated_by], [1, "alerts", 3, false, 1, 1])
+    assert.ok(created.created_on instanceof Date)
+    await service.createConfig("teams", {web_hook_url: "https://example.webhook.office.com/x", config_name: "team"})
+    // teams configs are the notifier's own, without audit columns
+    assert.strictEqual(repository.table(SlackConfig).length, 1)
+    assert.deepStrictEqual((await service.listConfigs("teams"))[0].created_by, undefined)
+    assert.deepStrictEqual((await service.listConfigs("slack")).map(c => c.config_name), ["alerts"])
+    assert.deepStrictEqual((await service.getConfig("slack", "1")).web_hook_url, "https://hooks.slack.com/services/T0/B0/x")
+})
+
+test("config secrets are stored but never returned", async () => {
+    const {service, repository} = configService()
+    const created = await service.createConfig("ses", ses)
+    assert.strictEqual(created.secret_access_key, undefined)
+    assert.strictEqual(repository.table(SesConfig)[0].secret_access_key, "aws-secret")
+    await service.createConfig("webhook", {web_hook_url: "https://hooks.example.com", config_name: "hook", header: {Authorization: "Bearer abc"}})
+    const [webhook] = await service.listConfigs("webhook")
+    assert.deepStrictEqual([webhook.header, webhook.active], [undefined, true])
+    assert.deepStrictEqual(repository.table(WebhookConfig)[0].header, {Authorization: "Bearer abc"})
+    assert.strictEqual((await service.findStoredConfig("ses", 1)).secret_access_key, "aws-secret")
+})
+
+test("updates keep the fields left out, secrets included", async () => {
+    const {service, repository} = configService()
+    await service.createConfig("ses", ses)
+    const updated = await service.updateConfig("ses", 1, {from_email: "alerts@example.com"})
+    assert.strictEqual(updated.from_email, "alerts@example.com")
+    assert.strictEqual(repository.table(SesConfig)[0].secret_access_key, "aws-secret")
+    assert.strictEqual(repository.table(SesConfig)[0].region, "us-east-1")
+    await assert.rejects(service.updateConfig("ses", 1, {region: null}), rejectedWith(400, "region is required"))
+    await assert.rejects(service.updateConfig("ses", 2, {region: "eu-west-1"}), rejectedWith(404))
+})
+
+test("a single email config is the default, deleted ones aren't", async () => {
+    const {service, repository} = configService()
+    const first = await service.createConfig("smtp", {host: "smtp.example.com", port: 587, from_email: "a@example.com", config_name: "first", default: true})
+    const second = await service.createConfig("smtp", {host: "smtp.example.com", port: "25", from_email: "b@example.com", config_name: "second"})
+    assert.deepStrictEqual([first.default, second.default], [true, false])
+    // ports are stored as text
+    assert.deepStrictEqual(repository.table(SMTPConfig).map(row => row.port), ["587", "25"])
+
+    assert.strictEqual((await service.setDefaultConfig("smtp", 2)).default, true)
+    assert.deepStrictEqual((await service.listConfigs("smtp")).map(c => [c.id, c.default]), [[1, false], [2, true]])
+
+    await service.deleteConfig("smtp", 2)
+    assert.deepStrictEqual(repository.table(SMTPConfig).map(row => [row.id, row.deleted, row.default]), [[1, false, "false"], [2, true, "false"]])
+    assert.deepStrictEqual((await service.listConfigs("smtp")).map(c => c.id), [1])
+    await assert.rejects(service.getConfig("smtp", 2), rejectedWith(404))
+    await assert.rejects(service.setDefaultConfig("slack", 1), rejectedWith(400, "slack configs have no default"))
+})
+
+const invalid: [string, any, string][] = [
+    ["slack", {web_hook_url: "ftp://hooks.example.com", config_name: "x"}, "web_hook_url must be a valid http or https url"],
+    ["slack", {web_hook_url: "not a url", config_name: "x"}, "web_hook_url must be a valid http or https url"],
+    ["slack", {web_hook_url: "https://hooks.example.com", config_name: "x", team_id: "3"}, "team_id must be an integer"],
+    ["slack", {web_hook_url: "https://hooks.example.com"}, "config_name is required"],
+    ["slack", {web_hook_url: "https://hooks.example.com", config_name: 5}, "config_name must be a string"],
+    ["ses", {...ses, from_email: "notifier"}, "from_email must be a valid email address"],
+    ["ses", {...ses, default: "yes"}, "default must be true or false"],
+    ["smtp", {host: "smtp.example.com", port: 0, from_email: "a@example.com", config_name: "x"}, "port must be a port between 1 and 65535"],
+    ["smtp", {host: "smtp.example.com", port: 70000, from_email: "a@example.com", config_name: "x"}, "port must be a port between 1 and 65535"],
+    ["smtp", {host: "smtp.example.com", port: "smtp", from_email: "a@example.com", config_name: "x"}, "port must be a port between 1 and 65535"],
+    ["webhook", {web_hook_url: "https://hooks.example.com", config_name: "x", active: "yes"}, "active must be true or false"],
+    ["webhook", {web_hook_url: "https://hooks.example.com", config_name: "x", header: ["Authorization"]}, "header must be an object of string values"],
+    ["webhook", {web_hook_url: "https://hooks.example.com", config_name: "x", header: {retries: 3}}, "header must be an object of string values"],
+    ["pagerduty", {config_name: "x"}, "routing_key is required"],
+]
+
+test("configs with invalid fields are rejected with a bad request", async () => {
+    const {service, repository} = configService()
+    for (const [type, body, message] of invalid) {
+        await assert.rejects(service.createConfig(type, body), rejectedWith(400, message), type + " " + JSON.stringify(body))
+    }
+    assert.deepStrictEqual([...repository.tables.values()].map(rows => rows.length).filter(count => count > 0), [])
+    await assert.rejects(service.listConfigs("email"), rejectedWith(404))
+    await assert.rejects(service.getConfig("slack", "first"), rejectedWith(400, "id must be an integer"))
+})
@@ -0,0 +1,226 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {silentLogger, StubServer, test} from "./harness";
+import {DigestService} from "../digest/digestService";
+import {DIGEST_NODE_TYPE, digestMaxEvents} from "../digest/utils";
+import {NotificationDigestRepository} from "../repository/notificationDigestRepository";
+import {NotificationDigestConfig} from "../entities/notificationDigestConfig";
+import {NotificationDigestEvent} from "../entities/notificationDigestEvent";
+import {SlackService} from "../destination/destinationHandlers/slackHandler";
+import {TeamsService} from "../destination/destinationHandlers/teamsHandler";
+import {WebhookService} from "../destination/destinationHandlers/webhookHandler";
+import {EventLogBuilder} from "../common/eventLogBuilder";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {EVENT_TYPE} from "../common/types";
+import {Event} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {NotificationTemplates} from "../entities/notificationTemplates";
+import {SlackConfig} from "../entities/slackConfig";
+import {TeamsConfig} from "../entities/teamsConfig";
+import {WebhookConfig} from "../entities/webhookconfig";
+import {RetryService} from "../retry/retryService";
+import {NotificationRetryRepository} from "../repository/notificationRetryRepository";
+import {
+    MemoryEventLogRepository,
+    MemorySlackConfigRepository,
+    MemoryTeamsConfigRepository,
+    MemoryTemplatesRepository,
+    MemoryWebhookConfigRepository
+} from "./fakes";
+
+// keeps the digest configs and buffered events in memory instead of the database
+class MemoryNotificationDigestRepository extends NotificationDigestRepository {
+    configs: NotificationDigestConfig[]
+    events: NotificationDigestEvent[] = []
+
+    constructor(configs: NotificationDigestConfig[]) {
+        super()
+        this.configs = configs
+    }
+
+    async findDigestConfig(settingId: number, eventTypeId: number): Promise<NotificationDigestConfig> {
+        const configs = this.configs.filter(c => c.event_type_id == eventTypeId && (c.notification_setting_id == null || c.notification_setting_id == settingId))
+        return configs.find(c => c.notification_setting_id != null) ?? configs[0]
+    }
+
+    async findBufferedDigestEvent(digestKey: string) {
+        return this.events.find(e => e.digest_key == digestKey && !e.lease_until)
+    }
+
+    async saveDigestEvent(digestEvent: Partial<NotificationDigestEvent>) {
+        const saved = Object.assign(new NotificationDigestEvent(), digestEvent, {id: this.events.length + 1})
+        this.events.push(saved)
+        return saved
+    }
+
+    async claimDueDigestEvents(limit: number, leaseUntil: Date): Promise<NotificationDigestEvent[]> {
+        const now = Date.now()
+        const due = this.events.filter(e => e.flush_at.getTime() <= now && (!e.lease_until || e.lease_until.getTime() <= now)).slice(0, limit)
+        due.forEach(e => e.lease_until = leaseUntil)
+        return due
+    }
+
+    async deleteDigestEvents(ids: number[]) {
+        this.events = this.events.filter(e => !ids.includes(e.id))
+        return undefined
+    }
+
+    // the digest windows end right away instead of after their window
+    makeDue() {
+        this.events.forEach(e => {
+            e.flush_at = new Date(Date.now() - 1000)
+            e.lease_until = null
+        })
+    }
+}
+
+const digestTemplates = [
+    Object.assign(new NotificationTemplates(), {channel_type: "slack", node_type: DIGEST_NODE_TYPE, template_payload: '{"text": "{{count}} {{title}}: {{#events}}{{appName}} {{/events}}and {{omitted}} more"}'}),
+    Object.assign(new NotificationTemplates(), {channel_type: "teams", node_type: DIGEST_NODE_TYPE, template_payload: '{"type": "AdaptiveCard", "body": [{"type": "TextBlock", "text": "{{count}} {{title}}"}]}'}),
+    Object.assign(new NotificationTemplates(), {channel_type: "webhook", node_type: DIGEST_NODE_TYPE, template_payload: '{"count": {{count}}, "omitted": {{omitted}}}'}),
+]
+
+interface Digests {
+    service: DigestService
+    repository: MemoryNotificationDigestRepository
+    logs: MemoryEventLogRepository
+}
+
+function digestService(url: string, configs: NotificationDigestConfig[], templates: NotificationTemplates[] = digestTemplates): Digests {
+    const repository = new MemoryNotificationDigestRepository(configs)
+    const logs = new MemoryEventLogRepository()
+    const mh = new MustacheHelper()
+    // no handler is registered, failed digests are reported rather than queued
+    const retryService = new RetryService(new NotificationRetryRepository(), logs, new EventLogBuilder(), silentLogger)
+    const slackConfigs = new MemorySlackConfigRepository([Object.assign(new SlackConfig(), {id: 1, web_hook_url: url + "/slack"})])
+    const teamsConfigs = new MemoryTeamsConfigRepository([Object.assign(new TeamsConfig(), {id: 2, web_hook_url: url + "/teams"})])
+    const webhookConfigs = new MemoryWebhookConfigRepository([Object.assign(new WebhookConfig(), {id: 3, web_hook_url: url + "/webhook", payload: '{"count": {{count}}}', header: {}})])
+    const service = new DigestService(repository, new MemoryTemplatesRepository(templates), slackConfigs, teamsConfigs, webhookConfigs,
+        new SlackService(logs, new EventLogBuilder(), slackConfigs, silentLogger, mh, retryService),
+        new TeamsService(logs, new EventLogBuilder(), teamsConfigs, silentLogger, mh, retryService),
+        new WebhookService(logs, new EventLogBuilder(), webhookConfigs, silentLogger, mh, retryService),
+        new EventLogBuilder(), mh, silentLogger)
+    return {service: service, repository: repository, logs: logs}
+}
+
+async function withStub(run: (url: string, stub: StubServer) => Promise<void>, statuses: number[] = []) {
+    const stub = new StubServer(() => ({status: statuses.shift() ?? 200, body: {}}))
+    const url = await stub.start()
+    try {
+        await run(url, stub)
+    } finally {
+        await stub.close()
+    }
+}
+
+function digestConfig(fields: Partial<NotificationDigestConfig> = {}): NotificationDigestConfig {
+    return Object.assign(new NotificationDigestConfig(), {id: 1, notification_setting_id: null, event_type_id: EVENT_TYPE.Trigger, window_seconds: 600, active: true}, fields)
+}
+
+function event(appName: string, eventTypeId: number = EVENT_TYPE.Trigger): Event {
+    return {eventTypeId: eventTypeId, pipelineType: "CI", pipelineId: 1, correlationId: "trigger-" + appName, eventTime: "2024-03-01T10:00:00Z",
+        baseUrl: "https://devtron.example.com", payload: {appName: appName, pipelineName: appName + "-ci", material: {}}} as Event
+}
+
+function setting(id: number, ...providers: any[]): NotificationSettings {
+    return Object.assign(new NotificationSettings(), {id: id, pipeline_id: 1, event_type_id: EVENT_TYPE.Trigger, config: providers})
+}
+
+function providersOf(settings: NotificationSettings[]): string[] {
+    return [].concat(...settings.map(s => (s.config as any).map(p => p.dest)))
+}
+
+test("events of digested types are buffered for the chat and webhook destinations, other destinations are notified right away", () => withStub(async url => {
+    const {service, repository} = digestService(url, [digestConfig()])
+    const {settings, outcomes} = await service.bufferEvents(event("app-1"), [setting(1, {dest: "slack", configId: 1}, {dest: "ses", recipient: "ops@example.com"}, {dest: "webhook", configId: 3})])
+    assert.deepStrictEqual(providersOf(settings), ["ses"])
+    assert.deepStrictEqual(outcomes.map(o => [o.destination, o.configId, o.success, o.deferred]), [["slack", 1, true, true], ["webhook", 3, true, true]])
+    const windowEnd = repository.events[0].flush_at.getTime() - Date.now()
+    assert.ok(windowEnd > 590 * 1000 && windowEnd <= 600 * 1000, String(windowEnd))
+
+    const other = await service.bufferEvents(event("app-2", EVENT_TYPE.Fail), [setting(1, {dest: "slack", configId: 1})])
+    assert.deepStrictEqual(providersOf(other.settings), ["slack"])
+}))
+
+test("buffered events join the window of the first event of their digest", () => withStub(async url => {
+    const {service, repository} = digestService(url, [digestConfig({window_seconds: 1}), digestConfig({notification_setting_id: 2, window_seconds: 600})])
+    await service.bufferEvents(event("app-1"), [setting(1, {dest: "slack", configId: 1})])
+    await new Promise(resolve => setTimeout(resolve, 20))
+    await service.bufferEvents(event("app-2"), [setting(1, {dest: "slack", configId: 1}), setting(3, {dest: "slack", configId: 1})])
+    assert.strictEqual(repository.events.length, 2)
+    assert.strictEqual(repository.events[1].flush_at.getTime(), repository.events[0].flush_at.getTime())
+
+    // the config of the setting takes precedence
+    await service.bufferEvents(event("app-3"), [setting(2, {dest: "teams", configId: 2})])
+    assert.ok(repository.events[2].flush_at.getTime() - Date.now() > 590 * 1000)
+}))
+
+test("due digests are sent as a single summary of their events and removed", () => withStub(async (url, stub) => {
+    const {service, repository, logs} = digestService(url, [digestConfig()])
+    for (const appName of ["app-1", "app-2", "app-3", "app-4", "app-5"]) {
+        await service.bufferEvents(event(appName), [setting(1, {dest: "slack", configId: 1}, {dest: "teams", configId: 2}, {dest: "webhook", configId: 3})])
+    }
+    repository.makeDue()
+    await service.processDueDigests()
+
+    assert.deepStrictEqual(stub.requests.map(r => r.url).sort(), ["/slack", "/teams", "/webhook"])
+    const body = (path: string) => stub.requests.find(r => r.url == path).body
+    // only the latest events are listed
+    assert.strictEqual(digestMaxEvents, 3)
+    assert.strictEqual(body("/slack").text, "5 pipelines triggered: app-3 app-4 app-5 and 2 more")
+    assert.strictEqual(body("/teams").attachments[0].content.body[0].text, "5 pipelines triggered")
+    assert.deepStrictEqual(body("/webhook"), {count: 5, omitted: 2})
+    assert.strictEqual(repository.events.length, 0)
+    assert.deepStrictEqual(logs.logs.map(log => [log.destination, log.is_notification_sent]).sort(), [["slack", true], ["teams", true], ["webhook", true]])
+}))
+
+test("digests without a template are kept and the ones of removed configs dropped", () => withStub(async (url, stub) => {
+    const {service, repository} = digestService(url, [digestConfig()], digestTemplates.filter(t => t.channel_type == "teams"))
+    await service.bufferEvents(event("app-1"), [setting(1, {dest: "slack", configId: 1}, {dest: "teams", configId: 404})])
+    repository.makeDue()
+    await service.processDueDigests()
+    assert.strictEqual(stub.requests.length, 0)
+    assert.deepStrictEqual(repository.events.map(e => e.destination), ["slack"])
+}))
+
+test("digests the destination fails are sent again once their lease passed", () => withStub(async (url, stub) => {
+    const {service, repository} = digestService(url, [digestConfig()])
+    await service.bufferEvents(event("app-1"), [setting(1, {dest: "webhook", configId: 3})])
+    repository.makeDue()
+    await service.processDueDigests()
+    assert.strictEqual(repository.events.length, 1)
+    // still leased
+    await service.processDueDigests()
+    assert.strictEqual(stub.requests.length, 1)
+
+    repository.makeDue()
+    await service.processDueDigests()
+    assert.strictEqual(stub.requests.length, 2)
+    assert.strictEqual(repository.events.length, 0)
+}, [500]))
+
+test("events held back until a given time are digested apart from the windows of digest configs", () => withStub(async url => {
+    const {service, repository} = digestService(url, [digestConfig()])
+    const flushAt = new Date(Date.now() + 3600 * 1000)
+    const outcome = await service.bufferUntil(event("app-1"), setting(1), {dest: "slack", configId: 1}, flushAt)
+    await service.bufferEvents(event("app-2"), [setting(1, {dest: "slack", configId: 1})])
+    assert.deepStrictEqual([outcome.destination, outcome.deferred], ["slack", true])
+    assert.strictEqual(repository.events[0].flush_at.getTime(), flushAt.getTime())
+    assert.notStrictEqual(repository.events[0].digest_key, repository.events[1].digest_key)
+}))
@@ -0,0 +1,36 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as process from "process";
+
+// configuration the tests run with, imported by test.ts before anything else since the utils.ts files read it when loaded.
+// the tests pointing the notifier at a stand-in override the urls before starting it
+process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT = "http://127.0.0.1:4318/v1/traces"
+process.env.OTEL_SDK_DISABLED = "false"
+process.env.UNSUBSCRIBE_SECRET = "unsubscribe-secret"
+process.env.UNSUBSCRIBE_BASE_URL = "https://devtron.example.com/notifier/"
+process.env.SHUTDOWN_TIMEOUT = "1"
+process.env.SLACK_RATE_LIMIT = "2"
+process.env.SES_RATE_LIMIT = "2"
+process.env.RATE_LIMIT_WINDOW = "1"
+process.env.SECRET_ENCRYPTION_KEY = "AQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQE="
+process.env.SECRET_ENCRYPTION_OLD_KEYS = "AgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgI="
+process.env.ATTACHMENT_MAX_BYTES = "4096"
+process.env.ATTACHMENT_INLINE_MAX_BYTES = "2048"
+process.env.BUILD_LOG_MAX_LINES = "50"
+process.env.DIGEST_MAX_EVENTS = "3"
+process.env.HEALTH_CHECK_TIMEOUT = "1"
@@ -0,0 +1,123 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {test} from "./harness";
+import {EventLogService} from "../notification/service/eventLogService";
+import {DestinationDeliveryStats, EventLogFilter, EventLogRepository} from "../repository/notifierEventLogRepository";
+import {NotifierEventLog} from "../entities/notifierEventLogs";
+import {CustomError} from "../entities/events";
+import {EventLogBuilder} from "../common/eventLogBuilder";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {Event} from "../notification/service/notificationService";
+
+// records the queries the service makes instead of running them against notifier_event_log
+class RecordingEventLogRepository extends EventLogRepository {
+    queries: { filter: EventLogFilter, offset?: number, size?: number }[] = []
+    logs: NotifierEventLog[] = []
+
+    async findEventLogs(filter: EventLogFilter, offset: number, size: number): Promise<[NotifierEventLog[], number]> {
+        this.queries.push({filter: filter, offset: offset, size: size})
+        return [this.logs.slice(offset, offset + size), this.logs.length]
+    }
+
+    async getDeliveryStats(filter: EventLogFilter): Promise<DestinationDeliveryStats[]> {
+        this.queries.push({filter: filter})
+        return [{destination: "ses", sent: 3, failed: 1, total: 4}]
+    }
+}
+
+function log(id: number): NotifierEventLog {
+    return Object.assign(new NotifierEventLog(), {id: id, destination: "ses", is_notification_sent: true})
+}
+
+const noFilter: EventLogFilter = {
+    correlationId: undefined, pipelineId: undefined, pipelineType: undefined, eventTypeId: undefined,
+    destination: undefined, isNotificationSent: undefined, from: undefined, to: undefined,
+}
+
+test("event logs are filtered by the parsed query parameters", async () => {
+    const repository = new RecordingEventLogRepository()
+    const service = new EventLogService(repository)
+    await service.getEventLogs({
+        correlationId: "abc", pipelineId: "200", pipelineType: "CD", eventTypeId: "3", destination: "ses", sent: "false",
+        from: "2024-03-01T00:00:00Z", to: "2024-03-02T00:00:00Z",
+    })
+    assert.deepStrictEqual(repository.queries[0].filter, {
+        correlationId: "abc", pipelineId: 200, pipelineType: "CD", eventTypeId: 3, destination: "ses", isNotificationSent: false,
+        from: new Date("2024-03-01T00:00:00Z"), to: new Date("2024-03-02T00:00:00Z"),
+    })
+    await service.getEventLogs({correlationId: "", sent: "true", pipelineId: "0"})
+    assert.deepStrictEqual(repository.queries[1].filter, {...noFilter, isNotificationSent: true, pipelineId: 0})
+})
+
+test("event logs are paged, 20 at a time by default", async () => {
+    const repository = new RecordingEventLogRepository()
+    repository.logs = Array.from({length: 30}, (_, i) => log(i + 1))
+    const service = new EventLogService(repository)
+    const first = await service.getEventLogs({})
+    assert.deepStrictEqual([first.logs.length, first.total, first.offset, first.size], [20, 30, 0, 20])
+    const second = await service.getEventLogs({offset: "20", size: "100"})
+    assert.deepStrictEqual([second.logs.map(l => l.id), second.total, second.offset, second.size], [[21, 22, 23, 24, 25, 26, 27, 28, 29, 30], 30, 20, 100])
+})
+
+test("invalid event log queries are rejected with a bad request", async () => {
+    const service = new EventLogService(new RecordingEventLogRepository())
+    const invalid = [
+        {size: "0"}, {size: "101"}, {offset: "-1"}, {offset: "1.5"}, {pipelineId: "two"}, {eventTypeId: "x"},
+        {sent: "yes"}, {from: "yesterday"}, {from: "2024-03-02", to: "2024-03-01"},
+    ]
+    for (const query of invalid) {
+        await assert.rejects(service.getEventLogs(query), (err: CustomError) => err instanceof CustomError && err.statusCode == 400, JSON.stringify(query))
+    }
+    await assert.rejects(service.getDeliveryStats({to: "tomorrow"}), (err: CustomError) => err.statusCode == 400)
+})
+
+test("delivery stats are counted per destination over the filtered logs", async () => {
+    const repository = new RecordingEventLogRepository()
+    const stats = await new EventLogService(repository).getDeliveryStats({pipelineId: "200", from: "2024-03-01T00:00:00Z"})
+    assert.deepStrictEqual(stats, [{destination: "ses", sent: 3, failed: 1, total: 4}])
+    assert.deepStrictEqual(repository.queries[0], {filter: {...noFilter, pipelineId: 200, from: new Date("2024-03-01T00:00:00Z")}})
+})
+
+const builder = new EventLogBuilder()
+const event = {eventTypeId: 3, correlationId: "detail", eventTime: "2024-03-01T10:00:00Z", payload: {appName: "payments"}} as Event
+const setting = Object.assign(new NotificationSettings(), {pipeline_id: 200, pipeline_type: "CD", event_type_id: 3})
+
+test("event logs record the target, response, status, attempt and latency of a delivery", () => {
+    const eventLog = builder.buildEventLog(event, "webhook", false, setting, {configId: 7, target: "hooks.example.com", response: "bad gateway", statusCode: 502, attempt: 3, latency: 120})
+    assert.deepStrictEqual([eventLog.destination, eventLog.source_id, eventLog.pipeline_type, eventLog.event_type_id, eventLog.correlation_id, eventLog.is_notification_sent],
+        ["webhook", 200, "CD", 3, "detail", false])
+    assert.deepStrictEqual([eventLog.config_id, eventLog.target, eventLog.response, eventLog.status_code, eventLog.attempt, eventLog.latency_ms],
+        [7, "hooks.example.com", "bad gateway", 502, 3, 120])
+
+    const withoutDetail = builder.buildEventLog(event, "slack", true, Object.assign(new NotificationSettings(), setting, {pipeline_type: undefined}))
+    assert.deepStrictEqual([withoutDetail.pipeline_type, withoutDetail.config_id, withoutDetail.response, withoutDetail.attempt], ["NA", undefined, undefined, 1])
+})
+
+test("event logs keep the start of long responses", () => {
+    const response = builder.buildEventLog(event, "webhook", false, setting, {response: "x".repeat(5000)}).response
+    assert.strictEqual(response, "x".repeat(2000) + "...")
+    assert.strictEqual(builder.buildEventLog(event, "webhook", false, setting, {response: "x".repeat(2000)}).response, "x".repeat(2000))
+})
+
+test("responses are described as text and webhook urls by their host", () => {
+    assert.deepStrictEqual([builder.describeResponse("ok"), builder.describeResponse({id: 1}), builder.describeResponse(null), builder.describeResponse(undefined)],
+        ["ok", '{"id":1}', undefined, undefined])
+    assert.deepStrictEqual([builder.getUrlHost("https://hooks.slack.com/services/T0/B0/secret"), builder.getUrlHost("http://127.0.0.1:8080/hook"), builder.getUrlHost("not a url"), builder.getUrlHost(undefined)],
+        ["hooks.slack.com", "127.0.0.1:8080", undefined, undefined])
+})
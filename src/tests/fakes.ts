@@ -0,0 +1,247 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {EventLogRepository} from "../repository/notifierEventLogRepository";
+import {NotifierEventLog} from "../entities/notifierEventLogs";
+import {NotificationSettingsRepository} from "../repository/notificationSettingsRepository";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {NotificationTemplatesRepository} from "../repository/templatesRepository";
+import {NotificationTemplates} from "../entities/notificationTemplates";
+import {SlackConfigRepository} from "../repository/slackConfigRepository";
+import {SlackConfig} from "../entities/slackConfig";
+import {TeamsConfigRepository} from "../repository/teamsConfigRepository";
+import {TeamsConfig} from "../entities/teamsConfig";
+import {WebhookConfigRepository} from "../repository/webhookConfigRepository";
+import {WebhookConfig} from "../entities/webhookconfig";
+import {SESConfigRepository} from "../repository/sesConfigRepository";
+import {SesConfig} from "../entities/sesConfig";
+import {SMTPConfigRepository} from "../repository/smtpConfigRepository";
+import {SMTPConfig} from "../entities/smtpConfig";
+import {UsersRepository} from "../repository/usersRepository";
+import {Users} from "../entities/users";
+import {PagerDutyConfigRepository} from "../repository/pagerDutyConfigRepository";
+import {PagerDutyConfig} from "../entities/pagerDutyConfig";
+import {OpsgenieConfigRepository} from "../repository/opsgenieConfigRepository";
+import {OpsgenieConfig} from "../entities/opsgenieConfig";
+import {UserPreferenceRepository} from "../repository/userPreferenceRepository";
+import {UserPreference} from "../entities/userPreference";
+import {DestinationConfigRepository} from "../repository/destinationConfigRepository";
+import {EntityTarget} from "typeorm";
+
+// repositories keeping their rows in memory instead of the database, the ones holding configs are filled by the test
+
+export class MemoryEventLogRepository extends EventLogRepository {
+    logs: NotifierEventLog[] = []
+
+    async saveEventLog(eventLog) {
+        this.logs.push(eventLog)
+        return eventLog
+    }
+}
+
+// every event is matched by the same settings
+export class MemoryNotificationSettingsRepository extends NotificationSettingsRepository {
+    settings: NotificationSettings[]
+
+    constructor(settings: NotificationSettings[]) {
+        super()
+        this.settings = settings
+    }
+
+    async findByEventSource(): Promise<NotificationSettings[]> {
+        return this.settings
+    }
+}
+
+export class MemoryTemplatesRepository extends NotificationTemplatesRepository {
+    templates: NotificationTemplates[]
+
+    constructor(templates: NotificationTemplates[]) {
+        super()
+        this.templates = templates
+    }
+
+    async findByEventTypeIdAndNodeType(eventTypeId: number, nodeType: string) {
+        return this.templates
+    }
+
+    async findByEventTypeId(eventTypeId: number) {
+        return this.templates
+    }
+}
+
+export class MemorySlackConfigRepository extends SlackConfigRepository {
+    configs: SlackConfig[]
+
+    constructor(configs: SlackConfig[]) {
+        super()
+        this.configs = configs
+    }
+
+    async findBySlackConfigId(slackConfigId: number) {
+        return this.configs.find(config => config.id == slackConfigId)
+    }
+}
+
+export class MemoryTeamsConfigRepository extends TeamsConfigRepository {
+    configs: TeamsConfig[]
+
+    constructor(configs: TeamsConfig[]) {
+        super()
+        this.configs = configs
+    }
+
+    async findByTeamsConfigId(teamsConfigId: number) {
+        return this.configs.find(config => config.id == teamsConfigId)
+    }
+}
+
+export class MemoryWebhookConfigRepository extends WebhookConfigRepository {
+    configs: WebhookConfig[]
+
+    constructor(configs: WebhookConfig[]) {
+        super()
+        this.configs = configs
+    }
+
+    async findByWebhookConfigId(webhookConfigId: number) {
+        return this.configs.find(config => config.id == webhookConfigId)
+    }
+}
+
+export class MemorySESConfigRepository extends SESConfigRepository {
+    configs: SesConfig[]
+
+    constructor(configs: SesConfig[]) {
+        super()
+        this.configs = configs
+    }
+
+    async findBySESConfigId(id: number) {
+        return this.configs.find(config => config.id == id)
+    }
+
+    async findDefaultSESConfig() {
+        return this.configs.find(config => config.default == "true")
+    }
+}
+
+export class MemorySMTPConfigRepository extends SMTPConfigRepository {
+    configs: SMTPConfig[]
+
+    constructor(configs: SMTPConfig[]) {
+        super()
+        this.configs = configs
+    }
+
+    async findBySMTPConfigId(id: number) {
+        return this.configs.find(config => config.id == id)
+    }
+
+    async findDefaultSMTPConfig() {
+        return this.configs.find(config => config.default == "true")
+    }
+}
+
+export class MemoryUsersRepository extends UsersRepository {
+    users: Users[]
+
+    constructor(users: Users[]) {
+        super()
+        this.users = users
+    }
+
+    async findByUserId(id: number) {
+        return this.users.find(user => user.id == id)
+    }
+}
+
+export class MemoryPagerDutyConfigRepository extends PagerDutyConfigRepository {
+    configs: PagerDutyConfig[]
+
+    constructor(configs: PagerDutyConfig[]) {
+        super()
+        this.configs = configs
+    }
+
+    async findByPagerDutyConfigId(pagerDutyConfigId: number) {
+        return this.configs.find(config => config.id == pagerDutyConfigId)
+    }
+}
+
+export class MemoryOpsgenieConfigRepository extends OpsgenieConfigRepository {
+    configs: OpsgenieConfig[]
+
+    constructor(configs: OpsgenieConfig[]) {
+        super()
+        this.configs = configs
+    }
+
+    async findByOpsgenieConfigId(opsgenieConfigId: number) {
+        return this.configs.find(config => config.id == opsgenieConfigId)
+    }
+}
+
+export class MemoryUserPreferenceRepository extends UserPreferenceRepository {
+    preferences = new Map<string, UserPreference>()
+
+    async findByEmail(email: string): Promise<UserPreference> {
+        return this.preferences.get(email)
+    }
+
+    async save(preference: UserPreference): Promise<UserPreference> {
+        this.preferences.set(preference.email, preference)
+        return preference
+    }
+}
+
+// configs of every destination type, rows are copied in and out as they would be by the database
+export class MemoryDestinationConfigRepository extends DestinationConfigRepository {
+    tables = new Map<EntityTarget<any>, any[]>()
+
+    table(entity: EntityTarget<any>): any[] {
+        if (!this.tables.has(entity)) {
+            this.tables.set(entity, [])
+        }
+        return this.tables.get(entity)
+    }
+
+    async findConfigs(entity: EntityTarget<any>) {
+        return this.table(entity).filter(row => !row.deleted).map(row => ({...row}))
+    }
+
+    async findConfig(entity: EntityTarget<any>, id: number) {
+        const row = this.table(entity).find(row => row.id == id && !row.deleted)
+        return row ? {...row} : undefined
+    }
+
+    async saveConfig(entity: EntityTarget<any>, config: any) {
+        const rows = this.table(entity)
+        const saved = {...config, id: config.id ?? rows.length + 1}
+        const index = rows.findIndex(row => row.id == saved.id)
+        if (index == -1) {
+            rows.push(saved)
+        } else {
+            rows[index] = saved
+        }
+        return {...saved}
+    }
+
+    async markDefault(entity: EntityTarget<any>, id: number) {
+        this.table(entity).filter(row => !row.deleted).forEach(row => row.default = row.id == id ? 'true' : 'false')
+    }
+}
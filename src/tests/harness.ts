@@ -0,0 +1,113 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as http from "http";
+import {AddressInfo} from "net";
+
+// tests are plain functions throwing on failure, the *.test.ts files in this directory register them and test.ts runs them
+type TestFunction = () => Promise<void> | void
+
+const tests: { name: string, run: TestFunction }[] = []
+
+export function test(name: string, run: TestFunction) {
+    tests.push({name: name, run: run})
+}
+
+// runs the registered tests one after the other, returns the failures
+export async function runTests(): Promise<string[]> {
+    const failures: string[] = []
+    for (const {name, run} of tests) {
+        try {
+            await run()
+        } catch (error: any) {
+            failures.push(name + ": " + (error?.stack ?? error))
+        }
+    }
+    return failures
+}
+
+export const silentLogger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+    child: () => silentLogger,
+}
+
+export interface RecordedRequest {
+    method: string
+    url: string
+    headers: http.IncomingHttpHeaders
+    // parsed when it's json
+    body: any
+}
+
+export interface StubResponse {
+    status: number
+    body?: any
+}
+
+// a local stand-in of an http api, records the requests it receives and answers them with the given response
+export class StubServer {
+    requests: RecordedRequest[] = []
+    private respond: (request: RecordedRequest) => StubResponse
+    private server: http.Server
+
+    constructor(respond: (request: RecordedRequest) => StubResponse = () => ({status: 202, body: {}})) {
+        this.respond = respond
+    }
+
+    // listens on a free port of the loopback interface and returns the url it is reached at
+    public start(): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            const chunks: Buffer[] = []
+            req.on("data", chunk => chunks.push(chunk))
+            req.on("end", () => {
+                const text = Buffer.concat(chunks).toString()
+                let body: any = text
+                try {
+                    body = JSON.parse(text)
+                } catch (error) {
+                    // kept as text
+                }
+                const request = {method: req.method, url: req.url, headers: req.headers, body: body}
+                this.requests.push(request)
+                const response = this.respond(request)
+                res.writeHead(response.status, {"Content-Type": "application/json"})
+                res.end(JSON.stringify(response.body ?? {}))
+            })
+        })
+        return new Promise(resolve => this.server.listen(0, "127.0.0.1", () => {
+            resolve("http://127.0.0.1:" + (this.server.address() as AddressInfo).port)
+        }))
+    }
+
+    public close(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()))
+    }
+}
+
+// resolves once the condition holds, fails after the timeout
+export async function eventually(condition: () => boolean, timeout: number = 5000) {
+    const deadline = Date.now() + timeout
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error("condition not met within " + timeout + "ms")
+        }
+        await new Promise(resolve => setTimeout(resolve, 20))
+    }
+}
@@ -0,0 +1,173 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {DataSource} from "typeorm";
+import {ConsumerInfo, NatsConnection} from "nats";
+import {silentLogger, test} from "./harness";
+import {HealthService} from "../health/healthService";
+import {HEALTH_STATUS} from "../health/utils";
+import {PubSubServiceImpl, Subscription} from "../pubSub/pubSub";
+import {SUBSCRIPTION_STATE} from "../pubSub/utils";
+import {SesConfig} from "../entities/sesConfig";
+import {SMTPConfig} from "../entities/smtpConfig";
+import {MemorySESConfigRepository, MemorySMTPConfigRepository} from "./fakes";
+
+// a connection which answers queries until it is closed, or never when it hangs
+class FakeDataSource {
+    isInitialized = true
+    hangs = false
+
+    async query(sql: string) {
+        if (this.hangs) {
+            return new Promise(() => undefined)
+        }
+        return [{"?column?": 1}]
+    }
+}
+
+class FakeNatsConnection {
+    closed = false
+
+    isClosed() {
+        return this.closed
+    }
+
+    getServer() {
+        return "nats://127.0.0.1:4222"
+    }
+}
+
+class FakePubSub {
+    subscriptions: Subscription[] = [
+        {topic: "CD-TOPIC", streamName: "ORCHESTRATOR", consumerName: "cd-consumer", state: SUBSCRIPTION_STATE.Subscribed},
+        {topic: "CI-TOPIC", streamName: "ORCHESTRATOR", consumerName: "ci-consumer", state: SUBSCRIPTION_STATE.Subscribed},
+    ]
+    unreachable = new Set<string>()
+
+    getSubscriptions() {
+        return this.subscriptions
+    }
+
+    async getConsumerInfo(subscription: Subscription) {
+        if (this.unreachable.has(subscription.consumerName)) {
+            throw new Error("consumer not found")
+        }
+        return {num_pending: 4, num_ack_pending: 1, num_redelivered: 2} as ConsumerInfo
+    }
+}
+
+interface Watched {
+    service: HealthService
+    database: FakeDataSource
+    nats: FakeNatsConnection
+    pubSub: FakePubSub
+}
+
+function watched(sesConfigs: SesConfig[] = [Object.assign(new SesConfig(), {id: 2, default: "true"})],
+                 smtpConfigs: SMTPConfig[] = [Object.assign(new SMTPConfig(), {id: 3, default: "true"})]): Watched {
+    const service = new HealthService(new MemorySESConfigRepository(sesConfigs), new MemorySMTPConfigRepository(smtpConfigs), true, silentLogger)
+    const database = new FakeDataSource()
+    const nats = new FakeNatsConnection()
+    const pubSub = new FakePubSub()
+    service.watchDatabase(database as unknown as DataSource)
+    service.watchNats(nats as unknown as NatsConnection, pubSub as unknown as PubSubServiceImpl)
+    return {service: service, database: database, nats: nats, pubSub: pubSub}
+}
+
+test("the notifier is ready once the database answers and every consumer is subscribed", async () => {
+    const {service} = watched()
+    const report = await service.checkReadiness()
+    assert.strictEqual(report.status, HEALTH_STATUS.Ok)
+    assert.strictEqual(report.checks.database.status, HEALTH_STATUS.Ok)
+    assert.strictEqual(typeof report.checks.database.latency, "number")
+    assert.deepStrictEqual(report.checks.nats, {
+        status: HEALTH_STATUS.Ok, server: "nats://127.0.0.1:4222", consumers: [
+            {topic: "CD-TOPIC", stream: "ORCHESTRATOR", consumer: "cd-consumer", state: SUBSCRIPTION_STATE.Subscribed, pending: 4, ackPending: 1, redelivered: 2},
+            {topic: "CI-TOPIC", stream: "ORCHESTRATOR", consumer: "ci-consumer", state: SUBSCRIPTION_STATE.Subscribed, pending: 4, ackPending: 1, redelivered: 2},
+        ]
+    })
+    assert.deepStrictEqual([report.checks.sesConfig, report.checks.smtpConfig], [{status: HEALTH_STATUS.Ok, configId: 2}, {status: HEALTH_STATUS.Ok, configId: 3}])
+    assert.deepStrictEqual(await service.checkLiveness(), {status: HEALTH_STATUS.Ok, checks: {database: {status: HEALTH_STATUS.Ok}, nats: {status: HEALTH_STATUS.Ok}}})
+})
+
+test("missing default email configs are reported without failing readiness", async () => {
+    const {service} = watched([], [])
+    const report = await service.checkReadiness()
+    assert.strictEqual(report.status, HEALTH_STATUS.Ok)
+    assert.deepStrictEqual([report.checks.sesConfig, report.checks.smtpConfig], [{status: HEALTH_STATUS.Warn, error: "no default config"}, {status: HEALTH_STATUS.Warn, error: "no default config"}])
+})
+
+test("the notifier is not ready while the database can't be reached", async () => {
+    const notConnected = new HealthService(new MemorySESConfigRepository([]), new MemorySMTPConfigRepository([]), false, silentLogger)
+    const report = await notConnected.checkReadiness()
+    assert.deepStrictEqual([report.status, report.checks.database, report.checks.nats, report.checks.sesConfig.error],
+        [HEALTH_STATUS.Fail, {status: HEALTH_STATUS.Fail, error: "not connected"}, {status: HEALTH_STATUS.Disabled}, "database not connected"])
+    // a database which isn't connected yet is no reason for a restart
+    assert.strictEqual((await notConnected.checkLiveness()).status, HEALTH_STATUS.Ok)
+
+    const {service, database} = watched()
+    database.hangs = true
+    const hanging = await service.checkReadiness()
+    assert.deepStrictEqual([hanging.status, hanging.checks.database], [HEALTH_STATUS.Fail, {status: HEALTH_STATUS.Fail, error: "timed out after 1s"}])
+})
+
+test("the notifier is restarted once its database connection was closed", async () => {
+    const {service, database} = watched()
+    database.isInitialized = false
+    const report = await service.checkLiveness()
+    assert.deepStrictEqual([report.status, report.checks.database], [HEALTH_STATUS.Fail, {status: HEALTH_STATUS.Fail, error: "database connection was closed"}])
+})
+
+test("the notifier is not ready while a consumer is still subscribing or can't be read", async () => {
+    const {service, pubSub} = watched()
+    pubSub.subscriptions[1].state = SUBSCRIPTION_STATE.Subscribing
+    pubSub.unreachable.add("cd-consumer")
+    const report = await service.checkReadiness()
+    assert.strictEqual(report.status, HEALTH_STATUS.Fail)
+    assert.deepStrictEqual(report.checks.nats.consumers, [
+        {topic: "CD-TOPIC", stream: "ORCHESTRATOR", consumer: "cd-consumer", state: SUBSCRIPTION_STATE.Subscribed, error: "consumer not found"},
+        {topic: "CI-TOPIC", stream: "ORCHESTRATOR", consumer: "ci-consumer", state: SUBSCRIPTION_STATE.Subscribing},
+    ])
+    // neither is a reason for a restart
+    assert.strictEqual((await service.checkLiveness()).status, HEALTH_STATUS.Ok)
+
+    pubSub.subscriptions = []
+    assert.strictEqual((await service.checkReadiness()).checks.nats.status, HEALTH_STATUS.Fail)
+})
+
+test("the notifier is restarted once it can't consume from nats anymore", async () => {
+    const failures: [string, (w: Watched) => void, string][] = [
+        ["connection error", w => w.service.reportNatsError(new Error("CONNECTION_REFUSED")), "could not connect to nats: CONNECTION_REFUSED"],
+        ["closed connection", w => w.nats.closed = true, "nats connection was closed"],
+        ["failed subscription", w => w.pubSub.subscriptions[0].state = SUBSCRIPTION_STATE.Failed, "gave up subscribing to CD-TOPIC"],
+    ]
+    for (const [name, fail, error] of failures) {
+        const w = watched()
+        fail(w)
+        const liveness = await w.service.checkLiveness()
+        assert.deepStrictEqual([liveness.status, liveness.checks.nats], [HEALTH_STATUS.Fail, {status: HEALTH_STATUS.Fail, error: error}], name)
+        assert.deepStrictEqual((await w.service.checkReadiness()).checks.nats, {status: HEALTH_STATUS.Fail, error: error}, name)
+    }
+})
+
+test("readiness fails without checking anything else once the notifier shuts down", async () => {
+    const {service} = watched()
+    service.reportShutdown()
+    assert.deepStrictEqual(await service.checkReadiness(), {status: HEALTH_STATUS.Fail, checks: {shutdown: {status: HEALTH_STATUS.Fail, error: "shutting down"}}})
+    assert.strictEqual((await service.checkLiveness()).status, HEALTH_STATUS.Ok)
+})
@@ -0,0 +1,182 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import cdEvent from "./data/cd.json";
+import {test, silentLogger, StubServer} from "./harness";
+import {PagerDutyService} from "../destination/destinationHandlers/pagerDutyHandler";
+import {OpsgenieService} from "../destination/destinationHandlers/opsgenieHandler";
+import {getIncidentKey, IncidentTracker} from "../common/incident";
+import {OpenIncidentRepository} from "../repository/openIncidentRepository";
+import {EventLogBuilder} from "../common/eventLogBuilder";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {EVENT_TYPE} from "../common/types";
+import {DeliveryOutcome, Event} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {NotificationTemplates} from "../entities/notificationTemplates";
+import {PagerDutyConfig} from "../entities/pagerDutyConfig";
+import {OpsgenieConfig} from "../entities/opsgenieConfig";
+import {RetryService} from "../retry/retryService";
+import {NotificationRetryRepository} from "../repository/notificationRetryRepository";
+import {MemoryEventLogRepository, MemoryOpsgenieConfigRepository, MemoryPagerDutyConfigRepository} from "./fakes";
+
+// keeps the open incidents in memory instead of notifier_open_incident
+class MemoryOpenIncidentRepository extends OpenIncidentRepository {
+    open = new Set<string>()
+
+    async openIncident(destination: string, configId: number, incidentKey: string) {
+        this.open.add(destination + "/" + configId + "/" + incidentKey)
+    }
+
+    async closeIncident(destination: string, configId: number, incidentKey: string): Promise<boolean> {
+        return this.open.delete(destination + "/" + configId + "/" + incidentKey)
+    }
+}
+
+const eventLogRepository = new MemoryEventLogRepository()
+// no handler is registered, failed deliveries are reported rather than queued
+const retryService = new RetryService(new NotificationRetryRepository(), eventLogRepository, new EventLogBuilder(), silentLogger)
+
+// the material of the fixture is a branch, its webhook data is left out of cd.json
+function event(eventTypeId: EVENT_TYPE, isProdEnv: boolean): Event {
+    const material = {...cdEvent.payload.material, ciMaterials: cdEvent.payload.material.ciMaterials.map(ci => ({...ci, type: "SOURCE_TYPE_BRANCH_FIXED"}))}
+    return {...cdEvent, eventTypeId: eventTypeId, isProdEnv: isProdEnv, payload: {...cdEvent.payload, material: material}} as Event
+}
+
+function template(channel: string, payload: string): NotificationTemplates {
+    return Object.assign(new NotificationTemplates(), {channel_type: channel, template_payload: payload})
+}
+
+function setting(destination: string): NotificationSettings {
+    return Object.assign(new NotificationSettings(), {id: 1, pipeline_id: cdEvent.pipelineId, pipeline_type: cdEvent.pipelineType, config: [{dest: destination, configId: 1}]})
+}
+
+// runs the test against a stand-in of the provider api the config of the handler points to
+async function withProvider(run: (stub: StubServer, apiUrl: string) => Promise<void>) {
+    const stub = new StubServer()
+    const apiUrl = await stub.start()
+    try {
+        await run(stub, apiUrl)
+    } finally {
+        await stub.close()
+    }
+}
+
+function pagerDutyService(apiUrl: string): PagerDutyService {
+    const configRepository = new MemoryPagerDutyConfigRepository([Object.assign(new PagerDutyConfig(), {id: 1, routing_key: "routing-key", api_url: apiUrl + "/"})])
+    return new PagerDutyService(eventLogRepository, new EventLogBuilder(), configRepository, silentLogger, new MustacheHelper(), retryService,
+        new IncidentTracker(new MemoryOpenIncidentRepository(), silentLogger))
+}
+
+function opsgenieService(apiUrl: string): OpsgenieService {
+    const configRepository = new MemoryOpsgenieConfigRepository([Object.assign(new OpsgenieConfig(), {id: 1, api_key: "api-key", api_url: apiUrl})])
+    return new OpsgenieService(eventLogRepository, new EventLogBuilder(), configRepository, silentLogger, new MustacheHelper(), retryService,
+        new IncidentTracker(new MemoryOpenIncidentRepository(), silentLogger))
+}
+
+const pagerDutyTemplates = [template("pagerduty", '{"payload": {"summary": "{{appName}} failed", "component": "{{appName}}"}, "links": [{"href": "", "text": "empty"}]}')]
+const opsgenieTemplates = [template("opsgenie", '{"message": "{{appName}} failed", "details": {"app": "{{appName}}", "empty": ""}}')]
+
+function sendPagerDuty(service: PagerDutyService, e: Event): Promise<DeliveryOutcome[]> {
+    return service.handle(e, pagerDutyTemplates, setting("pagerduty"), new Map(), new Map())
+}
+
+function sendOpsgenie(service: OpsgenieService, e: Event): Promise<DeliveryOutcome[]> {
+    return service.handle(e, opsgenieTemplates, setting("opsgenie"), new Map(), new Map())
+}
+
+test("pagerduty triggers an incident keyed by the pipeline with the severity of the failure", () => withProvider(async (stub, apiUrl) => {
+    const service = pagerDutyService(apiUrl)
+    const outcomes = await sendPagerDuty(service, event(EVENT_TYPE.Fail, true))
+    assert.deepStrictEqual(outcomes.map(outcome => outcome.success), [true])
+    assert.strictEqual(stub.requests.length, 1)
+    const request = stub.requests[0]
+    assert.strictEqual(request.method, "POST")
+    assert.strictEqual(request.url, "/v2/enqueue")
+    assert.strictEqual(request.body.routing_key, "routing-key")
+    assert.strictEqual(request.body.event_action, "trigger")
+    assert.strictEqual(request.body.dedup_key, "devtron-CD-47-2-32")
+    assert.strictEqual(request.body.dedup_key, getIncidentKey(event(EVENT_TYPE.Fail, true)))
+    assert.deepStrictEqual(request.body.payload, {severity: "critical", source: "devtron", summary: "viki-app-9 failed", component: "viki-app-9"})
+    assert.deepStrictEqual(request.body.links, [])
+
+    await sendPagerDuty(service, event(EVENT_TYPE.Fail, false))
+    await sendPagerDuty(service, event(EVENT_TYPE.Blocked, true))
+    assert.deepStrictEqual(stub.requests.map(r => r.body.payload.severity), ["critical", "error", "warning"])
+    assert.deepStrictEqual(new Set(stub.requests.map(r => r.body.dedup_key)).size, 1)
+}))
+
+test("pagerduty resolves an incident only after a failure triggered it", () => withProvider(async (stub, apiUrl) => {
+    const service = pagerDutyService(apiUrl)
+    const skipped = await sendPagerDuty(service, event(EVENT_TYPE.Success, true))
+    assert.deepStrictEqual(skipped.map(outcome => outcome.suppressed), [true])
+    assert.strictEqual(stub.requests.length, 0)
+
+    await sendPagerDuty(service, event(EVENT_TYPE.Fail, true))
+    const resolved = await sendPagerDuty(service, event(EVENT_TYPE.Success, true))
+    assert.deepStrictEqual(resolved.map(outcome => outcome.success), [true])
+    assert.strictEqual(stub.requests.length, 2)
+    assert.deepStrictEqual(stub.requests[1].body, {routing_key: "routing-key", event_action: "resolve", dedup_key: "devtron-CD-47-2-32"})
+
+    await sendPagerDuty(service, event(EVENT_TYPE.Success, true))
+    assert.strictEqual(stub.requests.length, 2)
+}))
+
+test("pagerduty reports rejected events as failed", async () => {
+    const stub = new StubServer(() => ({status: 400, body: {status: "invalid event"}}))
+    const apiUrl = await stub.start()
+    try {
+        const outcomes = await sendPagerDuty(pagerDutyService(apiUrl), event(EVENT_TYPE.Fail, true))
+        assert.strictEqual(outcomes[0].success, false)
+        assert.ok(outcomes[0].error.includes("status code 400"), outcomes[0].error)
+    } finally {
+        await stub.close()
+    }
+})
+
+test("opsgenie creates an alert aliased by the pipeline with the priority of the failure", () => withProvider(async (stub, apiUrl) => {
+    const service = opsgenieService(apiUrl)
+    await sendOpsgenie(service, event(EVENT_TYPE.Fail, true))
+    await sendOpsgenie(service, event(EVENT_TYPE.Fail, false))
+    assert.strictEqual(stub.requests.length, 2)
+    const request = stub.requests[0]
+    assert.strictEqual(request.method, "POST")
+    assert.strictEqual(request.url, "/v2/alerts")
+    assert.strictEqual(request.headers.authorization, "GenieKey api-key")
+    assert.deepStrictEqual(request.body, {
+        priority: "P1",
+        message: "viki-app-9 failed",
+        alias: "devtron-CD-47-2-32",
+        source: "devtron",
+        details: {app: "viki-app-9"},
+    })
+    assert.strictEqual(stub.requests[1].body.priority, "P3")
+}))
+
+test("opsgenie closes an alert only after a failure created it", () => withProvider(async (stub, apiUrl) => {
+    const service = opsgenieService(apiUrl)
+    const skipped = await sendOpsgenie(service, event(EVENT_TYPE.Success, true))
+    assert.deepStrictEqual(skipped.map(outcome => outcome.suppressed), [true])
+    assert.strictEqual(stub.requests.length, 0)
+
+    await sendOpsgenie(service, event(EVENT_TYPE.Blocked, true))
+    await sendOpsgenie(service, event(EVENT_TYPE.Success, true))
+    assert.strictEqual(stub.requests.length, 2)
+    assert.strictEqual(stub.requests[1].url, "/v2/alerts/devtron-CD-47-2-32/close?identifierType=alias")
+    assert.strictEqual(stub.requests[1].headers.authorization, "GenieKey api-key")
+    assert.deepStrictEqual(stub.requests[1].body, {source: "devtron", note: "Pipeline succeeded"})
+}))
@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {Writable} from "stream";
+import * as winston from "winston";
+import {test} from "./harness";
+import {createLogger, eventLogContext, getLogLevels, setLogLevels, withLogContext} from "../logging/logger";
+import {LOG_MODULE} from "../logging/utils";
+import {redactedValue} from "../redaction/utils";
+import {Event} from "../notification/service/notificationService";
+import {CustomError} from "../entities/events";
+
+// a logger as the server creates it, writing its lines here instead of to the console
+function recordingLogger(): { logger: winston.Logger, entries: any[] } {
+    const entries: any[] = []
+    const stream = new Writable({
+        write(chunk, encoding, callback) {
+            entries.push(JSON.parse(chunk.toString()))
+            callback()
+        }
+    })
+    const logger = createLogger()
+    logger.clear()
+    logger.add(new winston.transports.Stream({stream: stream}))
+    return {logger: logger, entries: entries}
+}
+
+// the levels are shared by every logger of the process, they are reset for the tests which follow
+async function withLevels(run: () => Promise<void> | void) {
+    const before = getLogLevels()
+    try {
+        await run()
+    } finally {
+        setLogLevels({level: before.level, modules: Object.fromEntries(Object.values(LOG_MODULE).map(module => [module, before.modules[module] ?? null]))})
+    }
+}
+
+test("entries are json lines with the module and the context of the event being handled", async () => {
+    const {logger, entries} = recordingLogger()
+    const retryLogger = logger.child({module: LOG_MODULE.Retry})
+    retryLogger.info("outside")
+    await withLogContext({correlationId: "abc", eventTypeId: 3}, async () => {
+        // the context follows async calls and is extended by nested ones
+        await new Promise(resolve => setTimeout(resolve, 1))
+        await withLogContext({destination: "slack", configId: 4}, async () => retryLogger.info("delivered"))
+        // fields logged explicitly win over the context
+        retryLogger.warn("retrying", {destination: "teams"})
+    })
+    assert.deepStrictEqual(entries.map(({timestamp, ...entry}) => entry), [
+        {level: "info", message: "outside", module: "retry"},
+        {level: "info", message: "delivered", module: "retry", correlationId: "abc", eventTypeId: 3, destination: "slack", configId: 4},
+        {level: "warn", message: "retrying", module: "retry", correlationId: "abc", eventTypeId: 3, destination: "teams"},
+    ])
+    assert.ok(entries.every(entry => !isNaN(Date.parse(entry.timestamp))))
+})
+
+test("the context of an event is made of its ids", () => {
+    const event = {correlationId: "abc", eventTypeId: 1, appId: 2, envId: 3, pipelineId: 4, pipelineType: "CD", payload: {appName: "app"}} as Event
+    assert.deepStrictEqual(eventLogContext(event), {correlationId: "abc", eventTypeId: 1, appId: 2, envId: 3, pipelineId: 4})
+    assert.deepStrictEqual(withLogContext(eventLogContext(event), () => "result"), "result")
+})
+
+test("secrets are redacted from entries", () => {
+    const {logger, entries} = recordingLogger()
+    logger.error("slack delivery failed for https://hooks.slack.com/services/T000/B000/XXXXXXXX")
+    assert.strictEqual(entries[0].message, "slack delivery failed for " + redactedValue)
+})
+
+test("the level of a module is changed at runtime without touching the others", () => withLevels(() => {
+    const {logger, entries} = recordingLogger()
+    const retryLogger = logger.child({module: LOG_MODULE.Retry})
+    const digestLogger = logger.child({module: LOG_MODULE.Digest})
+    setLogLevels({level: "info", modules: {}})
+    retryLogger.debug("hidden")
+
+    assert.deepStrictEqual(setLogLevels({modules: {retry: "debug", digest: "error"}}).modules, {...getLogLevels().modules, retry: "debug", digest: "error"})
+    retryLogger.debug("retry details")
+    digestLogger.warn("hidden")
+    digestLogger.error("digest failed")
+    logger.debug("hidden")
+
+    // a module without a level of its own logs at the default level again
+    setLogLevels({level: "warn", modules: {retry: null}})
+    retryLogger.info("hidden")
+    retryLogger.warn("retry warning")
+    assert.deepStrictEqual(entries.map(entry => entry.message), ["retry details", "digest failed", "retry warning"])
+    assert.strictEqual(getLogLevels().level, "warn")
+    assert.strictEqual(getLogLevels().modules.retry, undefined)
+}))
+
+test("updates with an unknown level or module are rejected as a whole", () => withLevels(() => {
+    const before = getLogLevels()
+    const updates = [
+        {level: "loud"},
+        {level: "debug", modules: {retry: "loud"}},
+        {level: "debug", modules: {retry: "debug", mailer: "debug"}},
+    ]
+    for (const update of updates) {
+        assert.throws(() => setLogLevels(update), (err: CustomError) => err instanceof CustomError && err.statusCode == 400, JSON.stringify(update))
+    }
+    assert.deepStrictEqual(getLogLevels(), before)
+    // the settings returned can't be changed from outside
+    getLogLevels().modules.retry = "silly"
+    assert.deepStrictEqual(getLogLevels(), before)
+}))
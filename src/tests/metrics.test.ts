@@ -0,0 +1,149 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {Counter, Gauge, Histogram} from "prom-client";
+import {JetStreamManager, JsMsg, NatsConnection, StringCodec} from "nats";
+import {silentLogger, StubServer, test} from "./harness";
+import {
+    countRenderErrors,
+    deliveryAttempts,
+    deliveryFailures,
+    deliverySuccesses,
+    eventTypeLabel,
+    metricsRegistry,
+    natsConsumerMessages,
+    natsRedeliveries,
+    providerLatency,
+    recordDelivery,
+    renderErrors
+} from "../common/metrics";
+import {Event} from "../notification/service/notificationService";
+import {WebhookService} from "../destination/destinationHandlers/webhookHandler";
+import {EventLogBuilder} from "../common/eventLogBuilder";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {WebhookConfig} from "../entities/webhookconfig";
+import {RetryService} from "../retry/retryService";
+import {NotificationRetryRepository} from "../repository/notificationRetryRepository";
+import {PubSubServiceImpl} from "../pubSub/pubSub";
+import {DeadLetterService} from "../pubSub/deadLetterService";
+import {SUBSCRIPTION_STATE} from "../pubSub/utils";
+import {MemoryEventLogRepository, MemoryWebhookConfigRepository} from "./fakes";
+
+// the registry is shared by every test of the run, so the tests compare values before and after instead of absolute ones.
+// histograms report a value per bucket, sum and count, which are told apart by their metric name
+async function value(metric: Counter<string> | Gauge<string> | Histogram<string>, labels: Record<string, string>, metricName?: string): Promise<number> {
+    const values = (await metric.get()).values
+        .filter(v => !metricName || (v as { metricName?: string }).metricName == metricName)
+        .filter(v => Object.keys(labels).every(label => v.labels[label] == labels[label]))
+    return values.length > 0 ? values[0].value : 0
+}
+
+async function deliveryCounts(destination: string): Promise<number[]> {
+    const labels = {destination: destination}
+    return [await value(deliveryAttempts, labels), await value(deliverySuccesses, labels), await value(deliveryFailures, labels)]
+}
+
+test("deliveries are counted by destination with the latency of the provider in seconds", async () => {
+    // a destination of its own, which no other test delivers to
+    recordDelivery("metrics-test", true, 200)
+    recordDelivery("metrics-test", false, 1500)
+    recordDelivery("metrics-test", false)
+    assert.deepStrictEqual(await deliveryCounts("metrics-test"), [3, 1, 2])
+    const latency = (result: string, suffix: string) => value(providerLatency, {destination: "metrics-test", result: result}, "notifier_provider_latency_seconds_" + suffix)
+    // deliveries which never reached the provider have no latency
+    assert.deepStrictEqual([await latency("success", "count"), await latency("success", "sum"), await latency("failure", "count"), await latency("failure", "sum")], [1, 0.2, 1, 1.5])
+    assert.strictEqual(await value(providerLatency, {destination: "metrics-test", result: "success", le: "0.25"}, "notifier_provider_latency_seconds_bucket"), 1)
+})
+
+test("templates which fail to render are counted and their error is passed on", async () => {
+    const before = await value(renderErrors, {destination: "opsgenie"})
+    assert.strictEqual(countRenderErrors("opsgenie", () => JSON.parse('{"ok": true}')).ok, true)
+    assert.throws(() => countRenderErrors("opsgenie", () => JSON.parse('{"ok": ')), SyntaxError)
+    assert.strictEqual(await value(renderErrors, {destination: "opsgenie"}) - before, 1)
+})
+
+test("event types are labelled by name", () => {
+    assert.deepStrictEqual([eventTypeLabel(1), eventTypeLabel(3), eventTypeLabel(42), eventTypeLabel(undefined)], ["Trigger", "Fail", "Unknown", "Unknown"])
+})
+
+test("the first attempt of a handler is counted and so are its payloads which don't render", async () => {
+    const stub = new StubServer(() => ({status: 200, body: {}}))
+    const url = await stub.start()
+    try {
+        const logs = new MemoryEventLogRepository()
+        const config = Object.assign(new WebhookConfig(), {id: 7, web_hook_url: url + "/hook", payload: '{"count": {{count}}}', header: {}})
+        const retryService = new RetryService(new NotificationRetryRepository(), logs, new EventLogBuilder(), silentLogger)
+        const service = new WebhookService(logs, new EventLogBuilder(), new MemoryWebhookConfigRepository([config]), silentLogger, new MustacheHelper(), retryService)
+        const event = {eventTypeId: 3, correlationId: "metrics-test", payload: {digest: {count: 2}}} as Event
+        const setting = Object.assign(new NotificationSettings(), {id: 1, pipeline_id: 4, event_type_id: 3})
+        const [attempts, successes, failures] = await deliveryCounts("webhook")
+        const latencies = await value(providerLatency, {destination: "webhook", result: "success"}, "notifier_provider_latency_seconds_count")
+        const renderFailures = await value(renderErrors, {destination: "webhook"})
+
+        const outcome = await service.sendAndLogNotification(event, config, setting, {dest: "webhook", configId: 7})
+        assert.strictEqual(outcome.success, true)
+        assert.deepStrictEqual(await deliveryCounts("webhook"), [attempts + 1, successes + 1, failures])
+        assert.strictEqual(await value(providerLatency, {destination: "webhook", result: "success"}, "notifier_provider_latency_seconds_count"), latencies + 1)
+
+        const broken = Object.assign(new WebhookConfig(), config, {payload: '{"count": {{count}}'})
+        assert.strictEqual((await service.sendAndLogNotification(event, broken, setting, {dest: "webhook", configId: 7})).success, false)
+        assert.strictEqual(await value(renderErrors, {destination: "webhook"}), renderFailures + 1)
+        assert.deepStrictEqual(await deliveryCounts("webhook"), [attempts + 2, successes + 1, failures + 1])
+        assert.strictEqual(stub.requests.length, 1)
+    } finally {
+        await stub.close()
+    }
+})
+
+test("redelivered messages and the backlog of the subscribed consumers are reported by topic", async () => {
+    const manager = {
+        consumers: {
+            info: async (stream: string, consumer: string) => ({num_pending: consumer == "cd-consumer" ? 12 : 0, num_ack_pending: 3}),
+        },
+    } as unknown as JetStreamManager
+    const connection = {jetstream: () => ({})} as unknown as NatsConnection
+    const service = new PubSubServiceImpl(connection, manager, new DeadLetterService(undefined, manager, silentLogger), silentLogger)
+    service["subscriptions"].set("CD-TOPIC", {topic: "CD-TOPIC", streamName: "ORCHESTRATOR", consumerName: "cd-consumer", state: SUBSCRIPTION_STATE.Subscribed})
+    // consumers which aren't subscribed yet have no backlog to report
+    service["subscriptions"].set("CI-TOPIC", {topic: "CI-TOPIC", streamName: "ORCHESTRATOR", consumerName: "ci-consumer", state: SUBSCRIPTION_STATE.Subscribing})
+
+    const redeliveries = await value(natsRedeliveries, {topic: "CD-TOPIC"})
+    for (const redelivered of [false, true]) {
+        const msg = {data: StringCodec().encode("{}"), redelivered: redelivered, info: {redeliveryCount: 1}, ack: () => undefined, working: () => undefined}
+        await service["processMessage"]("CD-TOPIC", msg as unknown as JsMsg, () => undefined, 30000)
+    }
+    assert.strictEqual(await value(natsRedeliveries, {topic: "CD-TOPIC"}) - redeliveries, 1)
+
+    // the gauge is filled while the registry is scraped
+    const scraped = await metricsRegistry.metrics()
+    assert.ok(scraped.includes('notifier_nats_consumer_messages{stream="ORCHESTRATOR",consumer="cd-consumer",state="pending"} 12'))
+    assert.ok(scraped.includes('notifier_nats_consumer_messages{stream="ORCHESTRATOR",consumer="cd-consumer",state="ack_pending"} 3'))
+    assert.ok(!scraped.includes('consumer="ci-consumer"'))
+    assert.strictEqual(await value(natsConsumerMessages, {consumer: "cd-consumer", state: "pending"}), 12)
+})
+
+test("the registry exposes the notifier metrics next to the default ones of the process", async () => {
+    const scraped = await metricsRegistry.metrics()
+    for (const name of ["notifier_events_received_total", "notifier_settings_matched_total", "notifier_delivery_attempts_total", "notifier_delivery_successes_total",
+        "notifier_delivery_failures_total", "notifier_render_errors_total", "notifier_provider_latency_seconds", "notifier_nats_redeliveries_total",
+        "notifier_nats_consumer_messages", "process_cpu_seconds_total"]) {
+        assert.ok(scraped.includes("# TYPE " + name + " "), name)
+    }
+    assert.ok(metricsRegistry.contentType.startsWith("text/plain"))
+})
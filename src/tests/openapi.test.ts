@@ -0,0 +1,108 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import {getAbsoluteFSPath} from "swagger-ui-dist";
+import {test} from "./harness";
+import {buildOpenApiDocument, docsPage} from "../openapi/openApi";
+import {generateSpec} from "../openapi/generateSpec";
+import {apiRoutes} from "../openapi/routes";
+import {securitySchemes} from "../openapi/schemas";
+import {EventSchemaComponents, EventSchemas} from "../validation/eventSchemas";
+import {EVENT_TYPE} from "../common/types";
+
+// every $ref of the document, wherever it is nested
+function refs(value: any): string[] {
+    if (value === null || typeof value !== "object") {
+        return []
+    }
+    return Object.entries(value).flatMap(([key, item]) => key == "$ref" ? [item as string] : refs(item))
+}
+
+test("every route is documented under its OpenAPI path with the methods served on it", () => {
+    const document = buildOpenApiDocument()
+    const operations = Object.entries(document.paths).flatMap(([path, methods]) => Object.keys(methods).map(method => method + " " + path))
+    assert.deepStrictEqual(operations.sort(), apiRoutes.map(route => route.method + " " + route.path.replace(/:(\w+)/g, "{$1}")).sort())
+    assert.deepStrictEqual(Object.keys(document.paths["/configs/{type}/{id}"]).sort(), ["delete", "get", "put"])
+    assert.strictEqual(document.paths["/configs/:type"], undefined)
+})
+
+test("routes with a scope document their credentials and the responses to missing ones", () => {
+    const {paths} = buildOpenApiDocument()
+    const configs = paths["/configs/{type}"].get
+    assert.deepStrictEqual(configs.security, Object.keys(securitySchemes).map(name => ({[name]: []})))
+    assert.strictEqual(configs.responses["401"].description, "missing or invalid credentials")
+    assert.strictEqual(configs.responses["403"].description, "the client lacks the admin scope")
+    assert.deepStrictEqual(configs.responses["403"].content, {"application/json": {schema: {$ref: "#/components/schemas/ErrorResponse"}}})
+    // credentials of the notify routes are only checked when clients are configured
+    assert.strictEqual(paths["/notify"].post.responses["401"].description, "missing or invalid credentials, only checked when api clients are configured")
+    // responses are listed by status
+    assert.deepStrictEqual(Object.keys(paths["/notify"].post.responses), ["200", "207", "400", "401", "403", "502", "503"])
+    assert.strictEqual(paths["/health"].get.security, undefined)
+    assert.strictEqual(paths["/health"].get.responses["401"], undefined)
+})
+
+test("request bodies are required unless the route allows leaving them out", () => {
+    const {paths} = buildOpenApiDocument()
+    assert.deepStrictEqual(paths["/notify"].post.requestBody, {required: true, content: {"application/json": {schema: {$ref: "#/components/schemas/Event"}}}})
+    assert.strictEqual(paths["/configs/{type}/{id}/test"].post.requestBody.required, false)
+    assert.strictEqual(paths["/health"].get.requestBody, undefined)
+})
+
+test("events are documented with the schemas they are validated against", () => {
+    const {components} = buildOpenApiDocument()
+    const documented = (name: string) => JSON.stringify(components.schemas[name])
+    // shared schemas are referenced by name instead of being repeated
+    assert.deepStrictEqual(components.schemas.Event.anyOf.map(schema => schema.$ref), [
+        "PipelineEvent", "ImageScanEvent", "ApprovalEvent", "ConfigApprovalEvent", "ImagePromotionEvent", "ScoopNotificationEvent",
+    ].map(name => "#/components/schemas/" + name))
+    assert.deepStrictEqual(components.schemas.PipelineEvent.properties.payload, {$ref: "#/components/schemas/PipelinePayload"})
+    assert.deepStrictEqual(components.schemas.PipelineEvent.required, EventSchemas[EVENT_TYPE.Trigger].required)
+    assert.deepStrictEqual(components.schemas.PipelineEvent.properties.eventTypeId, EventSchemas[EVENT_TYPE.Fail].properties.eventTypeId)
+    assert.deepStrictEqual(components.schemas.ApprovalEvent.properties.eventTypeId.enum, [EVENT_TYPE.Approval])
+    for (const name of Object.keys(EventSchemaComponents)) {
+        assert.ok(components.schemas[name], name + " is documented")
+    }
+    assert.ok(documented("ScoopNotificationPayload").includes('"required":["scoopNotificationConfig"]'))
+})
+
+test("every schema and parameter referenced by the document is defined in it", () => {
+    const document = buildOpenApiDocument()
+    const undefinedRefs = refs(document).filter(ref => {
+        const [, , section, name] = ref.split("/")
+        return !document.components[section]?.[name]
+    })
+    assert.deepStrictEqual([...new Set(undefinedRefs)], [])
+})
+
+test("the generated spec is the yaml of the document", () => {
+    const spec = generateSpec()
+    assert.ok(spec.startsWith("# generated from src/openapi by npm run generate-openapi"))
+    assert.deepStrictEqual(yaml.safeLoad(spec), JSON.parse(JSON.stringify(buildOpenApiDocument())))
+})
+
+test("the docs page loads the document with swagger ui served by the notifier", () => {
+    assert.ok(docsPage.includes('url: "/openapi.json"'))
+    const assets = [...docsPage.matchAll(/(?:href|src)="\/docs\/([^"]+)"/g)].map(([, asset]) => asset)
+    assert.deepStrictEqual(assets, ["swagger-ui.css", "swagger-ui-bundle.js"])
+    for (const asset of assets) {
+        assert.ok(fs.existsSync(path.join(getAbsoluteFSPath(), asset)), asset)
+    }
+})
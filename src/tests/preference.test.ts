@@ -0,0 +1,138 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {createHmac} from "crypto";
+import {silentLogger, test} from "./harness";
+import {PreferenceService} from "../preference/preferenceService";
+import {UNSUBSCRIBE_SCOPE, unsubscribeLinkTtl} from "../preference/utils";
+import {UserPreferenceRepository} from "../repository/userPreferenceRepository";
+import {UserPreference} from "../entities/userPreference";
+import {EVENT_TYPE} from "../common/types";
+import {Event} from "../notification/service/notificationService";
+import {MemoryUserPreferenceRepository} from "./fakes";
+
+const failingRepository = new class extends UserPreferenceRepository {
+    async findByEmail(email: string): Promise<UserPreference> {
+        throw new Error("database is unreachable")
+    }
+}
+
+const event = {eventTypeId: EVENT_TYPE.Fail, appId: 12, envId: 3, payload: {appName: "payments", toEmail: "Jane@Example.com"}} as Event
+
+function tokenOf(link: string): string {
+    return decodeURIComponent(new URL(link).searchParams.get("token"))
+}
+
+// a token signed with the secret of the tests, for payloads the notifier doesn't create
+function forgeToken(payload: any[], secret: string = "unsubscribe-secret"): string {
+    const toBase64Url = (value: Buffer) => value.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+    const encoded = toBase64Url(Buffer.from(JSON.stringify(payload)))
+    return encoded + "." + toBase64Url(createHmac("sha256", secret).update(encoded).digest())
+}
+
+function withClock<T>(now: number, run: () => T): T {
+    const dateNow = Date.now
+    Date.now = () => now
+    try {
+        return run()
+    } finally {
+        Date.now = dateNow
+    }
+}
+
+test("unsubscribe links unsubscribe their recipient from the app or event type of the email", async () => {
+    const repository = new MemoryUserPreferenceRepository()
+    const service = new PreferenceService(repository, silentLogger)
+    const links = service.unsubscribeLinks("Jane@Example.com", event)
+    assert.ok(links.unsubscribeLink.startsWith("https://devtron.example.com/notifier/unsubscribe?token="), links.unsubscribeLink)
+    assert.strictEqual(links.unsubscribeLink, links.unsubscribeAppLink)
+
+    const app = service.parseUnsubscribeToken(tokenOf(links.unsubscribeAppLink))
+    assert.deepStrictEqual(app, {email: "jane@example.com", scope: UNSUBSCRIBE_SCOPE.App, value: 12, label: "payments"})
+    const eventType = service.parseUnsubscribeToken(tokenOf(links.unsubscribeEventTypeLink))
+    assert.deepStrictEqual(eventType, {email: "jane@example.com", scope: UNSUBSCRIBE_SCOPE.EventType, value: EVENT_TYPE.Fail, label: "fail"})
+
+    assert.strictEqual(await service.optOutReason("jane@example.com", event, "ses"), undefined)
+    await service.unsubscribe(app)
+    await service.unsubscribe(app)
+    assert.deepStrictEqual(repository.preferences.get("jane@example.com").muted_app_ids, [12])
+    assert.strictEqual(await service.optOutReason("JANE@example.com", event, "ses"), "recipient opted out of emails about app 12")
+    assert.strictEqual(await service.optOutReason("jane@example.com", {...event, appId: 13} as Event, "ses"), undefined)
+})
+
+test("unsubscribe links which were altered, signed with another secret or are not tokens are rejected", () => {
+    const service = new PreferenceService(new MemoryUserPreferenceRepository(), silentLogger)
+    const token = tokenOf(service.unsubscribeLinks("jane@example.com", event).unsubscribeLink)
+    const [payload, signature] = token.split(".")
+    const expiresAt = Math.floor(Date.now() / 1000) + 60
+    const invalid = [
+        payload + "." + signature.slice(0, -2) + (signature.endsWith("AA") ? "BB" : "AA"),
+        // another recipient with the signature of the original token
+        forgeToken([1, expiresAt, "john@example.com", "app", 12, "payments"]).split(".")[0] + "." + signature,
+        forgeToken([1, expiresAt, "jane@example.com", "app", 12, "payments"], "another-secret"),
+        payload,
+        "",
+        undefined,
+        "not.a-token",
+    ]
+    for (const value of invalid) {
+        assert.throws(() => service.parseUnsubscribeToken(value), {message: "the unsubscribe link is not valid", statusCode: 400}, String(value))
+    }
+})
+
+test("unsubscribe links expire and links of another version are not accepted", () => {
+    const service = new PreferenceService(new MemoryUserPreferenceRepository(), silentLogger)
+    const sentAt = Date.parse("2026-01-01T00:00:00Z")
+    const token = withClock(sentAt, () => tokenOf(service.unsubscribeLinks("jane@example.com", event).unsubscribeLink))
+    assert.strictEqual(withClock(sentAt + (unsubscribeLinkTtl - 1) * 1000, () => service.parseUnsubscribeToken(token)).value, 12)
+    assert.throws(() => withClock(sentAt + (unsubscribeLinkTtl + 1) * 1000, () => service.parseUnsubscribeToken(token)), {message: "the unsubscribe link has expired"})
+
+    const expiresAt = Math.floor(Date.now() / 1000) + 60
+    // tokens of the links sent before they carried a version and an expiry
+    assert.throws(() => service.parseUnsubscribeToken(forgeToken(["jane@example.com", "app", 12, "payments"])), {message: "the unsubscribe link has expired"})
+    assert.throws(() => service.parseUnsubscribeToken(forgeToken([2, expiresAt, "jane@example.com", "app", 12, "payments"])), {message: "the unsubscribe link has expired"})
+    assert.strictEqual(service.parseUnsubscribeToken(forgeToken([1, expiresAt, "jane@example.com", "app", 12, "payments"])).value, 12)
+})
+
+test("emails get unsubscribe headers and a footer, and are sent as text to recipients who asked for it", async () => {
+    const repository = new MemoryUserPreferenceRepository()
+    const service = new PreferenceService(repository, silentLogger)
+    const email = await service.prepareEmail({subject: "failed", html: "<p>Pipeline failed</p>"}, event)
+    const link = service.unsubscribeLinks("jane@example.com", event).unsubscribeLink
+    assert.strictEqual(email.headers["List-Unsubscribe"], "<" + link + ">")
+    assert.strictEqual(email.headers["List-Unsubscribe-Post"], "List-Unsubscribe=One-Click")
+    assert.ok(email.html.includes("This email was sent to Jane@Example.com"), email.html)
+    assert.ok(email.html.includes('href="' + link + '"'), email.html)
+
+    // templates placing the link themselves don't get the footer
+    const placed = await service.prepareEmail({subject: "failed", html: '<a href="' + link + '">stop</a>'}, event)
+    assert.ok(!placed.html.includes("This email was sent to"), placed.html)
+
+    await service.updatePreference("jane@example.com", {email_format: "text"})
+    const text = await service.prepareEmail({subject: "failed", html: "<p>Pipeline failed</p>"}, event)
+    assert.strictEqual(text.html, undefined)
+    assert.ok(text.text.startsWith("Pipeline failed\n"), text.text)
+})
+
+test("emails are sent without preferences when they can't be read", async () => {
+    const service = new PreferenceService(failingRepository, silentLogger)
+    assert.strictEqual(await service.optOutReason("jane@example.com", event, "ses"), undefined)
+    const email = await service.prepareEmail({subject: "failed", html: "<p>Pipeline failed</p>"}, event)
+    assert.ok(email.headers["List-Unsubscribe"])
+    assert.ok(email.html.startsWith("<p>Pipeline failed</p>"))
+})
@@ -0,0 +1,143 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import cdEvent from "./data/cd.json";
+import {silentLogger, StubServer, test} from "./harness";
+import {Event, Handler, NotificationService} from "../notification/service/notificationService";
+import {SlackService} from "../destination/destinationHandlers/slackHandler";
+import {SESService} from "../destination/destinationHandlers/sesHandler";
+import {TeamsService} from "../destination/destinationHandlers/teamsHandler";
+import {EventLogBuilder} from "../common/eventLogBuilder";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {EVENT_TYPE} from "../common/types";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {NotificationTemplates} from "../entities/notificationTemplates";
+import {SlackConfig} from "../entities/slackConfig";
+import {SesConfig} from "../entities/sesConfig";
+import {TeamsConfig} from "../entities/teamsConfig";
+import {Users} from "../entities/users";
+import {CustomError} from "../entities/events";
+import {EventRepository} from "../repository/eventsRepository";
+import {RetryService} from "../retry/retryService";
+import {NotificationRetryRepository} from "../repository/notificationRetryRepository";
+import {PreferenceService} from "../preference/preferenceService";
+import {AttachmentService} from "../attachment/attachmentService";
+import {
+    MemoryEventLogRepository,
+    MemoryNotificationSettingsRepository,
+    MemorySESConfigRepository,
+    MemorySlackConfigRepository,
+    MemoryTeamsConfigRepository,
+    MemoryTemplatesRepository,
+    MemoryUserPreferenceRepository,
+    MemoryUsersRepository
+} from "./fakes";
+
+const templates = [
+    Object.assign(new NotificationTemplates(), {channel_type: "slack", template_payload: '{"text": "{{appName}} deployed to {{envName}}"}'}),
+    Object.assign(new NotificationTemplates(), {channel_type: "ses", template_payload: '{"to": "{{toEmail}}", "from": "{{fromEmail}}", "subject": "{{appName}} deployed"}'}),
+    Object.assign(new NotificationTemplates(), {channel_type: "teams", template_payload: '{"type": "AdaptiveCard", "body": [{"type": "TextBlock", "text": "{{appName}}"}'}),
+]
+
+function setting(id: number, ...providers: any[]): NotificationSettings {
+    return Object.assign(new NotificationSettings(), {id: id, pipeline_id: 32, event_type_id: 2, config: providers})
+}
+
+// the material of the fixture is a branch, its webhook data is left out of cd.json
+function event(fields: any = {}): Event {
+    const material = {...cdEvent.payload.material, ciMaterials: cdEvent.payload.material.ciMaterials.map(ci => ({...ci, type: "SOURCE_TYPE_BRANCH_FIXED"}))}
+    return {...cdEvent, eventTypeId: 2, baseUrl: "https://devtron.example.com", ...fields, payload: {...cdEvent.payload, material: material, ...fields.payload}} as Event
+}
+
+interface Previewer {
+    service: NotificationService
+    logs: MemoryEventLogRepository
+}
+
+// handlers whose configs point at a stand-in, which must not see a single request while previewing
+function previewer(url: string, settings: NotificationSettings[], sesConfigs: SesConfig[] = [Object.assign(new SesConfig(), {id: 5, default: "true", from_email: "notifier@example.com"})]): Previewer {
+    const logs = new MemoryEventLogRepository()
+    const mh = new MustacheHelper()
+    const retryService = new RetryService(new NotificationRetryRepository(), logs, new EventLogBuilder(), silentLogger)
+    const preferenceService = new PreferenceService(new MemoryUserPreferenceRepository(), silentLogger)
+    const handlers: Handler[] = [
+        new SlackService(logs, new EventLogBuilder(), new MemorySlackConfigRepository([Object.assign(new SlackConfig(), {id: 1, web_hook_url: url + "/slack"})]), silentLogger, mh, retryService),
+        new SESService(logs, new EventLogBuilder(), new MemorySESConfigRepository(sesConfigs), new MemoryUsersRepository([Object.assign(new Users(), {id: 9, email_id: "jane@example.com"})]),
+            silentLogger, mh, retryService, preferenceService, new AttachmentService(mh, silentLogger)),
+        new TeamsService(logs, new EventLogBuilder(), new MemoryTeamsConfigRepository([Object.assign(new TeamsConfig(), {id: 2, web_hook_url: url + "/teams"})]), silentLogger, mh, retryService),
+    ]
+    // previews don't hold anything back, the services doing so are never reached
+    const service = new NotificationService(new EventRepository(), new MemoryNotificationSettingsRepository(settings), new MemoryTemplatesRepository(templates), handlers,
+        undefined, undefined, undefined, undefined, silentLogger)
+    return {service: service, logs: logs}
+}
+
+async function withStub(run: (url: string, stub: StubServer) => Promise<void>) {
+    const stub = new StubServer()
+    const url = await stub.start()
+    try {
+        await run(url, stub)
+        assert.strictEqual(stub.requests.length, 0)
+    } finally {
+        await stub.close()
+    }
+}
+
+test("previews render the templates of every destination of the matching settings without sending them", () => withStub(async (url, stub) => {
+    const {service, logs} = previewer(url, [setting(1, {dest: "slack", configId: 1}, {dest: "ses", configId: 9}, {dest: "ses", recipient: "ops@example.com"})])
+    const previews = await service.previewNotification(event())
+    assert.deepStrictEqual(previews, [
+        {settingId: 1, destination: "slack", configId: 1, recipient: new URL(url).host, payload: {text: "viki-app-9 deployed to dev"}},
+        {settingId: 1, destination: "ses", configId: 5, recipient: "jane@example.com", payload: {to: "jane@example.com", from: "notifier@example.com", subject: "viki-app-9 deployed"}},
+        {settingId: 1, destination: "ses", configId: 5, recipient: "ops@example.com", payload: {to: "ops@example.com", from: "notifier@example.com", subject: "viki-app-9 deployed"}},
+    ])
+    assert.strictEqual(logs.logs.length, 0)
+}))
+
+test("previews report destinations which can't be rendered or resolved on their entry", () => withStub(async url => {
+    const {service} = previewer(url, [setting(1, {dest: "teams", configId: 2}, {dest: "slack", configId: 3}, {dest: "ses", configId: 404})], [])
+    const previews = await service.previewNotification(event())
+    assert.deepStrictEqual(previews.map(p => [p.destination, p.configId, p.error]), [
+        ["slack", 3, "no slack config found"],
+        ["ses", undefined, "no default ses config found"],
+        ["teams", 2, previews[2].error],
+    ])
+    // the rendered text is kept to find the mistake in the template
+    assert.ok(previews[2].error.includes("JSON"), previews[2].error)
+    assert.ok(previews[2].payload.startsWith('{"type": "AdaptiveCard"'), previews[2].payload)
+}))
+
+test("destinations reached through several settings are previewed once", () => withStub(async url => {
+    const {service} = previewer(url, [setting(1, {dest: "slack", configId: 1}), setting(2, {dest: "slack", configId: 1}, {dest: "ses", recipient: "ops@example.com"})])
+    const previews = await service.previewNotification(event())
+    assert.deepStrictEqual(previews.map(p => [p.settingId, p.destination]), [[1, "slack"], [2, "ses"]])
+}))
+
+test("previews of approvals render the destinations the event names, except for slack", () => withStub(async url => {
+    const {service} = previewer(url, [])
+    const approval = event({eventTypeId: EVENT_TYPE.Approval, payload: {providers: [{dest: "ses", recipient: "approver@example.com"}, {dest: "slack", configId: 1}]}})
+    const previews = await service.previewNotification(approval)
+    assert.deepStrictEqual(previews.map(p => [p.destination, p.recipient]), [["ses", "approver@example.com"]])
+}))
+
+test("previews of events without settings or of scoop notifications are rejected", () => withStub(async url => {
+    const {service} = previewer(url, [])
+    await assert.rejects(service.previewNotification(event()), (err: CustomError) => err.statusCode == 404)
+    await assert.rejects(service.previewNotification(event({eventTypeId: EVENT_TYPE.ScoopNotification})), (err: CustomError) => err.statusCode == 400)
+    await assert.rejects(service.previewNotification(event({baseUrl: undefined})), (err: CustomError) => err.statusCode == 400)
+}))
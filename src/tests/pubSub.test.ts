@@ -0,0 +1,210 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {headers, JetStreamClient, JetStreamManager, JsMsg, MsgHdrs, NatsConnection, NatsError, StoredMsg, StringCodec} from "nats";
+import {test, silentLogger} from "./harness";
+import {MessageCallback, PubSubServiceImpl} from "../pubSub/pubSub";
+import {DeadLetterService} from "../pubSub/deadLetterService";
+import {DEAD_LETTER_HEADER, deadLetterSubject, maxMessageDeliveries, messageNakDelay, messageNotFoundErrorCode} from "../pubSub/utils";
+import {CustomError} from "../entities/events";
+
+const topic = "CD-TOPIC"
+const sc = StringCodec()
+
+// records what the consumer did with the message instead of answering the server
+class FakeMsg {
+    subject = topic
+    data: Uint8Array
+    headers: MsgHdrs = headers()
+    redelivered: boolean
+    info: { redeliveryCount: number, streamSequence: number }
+    acked = false
+    terminated = false
+    naks: number[] = []
+
+    constructor(event: any, redeliveryCount: number = 1) {
+        this.data = sc.encode(JSON.stringify(event))
+        this.headers.set("traceparent", "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01")
+        this.redelivered = redeliveryCount > 1
+        this.info = {redeliveryCount: redeliveryCount, streamSequence: 7}
+    }
+
+    ack() {
+        this.acked = true
+    }
+
+    nak(delay?: number) {
+        this.naks.push(delay)
+    }
+
+    term() {
+        this.terminated = true
+    }
+
+    working() {
+    }
+}
+
+// keeps the dead letter stream in memory, everything published to another subject is recorded as it was sent
+class FakeJetStream {
+    stored = new Map<number, StoredMsg>()
+    published: { subject: string, data: string, headers: MsgHdrs }[] = []
+    failPublish = false
+    private lastSeq = 0
+
+    client = {
+        publish: async (subject: string, data: Uint8Array, opts: { headers: MsgHdrs }) => {
+            if (this.failPublish) {
+                throw new Error("no responders")
+            }
+            this.published.push({subject: subject, data: sc.decode(data), headers: opts.headers})
+            if (subject == deadLetterSubject) {
+                this.lastSeq++
+                this.stored.set(this.lastSeq, {seq: this.lastSeq, subject: subject, header: opts.headers, data: data} as StoredMsg)
+            }
+        },
+    } as unknown as JetStreamClient
+
+    manager = {
+        streams: {
+            info: async () => ({state: {first_seq: 1, last_seq: this.lastSeq}}),
+            getMessage: async (stream: string, query: { seq: number }) => {
+                const msg = this.stored.get(query.seq)
+                if (!msg) {
+                    const err = new NatsError("no message found", "404")
+                    err.api_error = {code: 404, err_code: messageNotFoundErrorCode, description: "no message found"}
+                    throw err
+                }
+                return msg
+            },
+            deleteMessage: async (stream: string, seq: number) => this.stored.delete(seq),
+        },
+    } as unknown as JetStreamManager
+}
+
+function pubSub(jetStream: FakeJetStream): { service: PubSubServiceImpl, deadLetters: DeadLetterService } {
+    const deadLetters = new DeadLetterService(jetStream.client, jetStream.manager, silentLogger)
+    const connection = {jetstream: () => jetStream.client} as unknown as NatsConnection
+    return {service: new PubSubServiceImpl(connection, jetStream.manager, deadLetters, silentLogger), deadLetters: deadLetters}
+}
+
+function processMessage(service: PubSubServiceImpl, msg: FakeMsg, callback: MessageCallback): Promise<void> {
+    return service["processMessage"](topic, msg as unknown as JsMsg, callback, 30000)
+}
+
+test("messages are acked once the callback handled them", async () => {
+    const {service} = pubSub(new FakeJetStream())
+    const msg = new FakeMsg({eventTypeId: 1})
+    const received: string[] = []
+    await processMessage(service, msg, text => {
+        received.push(text)
+    })
+    // the callback gets the text of the message as a json string, as before
+    assert.deepStrictEqual(received.map(text => JSON.parse(JSON.parse(text))), [{eventTypeId: 1}])
+    assert.strictEqual(msg.acked, true)
+    assert.deepStrictEqual(msg.naks, [])
+})
+
+test("messages which fail are redelivered later with every delivery", async () => {
+    const jetStream = new FakeJetStream()
+    const {service} = pubSub(jetStream)
+    const delays: number[] = []
+    for (let redeliveryCount = 1; redeliveryCount < maxMessageDeliveries; redeliveryCount++) {
+        const msg = new FakeMsg({eventTypeId: 1}, redeliveryCount)
+        await processMessage(service, msg, () => Promise.reject(new CustomError("smtp unreachable", 500)))
+        assert.strictEqual(msg.acked, false)
+        assert.strictEqual(msg.terminated, false)
+        delays.push(...msg.naks)
+    }
+    assert.deepStrictEqual(delays, [1, 2, 3, 4].slice(0, maxMessageDeliveries - 1).map(count => messageNakDelay * 1000 * count))
+    assert.strictEqual(jetStream.published.length, 0)
+})
+
+test("messages are dead lettered with the last error once they were delivered as often as allowed", async () => {
+    const jetStream = new FakeJetStream()
+    const {service} = pubSub(jetStream)
+    const msg = new FakeMsg({eventTypeId: 1}, maxMessageDeliveries)
+    await processMessage(service, msg, () => {
+        throw new Error("smtp unreachable\nat line 2")
+    })
+    assert.deepStrictEqual(msg.naks, [])
+    assert.strictEqual(msg.terminated, true)
+    assert.strictEqual(jetStream.published.length, 1)
+    const {subject, data, headers} = jetStream.published[0]
+    assert.strictEqual(subject, deadLetterSubject)
+    assert.deepStrictEqual(JSON.parse(data), {eventTypeId: 1})
+    assert.strictEqual(headers.get(DEAD_LETTER_HEADER.Subject), topic)
+    assert.strictEqual(headers.get(DEAD_LETTER_HEADER.Error), "smtp unreachable at line 2")
+    assert.strictEqual(headers.get(DEAD_LETTER_HEADER.Deliveries), String(maxMessageDeliveries))
+    assert.strictEqual(headers.get("traceparent"), msg.headers.get("traceparent"))
+})
+
+test("messages rejected with a client error are dead lettered on their first delivery", async () => {
+    const jetStream = new FakeJetStream()
+    const {service} = pubSub(jetStream)
+    const msg = new FakeMsg("not an event")
+    await processMessage(service, msg, () => Promise.reject(new CustomError("event must be an object", 400)))
+    assert.deepStrictEqual(msg.naks, [])
+    assert.strictEqual(msg.terminated, true)
+    assert.deepStrictEqual(jetStream.published.map(p => p.headers.get(DEAD_LETTER_HEADER.Error)), ["event must be an object"])
+})
+
+test("messages which can't be dead lettered are redelivered instead of terminated", async () => {
+    const jetStream = new FakeJetStream()
+    jetStream.failPublish = true
+    const {service} = pubSub(jetStream)
+    const msg = new FakeMsg({eventTypeId: 1}, maxMessageDeliveries)
+    await processMessage(service, msg, () => Promise.reject(new Error("smtp unreachable")))
+    assert.strictEqual(msg.terminated, false)
+    assert.deepStrictEqual(msg.naks, [messageNakDelay * 1000])
+})
+
+test("dead letters are listed newest first, redacted and in pages", async () => {
+    const jetStream = new FakeJetStream()
+    const {service, deadLetters} = pubSub(jetStream)
+    for (const appName of ["app-1", "app-2", "app-3"]) {
+        await processMessage(service, new FakeMsg({appName: appName, password: "hunter2"}), () => Promise.reject(new CustomError("invalid", 400)))
+    }
+    const firstPage = await deadLetters.getDeadLetters({size: "2"})
+    assert.deepStrictEqual(firstPage.map(d => [d.seq, d.event.appName]), [[3, "app-3"], [2, "app-2"]])
+    assert.deepStrictEqual(firstPage.map(d => [d.subject, d.error, d.deliveries]), [[topic, "invalid", 1], [topic, "invalid", 1]])
+    assert.notStrictEqual(firstPage[0].event.password, "hunter2")
+    const secondPage = await deadLetters.getDeadLetters({size: "2", before: String(firstPage[1].seq)})
+    assert.deepStrictEqual(secondPage.map(d => d.seq), [1])
+    await assert.rejects(deadLetters.getDeadLetters({size: "0"}), (err: CustomError) => err.statusCode == 400)
+    await assert.rejects(deadLetters.getDeadLetters({before: "last"}), (err: CustomError) => err.statusCode == 400)
+})
+
+test("replayed dead letters are published to their subject without the dead letter headers and removed", async () => {
+    const jetStream = new FakeJetStream()
+    const {service, deadLetters} = pubSub(jetStream)
+    await processMessage(service, new FakeMsg({appName: "app-1"}), () => Promise.reject(new CustomError("invalid", 400)))
+    await processMessage(service, new FakeMsg({appName: "app-2"}), () => Promise.reject(new CustomError("invalid", 400)))
+
+    const replayed = await deadLetters.replay("1")
+    assert.strictEqual(replayed.event.appName, "app-1")
+    const republished = jetStream.published[jetStream.published.length - 1]
+    assert.strictEqual(republished.subject, topic)
+    assert.deepStrictEqual(JSON.parse(republished.data), {appName: "app-1"})
+    assert.deepStrictEqual(republished.headers.keys(), ["traceparent"])
+    // the gap left behind is skipped when listing
+    assert.deepStrictEqual((await deadLetters.getDeadLetters({})).map(d => d.seq), [2])
+
+    await assert.rejects(deadLetters.replay("1"), (err: CustomError) => err.statusCode == 404)
+    await assert.rejects(deadLetters.replay("one"), (err: CustomError) => err.statusCode == 400)
+})
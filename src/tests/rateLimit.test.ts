@@ -0,0 +1,156 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {silentLogger, test} from "./harness";
+import {RateLimitService} from "../throttle/rateLimitService";
+import {rateLimitWindow} from "../throttle/utils";
+import {DeliveryOutcome, Event, Handler, NotificationService} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {NotificationTemplates} from "../entities/notificationTemplates";
+import {EventRepository} from "../repository/eventsRepository";
+import {MemoryNotificationSettingsRepository, MemoryTemplatesRepository} from "./fakes";
+
+interface Held {
+    correlationId: string
+    providers: any[]
+    until: Date
+}
+
+// records what the rate limits hold back instead of storing it for later
+class HoldingServices {
+    digested: Held[] = []
+    deferred: Held[] = []
+
+    digestService: any = {
+        bufferUntil: async (event: Event, setting: NotificationSettings, provider: any, until: Date): Promise<DeliveryOutcome> => {
+            this.digested.push({correlationId: String(event.correlationId), providers: [provider], until: until})
+            return {destination: provider.dest, configId: provider.configId, success: true, deferred: true}
+        },
+    }
+
+    scheduleService: any = {
+        defer: async (event: Event, setting: NotificationSettings, providers: any[], until: Date): Promise<DeliveryOutcome[]> => {
+            this.deferred.push({correlationId: String(event.correlationId), providers: providers, until: until})
+            return providers.map(p => ({destination: p.dest, configId: p.configId, success: true, deferred: true}))
+        },
+    }
+}
+
+class RecordingHandler implements Handler {
+    sent: string[] = []
+
+    async handle(event: Event, templates: any[], setting: NotificationSettings): Promise<DeliveryOutcome[]> {
+        return (setting.config as any).map(p => {
+            this.sent.push(event.correlationId + " " + p.dest)
+            return {destination: p.dest, configId: p.configId, success: true}
+        })
+    }
+
+    sendNotification(event: Event, sdk: any, template: string) {
+    }
+
+    async preview(): Promise<any[]> {
+        return []
+    }
+}
+
+function event(id: string): Event {
+    return {eventTypeId: 3, pipelineType: "CI", pipelineId: 1, correlationId: id, baseUrl: "https://devtron.example.com", payload: {}} as Event
+}
+
+function setting(...providers: any[]): NotificationSettings {
+    return Object.assign(new NotificationSettings(), {id: 1, config: providers as any})
+}
+
+const windowEnded = () => new Promise(resolve => setTimeout(resolve, rateLimitWindow * 1000 + 100))
+
+function sentProviders(settings: NotificationSettings[]): string[] {
+    return [].concat(...settings.map(s => (s.config as any).map(p => p.dest + "-" + p.configId)))
+}
+
+test("chat messages over the limit of their config are summarised in a digest sent when the window ends", async () => {
+    const held = new HoldingServices()
+    const limiter = new RateLimitService(held.digestService, held.scheduleService, silentLogger)
+    const slack = {dest: "slack", configId: 1}
+    const otherSlack = {dest: "slack", configId: 2}
+    const sent: string[] = []
+    for (const id of ["a", "b", "c"]) {
+        const limited = await limiter.applyRateLimits(event(id), [setting(slack)])
+        sent.push(...sentProviders(limited.settings).map(p => id + " " + p))
+    }
+    const other = await limiter.applyRateLimits(event("d"), [setting(otherSlack)])
+    assert.deepStrictEqual(sent, ["a slack-1", "b slack-1"])
+    assert.deepStrictEqual(sentProviders(other.settings), ["slack-2"])
+    assert.deepStrictEqual(held.digested.map(h => h.correlationId), ["c"])
+    const until = held.digested[0].until.getTime() - Date.now()
+    assert.ok(until > 0 && until <= rateLimitWindow * 1000, "digest due in " + until + "ms")
+
+    await windowEnded()
+    const next = await limiter.applyRateLimits(event("e"), [setting(slack)])
+    assert.deepStrictEqual(sentProviders(next.settings), ["slack-1"])
+})
+
+test("a destination reached through several settings is counted once per event", async () => {
+    const held = new HoldingServices()
+    const limiter = new RateLimitService(held.digestService, held.scheduleService, silentLogger)
+    const slack = {dest: "slack", configId: 1}
+    const limited = await limiter.applyRateLimits(event("a"), [setting(slack), setting(slack)])
+    assert.deepStrictEqual(sentProviders(limited.settings), ["slack-1", "slack-1"])
+    const second = await limiter.applyRateLimits(event("b"), [setting(slack)])
+    assert.deepStrictEqual(sentProviders(second.settings), ["slack-1"])
+})
+
+test("deferred emails count against the window they are released in", async () => {
+    const held = new HoldingServices()
+    const limiter = new RateLimitService(held.digestService, held.scheduleService, silentLogger)
+    const handler = new RecordingHandler()
+    const service = new NotificationService(new EventRepository(), new MemoryNotificationSettingsRepository([]),
+        new MemoryTemplatesRepository([Object.assign(new NotificationTemplates(), {channel_type: "ses"})]), [handler],
+        held.digestService, held.scheduleService, {} as any, limiter, silentLogger)
+    const ses = {dest: "ses", configId: 1, recipient: "jane@example.com"}
+
+    for (const id of ["a", "b", "c", "d", "e"]) {
+        const limited = await limiter.applyRateLimits(event(id), [setting(ses)])
+        await service.dispatchSettings(event(id), limited.settings)
+    }
+    assert.deepStrictEqual(handler.sent, ["a ses", "b ses"])
+    assert.deepStrictEqual(held.deferred.map(h => h.correlationId), ["c", "d", "e"])
+
+    // released together once the window ended, as the deferred notification worker does
+    await windowEnded()
+    const backlog = held.deferred.splice(0)
+    const outcomes = []
+    for (const deferred of backlog) {
+        outcomes.push(...await service.dispatchDeferred(event(deferred.correlationId), [setting(...deferred.providers)]))
+    }
+    assert.deepStrictEqual(handler.sent, ["a ses", "b ses", "c ses", "d ses"])
+    assert.deepStrictEqual(outcomes.map(outcome => outcome.deferred ?? false), [false, false, true])
+    assert.deepStrictEqual(held.deferred.map(h => h.correlationId), ["e"])
+})
+
+test("windows which ended are dropped", async () => {
+    const held = new HoldingServices()
+    const limiter = new RateLimitService(held.digestService, held.scheduleService, silentLogger)
+    for (let configId = 1; configId <= 50; configId++) {
+        await limiter.applyRateLimits(event("a"), [setting({dest: "slack", configId: configId})])
+    }
+    assert.strictEqual(limiter["windows"].size, 50)
+    await windowEnded()
+    await limiter.applyRateLimits(event("b"), [setting({dest: "slack", configId: 51})])
+    assert.deepStrictEqual([...limiter["windows"].keys()], ["slack-51"])
+})
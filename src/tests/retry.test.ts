@@ -0,0 +1,299 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import NotifmeSdk from "notifme-sdk";
+import * as winston from "winston";
+import {silentLogger, StubServer, test} from "./harness";
+import {
+    getBackoffDelay,
+    OPSGENIE_DESTINATION,
+    PAGERDUTY_DESTINATION,
+    RETRY_STATUS,
+    RetryPolicy,
+    RetryPolicyMapping,
+    SES_DESTINATION,
+    SLACK_DESTINATION,
+    SMTP_DESTINATION,
+    TEAMS_DESTINATION,
+    WEBHOOK_DESTINATION
+} from "../retry/utils";
+import {RetryableHandler, RetryService} from "../retry/retryService";
+import {NotificationRetryRepository} from "../repository/notificationRetryRepository";
+import {NotificationRetry} from "../entities/notificationRetry";
+import {WebhookService} from "../destination/destinationHandlers/webhookHandler";
+import {EventLogBuilder} from "../common/eventLogBuilder";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {Event, Handler} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {WebhookConfig} from "../entities/webhookconfig";
+import {NotificationTemplates} from "../entities/notificationTemplates";
+import {SlackConfig} from "../entities/slackConfig";
+import {TeamsConfig} from "../entities/teamsConfig";
+import {SesConfig} from "../entities/sesConfig";
+import {SMTPConfig} from "../entities/smtpConfig";
+import {PagerDutyConfig} from "../entities/pagerDutyConfig";
+import {OpsgenieConfig} from "../entities/opsgenieConfig";
+import {SlackService} from "../destination/destinationHandlers/slackHandler";
+import {TeamsService} from "../destination/destinationHandlers/teamsHandler";
+import {SESService} from "../destination/destinationHandlers/sesHandler";
+import {SMTPService} from "../destination/destinationHandlers/smtpHandler";
+import {PagerDutyService} from "../destination/destinationHandlers/pagerDutyHandler";
+import {OpsgenieService} from "../destination/destinationHandlers/opsgenieHandler";
+import {IncidentTracker} from "../common/incident";
+import {OpenIncidentRepository} from "../repository/openIncidentRepository";
+import {PreferenceService} from "../preference/preferenceService";
+import {AttachmentService} from "../attachment/attachmentService";
+import cdEvent from "./data/cd.json";
+import {
+    MemoryEventLogRepository,
+    MemoryOpsgenieConfigRepository,
+    MemoryPagerDutyConfigRepository,
+    MemorySESConfigRepository,
+    MemorySlackConfigRepository,
+    MemorySMTPConfigRepository,
+    MemoryTeamsConfigRepository,
+    MemoryUserPreferenceRepository,
+    MemoryUsersRepository,
+    MemoryWebhookConfigRepository
+} from "./fakes";
+
+// keeps the queue in memory instead of notifier_retry_queue
+class MemoryRetryRepository extends NotificationRetryRepository {
+    retries: NotificationRetry[] = []
+
+    async saveRetry(retry: Partial<NotificationRetry>): Promise<any> {
+        this.retries.push(Object.assign(new NotificationRetry(), retry, {id: this.retries.length + 1}))
+    }
+
+    async updateRetry(id: number, fields: Partial<NotificationRetry>): Promise<any> {
+        Object.assign(this.retries.find(retry => retry.id == id), fields)
+    }
+
+    async claimDueRetries(limit: number, leaseUntil: Date): Promise<NotificationRetry[]> {
+        const due = this.retries.filter(retry => retry.status == RETRY_STATUS.Pending && retry.next_attempt_at.getTime() <= Date.now()).slice(0, limit)
+        // copies, as read from the table
+        due.forEach(retry => retry.next_attempt_at = leaseUntil)
+        return due.map(retry => JSON.parse(JSON.stringify(retry)))
+    }
+
+    // makes the entry due right away instead of waiting for its backoff
+    makeDue(retry: NotificationRetry) {
+        retry.next_attempt_at = new Date(Date.now() - 1000)
+    }
+}
+
+const policy: RetryPolicy = {maxAttempts: 5, baseDelay: 30, maxDelay: 300, multiplier: 2, jitter: 0}
+
+function assertDelay(at: Date, seconds: number, jitter: number) {
+    const delay = (at.getTime() - Date.now()) / 1000
+    assert.ok(delay <= seconds * (1 + jitter) + 1 && delay >= seconds * (1 - jitter) - 1, "delay of " + delay + "s instead of " + seconds + "s")
+}
+
+async function withWebhook(statuses: number[], run: (service: WebhookService, config: WebhookConfig, retryService: RetryService, retries: MemoryRetryRepository, logs: MemoryEventLogRepository, stub: StubServer) => Promise<void>) {
+    const stub = new StubServer(() => ({status: statuses.shift() ?? 200, body: {}}))
+    const url = await stub.start()
+    try {
+        const retries = new MemoryRetryRepository()
+        const logs = new MemoryEventLogRepository()
+        const config = Object.assign(new WebhookConfig(), {id: 7, web_hook_url: url + "/hook", payload: '{"count": {{count}}}', header: {}})
+        const retryService = new RetryService(retries, logs, new EventLogBuilder(), silentLogger)
+        const service = new WebhookService(logs, new EventLogBuilder(), new MemoryWebhookConfigRepository([config]), silentLogger, new MustacheHelper(), retryService)
+        retryService.registerHandler(WEBHOOK_DESTINATION, service)
+        await run(service, config, retryService, retries, logs, stub)
+    } finally {
+        await stub.close()
+    }
+}
+
+const event = {eventTypeId: 3, correlationId: "retry-test", payload: {digest: {count: 2}}} as Event
+const setting = Object.assign(new NotificationSettings(), {id: 1, pipeline_id: 4, event_type_id: 3})
+
+test("retries back off exponentially up to the max delay", () => {
+    assert.deepStrictEqual([1, 2, 3, 4, 5, 6].map(attempt => getBackoffDelay(policy, attempt)), [30000, 60000, 120000, 240000, 300000, 300000])
+    const jittered = {...policy, jitter: 0.2}
+    for (let i = 0; i < 200; i++) {
+        const delay = getBackoffDelay(jittered, 2)
+        assert.ok(delay >= 48000 && delay <= 72000, "delay of " + delay + "ms")
+    }
+})
+
+test("a failed delivery is queued and retried with backoff until it's delivered", () => withWebhook([500, 503], async (service, config, retryService, retries, logs, stub) => {
+    const webhookPolicy = RetryPolicyMapping.get(WEBHOOK_DESTINATION)
+    const outcome = await service.sendAndLogNotification(event, config, setting, {dest: "webhook", configId: 7})
+    assert.deepStrictEqual([outcome.success, outcome.retrying], [false, true])
+    assert.strictEqual(retries.retries.length, 1)
+    const retry = retries.retries[0]
+    assert.deepStrictEqual([retry.status, retry.attempts, retry.template, retry.target], [RETRY_STATUS.Pending, 0, config.payload, {configId: 7, webhookUrl: config.web_hook_url}])
+    assert.ok(retry.last_error.includes("status code 500"), retry.last_error)
+    assertDelay(retry.next_attempt_at, webhookPolicy.baseDelay, webhookPolicy.jitter)
+    // the first attempt is only logged once the retries are done
+    assert.strictEqual(logs.logs.length, 0)
+
+    await retryService.processDueRetries()
+    assert.strictEqual(stub.requests.length, 1)
+    retries.makeDue(retry)
+    await retryService.processDueRetries()
+    assert.deepStrictEqual([retry.status, retry.attempts], [RETRY_STATUS.Pending, 1])
+    assertDelay(retry.next_attempt_at, webhookPolicy.baseDelay * webhookPolicy.multiplier, webhookPolicy.jitter)
+
+    retries.makeDue(retry)
+    await retryService.processDueRetries()
+    assert.deepStrictEqual([retry.status, retry.attempts], [RETRY_STATUS.Succeeded, 2])
+    assert.strictEqual(stub.requests.length, 3)
+    assert.deepStrictEqual(stub.requests.map(request => request.body), [{count: 2}, {count: 2}, {count: 2}])
+    assert.deepStrictEqual(logs.logs.map(log => [log.is_notification_sent, log.attempt, log.status_code]), [[true, 3, 200]])
+}))
+
+test("a delivery failing every retry is given up and logged as failed", () => withWebhook([500, 500, 500, 500, 500, 500], async (service, config, retryService, retries, logs) => {
+    await service.sendAndLogNotification(event, config, setting, {dest: "webhook", configId: 7})
+    const retry = retries.retries[0]
+    for (let attempt = 1; attempt <= retry.max_attempts; attempt++) {
+        retries.makeDue(retry)
+        await retryService.processDueRetries()
+        assert.strictEqual(retry.attempts, attempt)
+    }
+    assert.strictEqual(retry.status, RETRY_STATUS.Failed)
+    assert.deepStrictEqual(logs.logs.map(log => [log.is_notification_sent, log.attempt, log.status_code]), [[false, retry.max_attempts + 1, 500]])
+    retries.makeDue(retry)
+    await retryService.processDueRetries()
+    assert.strictEqual(retry.attempts, retry.max_attempts)
+}))
+
+test("a payload which doesn't render is logged as failed without being queued", () => withWebhook([], async (service, config, retryService, retries, logs, stub) => {
+    const broken = Object.assign(new WebhookConfig(), config, {payload: '{"count": {{count}}'})
+    const outcome = await service.sendAndLogNotification(event, broken, setting, {dest: "webhook", configId: 7})
+    assert.deepStrictEqual([outcome.success, outcome.retrying], [false, undefined])
+    assert.ok(outcome.error.startsWith("Unable to render webhook payload"), outcome.error)
+    assert.strictEqual(retries.retries.length, 0)
+    assert.strictEqual(stub.requests.length, 0)
+    assert.deepStrictEqual(logs.logs.map(log => log.is_notification_sent), [false])
+}))
+
+interface HandlerCase {
+    destination: string
+    channel: string
+    // the template the handler sends, once it is cut off it doesn't render
+    template: string
+    handler: (url: string, logs: MemoryEventLogRepository, retryService: RetryService) => Handler & RetryableHandler
+    // the emails aren't sent over http, only their rendering is tested
+    sendsHttp: boolean
+}
+
+// the provider failures the tests cause are logged by notifme itself
+new NotifmeSdk({}).logger.configure({transports: [new winston.transports.Console({silent: true})]})
+
+const mh = new MustacheHelper()
+const preferenceService = new PreferenceService(new MemoryUserPreferenceRepository(), silentLogger)
+const attachmentService = new AttachmentService(mh, silentLogger)
+
+const handlerCases: HandlerCase[] = [
+    {
+        destination: SLACK_DESTINATION, channel: "slack", template: '{"text": "{{appName}} failed"}', sendsHttp: true,
+        handler: (url, logs, retryService) => new SlackService(logs, new EventLogBuilder(),
+            new MemorySlackConfigRepository([Object.assign(new SlackConfig(), {id: 1, web_hook_url: url + "/slack"})]), silentLogger, mh, retryService),
+    },
+    {
+        destination: TEAMS_DESTINATION, channel: "teams", template: '{"type": "AdaptiveCard", "body": [{"type": "TextBlock", "text": "{{appName}} failed"}]}', sendsHttp: true,
+        handler: (url, logs, retryService) => new TeamsService(logs, new EventLogBuilder(),
+            new MemoryTeamsConfigRepository([Object.assign(new TeamsConfig(), {id: 1, web_hook_url: url + "/teams"})]), silentLogger, mh, retryService),
+    },
+    {
+        destination: PAGERDUTY_DESTINATION, channel: "pagerduty", template: '{"payload": {"summary": "{{appName}} failed"}}', sendsHttp: true,
+        handler: (url, logs, retryService) => new PagerDutyService(logs, new EventLogBuilder(),
+            new MemoryPagerDutyConfigRepository([Object.assign(new PagerDutyConfig(), {id: 1, routing_key: "routing-key", api_url: url})]), silentLogger, mh, retryService,
+            new IncidentTracker(new OpenIncidentRepository(), silentLogger)),
+    },
+    {
+        destination: OPSGENIE_DESTINATION, channel: "opsgenie", template: '{"message": "{{appName}} failed"}', sendsHttp: true,
+        handler: (url, logs, retryService) => new OpsgenieService(logs, new EventLogBuilder(),
+            new MemoryOpsgenieConfigRepository([Object.assign(new OpsgenieConfig(), {id: 1, api_key: "api-key", api_url: url})]), silentLogger, mh, retryService,
+            new IncidentTracker(new OpenIncidentRepository(), silentLogger)),
+    },
+    {
+        destination: SES_DESTINATION, channel: "ses", template: '{"subject": "{{appName}} failed", "html": "<b>{{appName}}</b>"}', sendsHttp: false,
+        handler: (url, logs, retryService) => new SESService(logs, new EventLogBuilder(),
+            new MemorySESConfigRepository([Object.assign(new SesConfig(), {id: 1, default: "true", region: "us-east-1", access_key: "key", secret_access_key: "secret", from_email: "notifier@example.com"})]),
+            new MemoryUsersRepository([]), silentLogger, mh, retryService, preferenceService, attachmentService),
+    },
+    {
+        destination: SMTP_DESTINATION, channel: "ses", template: '{"subject": "{{appName}} failed", "html": "<b>{{appName}}</b>"}', sendsHttp: false,
+        handler: (url, logs, retryService) => new SMTPService(logs, new EventLogBuilder(),
+            new MemorySMTPConfigRepository([Object.assign(new SMTPConfig(), {id: 1, default: "true", host: "127.0.0.1", port: "25", auth_user: "user", auth_password: "password", from_email: "notifier@example.com"})]),
+            new MemoryUsersRepository([]), silentLogger, mh, retryService, preferenceService, attachmentService),
+    },
+]
+
+// the material of the fixture is a branch, its webhook data is left out of cd.json
+const failedEvent = {
+    ...cdEvent,
+    eventTypeId: 3,
+    baseUrl: "https://devtron.example.com",
+    payload: {...cdEvent.payload, material: {...cdEvent.payload.material, ciMaterials: cdEvent.payload.material.ciMaterials.map(ci => ({...ci, type: "SOURCE_TYPE_BRANCH_FIXED"}))}},
+} as Event
+
+async function sendThrough(handlerCase: HandlerCase, template: string, statuses: number[]) {
+    const stub = new StubServer(() => ({status: statuses.shift() ?? 200, body: {}}))
+    const url = await stub.start()
+    try {
+        const retries = new MemoryRetryRepository()
+        const logs = new MemoryEventLogRepository()
+        const retryService = new RetryService(retries, logs, new EventLogBuilder(), silentLogger)
+        const handler = handlerCase.handler(url, logs, retryService)
+        retryService.registerHandler(handlerCase.destination, handler)
+        const templates = [Object.assign(new NotificationTemplates(), {channel_type: handlerCase.channel, template_payload: template})]
+        // emails are sent to recipients, the other destinations to their configs
+        const provider = handlerCase.sendsHttp ? {dest: handlerCase.destination, configId: 1, rule: {}} : {dest: handlerCase.destination, recipient: "jane@example.com", rule: {}}
+        const sendSetting = Object.assign(new NotificationSettings(), {id: 1, pipeline_id: 32, event_type_id: 3, config: [provider]})
+        const outcomes = await handler.handle(failedEvent, templates, sendSetting, new Map(), new Map())
+        return {outcomes: outcomes, retries: retries.retries, logs: logs.logs, requests: stub.requests, url: url}
+    } finally {
+        await stub.close()
+    }
+}
+
+for (const handlerCase of handlerCases) {
+    test(handlerCase.destination + " messages which don't render are logged as failed without being queued", async () => {
+        const sent = await sendThrough(handlerCase, handlerCase.template.slice(0, -1), [])
+        assert.deepStrictEqual(sent.outcomes.map(outcome => [outcome.success, outcome.retrying]), [[false, undefined]])
+        assert.ok(sent.outcomes[0].error.startsWith("Unable to render"), sent.outcomes[0].error)
+        assert.strictEqual(sent.retries.length, 0)
+        assert.strictEqual(sent.requests.length, 0)
+        assert.deepStrictEqual(sent.logs.map(log => [log.destination, log.is_notification_sent]), [[handlerCase.destination, false]])
+    })
+
+    if (handlerCase.sendsHttp) {
+        test(handlerCase.destination + " deliveries are logged with their config, host, status, response and latency", async () => {
+            const sent = await sendThrough(handlerCase, handlerCase.template, [])
+            assert.deepStrictEqual(sent.outcomes.map(outcome => [outcome.success, outcome.configId, outcome.target]), [[true, 1, new URL(sent.url).host]])
+            // slack messages are sent through notifme, which reports its own result instead of the http response
+            const [statusCode, response] = handlerCase.destination == SLACK_DESTINATION
+                ? [undefined, '{"status":"success","channels":{"slack":{"id":"","providerId":"slack-provider"}}}'] : [200, "{}"]
+            assert.deepStrictEqual(sent.logs.map(log => [log.destination, log.is_notification_sent, log.config_id, log.target, log.status_code, log.response, log.attempt]),
+                [[handlerCase.destination, true, 1, new URL(sent.url).host, statusCode, response, 1]])
+            assert.ok(sent.logs[0].latency_ms >= 0, String(sent.logs[0].latency_ms))
+        })
+
+        test(handlerCase.destination + " messages the provider fails are queued", async () => {
+            const sent = await sendThrough(handlerCase, handlerCase.template, [500])
+            assert.deepStrictEqual(sent.outcomes.map(outcome => [outcome.success, outcome.retrying]), [[false, true]])
+            assert.strictEqual(sent.requests.length, 1)
+            assert.deepStrictEqual(sent.retries.map(retry => [retry.destination, retry.template]), [[handlerCase.destination, handlerCase.template]])
+            assert.strictEqual(sent.logs.length, 0)
+        })
+    }
+}
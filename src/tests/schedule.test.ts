@@ -0,0 +1,230 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import moment from "moment-timezone";
+import {silentLogger, test} from "./harness";
+import {isBypassed, isWithinWindow, nextWindowStart, QUIET_ACTION} from "../schedule/utils";
+import {DeliveryScheduleService} from "../schedule/scheduleService";
+import {DeliveryScheduleRepository} from "../repository/deliveryScheduleRepository";
+import {DeliverySchedule} from "../entities/deliverySchedule";
+import {DeferredNotification} from "../entities/deferredNotification";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {DeliveryOutcome, Event} from "../notification/service/notificationService";
+import {EVENT_TYPE} from "../common/types";
+
+// keeps the schedules and deferred notifications in memory instead of the database, every deferred notification is due
+class MemoryDeliveryScheduleRepository extends DeliveryScheduleRepository {
+    schedules: DeliverySchedule[]
+    deferred: DeferredNotification[] = []
+
+    constructor(schedules: DeliverySchedule[]) {
+        super()
+        this.schedules = schedules
+    }
+
+    async findSchedules(settingIds: number[]): Promise<DeliverySchedule[]> {
+        return this.schedules.filter(s => s.notification_setting_id == null || settingIds.includes(s.notification_setting_id))
+    }
+
+    async saveDeferredNotification(deferred: Partial<DeferredNotification>) {
+        const saved = Object.assign(new DeferredNotification(), deferred, {id: this.deferred.length + 1})
+        this.deferred.push(saved)
+        return saved
+    }
+
+    async claimDueDeferredNotifications(limit: number, leaseUntil: Date): Promise<DeferredNotification[]> {
+        return this.deferred.slice(0, limit)
+    }
+
+    async deleteDeferredNotification(id: number) {
+        this.deferred = this.deferred.filter(d => d.id != id)
+        return undefined
+    }
+}
+
+function schedule(fields: Partial<DeliverySchedule>): DeliverySchedule {
+    return Object.assign(new DeliverySchedule(), {timezone: "UTC", active_days: [], window_start: "09:00", window_end: "17:00",
+        quiet_action: QUIET_ACTION.Defer, bypass_event_types: [], bypass_prod_only: false, active: true}, fields)
+}
+
+// 2024-03-01 is a Friday
+const windowCases: { name: string, schedule: Partial<DeliverySchedule>, at: string, within: boolean }[] = [
+    {name: "inside a window", schedule: {}, at: "2024-03-01T12:00:00Z", within: true},
+    {name: "at the start of a window", schedule: {}, at: "2024-03-01T09:00:00Z", within: true},
+    {name: "at the end of a window", schedule: {}, at: "2024-03-01T17:00:00Z", within: false},
+    {name: "before a window", schedule: {}, at: "2024-03-01T08:59:00Z", within: false},
+    {name: "on an active day", schedule: {active_days: [1, 2, 3, 4, 5]}, at: "2024-03-01T12:00:00Z", within: true},
+    {name: "on an inactive day", schedule: {active_days: [1, 2, 3, 4, 5]}, at: "2024-03-02T12:00:00Z", within: false},
+    {name: "in a window of the whole day", schedule: {window_start: "00:00", window_end: "00:00", active_days: [5]}, at: "2024-03-01T23:59:00Z", within: true},
+    {name: "the day after a window of the whole day", schedule: {window_start: "00:00", window_end: "00:00", active_days: [5]}, at: "2024-03-02T00:00:00Z", within: false},
+    {name: "before midnight in a window past midnight", schedule: {window_start: "22:00", window_end: "06:00", active_days: [5]}, at: "2024-03-01T23:00:00Z", within: true},
+    {name: "after midnight in a window past midnight of the day before", schedule: {window_start: "22:00", window_end: "06:00", active_days: [5]}, at: "2024-03-02T05:59:00Z", within: true},
+    {name: "at the end of a window past midnight", schedule: {window_start: "22:00", window_end: "06:00", active_days: [5]}, at: "2024-03-02T06:00:00Z", within: false},
+    {name: "after midnight when the day before isn't active", schedule: {window_start: "22:00", window_end: "06:00", active_days: [5]}, at: "2024-03-01T02:00:00Z", within: false},
+    {name: "before midnight when the day isn't active", schedule: {window_start: "22:00", window_end: "06:00", active_days: [5]}, at: "2024-03-02T23:00:00Z", within: false},
+    {name: "in the time zone of the schedule", schedule: {timezone: "America/New_York"}, at: "2024-01-15T14:30:00Z", within: true},
+    {name: "after the window in the time zone of the schedule", schedule: {timezone: "America/New_York"}, at: "2024-01-15T22:30:00Z", within: false},
+    {name: "with a half hour offset", schedule: {timezone: "Asia/Kolkata"}, at: "2024-01-15T03:30:00Z", within: true},
+    {name: "before the window with a half hour offset", schedule: {timezone: "Asia/Kolkata"}, at: "2024-01-15T03:29:00Z", within: false},
+    // 09:30 in Berlin on the day clocks moved forward, 08:30 in winter time
+    {name: "after clocks moved forward", schedule: {timezone: "Europe/Berlin"}, at: "2024-03-31T07:30:00Z", within: true},
+    {name: "after clocks moved back", schedule: {timezone: "Europe/Berlin"}, at: "2024-10-27T16:30:00Z", within: false},
+    {name: "on the local day of a window which is another day in UTC", schedule: {timezone: "Pacific/Auckland", active_days: [1]}, at: "2024-01-14T21:00:00Z", within: true},
+    {name: "in an unknown time zone, which is taken as UTC", schedule: {timezone: "Mars/Olympus"}, at: "2024-03-01T09:00:00Z", within: true},
+]
+
+for (const {name, schedule: fields, at, within} of windowCases) {
+    test("isWithinWindow " + name, () => {
+        assert.strictEqual(isWithinWindow(schedule(fields), new Date(at)), within)
+    })
+}
+
+const nextStartCases: { name: string, schedule: Partial<DeliverySchedule>, at: string, opensAt: string }[] = [
+    {name: "later on the same day", schedule: {}, at: "2024-03-01T08:00:00Z", opensAt: "2024-03-01T09:00:00Z"},
+    {name: "on the next day once the window closed", schedule: {}, at: "2024-03-01T17:00:00Z", opensAt: "2024-03-02T09:00:00Z"},
+    {name: "on the next day while the window is open", schedule: {}, at: "2024-03-01T09:00:00Z", opensAt: "2024-03-02T09:00:00Z"},
+    {name: "on the next active day", schedule: {active_days: [1, 2, 3, 4, 5]}, at: "2024-03-01T18:00:00Z", opensAt: "2024-03-04T09:00:00Z"},
+    {name: "a week later when only the day is active", schedule: {active_days: [5]}, at: "2024-03-01T10:00:00Z", opensAt: "2024-03-08T09:00:00Z"},
+    {name: "of a window past midnight", schedule: {window_start: "22:00", window_end: "06:00", active_days: [5]}, at: "2024-03-02T06:00:00Z", opensAt: "2024-03-08T22:00:00Z"},
+    {name: "in the time zone of the schedule", schedule: {timezone: "America/New_York"}, at: "2024-01-15T22:30:00Z", opensAt: "2024-01-16T14:00:00Z"},
+    {name: "after clocks moved forward", schedule: {timezone: "Europe/Berlin"}, at: "2024-03-30T17:00:00Z", opensAt: "2024-03-31T07:00:00Z"},
+    {name: "after clocks moved back", schedule: {timezone: "Europe/Berlin"}, at: "2024-10-26T16:00:00Z", opensAt: "2024-10-27T08:00:00Z"},
+    {name: "after clocks moved forward in new york", schedule: {timezone: "America/New_York"}, at: "2024-03-09T23:00:00Z", opensAt: "2024-03-10T13:00:00Z"},
+    // 02:30 doesn't exist in Berlin that night, the window opens at 03:30 summer time instead
+    {name: "at a start skipped by clocks moving forward", schedule: {timezone: "Europe/Berlin", window_start: "02:30", window_end: "04:00"}, at: "2024-03-30T23:00:00Z", opensAt: "2024-03-31T01:30:00Z"},
+    {name: "a week later when no active day is a weekday", schedule: {active_days: [8]}, at: "2024-03-01T10:00:00Z", opensAt: "2024-03-08T10:00:00Z"},
+]
+
+for (const {name, schedule: fields, at, opensAt} of nextStartCases) {
+    test("nextWindowStart " + name, () => {
+        assert.strictEqual(nextWindowStart(schedule(fields), new Date(at)).toISOString(), new Date(opensAt).toISOString())
+    })
+}
+
+test("isBypassed lets the listed event types through, only of production environments with bypass_prod_only", () => {
+    const bypassing = schedule({bypass_event_types: [EVENT_TYPE.Fail]})
+    const prodOnly = schedule({bypass_event_types: [EVENT_TYPE.Fail], bypass_prod_only: true})
+    const failed = (isProdEnv: boolean) => ({eventTypeId: EVENT_TYPE.Fail, isProdEnv: isProdEnv} as Event)
+    assert.deepStrictEqual([
+        isBypassed(bypassing, failed(false)),
+        isBypassed(bypassing, {eventTypeId: EVENT_TYPE.Success} as Event),
+        isBypassed(prodOnly, failed(true)),
+        isBypassed(prodOnly, failed(false)),
+        isBypassed(schedule({bypass_event_types: null}), failed(true)),
+    ], [true, false, true, false, false])
+})
+
+// records the events buffered for quiet hours digests instead of storing them
+class RecordingDigests {
+    buffered: { provider: any, flushAt: Date }[] = []
+
+    digestService: any = {
+        bufferUntil: async (event: Event, setting: NotificationSettings, provider: any, flushAt: Date): Promise<DeliveryOutcome> => {
+            this.buffered.push({provider: provider, flushAt: flushAt})
+            return {destination: provider.dest, configId: provider.configId, success: true, deferred: true}
+        },
+    }
+}
+
+// a window which is closed for the rest of the day and opens at midnight UTC
+function closedUntilTomorrow(fields: Partial<DeliverySchedule> = {}): DeliverySchedule {
+    const tomorrow = moment.utc().add(1, "day")
+    return schedule({window_start: "00:00", window_end: "00:00", active_days: [tomorrow.isoWeekday()], ...fields})
+}
+
+const tomorrow = () => moment.utc().add(1, "day").startOf("day").toISOString()
+const openAllDay = (fields: Partial<DeliverySchedule> = {}) => schedule({window_start: "00:00", window_end: "00:00", ...fields})
+
+function event(eventTypeId: number = EVENT_TYPE.Fail, isProdEnv: boolean = false): Event {
+    return {eventTypeId: eventTypeId, pipelineType: "CD", pipelineId: 1, correlationId: "quiet", isProdEnv: isProdEnv, payload: {}} as Event
+}
+
+function setting(id: number, ...providers: any[]): NotificationSettings {
+    return Object.assign(new NotificationSettings(), {id: id, config: providers as any})
+}
+
+function providersOf(settings: NotificationSettings[]): string[] {
+    return [].concat(...settings.map(s => (s.config as any).map(p => s.id + " " + p.dest + "-" + p.configId)))
+}
+
+test("events during quiet hours are deferred to the next opening, chat ones digested and emails deferred", async () => {
+    const repository = new MemoryDeliveryScheduleRepository([closedUntilTomorrow({quiet_action: QUIET_ACTION.Digest})])
+    const digests = new RecordingDigests()
+    const service = new DeliveryScheduleService(repository, digests.digestService, silentLogger)
+    const {settings, outcomes} = await service.applySchedules(event(), [setting(1, {dest: "slack", configId: 1}, {dest: "ses", configId: 2, recipient: "a@b.c"})])
+
+    assert.deepStrictEqual(providersOf(settings), [])
+    assert.deepStrictEqual(outcomes.map(o => [o.destination, o.deferred]), [["slack", true], ["ses", true]])
+    assert.deepStrictEqual(digests.buffered.map(b => [b.provider.dest, b.flushAt.toISOString()]), [["slack", tomorrow()]])
+    assert.strictEqual(repository.deferred.length, 1)
+    assert.strictEqual(repository.deferred[0].deliver_at.toISOString(), tomorrow())
+    assert.deepStrictEqual(repository.deferred[0].setting.config, [{dest: "ses", configId: 2, recipient: "a@b.c"}])
+})
+
+test("events during quiet hours are dropped with a suppressed outcome, once per destination", async () => {
+    const service = new DeliveryScheduleService(new MemoryDeliveryScheduleRepository([closedUntilTomorrow({quiet_action: QUIET_ACTION.Drop})]),
+        new RecordingDigests().digestService, silentLogger)
+    const {settings, outcomes} = await service.applySchedules(event(), [setting(1, {dest: "slack", configId: 1}), setting(2, {dest: "slack", configId: 1})])
+    assert.deepStrictEqual(providersOf(settings), [])
+    assert.deepStrictEqual(outcomes, [{destination: "slack", configId: 1, success: true, suppressed: true}])
+})
+
+test("the most specific schedule of a destination applies", async () => {
+    const repository = new MemoryDeliveryScheduleRepository([
+        closedUntilTomorrow(),
+        openAllDay({destination: "slack"}),
+        closedUntilTomorrow({destination: "slack", config_id: 2}),
+        openAllDay({notification_setting_id: 2}),
+    ])
+    const service = new DeliveryScheduleService(repository, new RecordingDigests().digestService, silentLogger)
+    const {settings} = await service.applySchedules(event(), [
+        setting(1, {dest: "slack", configId: 1}, {dest: "slack", configId: 2}, {dest: "webhook", configId: 3}),
+        setting(2, {dest: "webhook", configId: 4}),
+    ])
+    assert.deepStrictEqual(providersOf(settings), ["1 slack-1", "2 webhook-4"])
+    assert.deepStrictEqual(repository.deferred.map(d => d.setting.config.map(p => p.dest + "-" + p.configId)), [["slack-2", "webhook-3"]])
+})
+
+test("bypassed events are delivered during quiet hours", async () => {
+    const repository = new MemoryDeliveryScheduleRepository([closedUntilTomorrow({bypass_event_types: [EVENT_TYPE.Fail], bypass_prod_only: true})])
+    const service = new DeliveryScheduleService(repository, new RecordingDigests().digestService, silentLogger)
+    const prod = await service.applySchedules(event(EVENT_TYPE.Fail, true), [setting(1, {dest: "slack", configId: 1})])
+    const nonProd = await service.applySchedules(event(EVENT_TYPE.Fail, false), [setting(1, {dest: "slack", configId: 1})])
+    assert.deepStrictEqual(providersOf(prod.settings), ["1 slack-1"])
+    assert.deepStrictEqual(providersOf(nonProd.settings), [])
+    assert.strictEqual(repository.deferred.length, 1)
+})
+
+test("deferred notifications are dispatched once due and kept when dispatching fails", async () => {
+    const repository = new MemoryDeliveryScheduleRepository([closedUntilTomorrow()])
+    const service = new DeliveryScheduleService(repository, new RecordingDigests().digestService, silentLogger)
+    await service.applySchedules(event(), [setting(1, {dest: "slack", configId: 1})])
+    await service.applySchedules(event(), [setting(2, {dest: "webhook", configId: 2})])
+
+    const dispatched: string[] = []
+    service.registerDispatcher(async (e, settings) => {
+        if (settings[0].id == 2) {
+            throw new Error("database unavailable")
+        }
+        dispatched.push(...providersOf(settings))
+        return [{destination: "slack", configId: 1, success: true}]
+    })
+    await service.processDueNotifications()
+    assert.deepStrictEqual(dispatched, ["1 slack-1"])
+    assert.deepStrictEqual(repository.deferred.map(d => d.setting.id), [2])
+})
@@ -0,0 +1,190 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import * as process from "process";
+import {createCipheriv, createHash, randomBytes} from "crypto";
+import {test} from "./harness";
+import {currentKey, decryptSecret, encryptSecret, isEncrypted, jsonSecretTransformer, needsEncryption, secretTransformer} from "../secret/utils";
+import {decryptSecrets, reencryptSecrets} from "../secret/secretRotation";
+import {EncryptDestinationSecrets1792972800000} from "../migrations/1792972800000-EncryptDestinationSecrets";
+
+// writes the format of encryptSecret independently of it, so that values of a previous key can be made up
+function sealWith(key: Buffer, plaintext: Buffer): string {
+    const iv = randomBytes(12)
+    const cipher = createCipheriv("aes-256-gcm", key, iv)
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64")
+}
+
+function encryptWith(base64Key: string, value: string): string {
+    const key = Buffer.from(base64Key, "base64")
+    const dataKey = randomBytes(32)
+    return "enc:v1:" + createHash("sha256").update(key).digest("hex").substring(0, 8) + ":" + sealWith(key, dataKey) + ":" + sealWith(dataKey, Buffer.from(value, "utf8"))
+}
+
+const oldKey = process.env.SECRET_ENCRYPTION_OLD_KEYS
+
+function keyIdOf(value: string): string {
+    return value.split(":")[2]
+}
+
+// the tables of a database as far as the rotation queries them
+class MemoryDatabase {
+    tables: { [table: string]: any[] }
+    queries: string[] = []
+
+    constructor(tables: { [table: string]: any[] }) {
+        this.tables = tables
+    }
+
+    async query(query: string, parameters: any[] = []): Promise<any> {
+        this.queries.push(query)
+        let match: RegExpMatchArray
+        if (query.includes("information_schema.columns")) {
+            const [table, column] = parameters
+            return (this.tables[table] ?? []).some(row => column in row) ? [{"?column?": 1}] : []
+        } else if (match = query.match(/^SELECT id, "(\w+)" AS value FROM "(\w+)" WHERE "\w+" IS NOT NULL$/)) {
+            return this.tables[match[2]].filter(row => row[match[1]] !== null).map(row => ({id: row.id, value: row[match[1]]}))
+        } else if (match = query.match(/^UPDATE "(\w+)" SET "(\w+)" = \$1(::jsonb)? WHERE id = \$2$/)) {
+            const row = this.tables[match[1]].find(row => row.id == parameters[1])
+            // jsonb values are sent as json and read back parsed
+            row[match[2]] = match[3] ? JSON.parse(parameters[0]) : parameters[0]
+            return []
+        } else if (query.startsWith("ALTER TABLE")) {
+            return []
+        }
+        throw new Error("unexpected query " + query)
+    }
+
+    async hasColumn(table: string, column: string): Promise<boolean> {
+        return (this.tables[table] ?? []).some(row => column in row)
+    }
+}
+
+test("secrets are encrypted with a data key of their own and decrypted with the current key", () => {
+    const encrypted = encryptSecret("aws-secret")
+    assert.ok(isEncrypted(encrypted), encrypted)
+    assert.strictEqual(keyIdOf(encrypted), currentKey.id)
+    assert.ok(!encrypted.includes("aws-secret"))
+    assert.notStrictEqual(encryptSecret("aws-secret"), encrypted)
+    assert.strictEqual(decryptSecret(encrypted), "aws-secret")
+    assert.strictEqual(decryptSecret(encryptSecret("päss wörd:with:colons")), "päss wörd:with:colons")
+})
+
+test("plaintext and empty values are read as they are", () => {
+    assert.strictEqual(decryptSecret("stored before encryption"), "stored before encryption")
+    for (const value of [null, undefined, ""]) {
+        assert.strictEqual(encryptSecret(value), value)
+        assert.strictEqual(decryptSecret(value), value)
+        assert.strictEqual(needsEncryption(value), false)
+    }
+})
+
+test("values of unknown keys and tampered values are not decrypted", () => {
+    const unknownKey = Buffer.alloc(32, 3).toString("base64")
+    assert.throws(() => decryptSecret(encryptWith(unknownKey, "aws-secret")), /unknown key/)
+
+    const [, , keyId, wrappedKey, ciphertext] = encryptSecret("aws-secret").split(":")
+    const otherCiphertext = encryptSecret("aws-secret").split(":")[4]
+    // the data key of one value doesn't open the ciphertext of another
+    assert.throws(() => decryptSecret(["enc", "v1", keyId, wrappedKey, otherCiphertext].join(":")))
+    const tampered = Buffer.from(ciphertext, "base64")
+    tampered[tampered.length - 1] ^= 1
+    assert.throws(() => decryptSecret(["enc", "v1", keyId, wrappedKey, tampered.toString("base64")].join(":")))
+})
+
+test("values of a previous key are read and re-encrypted with the current key", () => {
+    const old = encryptWith(oldKey, "aws-secret")
+    assert.notStrictEqual(keyIdOf(old), currentKey.id)
+    assert.strictEqual(decryptSecret(old), "aws-secret")
+    assert.strictEqual(needsEncryption(old), true)
+    assert.strictEqual(needsEncryption("plaintext"), true)
+    const rotated = encryptSecret(old)
+    assert.strictEqual(keyIdOf(rotated), currentKey.id)
+    assert.strictEqual(needsEncryption(rotated), false)
+    assert.strictEqual(decryptSecret(rotated), "aws-secret")
+})
+
+test("the column transformers encrypt on write and decrypt on read", () => {
+    const stored = secretTransformer.to("smtp-password")
+    assert.ok(isEncrypted(stored))
+    assert.strictEqual(secretTransformer.from(stored), "smtp-password")
+    assert.strictEqual(secretTransformer.from("smtp-password"), "smtp-password")
+    assert.strictEqual(secretTransformer.to(null), null)
+
+    const header = {Authorization: "Bearer abc", "X-Team": "platform"}
+    const storedHeader = jsonSecretTransformer.to(header)
+    assert.strictEqual(typeof storedHeader, "string")
+    assert.ok(isEncrypted(storedHeader) && !storedHeader.includes("Bearer"))
+    assert.deepStrictEqual(jsonSecretTransformer.from(storedHeader), header)
+    // headers saved by the orchestrator are plain jsonb
+    assert.deepStrictEqual(jsonSecretTransformer.from(header), header)
+    assert.strictEqual(jsonSecretTransformer.to(null), null)
+    assert.strictEqual(jsonSecretTransformer.from(null), null)
+})
+
+test("the rotation rewrites plaintext values and values of previous keys only", async () => {
+    const current = encryptSecret("current")
+    const database = new MemoryDatabase({
+        ses_config: [
+            {id: 1, secret_access_key: "plaintext", session_token: null},
+            {id: 2, secret_access_key: encryptWith(oldKey, "old"), session_token: ""},
+            {id: 3, secret_access_key: current, session_token: null},
+        ],
+        webhook_config: [{id: 1, header: {Authorization: "Bearer abc"}}, {id: 2, header: null}],
+    })
+    assert.strictEqual(await reencryptSecrets(database), 3)
+    const [plain, old, unchanged] = database.tables.ses_config
+    assert.deepStrictEqual([plain, old].map(row => [keyIdOf(row.secret_access_key), decryptSecret(row.secret_access_key)]), [[currentKey.id, "plaintext"], [currentKey.id, "old"]])
+    assert.strictEqual(unchanged.secret_access_key, current)
+    assert.deepStrictEqual([plain.session_token, old.session_token], [null, ""])
+    assert.ok(isEncrypted(database.tables.webhook_config[0].header))
+    assert.deepStrictEqual(jsonSecretTransformer.from(database.tables.webhook_config[0].header), {Authorization: "Bearer abc"})
+    assert.strictEqual(database.tables.webhook_config[1].header, null)
+    assert.strictEqual(await reencryptSecrets(database), 0)
+
+    assert.strictEqual(await decryptSecrets(database), 4)
+    assert.deepStrictEqual(database.tables.ses_config.map(row => row.secret_access_key), ["plaintext", "old", "current"])
+    assert.deepStrictEqual(database.tables.webhook_config[0].header, {Authorization: "Bearer abc"})
+})
+
+test("the migration widens and encrypts its own columns and writes them back as plaintext when reverted", async () => {
+    const database = new MemoryDatabase({
+        ses_config: [{id: 1, secret_access_key: "aws-secret", session_token: "token"}],
+        smtp_config: [{id: 1, auth_password: "smtp-password"}],
+        webhook_config: [{id: 1, header: {Authorization: "Bearer abc"}}],
+    })
+    const migration = new EncryptDestinationSecrets1792972800000()
+    await migration.up(database as any)
+    // tables which don't exist yet are skipped, jsonb columns keep their type
+    assert.deepStrictEqual(database.queries.filter(query => query.startsWith("ALTER")), [
+        `ALTER TABLE "ses_config" ALTER COLUMN "secret_access_key" TYPE TEXT`,
+        `ALTER TABLE "ses_config" ALTER COLUMN "session_token" TYPE TEXT`,
+        `ALTER TABLE "smtp_config" ALTER COLUMN "auth_password" TYPE TEXT`,
+    ])
+    const [ses] = database.tables.ses_config
+    assert.ok(isEncrypted(ses.secret_access_key) && isEncrypted(ses.session_token) && isEncrypted(database.tables.smtp_config[0].auth_password))
+    assert.ok(isEncrypted(database.tables.webhook_config[0].header))
+
+    await migration.down(database as any)
+    assert.deepStrictEqual(database.tables, {
+        ses_config: [{id: 1, secret_access_key: "aws-secret", session_token: "token"}],
+        smtp_config: [{id: 1, auth_password: "smtp-password"}],
+        webhook_config: [{id: 1, header: {Authorization: "Bearer abc"}}],
+    })
+})
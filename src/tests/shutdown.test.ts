@@ -0,0 +1,129 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {silentLogger, test} from "./harness";
+import {ShutdownCoordinator} from "../shutdown/shutdownCoordinator";
+import {shutdownTimeout} from "../shutdown/utils";
+import {DeliveryOutcome, Event, Handler, NotificationService} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {NotificationTemplates} from "../entities/notificationTemplates";
+import {EventRepository} from "../repository/eventsRepository";
+import {MemoryNotificationSettingsRepository, MemoryTemplatesRepository} from "./fakes";
+
+// a handler whose deliveries only finish once they are released
+class HeldHandler implements Handler {
+    delivered: number[] = []
+    private releases: (() => void)[] = []
+
+    handle(event: Event, templates: any[], setting: NotificationSettings): Promise<DeliveryOutcome[]> {
+        return new Promise(resolve => this.releases.push(() => {
+            this.delivered.push(event.pipelineId)
+            resolve([{destination: "slack", configId: 1, success: true}])
+        }))
+    }
+
+    release() {
+        this.releases.splice(0).forEach(release => release())
+    }
+
+    sendNotification(event: Event, sdk: any, template: string) {
+    }
+
+    async preview(): Promise<any[]> {
+        return []
+    }
+}
+
+// a notification service sending every event to the handler, with the settings and templates of every event
+// found right away and nothing held back by schedules, digests, rate limits or deduplication
+function notificationService(handler: Handler): NotificationService {
+    const setting = Object.assign(new NotificationSettings(), {id: 1, config: [{dest: "slack", configId: 1}]})
+    const passThrough = async (event: Event, settings: NotificationSettings[]) => ({settings: settings, outcomes: []})
+    return new NotificationService(
+        new EventRepository(),
+        new MemoryNotificationSettingsRepository([setting]),
+        new MemoryTemplatesRepository([Object.assign(new NotificationTemplates(), {channel_type: "slack"})]),
+        [handler],
+        {bufferEvents: passThrough} as any,
+        {applySchedules: passThrough} as any,
+        {dropDuplicates: async (event: Event, settings: NotificationSettings[]) => ({settings: settings, outcomes: [], claimed: []}), release: async () => undefined} as any,
+        {applyRateLimits: passThrough} as any,
+        silentLogger)
+}
+
+function event(pipelineId: number): Event {
+    return {eventTypeId: 2, pipelineType: "CD", pipelineId: pipelineId, correlationId: "shutdown-" + pipelineId, baseUrl: "https://devtron.example.com", payload: {}} as Event
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 50))
+
+test("events answered before they were delivered are delivered before the shutdown closes connections", async () => {
+    const handler = new HeldHandler()
+    const service = notificationService(handler)
+    const steps: string[] = []
+    const coordinator = new ShutdownCoordinator(silentLogger)
+    coordinator.register("finish deliveries", () => service.drain().then(() => steps.push("deliveries finished")))
+    coordinator.register("close database connection", () => steps.push("database closed"))
+
+    const responses = await Promise.all([service.sendNotification(event(1)), service.sendNotification(event(2))])
+    assert.deepStrictEqual(responses.map(response => response.status), [200, 200])
+    assert.deepStrictEqual(handler.delivered, [])
+
+    const shutdown = coordinator.shutdown("SIGTERM")
+    assert.strictEqual(coordinator.isShuttingDown(), true)
+    await tick()
+    assert.deepStrictEqual(steps, [])
+    handler.release()
+    await shutdown
+    assert.deepStrictEqual(handler.delivered.sort(), [1, 2])
+    assert.deepStrictEqual(steps, ["deliveries finished", "database closed"])
+})
+
+test("events the caller waits for are answered once they were delivered", async () => {
+    const handler = new HeldHandler()
+    const service = notificationService(handler)
+    let answered = false
+    const response = service.sendNotification(event(3), true).then(response => {
+        answered = true
+        return response
+    })
+    await tick()
+    assert.strictEqual(answered, false)
+    handler.release()
+    assert.deepStrictEqual((await response).results, [{destination: "slack", configId: 1, success: true}])
+})
+
+test("a shutdown step which fails or runs out of time doesn't keep the later ones from running", async () => {
+    assert.strictEqual(shutdownTimeout, 1)
+    const steps: string[] = []
+    const coordinator = new ShutdownCoordinator(silentLogger)
+    coordinator.register("failing", () => {
+        throw new Error("connection lost")
+    })
+    coordinator.register("hanging", () => new Promise(() => steps.push("hanging")))
+    coordinator.register("after the deadline", () => new Promise(resolve => setTimeout(() => resolve(steps.push("after the deadline")), 200)))
+
+    const start = Date.now()
+    const shutdown = coordinator.shutdown("SIGTERM")
+    // a second signal doesn't start the steps again
+    await coordinator.shutdown("SIGTERM")
+    await shutdown
+    assert.deepStrictEqual(steps, ["hanging", "after the deadline"])
+    const took = Date.now() - start
+    assert.ok(took >= 1000 && took < 2000, "took " + took + "ms")
+})
@@ -0,0 +1,148 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import cdEvent from "./data/cd.json";
+import {silentLogger, StubServer, test} from "./harness";
+import {TeamsService} from "../destination/destinationHandlers/teamsHandler";
+import {CreateTeamsConfig1792454400000} from "../migrations/1792454400000-CreateTeamsConfig";
+import {EventLogBuilder} from "../common/eventLogBuilder";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {EVENT_TYPE} from "../common/types";
+import {Event} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {NotificationTemplates} from "../entities/notificationTemplates";
+import {TeamsConfig} from "../entities/teamsConfig";
+import {RetryService} from "../retry/retryService";
+import {NotificationRetryRepository} from "../repository/notificationRetryRepository";
+import {MemoryEventLogRepository, MemoryTeamsConfigRepository} from "./fakes";
+
+// the teams templates the migration inserts, by event type and node type
+async function shippedTemplates(): Promise<NotificationTemplates[]> {
+    const templates: NotificationTemplates[] = []
+    const queryRunner = {
+        query: async (query: string, parameters?: any[]) => {
+            if (query.includes('INSERT INTO "notification_templates"')) {
+                const [channel_type, node_type, event_type_id, template_name, template_payload] = parameters
+                templates.push(Object.assign(new NotificationTemplates(), {channel_type, node_type, event_type_id, template_name, template_payload}))
+            }
+        },
+    }
+    await new CreateTeamsConfig1792454400000().up(queryRunner as any)
+    return templates
+}
+
+const material = {...cdEvent.payload.material, ciMaterials: cdEvent.payload.material.ciMaterials.map(ci => ({...ci, type: "SOURCE_TYPE_BRANCH_FIXED"}))}
+
+// an event of the fixture with the payload fields the event type adds
+function event(eventTypeId: number, pipelineType: string, payload: any = {}): Event {
+    return {...cdEvent, eventTypeId: eventTypeId, pipelineType: pipelineType, baseUrl: "https://devtron.example.com",
+        payload: {...cdEvent.payload, material: material, buildHistoryLink: "/ci/1", ...payload}} as Event
+}
+
+const payloads = new Map<number, any>([
+    [EVENT_TYPE.Fail, {failureReason: 'step "build" failed'}],
+    [EVENT_TYPE.Blocked, {timeWindowComment: "blackout until monday"}],
+    [EVENT_TYPE.Approval, {dockerImageUrl: "registry/app:v1", imageComment: "hotfix", imageTagNames: ["hotfix"], approvalLink: "/approve", imageApprovalLink: "/approval"}],
+    [EVENT_TYPE.ConfigApproval, {protectConfigFileType: "ConfigMap", protectConfigFileName: "app-cm", protectConfigComment: "bump\nreplicas", approvalLink: "/approve", protectConfigLink: "/config"}],
+    [EVENT_TYPE.ImagePromotion, {dockerImageUrl: "registry/app:v1", promotionArtifactSource: "staging", artifactPromotionRequestViewLink: "/request", artifactPromotionApprovalLink: "/approve"}],
+    [EVENT_TYPE.ImageScan, {dockerImageUrl: "registry/app:v1", imageScanExecutionInfo: {scannedBy: "trivy", severityCount: {critical: 1, high: 0, medium: 0, low: 0},
+        vulnerabilities: [{cveName: "CVE-2024-0001", severity: "critical", package: "libssl", currentVersion: "1.0.0", fixedVersion: "1.0.1"}]}}],
+    [EVENT_TYPE.ScoopNotification, {scoopNotificationConfig: {data: {action: "deleted", kind: "Deployment", name: "payments", clusterName: "prod", namespace: "default",
+        watcherName: "deletions", interceptedAt: "2024-03-01T10:00:00Z", viewResourceManifestLink: "https://devtron.example.com/manifest"}}}],
+])
+
+function retryService(eventLogRepository: MemoryEventLogRepository): RetryService {
+    // no handler is registered, failed deliveries are reported rather than queued
+    return new RetryService(new NotificationRetryRepository(), eventLogRepository, new EventLogBuilder(), silentLogger)
+}
+
+function teamsService(configs: TeamsConfig[], eventLogRepository: MemoryEventLogRepository = new MemoryEventLogRepository()): TeamsService {
+    return new TeamsService(eventLogRepository, new EventLogBuilder(), new MemoryTeamsConfigRepository(configs), silentLogger, new MustacheHelper(), retryService(eventLogRepository))
+}
+
+function facts(card: any): { [title: string]: string } {
+    return Object.fromEntries(card.body.find(element => element.type == "FactSet").facts.map(fact => [fact.title, fact.value]))
+}
+
+test("teams templates of every event type render adaptive cards", async () => {
+    const templates = await shippedTemplates()
+    const service = teamsService([])
+    assert.deepStrictEqual(new Set(templates.map(t => t.event_type_id)), new Set([1, 2, 3, 4, 5, 6, 7, 8, 9]))
+    for (const template of templates) {
+        const name = template.node_type + " " + template.template_name
+        const card = JSON.parse(service.renderTemplate(event(template.event_type_id, template.node_type, payloads.get(template.event_type_id)), template.template_payload))
+        assert.strictEqual(card.type, "AdaptiveCard", name)
+        assert.ok(card.body[0].text && !card.body[0].text.includes("{{"), name + ": " + card.body[0].text)
+        const values = Object.values(facts(card))
+        assert.ok(values.length > 0 && values.every(value => typeof value == "string"), name)
+    }
+})
+
+test("teams cards show the details of the event", async () => {
+    const templates = await shippedTemplates()
+    const service = teamsService([])
+    const render = (eventTypeId: number, nodeType: string) => {
+        const template = templates.find(t => t.event_type_id == eventTypeId && t.node_type == nodeType)
+        return JSON.parse(service.renderTemplate(event(eventTypeId, nodeType, payloads.get(eventTypeId)), template.template_payload))
+    }
+
+    const ciFailure = render(EVENT_TYPE.Fail, "CI")
+    assert.strictEqual(ciFailure.body[0].text, "❌ Build pipeline failed")
+    assert.deepStrictEqual(facts(ciFailure)["Application"], "viki-app-9")
+    // the quotes of the reason don't break the json of the card
+    assert.ok(ciFailure.body.some(element => element.color == "Attention" && element.text.includes("build")))
+    assert.deepStrictEqual(ciFailure.body.filter(element => element.type == "ActionSet").map(set => set.actions[0].url), ["https://devtron.example.com/ci/1"])
+
+    const cdTrigger = render(EVENT_TYPE.Trigger, "CD")
+    assert.strictEqual(cdTrigger.body[0].text, "🚀 Post-deployment pipeline triggered")
+    assert.strictEqual(facts(cdTrigger)["Environment"], "dev")
+
+    const scan = render(EVENT_TYPE.ImageScan, "CI")
+    assert.strictEqual(facts(scan)["Scanned by"], "trivy")
+    assert.ok(scan.body.some(element => element.type == "FactSet" && element.facts.some(fact => fact.title == "Critical" && fact.value == "1")))
+
+    const scoop = render(EVENT_TYPE.ScoopNotification, "CD")
+    assert.strictEqual(scoop.body[0].text, "Change: Resource deleted")
+    assert.strictEqual(facts(scoop)["Resource"], "payments")
+})
+
+test("teams messages post the card to the webhook of the config and are logged with its host", async () => {
+    const stub = new StubServer(() => ({status: 200, body: "1"}))
+    const url = await stub.start()
+    try {
+        const eventLogRepository = new MemoryEventLogRepository()
+        const service = teamsService([
+            Object.assign(new TeamsConfig(), {id: 1, web_hook_url: url + "/webhook/1", config_name: "team"}),
+            Object.assign(new TeamsConfig(), {id: 2, web_hook_url: url + "/webhook/1", config_name: "same webhook"}),
+        ], eventLogRepository)
+        const template = Object.assign(new NotificationTemplates(), {channel_type: "teams", template_payload: '{"type": "AdaptiveCard", "body": [{"type": "TextBlock", "text": "{{appName}}"}]}'})
+        const setting = Object.assign(new NotificationSettings(), {id: 1, config: [{dest: "teams", configId: 1}, {dest: "teams", configId: 2}, {dest: "teams", configId: 3}, {dest: "slack", configId: 1}]})
+        const outcomes = await service.handle(event(EVENT_TYPE.Trigger, "CD"), [template], setting, new Map(), new Map())
+
+        assert.deepStrictEqual(outcomes.map(o => [o.configId, o.success, o.error]), [[1, true, undefined], [3, false, "no teams config found"]])
+        assert.strictEqual(stub.requests.length, 1)
+        assert.strictEqual(stub.requests[0].url, "/webhook/1")
+        assert.deepStrictEqual(stub.requests[0].body, {
+            type: "message",
+            attachments: [{contentType: "application/vnd.microsoft.card.adaptive", contentUrl: null, content: {type: "AdaptiveCard", body: [{type: "TextBlock", text: "viki-app-9"}]}}],
+        })
+        assert.deepStrictEqual(eventLogRepository.logs.map(log => [log.destination, log.is_notification_sent, log.config_id, log.target, log.status_code]), [["teams", true, 1, new URL(url).host, 200]])
+    } finally {
+        await stub.close()
+    }
+})
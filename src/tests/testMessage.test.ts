@@ -0,0 +1,177 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import * as net from "net";
+import {silentLogger, StubServer, test} from "./harness";
+import {TestMessageService} from "../notification/service/testMessageService";
+import {DestinationConfigService} from "../notification/service/destinationConfigService";
+import {SlackService} from "../destination/destinationHandlers/slackHandler";
+import {TeamsService} from "../destination/destinationHandlers/teamsHandler";
+import {WebhookService} from "../destination/destinationHandlers/webhookHandler";
+import {SESService} from "../destination/destinationHandlers/sesHandler";
+import {SMTPService} from "../destination/destinationHandlers/smtpHandler";
+import {EventLogBuilder} from "../common/eventLogBuilder";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {NotificationTemplates} from "../entities/notificationTemplates";
+import {WebhookConfig} from "../entities/webhookconfig";
+import {CustomError} from "../entities/events";
+import {RetryService} from "../retry/retryService";
+import {NotificationRetryRepository} from "../repository/notificationRetryRepository";
+import {PreferenceService} from "../preference/preferenceService";
+import {AttachmentService} from "../attachment/attachmentService";
+import {
+    MemoryDestinationConfigRepository,
+    MemoryEventLogRepository,
+    MemorySESConfigRepository,
+    MemorySlackConfigRepository,
+    MemorySMTPConfigRepository,
+    MemoryTeamsConfigRepository,
+    MemoryTemplatesRepository,
+    MemoryUserPreferenceRepository,
+    MemoryUsersRepository,
+    MemoryWebhookConfigRepository
+} from "./fakes";
+
+const defaultTemplates = [
+    Object.assign(new NotificationTemplates(), {channel_type: "slack", template_payload: '{"text": "{{appName}} deployed to {{envName}}"}'}),
+    Object.assign(new NotificationTemplates(), {channel_type: "teams", template_payload: '{"type": "AdaptiveCard", "text": "{{appName}} {{{deploymentHistoryLink}}}"}'}),
+    Object.assign(new NotificationTemplates(), {channel_type: "smtp", template_payload: '{"to": "{{toEmail}}", "from": "{{fromEmail}}", "subject": "{{appName}} deployed", "html": "<b>{{appName}}</b>"}'}),
+]
+
+interface Sender {
+    service: TestMessageService
+    configs: DestinationConfigService
+    repository: MemoryDestinationConfigRepository
+    logs: MemoryEventLogRepository
+}
+
+// the handlers get configs of their own which are never read, test messages only go through the configs of the config service
+function sender(templates: NotificationTemplates[] = defaultTemplates): Sender {
+    const logs = new MemoryEventLogRepository()
+    const mh = new MustacheHelper()
+    const retryService = new RetryService(new NotificationRetryRepository(), logs, new EventLogBuilder(), silentLogger)
+    const preferenceService = new PreferenceService(new MemoryUserPreferenceRepository(), silentLogger)
+    const attachmentService = new AttachmentService(mh, silentLogger)
+    const repository = new MemoryDestinationConfigRepository()
+    const configs = new DestinationConfigService(repository)
+    const service = new TestMessageService(configs, new MemoryTemplatesRepository(templates),
+        new SlackService(logs, new EventLogBuilder(), new MemorySlackConfigRepository([]), silentLogger, mh, retryService),
+        new TeamsService(logs, new EventLogBuilder(), new MemoryTeamsConfigRepository([]), silentLogger, mh, retryService),
+        new WebhookService(logs, new EventLogBuilder(), new MemoryWebhookConfigRepository([]), silentLogger, mh, retryService),
+        new SESService(logs, new EventLogBuilder(), new MemorySESConfigRepository([]), new MemoryUsersRepository([]), silentLogger, mh, retryService, preferenceService, attachmentService),
+        new SMTPService(logs, new EventLogBuilder(), new MemorySMTPConfigRepository([]), new MemoryUsersRepository([]), silentLogger, mh, retryService, preferenceService, attachmentService),
+        new EventLogBuilder(), silentLogger)
+    return {service: service, configs: configs, repository: repository, logs: logs}
+}
+
+async function withStub(respond: (request: any) => { status: number, body?: any }, run: (url: string, stub: StubServer) => Promise<void>) {
+    const stub = new StubServer(respond)
+    const url = await stub.start()
+    try {
+        await run(url, stub)
+    } finally {
+        await stub.close()
+    }
+}
+
+// a port nothing listens on, connections to it are refused straight away
+function closedPort(): Promise<number> {
+    return new Promise(resolve => {
+        const server = net.createServer().listen(0, "127.0.0.1", () => {
+            const port = (server.address() as net.AddressInfo).port
+            server.close(() => resolve(port))
+        })
+    })
+}
+
+function rejectedWith(statusCode: number) {
+    return (err: CustomError) => err instanceof CustomError && err.statusCode == statusCode
+}
+
+test("teams test messages render the sample event and report the response of the webhook", () => withStub(() => ({status: 200, body: {ok: true}}), async (url, stub) => {
+    const {service, configs, logs} = sender()
+    const config = await configs.createConfig("teams", {web_hook_url: url + "/teams", config_name: "team"})
+    const result = await service.sendTestMessage("teams", config.id, {baseUrl: "https://dash.example.com/devtron/"})
+    assert.deepStrictEqual(result, {destination: "teams", configId: config.id, success: true, target: new URL(url).host, statusCode: 200, response: '{"ok":true}'})
+    assert.strictEqual(stub.requests.length, 1)
+    assert.strictEqual(stub.requests[0].url, "/teams")
+    // the links of the sample event are below the dashboard of the request, without its trailing slash
+    assert.strictEqual(JSON.stringify(stub.requests[0].body).includes("sample-app https://dash.example.com/devtron/dashboard/app/1/cd-details/1/1"), true)
+    // test messages are never logged
+    assert.strictEqual(logs.logs.length, 0)
+}))
+
+test("slack test messages are sent to the webhook of the config", () => withStub(() => ({status: 200, body: {}}), async (url, stub) => {
+    const {service, configs} = sender()
+    const config = await configs.createConfig("slack", {web_hook_url: url + "/slack", config_name: "alerts"})
+    const result = await service.sendTestMessage("slack", config.id, {})
+    assert.deepStrictEqual([result.success, result.target, result.error], [true, new URL(url).host, undefined])
+    assert.deepStrictEqual(stub.requests.map(r => [r.url, r.body.text]), [["/slack", "sample-app deployed to sample-env"]])
+}))
+
+test("webhook test messages send the payload of the config with its headers", () => withStub(() => ({status: 201, body: "created"}), async (url, stub) => {
+    const {service, configs} = sender()
+    const config = await configs.createConfig("webhook", {web_hook_url: url + "/hook", config_name: "hook", header: {"X-Token": "abc"}, payload: '{"app": "{{devtronAppName}}"}'})
+    const result = await service.sendTestMessage("webhook", config.id, undefined)
+    assert.deepStrictEqual([result.success, result.statusCode, result.response], [true, 201, "created"])
+    assert.deepStrictEqual(stub.requests[0].body, {app: "sample-app"})
+    assert.strictEqual(stub.requests[0].headers["x-token"], "abc")
+}))
+
+test("failures of the provider are reported with its status code instead of being thrown", () => withStub(() => ({status: 500, body: {error: "down"}}), async (url, stub) => {
+    const {service, configs, logs} = sender()
+    const config = await configs.createConfig("teams", {web_hook_url: url, config_name: "team"})
+    const result = await service.sendTestMessage("teams", config.id, {})
+    assert.deepStrictEqual([result.success, result.statusCode, result.response], [false, 500, undefined])
+    assert.ok(result.error)
+    // a failed test message is not retried
+    assert.strictEqual(stub.requests.length, 1)
+    assert.strictEqual(logs.logs.length, 0)
+}))
+
+test("email test messages go to the recipient of the request and report errors of the mail server", async () => {
+    const {service, configs} = sender()
+    const config = await configs.createConfig("smtp", {host: "127.0.0.1", port: String(await closedPort()), from_email: "notifier@example.com", config_name: "mail"})
+    const result = await service.sendTestMessage("smtp", config.id, {recipient: "ops@example.com"})
+    assert.deepStrictEqual([result.destination, result.success, result.target, result.statusCode], ["smtp", false, "ops@example.com", undefined])
+    assert.ok(result.error)
+})
+
+test("test messages which can't be sent are rejected", () => withStub(() => ({status: 200}), async (url, stub) => {
+    const {service, configs, repository} = sender([])
+    const teams = await configs.createConfig("teams", {web_hook_url: url, config_name: "team"})
+    const ses = await configs.createConfig("ses", {region: "us-east-1", access_key: "AKIA", secret_access_key: "secret", from_email: "notifier@example.com", config_name: "ses"})
+    repository.table(WebhookConfig).push({id: 7, web_hook_url: url, config_name: "hook", deleted: false})
+    const cases: [string, any, any, number][] = [
+        ["pagerduty", 1, {}, 400],
+        ["opsgenie", 1, {}, 400],
+        ["email", 1, {}, 404],
+        ["teams", 99, {}, 404],
+        ["teams", "one", {}, 400],
+        ["teams", teams.id, {}, 400],   // no teams template
+        ["teams", teams.id, {baseUrl: "ftp://dash.example.com"}, 400],
+        ["teams", teams.id, {baseUrl: "not a url"}, 400],
+        ["ses", ses.id, {}, 400],
+        ["ses", ses.id, {recipient: "ops"}, 400],
+        ["webhook", 7, {}, 400],   // no payload
+    ]
+    for (const [type, id, body, statusCode] of cases) {
+        await assert.rejects(service.sendTestMessage(type, id, body), rejectedWith(statusCode), type + " " + id + " " + JSON.stringify(body))
+    }
+    assert.strictEqual(stub.requests.length, 0)
+}))
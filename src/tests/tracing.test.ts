@@ -0,0 +1,87 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {SpanKind} from "@opentelemetry/api";
+import {eventually, silentLogger, StubServer, test} from "./harness";
+import {extractContext, initTracing, shutdownTracing, withSpan} from "../tracing/tracing";
+import {WebhookService} from "../destination/destinationHandlers/webhookHandler";
+import {EventLogBuilder} from "../common/eventLogBuilder";
+import {MustacheHelper} from "../common/mustacheHelper";
+import {Event} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {WebhookConfig} from "../entities/webhookconfig";
+
+interface ExportedSpan {
+    traceId: string
+    spanId: string
+    parentSpanId?: string
+    name: string
+}
+
+// the spans of the OTLP/JSON export requests the collector received
+function exportedSpans(collector: StubServer): ExportedSpan[] {
+    return collector.requests
+        .filter(request => request.url == "/v1/traces")
+        .flatMap(request => request.body.resourceSpans)
+        .flatMap(resourceSpans => resourceSpans.scopeSpans)
+        .flatMap(scopeSpans => scopeSpans.spans)
+}
+
+test("the trace of the caller is continued through delivery and exported to the collector", async () => {
+    const collector = new StubServer(() => ({status: 200, body: {}}))
+    const webhook = new StubServer(() => ({status: 200, body: {ok: true}}))
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT = await collector.start() + "/v1/traces"
+    const webhookUrl = await webhook.start()
+    try {
+        initTracing(silentLogger)
+        const service = new WebhookService({saveEventLog: async () => undefined} as any, new EventLogBuilder(), {} as any, silentLogger, new MustacheHelper(), {enqueue: async () => false} as any)
+        const event = {eventTypeId: 2, correlationId: "trace-test", payload: {digest: {count: 2}}} as Event
+        const config = Object.assign(new WebhookConfig(), {id: 1, web_hook_url: webhookUrl + "/hook", payload: '{"count": {{count}}}', header: {"X-Custom": "kept"}})
+
+        // as sent by the orchestrator through the traceparent header of /notify
+        const traceId = "0af7651916cd43dd8448eb211c80319c"
+        const callerSpanId = "b7ad6b7169203331"
+        const caller = extractContext({traceparent: "00-" + traceId + "-" + callerSpanId + "-01"})
+        const outcome = await withSpan("POST /notify", {}, () => service.sendAndLogNotification(event, config, new NotificationSettings(), {dest: "webhook"}), SpanKind.SERVER, caller)
+        assert.strictEqual(outcome.success, true)
+
+        assert.strictEqual(webhook.requests.length, 1)
+        const request = webhook.requests[0]
+        assert.deepStrictEqual(request.body, {count: 2})
+        assert.strictEqual(request.headers["x-custom"], "kept")
+        const [, sentTraceId, sentSpanId] = String(request.headers.traceparent).split("-")
+        assert.strictEqual(sentTraceId, traceId)
+        // the configured headers are not changed by the propagation
+        assert.deepStrictEqual(config.header, {"X-Custom": "kept"})
+
+        await shutdownTracing()
+        await eventually(() => exportedSpans(collector).length >= 2)
+        const spans = exportedSpans(collector)
+        const server = spans.find(span => span.name == "POST /notify")
+        const send = spans.find(span => span.name == "webhook send")
+        assert.ok(server && send, "exported " + spans.map(span => span.name).join(", "))
+        assert.deepStrictEqual(spans.map(span => span.traceId), spans.map(() => traceId))
+        assert.strictEqual(server.parentSpanId, callerSpanId)
+        assert.strictEqual(send.parentSpanId, server.spanId)
+        // the webhook receives the delivery span as its parent
+        assert.strictEqual(sentSpanId, send.spanId)
+    } finally {
+        await collector.close()
+        await webhook.close()
+    }
+})
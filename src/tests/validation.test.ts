@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as assert from "assert";
+import {silentLogger, test} from "./harness";
+import cdEvent from "./data/cd.json";
+import {EventValidator} from "../validation/eventValidator";
+import {EventValidationError, FieldError} from "../entities/events";
+import {EventRejection} from "../entities/eventRejection";
+import {EventRejectionRepository} from "../repository/eventRejectionRepository";
+import {EventRejectionService} from "../notification/service/eventRejectionService";
+import {redactedValue} from "../redaction/utils";
+
+class MemoryEventRejectionRepository extends EventRejectionRepository {
+    rejections: EventRejection[] = []
+
+    async save(rejection: EventRejection) {
+        rejection.id = this.rejections.push(rejection)
+        return rejection
+    }
+}
+
+const validator = new EventValidator()
+
+function pipelineEvent(): any {
+    return JSON.parse(JSON.stringify({...cdEvent, baseUrl: "https://devtron.example.com"}))
+}
+
+function errorsOf(event: any): FieldError[] {
+    try {
+        validator.validate(event)
+    } catch (error) {
+        assert.ok(error instanceof EventValidationError, "unexpected error " + error)
+        assert.strictEqual(error.statusCode, 400)
+        return error.errors
+    }
+    assert.fail("the event was accepted")
+}
+
+test("events sent by the orchestrator are accepted with unknown fields and empty values", () => {
+    const event = pipelineEvent()
+    event.payload.failureReason = null
+    event.payload.addedLater = {by: "orchestrator"}
+    assert.strictEqual(validator.validate(event), event)
+
+    const approval = {eventTypeId: 4, correlationId: 12, baseUrl: "https://devtron.example.com", payload: {appName: "dashboard", imageTagNames: ["v1"], providers: [{dest: "ses", recipient: "jane@example.com"}]}}
+    assert.strictEqual(validator.validate(approval), approval)
+
+    // scoop events carry neither a correlation id nor a base url
+    const scoop = {eventTypeId: 9, payload: {scoopNotificationConfig: {data: {kind: "Deployment", name: "dashboard"}}}}
+    assert.strictEqual(validator.validate(scoop), scoop)
+})
+
+test("unknown event types are rejected before their payload is looked at", () => {
+    assert.deepStrictEqual(errorsOf({eventTypeId: 42, payload: "anything"}), [{field: "eventTypeId", message: "must be one of 1, 2, 3, 4, 5, 6, 7, 8, 9"}])
+    assert.deepStrictEqual(errorsOf({payload: {}}), [{field: "eventTypeId", message: "is required"}])
+    assert.deepStrictEqual(errorsOf("not an event"), [{field: "", message: "must be object"}])
+})
+
+test("every field at fault is reported with its path", () => {
+    const event = pipelineEvent()
+    event.pipelineType = "BUILD"
+    delete event.correlationId
+    event.payload.appName = 47
+    event.payload.material.ciMaterials[0].id = "1"
+    assert.deepStrictEqual(errorsOf(event), [
+        {field: "correlationId", message: "is required"},
+        {field: "pipelineType", message: "must be one of \"CI\", \"CD\""},
+        {field: "payload.appName", message: "must be string"},
+        {field: "payload.material.ciMaterials[0].id", message: "must be integer"},
+    ])
+
+    const approval = {eventTypeId: 4, correlationId: "c", baseUrl: "https://devtron.example.com", payload: {providers: [{configId: 1}]}}
+    assert.deepStrictEqual(errorsOf(approval), [{field: "payload.providers[0].dest", message: "is required"}])
+})
+
+test("the schema of the event type decides which fields are required", () => {
+    const event = pipelineEvent()
+    delete event.payload.material
+    assert.deepStrictEqual(errorsOf(event), [{field: "payload.material", message: "is required"}])
+    // approvals have no material
+    const approval = {eventTypeId: 4, correlationId: "c", baseUrl: "https://devtron.example.com", payload: {}}
+    assert.strictEqual(validator.validate(approval), approval)
+    assert.deepStrictEqual(errorsOf({eventTypeId: 9, payload: {}}), [{field: "payload.scoopNotificationConfig", message: "is required"}])
+})
+
+test("rejected events are kept redacted with the fields at fault", async () => {
+    const repository = new MemoryEventRejectionRepository()
+    const service = new EventRejectionService(repository, silentLogger)
+    const event = pipelineEvent()
+    event.pipelineType = "BUILD"
+    event.payload.triggeredBy = "jane@example.com"
+    await service.reject(event, new EventValidationError(errorsOf(event)))
+
+    const [rejection] = repository.rejections
+    assert.strictEqual(rejection.event_type_id, 1)
+    assert.strictEqual(rejection.correlation_id, cdEvent.correlationId)
+    assert.deepStrictEqual(rejection.errors, [{field: "pipelineType", message: "must be one of \"CI\", \"CD\""}])
+    assert.strictEqual(rejection.event.payload.triggeredBy, redactedValue)
+    assert.strictEqual(event.payload.triggeredBy, "jane@example.com")
+})
+
+test("events which aren't objects or have an invalid event type are kept without them", async () => {
+    const repository = new MemoryEventRejectionRepository()
+    const service = new EventRejectionService(repository, silentLogger)
+    await service.reject("not an event", new EventValidationError(errorsOf("not an event")))
+    await service.reject({eventTypeId: "1", correlationId: 7}, new EventValidationError(errorsOf({eventTypeId: "1", correlationId: 7})))
+
+    assert.deepStrictEqual(repository.rejections.map(r => [r.event_type_id ?? null, r.correlation_id ?? null, r.event]), [
+        [null, null, "not an event"],
+        [null, "7", {eventTypeId: "1", correlationId: 7}],
+    ])
+})
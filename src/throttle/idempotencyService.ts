@@ -0,0 +1,132 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {createHash} from "crypto";
+import {DeliveryOutcome, Event, scoopTarget} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {IdempotencyKeyRepository} from "../repository/idempotencyKeyRepository";
+import {idempotencyCleanupInterval, idempotencyTtl} from "./utils";
+
+// remembers which targets an event was delivered to, so that copies of the event redelivered by nats or posted again are dropped.
+// a key is claimed before sending and released when the event can't be delivered, failed deliveries to single destinations
+// are re-attempted through the retry queue instead
+export class IdempotencyService {
+    private idempotencyKeyRepository: IdempotencyKeyRepository
+    private logger: any
+    private timer: NodeJS.Timeout
+
+    constructor(idempotencyKeyRepository: IdempotencyKeyRepository, logger: any) {
+        this.idempotencyKeyRepository = idempotencyKeyRepository
+        this.logger = logger
+    }
+
+    // returns the settings stripped of the destinations which already got the event, along with the keys claimed for the others
+    public async dropDuplicates(event: Event, settings: NotificationSettings[]): Promise<{ settings: NotificationSettings[], outcomes: DeliveryOutcome[], claimed: string[] }> {
+        if (idempotencyTtl <= 0 || !event.correlationId) {
+            return {settings: settings, outcomes: [], claimed: []}
+        }
+        const keys = new Map<any, string>()
+        for (const setting of settings) {
+            const providers = Array.isArray(setting.config) ? setting.config as any[] : []
+            providers.forEach(p => keys.set(p, this.deliveryKey(event, p['dest'], p['recipient'] ?? p['configId'])))
+        }
+        if (keys.size == 0) {
+            return {settings: settings, outcomes: [], claimed: []}
+        }
+
+        let claimed: Set<string>
+        try {
+            claimed = new Set(await this.idempotencyKeyRepository.claimKeys([...new Set(keys.values())], this.expiresAt()))
+        } catch (error) {
+            // deliveries are not held back when it can not be told whether they were made before
+            this.logger.error("error occurred while claiming idempotency keys", error)
+            return {settings: settings, outcomes: [], claimed: []}
+        }
+        const outcomes: DeliveryOutcome[] = []
+        const dropped = new Set<string>()
+        const remaining = settings.map(setting => {
+            const providers = Array.isArray(setting.config) ? setting.config as any[] : []
+            for (const p of providers) {
+                const key = keys.get(p)
+                if (!claimed.has(key) && !dropped.has(key)) {
+                    dropped.add(key)
+                    outcomes.push({destination: p['dest'], configId: p['configId'], success: true, suppressed: true})
+                }
+            }
+            return Object.assign(new NotificationSettings(), setting, {config: providers.filter(p => claimed.has(keys.get(p)))})
+        })
+        if (outcomes.length > 0) {
+            this.logger.info("dropped " + outcomes.length + " duplicate deliveries, correlationId: " + event.correlationId)
+        }
+        return {settings: remaining, outcomes: outcomes, claimed: [...claimed]}
+    }
+
+    // returns no outcomes when the scoop event was not delivered to its target before
+    public async dropDuplicateScoopEvent(event: Event): Promise<{ outcomes: DeliveryOutcome[], claimed: string[] }> {
+        const target = scoopTarget(event)
+        if (idempotencyTtl <= 0 || !event.correlationId || !target) {
+            return {outcomes: undefined, claimed: []}
+        }
+        try {
+            const claimed = await this.idempotencyKeyRepository.claimKeys([this.deliveryKey(event, target.destination, target.webhookUrl)], this.expiresAt())
+            if (claimed.length > 0) {
+                return {outcomes: undefined, claimed: claimed}
+            }
+        } catch (error) {
+            this.logger.error("error occurred while claiming idempotency keys", error)
+            return {outcomes: undefined, claimed: []}
+        }
+        this.logger.info("dropped duplicate scoop delivery, correlationId: " + event.correlationId)
+        return {outcomes: [{destination: target.destination, success: true, suppressed: true}], claimed: []}
+    }
+
+    // gives up the keys of an event which could not be delivered, so that the event is delivered when it is sent again
+    public async release(claimed: string[]) {
+        if (!claimed.length) {
+            return
+        }
+        try {
+            await this.idempotencyKeyRepository.deleteKeys(claimed)
+        } catch (error) {
+            this.logger.error("error occurred while releasing idempotency keys", error)
+        }
+    }
+
+    public start() {
+        if (this.timer || idempotencyTtl <= 0) {
+            return
+        }
+        this.timer = setInterval(() => {
+            this.idempotencyKeyRepository.deleteExpiredKeys().catch(err => this.logger.error("error occurred while deleting expired idempotency keys", err))
+        }, idempotencyCleanupInterval * 1000)
+        this.logger.info("idempotency key cleanup started")
+    }
+
+    public stop() {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+    }
+
+    private expiresAt(): Date {
+        return new Date(Date.now() + idempotencyTtl * 1000)
+    }
+
+    private deliveryKey(event: Event, destination: string, target: any): string {
+        return createHash("sha1").update([event.correlationId, event.eventTypeId, destination, target].join("|")).digest("hex")
+    }
+}
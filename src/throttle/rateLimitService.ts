@@ -0,0 +1,145 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {createHash} from "crypto";
+import {DeliveryOutcome, Event, scoopTarget} from "../notification/service/notificationService";
+import {NotificationSettings} from "../entities/notificationSettings";
+import {DigestService} from "../digest/digestService";
+import {DeliveryScheduleService} from "../schedule/scheduleService";
+import {DIGEST_DESTINATIONS} from "../digest/utils";
+import {RateLimitMapping, rateLimitKey, rateLimitWindow} from "./utils";
+
+interface RateWindow {
+    start: number
+    count: number
+}
+
+// limits the messages sent to a target per window. messages over the limit are summarised in a digest sent when the window
+// ends, emails are deferred until then instead and count against the window they are released in. counts are kept in memory, so every notifier replica applies the limits on its own
+export class RateLimitService {
+    private digestService: DigestService
+    private scheduleService: DeliveryScheduleService
+    private logger: any
+    private windows: Map<string, RateWindow> = new Map()
+    private prunedAt: number = Date.now()
+
+    constructor(digestService: DigestService, scheduleService: DeliveryScheduleService, logger: any) {
+        this.digestService = digestService
+        this.scheduleService = scheduleService
+        this.logger = logger
+    }
+
+    // returns the settings stripped of the destinations which reached their limit
+    public async applyRateLimits(event: Event, settings: NotificationSettings[]): Promise<{ settings: NotificationSettings[], outcomes: DeliveryOutcome[] }> {
+        const remaining: NotificationSettings[] = []
+        const outcomes: DeliveryOutcome[] = []
+        // a destination reached through several settings is only sent to once
+        const counted = new Set<string>()
+        for (const setting of settings) {
+            const providers = Array.isArray(setting.config) ? setting.config as any[] : []
+            const immediate = []
+            const overflow = new Map<number, any[]>()
+            for (const p of providers) {
+                const deliveryKey = p['dest'] + '-' + (p['recipient'] ?? p['configId'])
+                if (counted.has(deliveryKey)) {
+                    immediate.push(p)
+                    continue
+                }
+                counted.add(deliveryKey)
+                const windowEnd = this.take(p['dest'], rateLimitKey(p['dest'], p['configId']))
+                if (!windowEnd) {
+                    immediate.push(p)
+                    continue
+                }
+                if (DIGEST_DESTINATIONS.includes(p['dest'])) {
+                    try {
+                        outcomes.push(await this.digestService.bufferUntil(event, setting, p, windowEnd))
+                        continue
+                    } catch (error) {
+                        this.logger.error("error occurred while buffering rate limited event for digest", error)
+                        immediate.push(p)
+                        continue
+                    }
+                }
+                if (!overflow.has(windowEnd.getTime())) {
+                    overflow.set(windowEnd.getTime(), [])
+                }
+                overflow.get(windowEnd.getTime()).push(p)
+            }
+
+            for (const [windowEnd, overflowProviders] of overflow) {
+                const deferredOutcomes = await this.scheduleService.defer(event, setting, overflowProviders, new Date(windowEnd))
+                if (deferredOutcomes) {
+                    outcomes.push(...deferredOutcomes)
+                } else {
+                    immediate.push(...overflowProviders)
+                }
+            }
+            remaining.push(Object.assign(new NotificationSettings(), setting, {config: immediate}))
+        }
+        if (outcomes.length > 0) {
+            this.logger.info("rate limited " + outcomes.length + " deliveries, correlationId: " + event.correlationId)
+        }
+        return {settings: remaining, outcomes: outcomes}
+    }
+
+    // returns nothing when the scoop event can be sent right away
+    public async limitScoopEvent(event: Event): Promise<DeliveryOutcome[]> {
+        const target = scoopTarget(event)
+        if (!target) {
+            return
+        }
+        const windowEnd = this.take(target.destination, rateLimitKey(target.destination, createHash("sha1").update(target.webhookUrl).digest("hex")))
+        if (!windowEnd) {
+            return
+        }
+        this.logger.info("rate limited scoop delivery, correlationId: " + event.correlationId)
+        return this.digestService.bufferScoopEvent(event, windowEnd)
+    }
+
+    // counts a message to the target, returns the end of the current window when the limit of the target was already reached
+    private take(destination: string, key: string): Date {
+        const limit = RateLimitMapping.get(destination)
+        if (!limit) {
+            return
+        }
+        const now = Date.now()
+        this.pruneWindows(now)
+        let window = this.windows.get(key)
+        if (!window || now >= window.start + rateLimitWindow * 1000) {
+            window = {start: now, count: 0}
+            this.windows.set(key, window)
+        }
+        if (window.count >= limit) {
+            return new Date(window.start + rateLimitWindow * 1000)
+        }
+        window.count++
+        return
+    }
+
+    // drops the windows which ended, at most once per window, so targets which are no longer sent to don't pile up
+    private pruneWindows(now: number) {
+        if (now < this.prunedAt + rateLimitWindow * 1000) {
+            return
+        }
+        this.prunedAt = now
+        for (const [key, window] of this.windows) {
+            if (now >= window.start + rateLimitWindow * 1000) {
+                this.windows.delete(key)
+            }
+        }
+    }
+}
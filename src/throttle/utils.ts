@@ -0,0 +1,36 @@
+import * as process from "process";
+import {SES_DESTINATION, SLACK_DESTINATION, SMTP_DESTINATION, TEAMS_DESTINATION, WEBHOOK_DESTINATION} from "../retry/utils";
+
+const ttl: number = parseInt(process.env.IDEMPOTENCY_TTL)
+const cleanupInterval: number = parseInt(process.env.IDEMPOTENCY_CLEANUP_INTERVAL)
+const window: number = parseInt(process.env.RATE_LIMIT_WINDOW)
+
+// seconds for which a delivery is remembered, copies of its event arriving in the meantime are dropped. 0 disables deduplication
+export const idempotencyTtl: number = !isNaN(ttl) ? ttl : 86400
+// interval in seconds at which expired keys are removed
+export const idempotencyCleanupInterval: number = !isNaN(cleanupInterval) && cleanupInterval > 0 ? cleanupInterval : 3600
+// length in seconds of the window rate limits are counted in
+export const rateLimitWindow: number = !isNaN(window) && window > 0 ? window : 60
+
+// messages per window and target, read from <DEST>_RATE_LIMIT and falling back to RATE_LIMIT, e.g. SLACK_RATE_LIMIT. 0 disables the limit
+function getRateLimit(destination: string): number {
+    const value = parseInt(process.env[`${destination.toUpperCase()}_RATE_LIMIT`] ?? process.env.RATE_LIMIT)
+    return !isNaN(value) && value > 0 ? value : 0
+}
+
+export const RateLimitMapping = new Map<string, number>([
+    [SLACK_DESTINATION, getRateLimit(SLACK_DESTINATION)],
+    [SES_DESTINATION, getRateLimit(SES_DESTINATION)],
+    [SMTP_DESTINATION, getRateLimit(SMTP_DESTINATION)],
+    [WEBHOOK_DESTINATION, getRateLimit(WEBHOOK_DESTINATION)],
+    [TEAMS_DESTINATION, getRateLimit(TEAMS_DESTINATION)],
+]);
+
+// emails of every setting go out through the single default server of their destination,
+// chat and webhook messages are limited per config
+export function rateLimitKey(destination: string, configId: any): string {
+    if (destination == SES_DESTINATION || destination == SMTP_DESTINATION) {
+        return destination
+    }
+    return destination + "-" + configId
+}
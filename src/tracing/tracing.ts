@@ -0,0 +1,104 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {Attributes, context, Context, propagation, Span, SpanKind, SpanStatusCode, trace} from "@opentelemetry/api";
+import {NodeTracerProvider} from "@opentelemetry/sdk-trace-node";
+import {BatchSpanProcessor} from "@opentelemetry/sdk-trace-base";
+import {OTLPTraceExporter} from "@opentelemetry/exporter-trace-otlp-http";
+import {Resource} from "@opentelemetry/resources";
+import {ATTR_SERVICE_NAME} from "@opentelemetry/semantic-conventions";
+import {Event} from "../notification/service/notificationService";
+import {serviceName, tracingEnabled} from "./utils";
+
+// spans are created through the api in any case, without a registered provider they are no-ops
+const tracer = trace.getTracer("notifier")
+let provider: NodeTracerProvider
+
+export function initTracing(logger: any) {
+    if (!tracingEnabled || provider) {
+        return
+    }
+    provider = new NodeTracerProvider({
+        resource: new Resource({[ATTR_SERVICE_NAME]: serviceName}),
+        spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+    })
+    // registers the w3c trace context propagator and the context manager following async calls
+    provider.register()
+    logger.info("exporting traces as " + serviceName)
+}
+
+// flushes the spans which are not exported yet
+export async function shutdownTracing() {
+    if (provider) {
+        await provider.shutdown()
+    }
+}
+
+export function eventAttributes(event: Event): Attributes {
+    return {
+        "notifier.event_type_id": event?.eventTypeId,
+        "notifier.pipeline_type": event?.pipelineType,
+        "notifier.pipeline_id": event?.pipelineId,
+        "notifier.correlation_id": event?.correlationId === undefined ? undefined : String(event.correlationId),
+    }
+}
+
+// the context of a trace propagated by the caller, e.g. through http or nats message headers
+export function extractContext(headers: { [name: string]: any }): Context {
+    return propagation.extract(context.active(), headers ?? {})
+}
+
+// adds the headers continuing the current trace to outbound requests
+export function injectContext(headers: { [name: string]: string }): { [name: string]: string } {
+    propagation.inject(context.active(), headers)
+    return headers
+}
+
+function endSpan(span: Span, error?: any) {
+    if (error) {
+        span.recordException(error)
+        span.setStatus({code: SpanStatusCode.ERROR, message: error?.message})
+    }
+    span.end()
+}
+
+// runs the function in a span which is made the parent of spans started inside of it
+export function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>, kind: SpanKind = SpanKind.INTERNAL, parent: Context = context.active()): Promise<T> {
+    return tracer.startActiveSpan(name, {kind: kind, attributes: attributes}, parent, async span => {
+        try {
+            const result = await fn(span)
+            endSpan(span)
+            return result
+        } catch (error) {
+            endSpan(span, error)
+            throw error
+        }
+    })
+}
+
+export function withSpanSync<T>(name: string, attributes: Attributes, fn: (span: Span) => T, kind: SpanKind = SpanKind.INTERNAL, parent: Context = context.active()): T {
+    return tracer.startActiveSpan(name, {kind: kind, attributes: attributes}, parent, span => {
+        try {
+            const result = fn(span)
+            endSpan(span)
+            return result
+        } catch (error) {
+            endSpan(span, error)
+            throw error
+        }
+    })
+}
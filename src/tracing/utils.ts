@@ -0,0 +1,8 @@
+import * as process from "process";
+
+// spans are exported through OTLP over http to OTEL_EXPORTER_OTLP_TRACES_ENDPOINT or OTEL_EXPORTER_OTLP_ENDPOINT,
+// which the exporter reads itself along with the other OTEL_EXPORTER_OTLP_* variables
+export const tracingEnabled: boolean = process.env.OTEL_SDK_DISABLED !== "true"
+    && !!(process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_ENDPOINT)
+
+export const serviceName: string = process.env.OTEL_SERVICE_NAME || "notifier"
@@ -0,0 +1,264 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {EVENT_TYPE} from "../common/types";
+
+// schemas of the events sent by the orchestrator, specs/api-spec.yaml is generated from them, see src/openapi.
+// Optional fields are nullable since the orchestrator sends empty values as null. Unknown fields are allowed,
+// so that the orchestrator can add fields before the notifier knows about them
+
+const nullableString = {type: "string", nullable: true}
+const nullableInteger = {type: "integer", nullable: true}
+const nullableStrings = {type: "array", nullable: true, items: {type: "string"}}
+
+const GitCommit = {
+    type: "object",
+    properties: {
+        Commit: nullableString,
+        Author: nullableString,
+        Date: nullableString,
+        Message: nullableString,
+        Changes: nullableStrings,
+        WebhookData: {type: "object", nullable: true},
+        GitRepoUrl: nullableString,
+        GitRepoName: nullableString,
+        CiConfigureSourceType: nullableString,
+        CiConfigureSourceValue: nullableString,
+    },
+}
+
+const CiMaterial = {
+    type: "object",
+    required: ["id"],
+    properties: {
+        id: {type: "integer"},
+        gitMaterialId: nullableInteger,
+        gitMaterialUrl: nullableString,
+        gitMaterialName: nullableString,
+        type: nullableString,
+        value: nullableString,
+        active: {type: "boolean", nullable: true},
+        url: nullableString,
+    },
+}
+
+const MaterialTriggerInfo = {
+    type: "object",
+    properties: {
+        // commits by the id of the ci material they were built from
+        gitTriggers: {type: "object", nullable: true, additionalProperties: GitCommit},
+        ciMaterials: {type: "array", nullable: true, items: CiMaterial},
+    },
+}
+
+// destinations of approval events, which are sent to them instead of the notification settings
+const Provider = {
+    type: "object",
+    required: ["dest"],
+    properties: {
+        dest: {type: "string"},
+        configId: nullableInteger,
+        recipient: nullableString,
+    },
+}
+
+const commonPayloadProperties = {
+    appName: nullableString,
+    envName: nullableString,
+    pipelineName: nullableString,
+    triggeredBy: nullableString,
+    dockerImageUrl: nullableString,
+    providers: {type: "array", nullable: true, items: Provider},
+}
+
+const PipelinePayload = {
+    type: "object",
+    required: ["material"],
+    properties: {
+        ...commonPayloadProperties,
+        source: nullableString,
+        stage: nullableString,
+        material: MaterialTriggerInfo,
+        failureReason: nullableString,
+        // output of a failed build, its end is sent with CI failure emails
+        buildLog: nullableString,
+        buildHistoryLink: nullableString,
+        appDetailLink: nullableString,
+        deploymentHistoryLink: nullableString,
+        timeWindowComment: nullableString,
+    },
+}
+
+const ImageScanPayload = {
+    ...PipelinePayload,
+    properties: {
+        ...PipelinePayload.properties,
+        approvedByEmail: nullableStrings,
+        // scan results by the id of the notification setting they are sent through
+        imageScanExecutionInfo: {type: "object", nullable: true},
+    },
+}
+
+const ApprovalPayload = {
+    type: "object",
+    properties: {
+        ...commonPayloadProperties,
+        imageTagNames: nullableStrings,
+        imageComment: nullableString,
+        imageApprovalLink: nullableString,
+        approvalLink: nullableString,
+    },
+}
+
+const ConfigApprovalPayload = {
+    type: "object",
+    properties: {
+        ...commonPayloadProperties,
+        protectConfigFileType: nullableString,
+        protectConfigFileName: nullableString,
+        protectConfigComment: nullableString,
+        protectConfigLink: nullableString,
+        approvalLink: nullableString,
+    },
+}
+
+const ImagePromotionPayload = {
+    type: "object",
+    properties: {
+        ...commonPayloadProperties,
+        imageTagNames: nullableStrings,
+        imageComment: nullableString,
+        promotionArtifactSource: nullableString,
+        artifactPromotionRequestViewLink: nullableString,
+        artifactPromotionApprovalLink: nullableString,
+    },
+}
+
+const ScoopNotificationConfig = {
+    type: "object",
+    required: ["data"],
+    properties: {
+        data: {
+            type: "object",
+            properties: {
+                kind: nullableString,
+                name: nullableString,
+                action: nullableString,
+                clusterName: nullableString,
+                namespace: nullableString,
+                watcherName: nullableString,
+                pipelineName: nullableString,
+                interceptedAt: nullableString,
+                viewResourceManifestLink: nullableString,
+                color: nullableString,
+            },
+        },
+        webhookConfig: {type: "object", nullable: true},
+        slackConfig: {type: "object", nullable: true},
+        teamsConfig: {type: "object", nullable: true},
+    },
+}
+
+const ScoopNotificationPayload = {
+    type: "object",
+    required: ["scoopNotificationConfig"],
+    properties: {
+        scoopNotificationConfig: ScoopNotificationConfig,
+    },
+}
+
+const eventTypeIds = Object.values(EVENT_TYPE).filter(value => typeof value === "number") as EVENT_TYPE[]
+
+// pipeline events are matched against notification settings by their pipeline type, approvals are sent to their providers
+const pipelineType = {type: "string", enum: ["CI", "CD"]}
+
+function eventSchema(description: string, eventTypes: EVENT_TYPE[], required: string[], payload: any, pipelineTypeSchema: any = nullableString) {
+    return {
+        type: "object",
+        description: description,
+        required: ["eventTypeId", "payload", ...required],
+        properties: {
+            eventTypeId: {type: "integer", enum: eventTypes},
+            correlationId: {anyOf: [{type: "string"}, {type: "integer"}]},
+            pipelineId: nullableInteger,
+            pipelineType: pipelineTypeSchema,
+            eventTime: nullableString,
+            appId: nullableInteger,
+            envId: nullableInteger,
+            teamId: nullableInteger,
+            clusterId: nullableInteger,
+            isProdEnv: {type: "boolean", nullable: true},
+            baseUrl: {type: "string"},
+            payload: payload,
+        },
+    }
+}
+
+const PipelineEvent = eventSchema("a ci or cd pipeline was triggered (1), succeeded (2), failed (3) or was blocked (6)",
+    [EVENT_TYPE.Trigger, EVENT_TYPE.Success, EVENT_TYPE.Fail, EVENT_TYPE.Blocked], ["correlationId", "pipelineType", "baseUrl"], PipelinePayload, pipelineType)
+const ImageScanEvent = eventSchema("an image was scanned (8)",
+    [EVENT_TYPE.ImageScan], ["correlationId", "pipelineType", "baseUrl"], ImageScanPayload, pipelineType)
+const ApprovalEvent = eventSchema("an image needs an approval to be deployed (4)",
+    [EVENT_TYPE.Approval], ["correlationId", "baseUrl"], ApprovalPayload)
+const ConfigApprovalEvent = eventSchema("a change of a protected config needs an approval (5)",
+    [EVENT_TYPE.ConfigApproval], ["correlationId", "baseUrl"], ConfigApprovalPayload)
+const ImagePromotionEvent = eventSchema("an image promotion needs an approval (7)",
+    [EVENT_TYPE.ImagePromotion], ["correlationId", "baseUrl"], ImagePromotionPayload)
+const ScoopNotificationEvent = eventSchema("a resource watched by a scoop watcher changed (9)",
+    [EVENT_TYPE.ScoopNotification], [], ScoopNotificationPayload)
+
+// the schema every event is checked against before the one of its event type
+export const EventEnvelopeSchema = {
+    type: "object",
+    required: ["eventTypeId"],
+    properties: {
+        eventTypeId: {type: "integer", enum: eventTypeIds},
+    },
+}
+
+export const EventSchemas: { [eventTypeId: number]: any } = {
+    [EVENT_TYPE.Trigger]: PipelineEvent,
+    [EVENT_TYPE.Success]: PipelineEvent,
+    [EVENT_TYPE.Fail]: PipelineEvent,
+    [EVENT_TYPE.Blocked]: PipelineEvent,
+    [EVENT_TYPE.ImageScan]: ImageScanEvent,
+    [EVENT_TYPE.Approval]: ApprovalEvent,
+    [EVENT_TYPE.ConfigApproval]: ConfigApprovalEvent,
+    [EVENT_TYPE.ImagePromotion]: ImagePromotionEvent,
+    [EVENT_TYPE.ScoopNotification]: ScoopNotificationEvent,
+}
+
+// named in the OpenAPI document, where they are referenced instead of being repeated
+export const EventSchemaComponents: { [name: string]: any } = {
+    Event: {anyOf: [PipelineEvent, ImageScanEvent, ApprovalEvent, ConfigApprovalEvent, ImagePromotionEvent, ScoopNotificationEvent]},
+    PipelineEvent: PipelineEvent,
+    ImageScanEvent: ImageScanEvent,
+    ApprovalEvent: ApprovalEvent,
+    ConfigApprovalEvent: ConfigApprovalEvent,
+    ImagePromotionEvent: ImagePromotionEvent,
+    ScoopNotificationEvent: ScoopNotificationEvent,
+    PipelinePayload: PipelinePayload,
+    ImageScanPayload: ImageScanPayload,
+    ApprovalPayload: ApprovalPayload,
+    ConfigApprovalPayload: ConfigApprovalPayload,
+    ImagePromotionPayload: ImagePromotionPayload,
+    ScoopNotificationPayload: ScoopNotificationPayload,
+    ScoopNotificationConfig: ScoopNotificationConfig,
+    MaterialTriggerInfo: MaterialTriggerInfo,
+    GitCommit: GitCommit,
+    CiMaterial: CiMaterial,
+    Provider: Provider,
+}
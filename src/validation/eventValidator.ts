@@ -0,0 +1,61 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Ajv, {ErrorObject, ValidateFunction} from "ajv";
+import {EventEnvelopeSchema, EventSchemas} from "./eventSchemas";
+import {EventValidationError, FieldError} from "../entities/events";
+import {Event} from "../notification/service/notificationService";
+
+// checks events against the schema of their event type when they are received, so that invalid events are
+// rejected with the fields at fault instead of failing while their templates are rendered
+export class EventValidator {
+    private envelope: ValidateFunction
+    private validators = new Map<number, ValidateFunction>()
+
+    constructor() {
+        const ajv = new Ajv({allErrors: true, strictTypes: false})
+        this.envelope = ajv.compile(EventEnvelopeSchema)
+        for (const [eventTypeId, schema] of Object.entries(EventSchemas)) {
+            this.validators.set(Number(eventTypeId), ajv.compile(schema))
+        }
+    }
+
+    public validate(event: any): Event {
+        if (!this.envelope(event)) {
+            throw new EventValidationError(toFieldErrors(this.envelope.errors))
+        }
+        const validate = this.validators.get((event as Event).eventTypeId)
+        if (!validate(event)) {
+            throw new EventValidationError(toFieldErrors(validate.errors))
+        }
+        return event as Event
+    }
+}
+
+function toFieldErrors(errors: ErrorObject[]): FieldError[] {
+    return errors.map(error => {
+        // /payload/material/ciMaterials/0/id becomes payload.material.ciMaterials[0].id
+        let field = error.instancePath.split("/").slice(1).reduce((path, segment) => /^\d+$/.test(segment) ? path + "[" + segment + "]" : (path ? path + "." : "") + segment, "")
+        if (error.keyword == "required") {
+            field = (field ? field + "." : "") + error.params.missingProperty
+            return {field: field, message: "is required"}
+        }
+        if (error.keyword == "enum") {
+            return {field: field, message: "must be one of " + error.params.allowedValues.map((value: any) => JSON.stringify(value)).join(", ")}
+        }
+        return {field: field, message: error.message}
+    })
+}
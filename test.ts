@@ -0,0 +1,73 @@
+/*
+ * Copyright (c) 2024. Devtron Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./src/tests/env";
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import {apiRoutes} from "./src/openapi/routes";
+import {generateSpec, specFile} from "./src/openapi/generateSpec";
+import {runTests} from "./src/tests/harness";
+
+// fails when the routes of src/server.ts and their definitions in src/openapi/routes.ts, or the definitions and
+// specs/api-spec.yaml, differ, or when one of the tests in src/tests fails
+const failures: string[] = []
+
+// the routes registered in server.ts along with the scope they are authorized with
+const server = fs.readFileSync(path.join(__dirname, "src", "server.ts"), "utf8")
+const registered = new Map<string, string>()
+for (const [, method, route, middlewares] of server.matchAll(/^app\.(get|post|put|delete)\('([^']+)',(.*)$/gm)) {
+    const auth = middlewares.match(/(authorize|authorizeIfEnabled)\(SCOPE\.(\w+)\)/)
+    registered.set(method + " " + route, auth ? auth[1] + " " + auth[2].toLowerCase() : "")
+}
+const defined = new Map<string, string>(apiRoutes.map(route => [
+    route.method + " " + route.path,
+    route.scope ? (route.optionalAuth ? "authorizeIfEnabled" : "authorize") + " " + route.scope : "",
+]))
+for (const [route, auth] of registered) {
+    if (!defined.has(route)) {
+        failures.push(route + " is served but not defined in src/openapi/routes.ts")
+    } else if (defined.get(route) != auth) {
+        failures.push(route + " is served with '" + auth + "' but defined with '" + defined.get(route) + "'")
+    }
+}
+for (const route of defined.keys()) {
+    if (!registered.has(route)) {
+        failures.push(route + " is defined in src/openapi/routes.ts but not served")
+    }
+}
+
+try {
+    assert.strictEqual(fs.readFileSync(specFile, "utf8"), generateSpec())
+} catch (error) {
+    failures.push("specs/api-spec.yaml is out of date, run npm run generate-openapi")
+}
+
+const testDir = path.join(__dirname, "src", "tests")
+const testFiles = fs.readdirSync(testDir).filter(file => file.endsWith(".test.ts")).sort()
+testFiles.forEach(file => require(path.join(testDir, file)))
+
+runTests().then(testFailures => {
+    failures.push(...testFailures)
+    if (failures.length) {
+        failures.forEach(failure => console.error("FAIL " + failure))
+        process.exit(1)
+    }
+    console.log("ok " + registered.size + " routes match their definitions and specs/api-spec.yaml")
+    console.log("ok the tests of " + testFiles.length + " files in src/tests passed")
+    // timers of the services under test, e.g. the shutdown of the tracing provider, don't keep the run alive
+    process.exit(0)
+})